@@ -1,16 +1,44 @@
 import { useCallback, useMemo, useState, useEffect, useRef } from 'react';
-import { ClippingPanel, DiagnosticsPanel, OverlayPanel, StatisticsPanel } from '@/lib/viewer-ui';
-import type { MeshStats } from '@/lib/viewer-ui';
-import { FileDropzone } from '../components/file-dropzone';
+import { ClippingPanel, DeviationPanel, DiagnosticsPanel, ExportMenu, InspectorPanel, MeasurementPanel, OverlayPanel, SceneOutliner, StatisticsPanel, UnitsPanel } from '@/lib/viewer-ui';
+import type { DeviationReport, MeasurementEntry, MeshExportOption, MeshStats, OutlinerEntry, SectionExportFormat, SliceMetrics } from '@/lib/viewer-ui';
+import { FileDropzone, MESH_FILE_ACCEPT, pickMeshFiles } from '../components/file-dropzone';
+import { LoadProgressOverlay } from '../components/load-progress';
 import { MeshViewer } from '../scenes/mesh-viewer';
-import { useViewerState } from '../hooks/use-viewer-state';
-import { quaternionToEulerDegrees } from '../utils/clipping';
+import { isIdentityTransform, useViewerState } from '../hooks/use-viewer-state';
+import { useMeshTopology } from '../hooks/use-mesh-topology';
+import { usePreferences } from '../hooks/use-preferences';
+import { quaternionToEulerDegrees, clippingToSlicePlanes } from '../utils/clipping';
+import { computeCrossSection, crossSectionToDxf, crossSectionToSvg } from '../utils/cross-section';
+import { downloadBlob } from '../utils/download';
+import { sceneTransformMatrix } from '../utils/scene-transform';
+import { evaluateMeasurement, formatMeasurementValue, MEASUREMENT_POINT_COUNT } from '../utils/measurement';
 import {
   loadMeshAsset,
+  loadMeshFromUrl,
   computeMeshStats,
   bootstrapEmbindBridge,
+  sliceMeshByPlanes,
+  applySliceResult,
+  computeMeshDeviation,
+  transformVertices,
+  scaleMeshStats,
+  displayUnitConversion,
+  inspectFace,
+  inspectVertex,
+  formatMeasure,
+  getFileBaseName,
+  exportMesh,
+  MESH_EXPORT_FILE_TYPES,
+  DEVIATION_COLOR_STOPS,
+  MAX_CLIPPING_PLANES,
   type MeshCoreBridge,
-  type MeshCoreCapabilities
+  type MeshCoreCapabilities,
+  type MeshCoreEmbindModule,
+  type MeshLoaderOptions,
+  type MeshLoadResult,
+  type DeviationMesh,
+  type DeviationStats,
+  type SceneAsset
 } from '@/lib/mesh-core-adapter';
 
 /** Toast notification state */
@@ -20,21 +48,74 @@ interface ToastState {
   visible: boolean;
 }
 
+/** Asset geometry in scene coordinates (its placement applied) */
+function toSceneGeometry({ asset, transform }: SceneAsset): DeviationMesh {
+  const { vertexView, indexView } = asset.buffers;
+  return {
+    vertexView: isIdentityTransform(transform)
+      ? vertexView
+      : transformVertices(vertexView, sceneTransformMatrix(transform).elements),
+    indexView
+  };
+}
+
+/** Resolves once the browser has painted the current frame */
+function afterNextPaint(): Promise<void> {
+  return new Promise((resolve) => requestAnimationFrame(() => setTimeout(resolve, 0)));
+}
+
 export function App() {
   const status = useViewerState((s) => s.status);
   const error = useViewerState((s) => s.error);
   const asset = useViewerState((s) => s.asset);
+  const assets = useViewerState((s) => s.assets);
+  const activeAssetId = useViewerState((s) => s.activeAssetId);
   const overlays = useViewerState((s) => s.overlays);
   const clipping = useViewerState((s) => s.clipping);
   const isApplyingClipping = useViewerState((s) => s.isApplyingClipping);
   const startLoading = useViewerState((s) => s.startLoading);
+  const loadProgress = useViewerState((s) => s.loadProgress);
+  const setLoadProgress = useViewerState((s) => s.setLoadProgress);
+  const cancelLoading = useViewerState((s) => s.cancelLoading);
   const setReady = useViewerState((s) => s.setReady);
+  const replaceAsset = useViewerState((s) => s.replaceAsset);
+  const selectAsset = useViewerState((s) => s.selectAsset);
+  const setAssetVisible = useViewerState((s) => s.setAssetVisible);
+  const setAssetColor = useViewerState((s) => s.setAssetColor);
+  const setAssetTransform = useViewerState((s) => s.setAssetTransform);
+  const setAssetUnits = useViewerState((s) => s.setAssetUnits);
+  const removeAsset = useViewerState((s) => s.removeAsset);
   const setError = useViewerState((s) => s.setError);
   const resetView = useViewerState((s) => s.resetView);
   const toggleOverlay = useViewerState((s) => s.toggleOverlay);
   const setClipping = useViewerState((s) => s.setClipping);
   const toggleClipping = useViewerState((s) => s.toggleClipping);
+  const addClippingPlane = useViewerState((s) => s.addClippingPlane);
+  const updateClippingPlane = useViewerState((s) => s.updateClippingPlane);
+  const removeClippingPlane = useViewerState((s) => s.removeClippingPlane);
   const setApplyingClipping = useViewerState((s) => s.setApplyingClipping);
+  const diffuseTexture = useViewerState((s) => s.diffuseTexture);
+  const setDiffuseTexture = useViewerState((s) => s.setDiffuseTexture);
+  const deviation = useViewerState((s) => s.deviation);
+  const setDeviation = useViewerState((s) => s.setDeviation);
+  const topologyHighlight = useViewerState((s) => s.topologyHighlight);
+  const setTopologyHighlight = useViewerState((s) => s.setTopologyHighlight);
+  const measureTool = useViewerState((s) => s.measureTool);
+  const measurements = useViewerState((s) => s.measurements);
+  const setMeasureTool = useViewerState((s) => s.setMeasureTool);
+  const renameMeasurement = useViewerState((s) => s.renameMeasurement);
+  const removeMeasurement = useViewerState((s) => s.removeMeasurement);
+  const clearMeasurements = useViewerState((s) => s.clearMeasurements);
+  const pickTarget = useViewerState((s) => s.pickTarget);
+  const picked = useViewerState((s) => s.picked);
+  const setPickTarget = useViewerState((s) => s.setPickTarget);
+  const setPicked = useViewerState((s) => s.setPicked);
+  const importUnits = usePreferences((s) => s.units);
+  const importUpAxis = usePreferences((s) => s.upAxis);
+  const displayUnits = usePreferences((s) => s.displayUnits);
+  const setImportUnits = usePreferences((s) => s.setUnits);
+  const setImportUpAxis = usePreferences((s) => s.setUpAxis);
+  const setDisplayUnits = usePreferences((s) => s.setDisplayUnits);
 
   // Toast state
   const [toast, setToast] = useState<ToastState>({ message: '', type: 'success', visible: false });
@@ -52,6 +133,7 @@ export function App() {
 
   // Core WASM bridge state
   const bridgeRef = useRef<MeshCoreBridge | null>(null);
+  const moduleRef = useRef<MeshCoreEmbindModule | null>(null);
   const capabilitiesRef = useRef<MeshCoreCapabilities>({
     binaryPlyEnabled: false,
     wasmVersion: '0.0.0-loading'
@@ -64,9 +146,10 @@ export function App() {
     let cancelled = false;
 
     bootstrapEmbindBridge(import.meta.env.DEV ? '/core' : '/mesh_viewer_demo/core')
-      .then(({ bridge, capabilities }) => {
+      .then(({ bridge, capabilities, module }) => {
         if (cancelled) return;
         bridgeRef.current = bridge;
+        moduleRef.current = module;
         capabilitiesRef.current = capabilities;
         setCoreReady(true);
         console.log('[App] Core WASM loaded:', capabilities);
@@ -82,21 +165,75 @@ export function App() {
     };
   }, []);
 
+  // Cancels the running load (also when the app unmounts)
+  const loadAbortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => loadAbortRef.current?.abort(), []);
+
+  const handleCancelLoad = useCallback(() => {
+    loadAbortRef.current?.abort();
+  }, []);
+
   // Statistics state
   const [stats, setStats] = useState<MeshStats | null>(null);
   const [statsUpdatedAt, setStatsUpdatedAt] = useState<number | null>(null);
+  const [sliceMetrics, setSliceMetrics] = useState<SliceMetrics | null>(null);
+  const topology = useMeshTopology(asset?.buffers);
 
-  // Recompute statistics only when activeAssetId changes
+  // Recompute statistics only when the asset or its buffer generation changes
   useEffect(() => {
     if (asset && asset.buffers) {
-      const computed = computeMeshStats(asset.buffers);
+      const computed = asset.stats ?? computeMeshStats(asset.buffers);
       setStats(computed);
       setStatsUpdatedAt(Date.now());
     } else {
       setStats(null);
       setStatsUpdatedAt(null);
     }
-  }, [asset?.id]); // Recompute only when asset.id changes
+  }, [asset?.id, asset?.buffers.generation]); // Recompute only when asset.id or generation changes
+
+  // Measurements of the selected mesh in the display unit
+  const measure = useMemo(() => displayUnitConversion(asset?.units, displayUnits), [asset?.units, displayUnits]);
+  const displayStats = useMemo(
+    () => stats && scaleMeshStats({ ...stats, isClosed: topology?.isWatertight }, measure.factor),
+    [stats, measure, topology]
+  );
+
+  // Inspector details of the picked element (one scan of the mesh per pick)
+  const pickedEntry = useMemo(
+    () => (picked ? assets.find((entry) => entry.asset.id === picked.assetId) ?? null : null),
+    [picked, assets]
+  );
+  const pickedBuffers = pickedEntry?.asset.buffers;
+  const inspection = useMemo(() => {
+    if (!picked || !pickedBuffers) {
+      return { face: null, vertex: null };
+    }
+    return picked.target === 'face'
+      ? { face: inspectFace(pickedBuffers, picked.index), vertex: null }
+      : { face: null, vertex: inspectVertex(pickedBuffers, picked.index) };
+  }, [picked, pickedBuffers]);
+
+  // Measurements in the display unit of the mesh their first point was picked on
+  const measurementEntries = useMemo<MeasurementEntry[]>(
+    () =>
+      measurements.map((measurement) => {
+        const units = assets.find((entry) => entry.asset.id === measurement.points[0]?.assetId)?.asset.units;
+        const { factor, unit } = displayUnitConversion(units, displayUnits);
+        return {
+          id: measurement.id,
+          kind: measurement.kind,
+          label: measurement.label,
+          ...formatMeasurementValue(evaluateMeasurement(measurement), factor, unit)
+        };
+      }),
+    [measurements, assets, displayUnits]
+  );
+
+  // Slice metrics belong to the asset they were measured on
+  useEffect(() => {
+    setSliceMetrics(null);
+  }, [asset?.id]);
 
   const logs = useMemo(
     () => [
@@ -107,8 +244,9 @@ export function App() {
     [status, coreReady, coreError]
   );
 
-  const handleFileSelected = useCallback(
-    async (file: File) => {
+  /** Runs a load with progress and cancellation, then updates the viewer state */
+  const runLoad = useCallback(
+    async (load: (options: MeshLoaderOptions) => Promise<MeshLoadResult>) => {
       if (!bridgeRef.current) {
         setError({
           code: 'Core.not_ready',
@@ -117,16 +255,43 @@ export function App() {
         return;
       }
 
+      loadAbortRef.current?.abort();
+      const controller = new AbortController();
+      loadAbortRef.current = controller;
       startLoading();
 
       try {
-        const result = await loadMeshAsset(file, {
+        const result = await load({
           bridge: bridgeRef.current,
-          capabilities: capabilitiesRef.current
+          capabilities: capabilitiesRef.current,
+          onProgress: setLoadProgress,
+          signal: controller.signal,
+          units: importUnits,
+          upAxis: importUpAxis
         });
 
         if (result.status === 'success' && result.asset) {
+          // Let the upload phase paint before geometry creation blocks the main thread
+          const { fileSizeBytes } = result.asset;
+          setLoadProgress({ phase: 'upload', bytesRead: fileSizeBytes, totalBytes: fileSizeBytes });
+          await afterNextPaint();
+          if (loadAbortRef.current !== controller || controller.signal.aborted) {
+            // Superseded or cancelled while painting: the asset never reaches the scene
+            result.asset.buffers.release();
+            if (loadAbortRef.current === controller) {
+              cancelLoading();
+              showToast('Load cancelled', 'warning');
+            }
+            return;
+          }
           setReady(result.asset);
+        } else if (result.error?.code === 'E_ABORTED') {
+          // Superseded by a newer load: that one owns the loading state now
+          if (loadAbortRef.current !== controller) {
+            return;
+          }
+          cancelLoading();
+          showToast('Load cancelled', 'warning');
         } else if (result.status === 'error' && result.error) {
           setError({
             code: result.error.code,
@@ -143,29 +308,207 @@ export function App() {
           code: 'Core.parse_failed',
           message: (err as Error).message ?? 'Unknown error'
         });
+      } finally {
+        if (loadAbortRef.current === controller) {
+          loadAbortRef.current = null;
+        }
       }
     },
-    [startLoading, setReady, setError]
+    [startLoading, setLoadProgress, setReady, cancelLoading, setError, showToast, importUnits, importUpAxis]
+  );
+
+  const handleFileSelected = useCallback(
+    (file: File, companions: File[] = []) =>
+      runLoad((options) => loadMeshAsset(file, { ...options, companionFiles: companions })),
+    [runLoad]
+  );
+
+  // `?model=<url>` loads a mesh on startup (shareable links)
+  useEffect(() => {
+    if (!coreReady) return;
+    const modelUrl = new URLSearchParams(window.location.search).get('model');
+    if (modelUrl) {
+      void runLoad((options) => loadMeshFromUrl(modelUrl, options));
+    }
+  }, [coreReady]); // Only once the core is ready; later loads come from the dropzone
+
+  // "+ Add mesh" in the outliner loads another mesh next to the current ones
+  const addInputRef = useRef<HTMLInputElement>(null);
+
+  const handleAddFiles = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+    const picked = pickMeshFiles(Array.from(e.target.files ?? []));
+    // Reset so the same file can be added twice
+    e.target.value = '';
+    if (picked) {
+      void handleFileSelected(picked.file, picked.companions);
+    }
+  }, [handleFileSelected]);
+
+  const outlinerEntries = useMemo<OutlinerEntry[]>(
+    () =>
+      assets.map((entry) => ({
+        id: entry.asset.id,
+        name: entry.asset.fileName,
+        visible: entry.visible,
+        color: entry.color,
+        transform: entry.transform,
+        triangleCount: entry.asset.buffers.indexView.length / 3
+      })),
+    [assets]
   );
 
+  // The selected asset must sit at its own coordinates for cuts and section exports
+  const selectedMoved = useMemo(() => {
+    const entry = assets.find((candidate) => candidate.asset.id === activeAssetId);
+    return !!entry && !isIdentityTransform(entry.transform);
+  }, [assets, activeAssetId]);
+
+  // Mesh comparison (deviation heatmap on the compared mesh)
+  const [isComparing, setIsComparing] = useState(false);
+
+  const handleCompare = useCallback(async (sourceId: string, targetId: string) => {
+    const source = assets.find((entry) => entry.asset.id === sourceId);
+    const target = assets.find((entry) => entry.asset.id === targetId);
+    if (!source || !target || isComparing) {
+      return;
+    }
+
+    setIsComparing(true);
+    // Let the button state paint before the comparison blocks the main thread
+    await afterNextPaint();
+
+    try {
+      // Compared as placed in the scene, so meshes can be aligned by hand first
+      const result = computeMeshDeviation(toSceneGeometry(source), toSceneGeometry(target));
+      const maxDistance = Number.isFinite(result.hausdorff.aToB) ? result.hausdorff.aToB : 0;
+      setDeviation({ sourceId, targetId, result, maxDistance });
+      showToast(`📏 Hausdorff distance: ${result.hausdorff.symmetric.toFixed(4)}`, 'success');
+    } catch (err) {
+      showToast(`❌ Comparison failed: ${(err as Error).message}`, 'error');
+    } finally {
+      setIsComparing(false);
+    }
+  }, [assets, isComparing, setDeviation, showToast]);
+
+  // Deviation distances are shown in the display unit of the compared mesh
+  const deviationMeasure = useMemo(
+    () => displayUnitConversion(assets.find((entry) => entry.asset.id === deviation?.sourceId)?.asset.units, displayUnits),
+    [assets, deviation?.sourceId, displayUnits]
+  );
+
+  const handleLegendMaxChange = useCallback((maxDistance: number) => {
+    if (deviation) {
+      setDeviation({ ...deviation, maxDistance: maxDistance / deviationMeasure.factor });
+    }
+  }, [deviation, deviationMeasure, setDeviation]);
+
+  const deviationMeshes = useMemo(
+    () => outlinerEntries.map(({ id, name }) => ({ id, name })),
+    [outlinerEntries]
+  );
+
+  const deviationReport = useMemo<DeviationReport | null>(() => {
+    if (!deviation) {
+      return null;
+    }
+    const { factor } = deviationMeasure;
+    const { aToB, bToA, hausdorff } = deviation.result;
+    const scale = ({ min, max, mean, rms }: DeviationStats) => ({
+      min: min * factor,
+      max: max * factor,
+      mean: mean * factor,
+      rms: rms * factor
+    });
+    return {
+      sourceId: deviation.sourceId,
+      targetId: deviation.targetId,
+      aToB: scale(aToB),
+      bToA: scale(bToA),
+      hausdorff: {
+        aToB: hausdorff.aToB * factor,
+        bToA: hausdorff.bToA * factor,
+        symmetric: hausdorff.symmetric * factor
+      }
+    };
+  }, [deviation, deviationMeasure]);
+
+  // Dropping an image onto a loaded mesh uses it as the diffuse texture; dropping a mesh adds it to the scene
+  const handleViewerDragOver = useCallback((e: React.DragEvent) => {
+    if (status === 'Ready') {
+      e.preventDefault();
+    }
+  }, [status]);
+
+  const handleViewerDrop = useCallback(async (e: React.DragEvent) => {
+    if (status !== 'Ready') {
+      return;
+    }
+    e.preventDefault();
+
+    const files = Array.from(e.dataTransfer?.files ?? []);
+    const image = files.find((file) => file.type.startsWith('image/'));
+    if (!image) {
+      const picked = pickMeshFiles(files);
+      if (picked) {
+        void handleFileSelected(picked.file, picked.companions);
+      }
+      return;
+    }
+    if (!asset?.buffers.uvView) {
+      showToast('This mesh has no texture coordinates', 'warning');
+      return;
+    }
+
+    try {
+      setDiffuseTexture({ fileName: image.name, mimeType: image.type, data: await image.arrayBuffer() });
+      showToast(`Texture applied: ${image.name}`);
+    } catch (err) {
+      showToast(`Failed to read image: ${(err as Error).message}`, 'error');
+    }
+  }, [status, asset, setDiffuseTexture, showToast, handleFileSelected]);
+
   // Clipping apply handler
   const handleApplyClipping = useCallback(async () => {
     if (!asset || !clipping.enabled || isApplyingClipping) {
       return;
     }
+    if (selectedMoved) {
+      showToast('⚠️ Reset the placement of the selected mesh before applying a cut', 'warning');
+      return;
+    }
 
     setApplyingClipping(true);
 
     try {
-      // TODO: Implement actual sliceMesh call
-      // Will be integrated after WASM build
-      // const result = await sliceMesh(module, asset.buffers, plane);
-      
-      console.log('[App] Apply clipping:', clipping);
-      
-      // Temporary success simulation (0.5s delay)
-      await new Promise((resolve) => setTimeout(resolve, 500));
-      
+      if (clipping.combine === 'union' && (clipping.mode === 'box' || clipping.planes?.some((entry) => entry.enabled))) {
+        throw new Error('Slice.Unsupported: A union of clipping planes cannot be applied as a cut');
+      }
+
+      const { bbox } = asset.stats ?? computeMeshStats(asset.buffers);
+      const planes = clippingToSlicePlanes(clipping, {
+        min: { x: bbox.min[0], y: bbox.min[1], z: bbox.min[2] },
+        max: { x: bbox.max[0], y: bbox.max[1], z: bbox.max[2] }
+      });
+
+      console.log('[App] Apply clipping:', clipping, planes);
+
+      const result = await sliceMeshByPlanes(
+        moduleRef.current,
+        { vertices: asset.buffers.vertexView, indices: asset.buffers.indexView },
+        planes,
+        { capCut: clipping.capCut }
+      );
+
+      if (!result.success || !result.mesh) {
+        throw new Error(result.error ?? 'Slice.Failed: Unknown error');
+      }
+
+      replaceAsset(applySliceResult(asset, result.mesh));
+      setSliceMetrics({
+        exactFallbackCount: result.exactFallbackCount,
+        exactFallbackRatio: result.exactFallbackRatio
+      });
+
       showToast('✂️ Clipping applied', 'success');
       
     } catch (err) {
@@ -179,7 +522,55 @@ export function App() {
     } finally {
       setApplyingClipping(false);
     }
-  }, [asset, clipping, isApplyingClipping, setApplyingClipping, showToast]);
+  }, [asset, clipping, isApplyingClipping, selectedMoved, setApplyingClipping, replaceAsset, showToast]);
+
+  // Cross-section export (contour at the current clipping plane)
+  const handleExportSection = useCallback((format: SectionExportFormat) => {
+    if (!asset || !clipping.enabled) {
+      return;
+    }
+    if (selectedMoved) {
+      showToast('⚠️ Reset the placement of the selected mesh before exporting a section', 'warning');
+      return;
+    }
+
+    const { bbox } = asset.stats ?? computeMeshStats(asset.buffers);
+    const section = computeCrossSection(asset.buffers.vertexView, asset.buffers.indexView, clipping, {
+      min: { x: bbox.min[0], y: bbox.min[1], z: bbox.min[2] },
+      max: { x: bbox.max[0], y: bbox.max[1], z: bbox.max[2] }
+    });
+
+    if (section.loops.length === 0) {
+      showToast('⚠️ The plane does not intersect the mesh', 'warning');
+      return;
+    }
+
+    const content = format === 'svg' ? crossSectionToSvg(section) : crossSectionToDxf(section);
+    const type = format === 'svg' ? 'image/svg+xml' : 'application/dxf';
+    downloadBlob(new Blob([content], { type }), `${getFileBaseName(asset.fileName)}-section.${format}`);
+
+    const { factor, unit } = measure;
+    showToast(
+      `📐 Section exported: ${section.loops.length} loop(s), area ${formatMeasure(section.totalArea * factor ** 2, unit, 2)}, perimeter ${formatMeasure(section.totalPerimeter * factor, unit)}`,
+      'success'
+    );
+  }, [asset, clipping, measure, selectedMoved, showToast]);
+
+  // Downloads the selected mesh's buffers as loaded or sliced (placement not applied)
+  const handleExportMesh = useCallback((format: MeshExportOption) => {
+    if (!asset) {
+      return;
+    }
+    const name = getFileBaseName(asset.fileName);
+    const { extension, mimeType } = MESH_EXPORT_FILE_TYPES[format];
+    try {
+      const data = exportMesh(asset.buffers, format, name);
+      downloadBlob(new Blob([data], { type: mimeType }), `${name}.${extension}`);
+      showToast(`💾 Exported ${name}.${extension} (${(data.byteLength / 1024 / 1024).toFixed(2)} MB)`, 'success');
+    } catch (error) {
+      showToast(`❌ Export failed: ${(error as Error).message}`, 'error');
+    }
+  }, [asset, showToast]);
 
   return (
     <div className="app-shell">
@@ -189,6 +580,12 @@ export function App() {
           <span className={`status-badge status-${status.toLowerCase()}`}>
             {status}
           </span>
+          {status === 'Ready' && diffuseTexture && (
+            <button type="button" onClick={() => setDiffuseTexture(null)} className="btn-reset" title={diffuseTexture.fileName}>
+              Remove Texture
+            </button>
+          )}
+          {status === 'Ready' && <ExportMenu meshName={asset?.fileName} onExport={handleExportMesh} />}
           {status === 'Ready' && (
             <button type="button" onClick={resetView} className="btn-reset">
               Reset View
@@ -198,8 +595,13 @@ export function App() {
       </header>
 
       <main>
-        <section className="viewer-container">
+        <section className="viewer-container" onDragOver={handleViewerDragOver} onDrop={handleViewerDrop}>
           <MeshViewer />
+          {status === 'Loading' && (
+            <div className="dropzone-overlay">
+              <LoadProgressOverlay progress={loadProgress} onCancel={handleCancelLoad} />
+            </div>
+          )}
           {status === 'Idle' && (
             <div className="dropzone-overlay">
               {coreError ? (
@@ -225,9 +627,73 @@ export function App() {
         )}
 
         <aside className="sidebar">
+          <SceneOutliner
+            entries={outlinerEntries}
+            selectedId={activeAssetId}
+            onSelect={selectAsset}
+            onVisibleChange={setAssetVisible}
+            onColorChange={setAssetColor}
+            onTransformChange={setAssetTransform}
+            onRemove={removeAsset}
+            onAdd={coreReady ? () => addInputRef.current?.click() : undefined}
+            disabled={status === 'Loading'}
+          />
+          <input
+            ref={addInputRef}
+            type="file"
+            accept={MESH_FILE_ACCEPT}
+            multiple
+            onChange={handleAddFiles}
+            style={{ display: 'none' }}
+          />
+          <UnitsPanel
+            importUnits={importUnits}
+            importUpAxis={importUpAxis}
+            onImportUnitsChange={setImportUnits}
+            onImportUpAxisChange={setImportUpAxis}
+            displayUnits={displayUnits}
+            onDisplayUnitsChange={setDisplayUnits}
+            mesh={
+              asset?.units && asset.upAxis
+                ? { name: asset.fileName, units: asset.units, upAxis: asset.upAxis }
+                : null
+            }
+            onMeshUnitsChange={(units) => asset && setAssetUnits(asset.id, { units })}
+            onMeshUpAxisChange={(upAxis) => asset && setAssetUnits(asset.id, { upAxis })}
+          />
+          <MeasurementPanel
+            enabled={measureTool.enabled}
+            onEnabledChange={(enabled) => setMeasureTool({ enabled })}
+            tool={measureTool.kind}
+            onToolChange={(kind) => setMeasureTool({ kind })}
+            snap={measureTool.snap}
+            onSnapChange={(snap) => setMeasureTool({ snap })}
+            pendingCount={measureTool.pending.length}
+            requiredCount={MEASUREMENT_POINT_COUNT[measureTool.kind]}
+            entries={measurementEntries}
+            onRename={renameMeasurement}
+            onRemove={removeMeasurement}
+            onClear={clearMeasurements}
+            hasMesh={status === 'Ready' && assets.length > 0}
+          />
+          <InspectorPanel
+            target={pickTarget}
+            onTargetChange={setPickTarget}
+            meshName={pickedEntry?.asset.fileName}
+            face={inspection.face}
+            vertex={inspection.vertex}
+            unit={pickedEntry?.asset.units}
+            onPickFace={(index) => picked && setPicked({ assetId: picked.assetId, target: 'face', index })}
+            onPickVertex={(index) => picked && setPicked({ assetId: picked.assetId, target: 'vertex', index })}
+            onClear={() => setPicked(null)}
+          />
           <OverlayPanel
             overlays={overlays}
             onToggle={toggleOverlay}
+            unavailable={[
+              ...(asset?.buffers.colorView ? [] : ['vertexColors' as const]),
+              ...(asset?.buffers.uvView ? [] : ['uvChecker' as const])
+            ]}
           />
           <ClippingPanel
             clipping={clipping}
@@ -237,10 +703,32 @@ export function App() {
             isApplying={isApplyingClipping}
             hasMesh={status === 'Ready' && !!asset}
             eulerDegrees={clipping.mode === 'free' ? quaternionToEulerDegrees(clipping.quaternion) : undefined}
+            onExportSection={handleExportSection}
+            onAddPlane={addClippingPlane}
+            onUpdatePlane={updateClippingPlane}
+            onRemovePlane={removeClippingPlane}
+            maxPlanes={MAX_CLIPPING_PLANES}
+          />
+          <DeviationPanel
+            meshes={deviationMeshes}
+            defaultSourceId={activeAssetId}
+            report={deviationReport}
+            colorStops={DEVIATION_COLOR_STOPS}
+            legendMax={(deviation?.maxDistance ?? 0) * deviationMeasure.factor}
+            onLegendMaxChange={handleLegendMaxChange}
+            onCompare={handleCompare}
+            onClear={() => setDeviation(null)}
+            isComputing={isComparing}
+            unit={deviationMeasure.unit}
           />
           <StatisticsPanel
-            stats={stats}
+            stats={displayStats}
             updatedAt={statsUpdatedAt}
+            sliceMetrics={sliceMetrics}
+            topology={topology}
+            topologyHighlight={topologyHighlight}
+            onTopologyHighlight={setTopologyHighlight}
+            unit={measure.unit}
           />
           <DiagnosticsPanel>
             <ul>
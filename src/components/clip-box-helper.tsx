@@ -0,0 +1,195 @@
+/**
+ * Clip Box Helper Component
+ *
+ * Displays the clip box outline with a draggable handle on each face.
+ *
+ * @module components/ClipBoxHelper
+ */
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import * as THREE from 'three';
+import { useThree, type ThreeEvent } from '@react-three/fiber';
+import type { ClipBoxState } from '@/lib/mesh-core-adapter';
+import type { BoundingBox } from '../utils/clipping';
+
+export interface ClipBoxHelperProps {
+  /** Clip box extents (0~100% per axis) */
+  box: ClipBoxState;
+  /** Mesh bounding box */
+  bbox: BoundingBox;
+  /** Box change callback (face dragged) */
+  onChange: (box: ClipBoxState) => void;
+}
+
+interface FaceHandle {
+  axisIndex: number;
+  bound: 'min' | 'max';
+  position: THREE.Vector3;
+}
+
+interface DragState {
+  handle: FaceHandle;
+  plane: THREE.Plane;
+}
+
+const AXIS_KEYS = ['x', 'y', 'z'] as const;
+
+/**
+ * Clip Box Helper
+ *
+ * - Outline: #60A5FA (blue-400)
+ * - Face handles: spheres sized 3% of the bbox diagonal, dragged along the face normal
+ * - Orbit controls are paused while a face is dragged
+ */
+export function ClipBoxHelper({ box, bbox, onChange }: ClipBoxHelperProps) {
+  const camera = useThree((state) => state.camera);
+  const controls = useThree((state) => state.controls);
+  const dragRef = useRef<DragState | null>(null);
+  const [hovered, setHovered] = useState<string | null>(null);
+
+  // World-space box corners
+  const { min, max } = useMemo(() => {
+    const lo = new THREE.Vector3();
+    const hi = new THREE.Vector3();
+    AXIS_KEYS.forEach((key, i) => {
+      const range = bbox.max[key] - bbox.min[key];
+      lo.setComponent(i, bbox.min[key] + (box.min[i] / 100) * range);
+      hi.setComponent(i, bbox.min[key] + (box.max[i] / 100) * range);
+    });
+    return { min: lo, max: hi };
+  }, [box, bbox]);
+
+  const handleRadius = useMemo(() => {
+    return new THREE.Vector3(
+      bbox.max.x - bbox.min.x,
+      bbox.max.y - bbox.min.y,
+      bbox.max.z - bbox.min.z
+    ).length() * 0.03;
+  }, [bbox]);
+
+  // Outline geometry
+  const edgeGeometry = useMemo(() => {
+    const size = new THREE.Vector3().subVectors(max, min);
+    const boxGeometry = new THREE.BoxGeometry(
+      Math.max(size.x, 1e-6),
+      Math.max(size.y, 1e-6),
+      Math.max(size.z, 1e-6)
+    );
+    const edges = new THREE.EdgesGeometry(boxGeometry);
+    boxGeometry.dispose();
+    return edges;
+  }, [min, max]);
+
+  const center = useMemo(() => new THREE.Vector3().addVectors(min, max).multiplyScalar(0.5), [min, max]);
+
+  // One handle at the center of each face
+  const handles = useMemo<FaceHandle[]>(() => {
+    const list: FaceHandle[] = [];
+    for (let axisIndex = 0; axisIndex < 3; axisIndex++) {
+      for (const bound of ['min', 'max'] as const) {
+        const position = center.clone();
+        position.setComponent(axisIndex, (bound === 'min' ? min : max).getComponent(axisIndex));
+        list.push({ axisIndex, bound, position });
+      }
+    }
+    return list;
+  }, [center, min, max]);
+
+  const handleGeometry = useMemo(() => new THREE.SphereGeometry(handleRadius, 16, 12), [handleRadius]);
+
+  const edgeMaterial = useMemo(() => new THREE.LineBasicMaterial({ color: 0x60a5fa }), []);
+  const handleMaterial = useMemo(() => new THREE.MeshBasicMaterial({ color: 0x3b82f6 }), []);
+  const hoverMaterial = useMemo(() => new THREE.MeshBasicMaterial({ color: 0xf59e0b }), []);
+
+  // Cleanup
+  useEffect(() => () => edgeGeometry.dispose(), [edgeGeometry]);
+  useEffect(() => () => handleGeometry.dispose(), [handleGeometry]);
+  useEffect(() => {
+    return () => {
+      edgeMaterial.dispose();
+      handleMaterial.dispose();
+      hoverMaterial.dispose();
+    };
+  }, [edgeMaterial, handleMaterial, hoverMaterial]);
+
+  const setControlsEnabled = (enabled: boolean) => {
+    if (controls) {
+      (controls as any).enabled = enabled;
+    }
+  };
+
+  const handlePointerDown = (handle: FaceHandle) => (e: ThreeEvent<PointerEvent>) => {
+    e.stopPropagation();
+    (e.target as Element).setPointerCapture?.(e.pointerId);
+
+    // Drag plane: contains the face normal axis and faces the camera
+    const axis = new THREE.Vector3().setComponent(handle.axisIndex, 1);
+    const toCamera = new THREE.Vector3().subVectors(camera.position, handle.position);
+    const normal = toCamera.addScaledVector(axis, -toCamera.dot(axis));
+    if (normal.lengthSq() < 1e-12) {
+      normal.set(1, 1, 1).setComponent(handle.axisIndex, 0);
+    }
+    normal.normalize();
+
+    dragRef.current = {
+      handle,
+      plane: new THREE.Plane().setFromNormalAndCoplanarPoint(normal, handle.position)
+    };
+    setControlsEnabled(false);
+  };
+
+  const handlePointerMove = (e: ThreeEvent<PointerEvent>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    e.stopPropagation();
+
+    const hit = e.ray.intersectPlane(drag.plane, new THREE.Vector3());
+    if (!hit) return;
+
+    const { axisIndex, bound } = drag.handle;
+    const key = AXIS_KEYS[axisIndex];
+    const range = bbox.max[key] - bbox.min[key];
+    if (range <= 0) return;
+
+    const percent = Math.max(0, Math.min(100, ((hit.getComponent(axisIndex) - bbox.min[key]) / range) * 100));
+    const nextMin = [...box.min] as [number, number, number];
+    const nextMax = [...box.max] as [number, number, number];
+    // Faces may meet but never cross
+    if (bound === 'min') {
+      nextMin[axisIndex] = Math.min(percent, nextMax[axisIndex]);
+    } else {
+      nextMax[axisIndex] = Math.max(percent, nextMin[axisIndex]);
+    }
+    onChange({ min: nextMin, max: nextMax });
+  };
+
+  const handlePointerUp = (e: ThreeEvent<PointerEvent>) => {
+    if (!dragRef.current) return;
+    e.stopPropagation();
+    (e.target as Element).releasePointerCapture?.(e.pointerId);
+    dragRef.current = null;
+    setControlsEnabled(true);
+  };
+
+  return (
+    <group>
+      <lineSegments position={center} geometry={edgeGeometry} material={edgeMaterial} />
+      {handles.map((handle) => {
+        const key = `${AXIS_KEYS[handle.axisIndex]}-${handle.bound}`;
+        return (
+          <mesh
+            key={key}
+            position={handle.position}
+            geometry={handleGeometry}
+            material={hovered === key ? hoverMaterial : handleMaterial}
+            onPointerDown={handlePointerDown(handle)}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerOver={() => setHovered(key)}
+            onPointerOut={() => setHovered(null)}
+          />
+        );
+      })}
+    </group>
+  );
+}
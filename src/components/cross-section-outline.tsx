@@ -0,0 +1,82 @@
+/**
+ * Cross-Section Outline Component
+ *
+ * Draws the contour where the clipping plane intersects the mesh.
+ *
+ * @module components/CrossSectionOutline
+ */
+
+import { useEffect, useMemo } from 'react';
+import * as THREE from 'three';
+import type { ClippingState, MeshBuffers } from '@/lib/mesh-core-adapter';
+import { peekMeshBvh, trianglesNearPlane } from '@/lib/mesh-core-adapter';
+import type { BoundingBox } from '../utils/clipping';
+import { computeCrossSection } from '../utils/cross-section';
+
+export interface CrossSectionOutlineProps {
+  /** Mesh buffers */
+  buffers: MeshBuffers;
+  /** Clipping state */
+  clipping: ClippingState;
+  /** Mesh bounding box */
+  bbox: BoundingBox;
+}
+
+/**
+ * Cross-Section Outline
+ *
+ * - Color: #F97316 (orange-500), drawn on top of the mesh
+ * - Closed loops as line loops, open chains as line strips
+ */
+export function CrossSectionOutline({ buffers, clipping, bbox }: CrossSectionOutlineProps) {
+  const section = useMemo(
+    () => {
+      // Only faces near the plane are visited once the mesh's BVH has been built
+      const bvh = peekMeshBvh(buffers);
+      return computeCrossSection(buffers.vertexView, buffers.indexView, clipping, bbox, {
+        candidates: bvh && ((plane, tolerance) => trianglesNearPlane(bvh, plane.normal.toArray(), plane.constant, tolerance))
+      });
+    },
+    [buffers, clipping, bbox]
+  );
+
+  const material = useMemo(() => {
+    return new THREE.LineBasicMaterial({
+      color: 0xf97316,
+      depthTest: false,
+      transparent: true
+    });
+  }, []);
+
+  // THREE.Line is built directly: the <line> intrinsic collides with SVG's
+  const lines = useMemo(() => {
+    return section.loops.map((loop) => {
+      const geometry = new THREE.BufferGeometry();
+      geometry.setAttribute('position', new THREE.BufferAttribute(loop.worldPoints, 3));
+      const line = loop.closed
+        ? new THREE.LineLoop(geometry, material)
+        : new THREE.Line(geometry, material);
+      line.renderOrder = 1;
+      return line;
+    });
+  }, [section, material]);
+
+  // Cleanup
+  useEffect(() => {
+    return () => {
+      lines.forEach((line) => line.geometry.dispose());
+    };
+  }, [lines]);
+
+  useEffect(() => {
+    return () => material.dispose();
+  }, [material]);
+
+  return (
+    <group>
+      {lines.map((line) => (
+        <primitive key={line.uuid} object={line} />
+      ))}
+    </group>
+  );
+}
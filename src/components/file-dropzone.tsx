@@ -2,15 +2,47 @@ import { useCallback, useRef, useState } from 'react';
 import { useViewerState } from '../hooks/use-viewer-state';
 import { MAX_MESH_FILE_BYTES } from '@/lib/mesh-core-adapter';
 
-const ACCEPTED_EXTENSIONS = ['.obj', '.stl', '.ply'];
+/** Mesh files, plus gzip-compressed meshes and zip bundles (`.stl.gz`, `model.zip`) */
+const ACCEPTED_EXTENSIONS = ['.obj', '.stl', '.ply', '.gltf', '.glb', '.3mf', '.off', '.gz', '.zip'];
+/** Files that can only accompany a mesh file (glTF buffers, OBJ material libraries and textures) */
+const COMPANION_EXTENSIONS = ['.bin', '.mtl', '.png', '.jpg', '.jpeg', '.webp', '.gif', '.bmp'];
 
 function isAcceptedFile(file: File): boolean {
   const lower = file.name.toLowerCase();
   return ACCEPTED_EXTENSIONS.some((ext) => lower.endsWith(ext));
 }
 
+function isCompanionFile(file: File): boolean {
+  const lower = file.name.toLowerCase();
+  return COMPANION_EXTENSIONS.some((ext) => lower.endsWith(ext));
+}
+
+/** `accept` attribute for mesh file inputs */
+export const MESH_FILE_ACCEPT = [...ACCEPTED_EXTENSIONS, ...COMPANION_EXTENSIONS].join(',');
+
+/**
+ * Picks the mesh file and its companions from dropped or selected files.
+ *
+ * @returns null (with a console warning) when no loadable mesh file is included
+ */
+export function pickMeshFiles(files: File[]): { file: File; companions: File[] } | null {
+  const file = files.find(isAcceptedFile);
+  if (!file) {
+    console.warn(`[dropzone] Unsupported extension: ${files.map((f) => f.name).join(', ')}`);
+    return null;
+  }
+
+  if (file.size > MAX_MESH_FILE_BYTES) {
+    console.warn(`[dropzone] File size exceeded: ${file.size} bytes`);
+    return null;
+  }
+
+  return { file, companions: files.filter(isCompanionFile) };
+}
+
 export interface FileDropzoneProps {
-  onFileSelected?: (file: File) => void;
+  /** Called with the mesh file and any companion files selected alongside it */
+  onFileSelected?: (file: File, companions: File[]) => void;
   disabled?: boolean;
 }
 
@@ -20,21 +52,14 @@ export function FileDropzone({ onFileSelected, disabled = false }: FileDropzoneP
   const status = useViewerState((s) => s.status);
   const isLoading = status === 'Loading';
 
-  const handleFile = useCallback(
-    (file: File) => {
+  const handleFiles = useCallback(
+    (files: File[]) => {
       if (disabled || isLoading) return;
 
-      if (!isAcceptedFile(file)) {
-        console.warn(`[dropzone] Unsupported extension: ${file.name}`);
-        return;
+      const picked = pickMeshFiles(files);
+      if (picked) {
+        onFileSelected?.(picked.file, picked.companions);
       }
-
-      if (file.size > MAX_MESH_FILE_BYTES) {
-        console.warn(`[dropzone] File size exceeded: ${file.size} bytes`);
-        return;
-      }
-
-      onFileSelected?.(file);
     },
     [disabled, isLoading, onFileSelected]
   );
@@ -59,10 +84,10 @@ export function FileDropzone({ onFileSelected, disabled = false }: FileDropzoneP
 
       const files = e.dataTransfer?.files;
       if (files && files.length > 0) {
-        handleFile(files[0]);
+        handleFiles(Array.from(files));
       }
     },
-    [handleFile]
+    [handleFiles]
   );
 
   const handleClick = useCallback(() => {
@@ -73,14 +98,14 @@ export function FileDropzone({ onFileSelected, disabled = false }: FileDropzoneP
 
   const handleChange = useCallback(
     (e: React.ChangeEvent<HTMLInputElement>) => {
-      const file = e.target.files?.[0];
-      if (file) {
-        handleFile(file);
+      const files = e.target.files;
+      if (files && files.length > 0) {
+        handleFiles(Array.from(files));
       }
       // Reset input (allow re-selecting the same file)
       e.target.value = '';
     },
-    [handleFile]
+    [handleFiles]
   );
 
   return (
@@ -103,7 +128,8 @@ export function FileDropzone({ onFileSelected, disabled = false }: FileDropzoneP
       <input
         ref={inputRef}
         type="file"
-        accept={ACCEPTED_EXTENSIONS.join(',')}
+        accept={MESH_FILE_ACCEPT}
+        multiple
         onChange={handleChange}
         style={{ display: 'none' }}
         aria-label="Select mesh file"
@@ -116,8 +142,8 @@ export function FileDropzone({ onFileSelected, disabled = false }: FileDropzoneP
         </div>
       ) : (
         <div className="dropzone-idle">
-          <p>Drag or click to select OBJ / STL / PLY file</p>
-          <span className="hint">(Max 600 MB)</span>
+          <p>Drag or click to select OBJ / STL / PLY / glTF / 3MF / OFF file</p>
+          <span className="hint">(Max 600 MB uncompressed; .gz / .zip accepted; drop .mtl / .bin / texture files together with the mesh)</span>
         </div>
       )}
     </div>
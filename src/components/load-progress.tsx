@@ -0,0 +1,59 @@
+/**
+ * Load Progress Overlay Component
+ *
+ * Shows the current load phase, a byte progress bar and a Cancel button
+ * over the viewer while a mesh is loading.
+ *
+ * @module components/LoadProgressOverlay
+ */
+
+import type { LoadPhase, LoadProgress } from '@/lib/mesh-core-adapter';
+
+const PHASE_LABELS: Record<LoadPhase, string> = {
+  read: 'Reading file',
+  detect: 'Detecting format',
+  parse: 'Parsing mesh',
+  stats: 'Computing statistics',
+  upload: 'Uploading to GPU'
+};
+
+export interface LoadProgressOverlayProps {
+  /** Latest progress event (null before the first one arrives) */
+  progress: LoadProgress | null;
+  onCancel: () => void;
+}
+
+function formatMegabytes(bytes: number): string {
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * Load Progress Overlay
+ *
+ * The bar is indeterminate in phases without byte progress
+ * (detection, statistics, upload and non-streamed parsing).
+ */
+export function LoadProgressOverlay({ progress, onCancel }: LoadProgressOverlayProps) {
+  const phase = progress?.phase ?? 'read';
+  const hasBytes =
+    !!progress && progress.totalBytes > 0 && (phase === 'read' || (phase === 'parse' && progress.bytesRead < progress.totalBytes));
+  const percent = hasBytes ? Math.min(100, Math.round((progress.bytesRead / progress.totalBytes) * 100)) : undefined;
+
+  return (
+    <div className="load-progress" role="status" aria-live="polite" data-testid="load-progress">
+      <p className="load-progress__phase">
+        {PHASE_LABELS[phase]}
+        {percent !== undefined && ` — ${percent}%`}
+      </p>
+      <progress className="load-progress__bar" max={100} value={percent} aria-label={PHASE_LABELS[phase]} />
+      {hasBytes && (
+        <span className="load-progress__bytes">
+          {formatMegabytes(progress.bytesRead)} / {formatMegabytes(progress.totalBytes)}
+        </span>
+      )}
+      <button type="button" className="btn-cancel" onClick={onCancel} disabled={phase === 'upload'}>
+        Cancel
+      </button>
+    </div>
+  );
+}
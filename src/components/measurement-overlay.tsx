@@ -0,0 +1,131 @@
+/**
+ * Measurement Overlay Component
+ *
+ * Draws the measurements and the points picked so far in the scene, with a
+ * label at each measurement.
+ *
+ * @module components/MeasurementOverlay
+ */
+
+import { useEffect, useMemo } from 'react';
+import { Html } from '@react-three/drei';
+import * as THREE from 'three';
+import type { Measurement, MeasurementPoint } from '@/lib/mesh-core-adapter';
+import { evaluateMeasurement, type MeasurementValue } from '../utils/measurement';
+
+export interface MeasurementOverlayProps {
+  measurements: Measurement[];
+  /** Points picked for the measurement in progress */
+  pending: MeasurementPoint[];
+  /** Label text of a measurement */
+  formatLabel: (measurement: Measurement, value: MeasurementValue | null) => string;
+}
+
+const MEASUREMENT_COLOR = 0xfacc15;
+const PENDING_COLOR = 0x38bdf8;
+const CIRCLE_SEGMENTS = 64;
+
+/** Line segment corners outlining a measurement */
+function measurementSegments(measurement: Measurement, value: MeasurementValue | null): number[] {
+  const [a, b, c] = measurement.points.map((point) => point.position);
+  switch (measurement.kind) {
+    case 'distance':
+      return [...a, ...b];
+    case 'angle':
+      return [...a, ...b, ...b, ...c];
+    case 'radius': {
+      if (!value || value.kind !== 'radius') {
+        return [...a, ...b, ...b, ...c];
+      }
+      // Circle in its plane, starting at the first picked point
+      const center = new THREE.Vector3(...value.center);
+      const normal = new THREE.Vector3(...value.normal);
+      const start = new THREE.Vector3(...a).sub(center);
+      const segments = [...value.center, ...a];
+      let previous = start.clone().add(center);
+      for (let i = 1; i <= CIRCLE_SEGMENTS; i++) {
+        const next = start.clone().applyAxisAngle(normal, (i / CIRCLE_SEGMENTS) * Math.PI * 2).add(center);
+        segments.push(previous.x, previous.y, previous.z, next.x, next.y, next.z);
+        previous = next;
+      }
+      return segments;
+    }
+  }
+}
+
+/** Label anchor: segment middle, angle vertex or circle center */
+function labelPosition(measurement: Measurement, value: MeasurementValue | null): [number, number, number] {
+  const [a, b] = measurement.points.map((point) => point.position);
+  if (value?.kind === 'radius') {
+    return value.center;
+  }
+  if (measurement.kind === 'distance') {
+    return [(a[0] + b[0]) / 2, (a[1] + b[1]) / 2, (a[2] + b[2]) / 2];
+  }
+  return b;
+}
+
+/**
+ * Measurement Overlay
+ *
+ * - Picked points as dots, distances and angle legs as lines, radii as the
+ *   circle through the three points
+ * - Drawn on top of the mesh (no depth test) so points behind it stay visible
+ */
+export function MeasurementOverlay({ measurements, pending, formatLabel }: MeasurementOverlayProps) {
+  const values = useMemo(() => measurements.map((measurement) => evaluateMeasurement(measurement)), [measurements]);
+
+  const object = useMemo(() => {
+    const group = new THREE.Group();
+
+    const lines = measurements.flatMap((measurement, i) => measurementSegments(measurement, values[i]));
+    const pendingLines = pending.slice(1).flatMap((point, i) => [...pending[i].position, ...point.position]);
+    const layers: Array<[number[], number[], number]> = [
+      [lines, measurements.flatMap((measurement) => measurement.points.flatMap((point) => point.position)), MEASUREMENT_COLOR],
+      [pendingLines, pending.flatMap((point) => point.position), PENDING_COLOR]
+    ];
+
+    for (const [segments, points, color] of layers) {
+      if (segments.length > 0) {
+        const geometry = new THREE.BufferGeometry();
+        geometry.setAttribute('position', new THREE.Float32BufferAttribute(segments, 3));
+        const line = new THREE.LineSegments(geometry, new THREE.LineBasicMaterial({ color, depthTest: false, transparent: true }));
+        line.renderOrder = 2;
+        group.add(line);
+      }
+      if (points.length > 0) {
+        const geometry = new THREE.BufferGeometry();
+        geometry.setAttribute('position', new THREE.Float32BufferAttribute(points, 3));
+        const dots = new THREE.Points(
+          geometry,
+          new THREE.PointsMaterial({ color, size: 8, sizeAttenuation: false, depthTest: false, transparent: true })
+        );
+        dots.renderOrder = 2;
+        group.add(dots);
+      }
+    }
+    return group;
+  }, [measurements, values, pending]);
+
+  // Cleanup
+  useEffect(() => {
+    return () => {
+      object.children.forEach((child) => {
+        const drawn = child as THREE.LineSegments | THREE.Points;
+        drawn.geometry.dispose();
+        (drawn.material as THREE.Material).dispose();
+      });
+    };
+  }, [object]);
+
+  return (
+    <>
+      <primitive object={object} />
+      {measurements.map((measurement, i) => (
+        <Html key={measurement.id} position={labelPosition(measurement, values[i])} center className="measurement-label">
+          {formatLabel(measurement, values[i])}
+        </Html>
+      ))}
+    </>
+  );
+}
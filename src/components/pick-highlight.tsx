@@ -0,0 +1,106 @@
+/**
+ * Pick Highlight Component
+ *
+ * Marks the hovered and the picked face or vertex of a mesh.
+ *
+ * @module components/PickHighlight
+ */
+
+import { useEffect, useMemo } from 'react';
+import * as THREE from 'three';
+import type { MeshBuffers, PickTarget } from '@/lib/mesh-core-adapter';
+
+/**
+ * Face or vertex of the mesh the highlight is drawn on
+ */
+export interface PickElement {
+  target: PickTarget;
+  index: number;
+}
+
+export interface PickHighlightProps {
+  /** Mesh buffers the element indices refer to */
+  buffers: MeshBuffers;
+  hovered: PickElement | null;
+  picked: PickElement | null;
+}
+
+const HOVER_COLOR = 0x38bdf8;
+const PICK_COLOR = 0xf97316;
+
+/** Filled triangle with its outline, or a dot for a vertex */
+function createMarker(buffers: MeshBuffers, element: PickElement, color: number, opacity: number): THREE.Object3D {
+  const { vertexView, indexView } = buffers;
+  const corners =
+    element.target === 'face'
+      ? [indexView[element.index * 3], indexView[element.index * 3 + 1], indexView[element.index * 3 + 2]]
+      : [element.index];
+  const positions = new Float32Array(corners.length * 3);
+  corners.forEach((vertex, i) => {
+    positions[i * 3] = vertexView[vertex * 3];
+    positions[i * 3 + 1] = vertexView[vertex * 3 + 1];
+    positions[i * 3 + 2] = vertexView[vertex * 3 + 2];
+  });
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+
+  const group = new THREE.Group();
+  if (element.target === 'face') {
+    group.add(
+      new THREE.Mesh(
+        geometry,
+        new THREE.MeshBasicMaterial({ color, side: THREE.DoubleSide, depthTest: false, transparent: true, opacity })
+      ),
+      new THREE.LineLoop(geometry, new THREE.LineBasicMaterial({ color, depthTest: false, transparent: true }))
+    );
+  } else {
+    group.add(
+      new THREE.Points(
+        geometry,
+        new THREE.PointsMaterial({ color, size: 10, sizeAttenuation: false, depthTest: false, transparent: true })
+      )
+    );
+  }
+  group.children.forEach((child) => {
+    child.renderOrder = 3;
+    // Not pickable: the mesh below is
+    child.raycast = () => {};
+  });
+  return group;
+}
+
+function disposeMarker(marker: THREE.Object3D | null): void {
+  marker?.children.forEach((child) => {
+    const drawn = child as THREE.Mesh | THREE.LineLoop | THREE.Points;
+    drawn.geometry.dispose();
+    (drawn.material as THREE.Material).dispose();
+  });
+}
+
+/**
+ * Pick Highlight
+ *
+ * - The picked element is drawn stronger than the hovered one
+ * - Drawn on top of the mesh (no depth test), in the mesh's own coordinates
+ */
+export function PickHighlight({ buffers, hovered, picked }: PickHighlightProps) {
+  const hoverMarker = useMemo(
+    () => (hovered ? createMarker(buffers, hovered, HOVER_COLOR, 0.35) : null),
+    [buffers, hovered?.target, hovered?.index]
+  );
+  const pickMarker = useMemo(
+    () => (picked ? createMarker(buffers, picked, PICK_COLOR, 0.6) : null),
+    [buffers, picked?.target, picked?.index]
+  );
+
+  // Cleanup
+  useEffect(() => () => disposeMarker(hoverMarker), [hoverMarker]);
+  useEffect(() => () => disposeMarker(pickMarker), [pickMarker]);
+
+  return (
+    <>
+      {hoverMarker && <primitive object={hoverMarker} />}
+      {pickMarker && <primitive object={pickMarker} />}
+    </>
+  );
+}
@@ -0,0 +1,94 @@
+/**
+ * Topology Highlight Component
+ *
+ * Marks the elements of one mesh topology problem class in the scene.
+ *
+ * @module components/TopologyHighlight
+ */
+
+import { useEffect, useMemo } from 'react';
+import * as THREE from 'three';
+import type { MeshBuffers, MeshTopologyProblems, TopologyIssue } from '@/lib/mesh-core-adapter';
+
+export interface TopologyHighlightProps {
+  /** Mesh buffers the problems refer to */
+  buffers: MeshBuffers;
+  problems: MeshTopologyProblems;
+  issue: TopologyIssue;
+}
+
+/** Highlight color per problem class */
+const ISSUE_COLORS: Record<TopologyIssue, number> = {
+  boundaryEdges: 0xf97316,
+  nonManifoldEdges: 0xef4444,
+  inconsistentEdges: 0xeab308,
+  nonManifoldVertices: 0xef4444,
+  isolatedVertices: 0xa855f7,
+  degenerateFaces: 0xec4899,
+  duplicateFaces: 0x22d3ee
+};
+
+/** Positions of the given vertex indices */
+function gatherPositions(vertexView: Float64Array, vertexIndices: ArrayLike<number>): Float32Array {
+  const positions = new Float32Array(vertexIndices.length * 3);
+  for (let i = 0; i < vertexIndices.length; i++) {
+    const v = vertexIndices[i];
+    positions[i * 3] = vertexView[v * 3];
+    positions[i * 3 + 1] = vertexView[v * 3 + 1];
+    positions[i * 3 + 2] = vertexView[v * 3 + 2];
+  }
+  return positions;
+}
+
+/**
+ * Topology Highlight
+ *
+ * - Edges as line segments, vertices as points, faces as a filled overlay
+ * - Drawn on top of the mesh (no depth test) so hidden problems stay visible
+ */
+export function TopologyHighlight({ buffers, problems, issue }: TopologyHighlightProps) {
+  const object = useMemo(() => {
+    const color = ISSUE_COLORS[issue];
+    const geometry = new THREE.BufferGeometry();
+    let result: THREE.Mesh | THREE.LineSegments | THREE.Points;
+
+    if (issue === 'boundaryEdges' || issue === 'nonManifoldEdges' || issue === 'inconsistentEdges') {
+      geometry.setAttribute('position', new THREE.BufferAttribute(gatherPositions(buffers.vertexView, problems[issue]), 3));
+      result = new THREE.LineSegments(geometry, new THREE.LineBasicMaterial({ color, depthTest: false, transparent: true }));
+    } else if (issue === 'nonManifoldVertices' || issue === 'isolatedVertices') {
+      geometry.setAttribute('position', new THREE.BufferAttribute(gatherPositions(buffers.vertexView, problems[issue]), 3));
+      result = new THREE.Points(
+        geometry,
+        new THREE.PointsMaterial({ color, size: 8, sizeAttenuation: false, depthTest: false, transparent: true })
+      );
+    } else {
+      const faces = problems[issue];
+      const corners = new Uint32Array(faces.length * 3);
+      for (let i = 0; i < faces.length; i++) {
+        corners[i * 3] = buffers.indexView[faces[i] * 3];
+        corners[i * 3 + 1] = buffers.indexView[faces[i] * 3 + 1];
+        corners[i * 3 + 2] = buffers.indexView[faces[i] * 3 + 2];
+      }
+      geometry.setAttribute('position', new THREE.BufferAttribute(gatherPositions(buffers.vertexView, corners), 3));
+      result = new THREE.Mesh(
+        geometry,
+        new THREE.MeshBasicMaterial({ color, side: THREE.DoubleSide, depthTest: false, transparent: true, opacity: 0.8 })
+      );
+    }
+
+    result.renderOrder = 2;
+    // Not pickable (three.js would test every element)
+    result.raycast = () => {};
+    return result;
+  }, [buffers, problems, issue]);
+
+  // Cleanup
+  useEffect(() => {
+    return () => {
+      object.geometry.dispose();
+      (object.material as THREE.Material).dispose();
+    };
+  }, [object]);
+
+  return <primitive object={object} />;
+}
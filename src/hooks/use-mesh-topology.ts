@@ -0,0 +1,30 @@
+import { useEffect, useReducer } from 'react';
+import { loadMeshTopology, peekMeshTopology } from '@/lib/mesh-core-adapter';
+import type { MeshBuffers, MeshTopologyReport } from '@/lib/mesh-core-adapter';
+
+/**
+ * Topology report of mesh buffers, analyzed in a worker once per buffer generation.
+ *
+ * Null until the analysis of the current generation lands; the statistics
+ * panel and the scene highlight share the cached report.
+ */
+export function useMeshTopology(buffers: MeshBuffers | null | undefined): MeshTopologyReport | null {
+  const generation = buffers?.generation;
+  const [, notifyLoaded] = useReducer((count: number) => count + 1, 0);
+
+  useEffect(() => {
+    if (!buffers || peekMeshTopology(buffers)) return;
+    let active = true;
+    loadMeshTopology(buffers).then(
+      () => {
+        if (active) notifyLoaded();
+      },
+      (error) => console.warn('Topology analysis failed:', error)
+    );
+    return () => {
+      active = false;
+    };
+  }, [buffers, generation]);
+
+  return buffers ? peekMeshTopology(buffers) ?? null : null;
+}
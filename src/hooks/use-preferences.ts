@@ -1,5 +1,6 @@
 import { create } from 'zustand';
 import { persist, createJSONStorage, type StateStorage } from 'zustand/middleware';
+import type { LengthUnit, UpAxis } from '@/lib/mesh-core-adapter';
 
 /**
  * PreferenceProfile schema
@@ -16,7 +17,15 @@ export interface PreferenceProfile {
     vertices: boolean;
     normals: boolean;
     bbox: boolean;
+    vertexColors: boolean;
+    uvChecker: boolean;
   };
+  /** Length unit assumed for imported meshes ('auto' guesses it from the bbox magnitude) */
+  units: LengthUnit | 'auto';
+  /** Up axis assumed for imported meshes ('auto' follows the format's convention) */
+  upAxis: UpAxis | 'auto';
+  /** Unit measurements are shown in ('source' keeps each mesh's own unit) */
+  displayUnits: LengthUnit | 'source';
   storageTs: number;
   storageDriver: 'indexeddb' | 'localstorage';
 }
@@ -29,6 +38,9 @@ export interface PreferenceActions {
   setBackgroundColor: (color: string) => void;
   setFitToView: (enabled: boolean) => void;
   setOverlay: (key: keyof PreferenceProfile['overlays'], value: boolean) => void;
+  setUnits: (units: PreferenceProfile['units']) => void;
+  setUpAxis: (upAxis: PreferenceProfile['upAxis']) => void;
+  setDisplayUnits: (units: PreferenceProfile['displayUnits']) => void;
   resetToDefaults: () => void;
 }
 
@@ -49,7 +61,12 @@ export const DEFAULT_PREFERENCES: PreferenceProfile = {
     vertices: false,
     normals: false,
     bbox: false,
+    vertexColors: true,
+    uvChecker: false,
   },
+  units: 'auto',
+  upAxis: 'auto',
+  displayUnits: 'source',
   storageTs: 0,
   storageDriver: 'localstorage',
 };
@@ -206,6 +223,24 @@ export const usePreferences = create<PreferenceStore>()(
           storageTs: Date.now(),
         })),
 
+      setUnits: (units) =>
+        set({
+          units,
+          storageTs: Date.now(),
+        }),
+
+      setUpAxis: (upAxis) =>
+        set({
+          upAxis,
+          storageTs: Date.now(),
+        }),
+
+      setDisplayUnits: (displayUnits) =>
+        set({
+          displayUnits,
+          storageTs: Date.now(),
+        }),
+
       resetToDefaults: () =>
         set({
           ...DEFAULT_PREFERENCES,
@@ -222,6 +257,9 @@ export const usePreferences = create<PreferenceStore>()(
         backgroundColor: state.backgroundColor,
         fitToView: state.fitToView,
         overlays: state.overlays,
+        units: state.units,
+        upAxis: state.upAxis,
+        displayUnits: state.displayUnits,
         storageTs: state.storageTs,
         storageDriver: state.storageDriver,
       }),
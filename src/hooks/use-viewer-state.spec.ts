@@ -10,6 +10,7 @@ describe('useViewerState', () => {
     // Reset state
     useViewerState.setState({
       status: 'Idle',
+      assets: [],
       activeAssetId: null,
       asset: null,
       camera: {
@@ -24,7 +25,9 @@ describe('useViewerState', () => {
         wireframe: false,
         vertices: false,
         normals: false,
-        bbox: false
+        bbox: false,
+        vertexColors: true,
+        uvChecker: false
       },
       fitToView: true,
       error: null
@@ -48,6 +51,19 @@ describe('useViewerState', () => {
     expect(state.error).toBeNull();
   });
 
+  it('Should return to Idle when a first load is cancelled', () => {
+    const { startLoading, setLoadProgress, cancelLoading } = useViewerState.getState();
+    startLoading();
+    setLoadProgress({ phase: 'read', bytesRead: 10, totalBytes: 100 });
+    expect(useViewerState.getState().loadProgress?.bytesRead).toBe(10);
+
+    cancelLoading();
+
+    const state = useViewerState.getState();
+    expect(state.status).toBe('Idle');
+    expect(state.loadProgress).toBeNull();
+  });
+
   it('Should set Ready state and asset when setReady is called', () => {
     const mockAsset: MeshAsset = {
       id: 'test-123',
@@ -141,4 +157,66 @@ describe('useViewerState', () => {
     expect(state.asset).toBeNull();
     expect(state.activeAssetId).toBeNull();
   });
+
+  it('Should keep several assets and release the buffers of a removed one', () => {
+    const createAsset = (id: string, release: () => void): MeshAsset => ({
+      id,
+      fileName: `${id}.stl`,
+      fileSizeBytes: 100,
+      format: 'stl',
+      loadedAt: Date.now(),
+      loadDurationMs: 1,
+      buffers: {
+        vertexView: new Float64Array([0, 0, 0, 1, 0, 0, 0, 1, 0]),
+        indexView: new Uint32Array([0, 1, 2]),
+        generation: 1,
+        release
+      }
+    });
+    const releaseA = vi.fn();
+    const releaseB = vi.fn();
+
+    const { setReady, setAssetVisible, setAssetTransform, removeAsset } = useViewerState.getState();
+    setReady(createAsset('a', releaseA));
+    setReady(createAsset('b', releaseB));
+    setAssetVisible('a', false);
+    setAssetTransform('a', { position: [2, 0, 0] });
+
+    let state = useViewerState.getState();
+    expect(state.assets.map((entry) => entry.asset.id)).toEqual(['a', 'b']);
+    expect(state.activeAssetId).toBe('b');
+    expect(state.assets[0]).toMatchObject({ visible: false, transform: { position: [2, 0, 0], scale: 1 } });
+    expect(state.assets[0].color).not.toBe(state.assets[1].color);
+
+    removeAsset('b');
+
+    state = useViewerState.getState();
+    expect(releaseB).toHaveBeenCalledTimes(1);
+    expect(releaseA).not.toHaveBeenCalled();
+    expect(state.activeAssetId).toBe('a');
+    expect(state.asset?.id).toBe('a');
+    expect(state.status).toBe('Ready');
+
+    removeAsset('a');
+
+    state = useViewerState.getState();
+    expect(releaseA).toHaveBeenCalledTimes(1);
+    expect(state.assets).toEqual([]);
+    expect(state.status).toBe('Idle');
+  });
+
+  it('Should count the clip box as six of the clipping planes', () => {
+    const { resetClipping, setClipping, addClippingPlane } = useViewerState.getState();
+    resetClipping();
+
+    // Axis mode: the primary plane plus 5 additional ones
+    for (let i = 0; i < 7; i++) addClippingPlane();
+    expect(useViewerState.getState().clipping.planes).toHaveLength(5);
+
+    // Box mode: the box faces already use all 6
+    resetClipping();
+    setClipping({ mode: 'box' });
+    addClippingPlane();
+    expect(useViewerState.getState().clipping.planes ?? []).toHaveLength(0);
+  });
 });
@@ -1,13 +1,30 @@
 import { create } from 'zustand';
 import type {
+  ClippingAxis,
+  ClippingPlaneEntry,
   ClippingState,
+  LengthUnit,
+  LoadProgress,
+  Measurement,
+  MeasurementKind,
+  MeasurementPoint,
+  MeasurementToolState,
   MeshAsset,
+  MeshDeviationResult,
+  MeshPick,
+  MeshTexture,
   OverlayToggles,
+  PickTarget,
+  SceneAsset,
+  SceneTransform,
+  TopologyIssue,
+  UpAxis,
   ViewerCameraState,
   ViewerError,
   ViewerStateStatus
 } from '@/lib/mesh-core-adapter';
-import { DEFAULT_CLIPPING_STATE } from '@/lib/mesh-core-adapter';
+import { CLIP_BOX_PLANE_COUNT, DEFAULT_CLIPPING_STATE, MAX_CLIPPING_PLANES } from '@/lib/mesh-core-adapter';
+import { MEASUREMENT_POINT_COUNT } from '../utils/measurement';
 
 const DEFAULT_CAMERA: ViewerCameraState = {
   target: [0, 0, 0],
@@ -22,11 +39,112 @@ const DEFAULT_OVERLAYS: OverlayToggles = {
   wireframe: false,
   vertices: false,
   normals: false,
-  bbox: false
+  bbox: false,
+  vertexColors: true,
+  uvChecker: false
 };
 
+const DEFAULT_MEASURE_TOOL: MeasurementToolState = {
+  enabled: false,
+  kind: 'distance',
+  snap: 'auto',
+  pending: []
+};
+
+/** Label prefix of new measurements */
+const MEASUREMENT_NAMES: Record<MeasurementKind, string> = {
+  distance: 'Distance',
+  angle: 'Angle',
+  radius: 'Radius'
+};
+
+/** Base colors assigned to loaded assets in turn */
+const ASSET_COLORS = ['#6699cc', '#cc8f66', '#74b36b', '#b07cc6', '#c9b458', '#5fb3b3'];
+
+const IDENTITY_TRANSFORM: SceneTransform = {
+  position: [0, 0, 0],
+  rotation: [0, 0, 0],
+  scale: 1
+};
+
+/**
+ * Selection fields derived from the scene (`asset` and `diffuseTexture` mirror the selected entry)
+ */
+function selectEntry(assets: SceneAsset[], id: string | null) {
+  const entry = assets.find((candidate) => candidate.asset.id === id) ?? null;
+  return {
+    assets,
+    activeAssetId: entry?.asset.id ?? null,
+    asset: entry?.asset ?? null,
+    diffuseTexture: entry?.diffuseTexture ?? null
+  };
+}
+
+/**
+ * Whether an asset is shown at its own coordinates (cuts and section exports require it)
+ */
+export function isIdentityTransform(transform: SceneTransform): boolean {
+  return (
+    transform.scale === 1 &&
+    transform.position.every((value) => value === 0) &&
+    transform.rotation.every((value) => value === 0)
+  );
+}
+
+function releaseBuffers(asset: MeshAsset): void {
+  asset.buffers?.release();
+}
+
+/**
+ * Deviation heatmap shown on one asset (distances of its vertices to a reference asset)
+ */
+export interface DeviationOverlay {
+  /** Asset colored by the heatmap */
+  sourceId: string;
+  /** Reference asset */
+  targetId: string;
+  result: MeshDeviationResult;
+  /** Deviation shown with the last color of the ramp */
+  maxDistance: number;
+}
+
+/** Drops the heatmap once the geometry or placement of either compared asset changes */
+function keepDeviation(deviation: DeviationOverlay | null, changedId: string): DeviationOverlay | null {
+  return deviation && deviation.sourceId !== changedId && deviation.targetId !== changedId ? deviation : null;
+}
+
+/** Drops measurements (and the pending points) picked on an asset whose geometry or placement changed */
+function keepMeasurements(
+  state: Pick<ViewerStoreState, 'measurements' | 'measureTool'>,
+  changedId: string
+): Pick<ViewerStoreState, 'measurements' | 'measureTool'> {
+  const untouched = (point: MeasurementPoint) => point.assetId !== changedId;
+  const { pending } = state.measureTool;
+  return {
+    measurements: state.measurements.filter((measurement) => measurement.points.every(untouched)),
+    measureTool: pending.every(untouched) ? state.measureTool : { ...state.measureTool, pending: [] }
+  };
+}
+
+/** Drops the picked element once its asset's geometry changes (indices no longer refer to it) */
+function keepPick(picked: MeshPick | null, changedId: string): MeshPick | null {
+  return picked && picked.assetId !== changedId ? picked : null;
+}
+
+/** First free "<Kind> <n>" label */
+function nextMeasurementLabel(measurements: Measurement[], kind: MeasurementKind): string {
+  let n = 1;
+  while (measurements.some((measurement) => measurement.label === `${MEASUREMENT_NAMES[kind]} ${n}`)) {
+    n += 1;
+  }
+  return `${MEASUREMENT_NAMES[kind]} ${n}`;
+}
+
 export interface ViewerStoreState {
   status: ViewerStateStatus;
+  /** Loaded assets in load order */
+  assets: SceneAsset[];
+  /** Selected asset (target of statistics, clipping, slicing and texturing) */
   activeAssetId: string | null;
   asset: MeshAsset | null;
   camera: ViewerCameraState;
@@ -37,16 +155,49 @@ export interface ViewerStoreState {
   clipping: ClippingState;
   /** Whether clipping is being applied */
   isApplyingClipping: boolean;
+  /** Diffuse texture of the selected asset (image dropped onto the viewer) */
+  diffuseTexture: MeshTexture | null;
+  /** Progress of the running load (null when not loading) */
+  loadProgress: LoadProgress | null;
+  /** Deviation heatmap between two assets (null when not compared) */
+  deviation: DeviationOverlay | null;
+  /** Topology problem class highlighted on the selected asset */
+  topologyHighlight: TopologyIssue | null;
+  /** Measurement mode (tool, snapping and the points picked so far) */
+  measureTool: MeasurementToolState;
+  /** Completed measurements */
+  measurements: Measurement[];
+  /** Element kind clicks on the mesh select */
+  pickTarget: PickTarget;
+  /** Element shown in the inspector (null when nothing is picked) */
+  picked: MeshPick | null;
 }
 
 export interface ViewerStoreActions {
   startLoading: () => void;
+  setLoadProgress: (progress: LoadProgress) => void;
+  /** Leave the loading state after a cancelled load (back to the loaded meshes, if any) */
+  cancelLoading: () => void;
+  /** Add a loaded asset to the scene and select it */
   setReady: (asset: MeshAsset) => void;
+  /** Replace an asset (same id) with modified geometry (e.g. after slicing) */
+  replaceAsset: (asset: MeshAsset) => void;
+  /** Select an asset */
+  selectAsset: (id: string) => void;
+  setAssetVisible: (id: string, visible: boolean) => void;
+  setAssetColor: (id: string, color: string) => void;
+  /** Partial update of an asset's placement */
+  setAssetTransform: (id: string, partial: Partial<SceneTransform>) => void;
+  /** Re-declare the length unit or up axis of an asset's coordinates */
+  setAssetUnits: (id: string, partial: { units?: LengthUnit; upAxis?: UpAxis }) => void;
+  /** Remove an asset from the scene and release its buffers */
+  removeAsset: (id: string) => void;
   setError: (error: ViewerError) => void;
   resetView: () => void;
   setCamera: (camera: Partial<ViewerCameraState>) => void;
   toggleOverlay: (key: keyof OverlayToggles) => void;
   setFitToView: (enabled: boolean) => void;
+  /** Remove all assets and release their buffers */
   clearAsset: () => void;
   /** Partial update of clipping state */
   setClipping: (partial: Partial<ClippingState>) => void;
@@ -54,16 +205,64 @@ export interface ViewerStoreActions {
   toggleClipping: () => void;
   /** Reset clipping (on mesh load/reset) */
   resetClipping: () => void;
+  /** Add an additional clipping plane (up to MAX_CLIPPING_PLANES in total) */
+  addClippingPlane: () => void;
+  /** Partial update of an additional clipping plane */
+  updateClippingPlane: (id: string, partial: Partial<Omit<ClippingPlaneEntry, 'id'>>) => void;
+  /** Remove an additional clipping plane */
+  removeClippingPlane: (id: string) => void;
   /** Apply clipping (actual mesh cutting) */
   applyClipping: () => Promise<void>;
   /** Set clipping apply state */
   setApplyingClipping: (isApplying: boolean) => void;
+  /** Set or clear the dropped diffuse texture of the selected asset */
+  setDiffuseTexture: (texture: MeshTexture | null) => void;
+  /** Show or clear the deviation heatmap */
+  setDeviation: (deviation: DeviationOverlay | null) => void;
+  /** Highlight a topology problem class (null hides the highlight) */
+  setTopologyHighlight: (issue: TopologyIssue | null) => void;
+  /** Switch measurement mode, tool or snapping (switching the tool or leaving the mode drops pending points) */
+  setMeasureTool: (partial: Partial<Omit<MeasurementToolState, 'pending'>>) => void;
+  /** Add a picked point; the measurement is stored once the tool has all its points */
+  addMeasurePoint: (point: MeasurementPoint) => void;
+  renameMeasurement: (id: string, label: string) => void;
+  removeMeasurement: (id: string) => void;
+  /** Remove all measurements and pending points */
+  clearMeasurements: () => void;
+  /** Switch between face and vertex picking (drops a pick of the other kind) */
+  setPickTarget: (target: PickTarget) => void;
+  /** Pick a mesh element or clear the pick */
+  setPicked: (picked: MeshPick | null) => void;
 }
 
 export type ViewerStore = ViewerStoreState & ViewerStoreActions;
 
+let planeIdCounter = 0;
+let measurementIdCounter = 0;
+
+/**
+ * Create a new additional plane on the first axis not used yet
+ */
+function createClippingPlaneEntry(clipping: ClippingState): ClippingPlaneEntry {
+  const used = new Set<ClippingAxis>((clipping.planes ?? []).map((entry) => entry.axis));
+  if (clipping.mode === 'axis') {
+    used.add(clipping.axis);
+  }
+  const axis = (['x', 'y', 'z'] as ClippingAxis[]).find((a) => !used.has(a)) ?? 'x';
+
+  planeIdCounter += 1;
+  return {
+    id: `plane-${planeIdCounter}`,
+    enabled: true,
+    axis,
+    position: 50,
+    flipped: false
+  };
+}
+
 export const useViewerState = create<ViewerStore>((set, get) => ({
   status: 'Idle',
+  assets: [],
   activeAssetId: null,
   asset: null,
   camera: { ...DEFAULT_CAMERA },
@@ -72,27 +271,134 @@ export const useViewerState = create<ViewerStore>((set, get) => ({
   error: null,
   clipping: { ...DEFAULT_CLIPPING_STATE },
   isApplyingClipping: false,
+  diffuseTexture: null,
+  loadProgress: null,
+  deviation: null,
+  topologyHighlight: null,
+  measureTool: { ...DEFAULT_MEASURE_TOOL },
+  measurements: [],
+  pickTarget: 'face',
+  picked: null,
 
   startLoading: () =>
     set({
       status: 'Loading',
-      error: null
+      error: null,
+      loadProgress: null
     }),
 
-  setReady: (asset: MeshAsset) =>
-    set({
-      status: 'Ready',
-      activeAssetId: asset.id,
+  setLoadProgress: (progress: LoadProgress) =>
+    set({ loadProgress: progress }),
+
+  cancelLoading: () =>
+    set((state) => ({
+      status: state.assets.length > 0 ? 'Ready' : 'Idle',
+      loadProgress: null
+    })),
+
+  setReady: (asset: MeshAsset) => {
+    const { assets } = get();
+    const existing = assets.find((entry) => entry.asset.id === asset.id);
+    if (existing && existing.asset.buffers !== asset.buffers) {
+      releaseBuffers(existing.asset);
+    }
+    const entry: SceneAsset = {
       asset,
+      visible: true,
+      color: ASSET_COLORS[assets.length % ASSET_COLORS.length],
+      transform: { ...IDENTITY_TRANSFORM },
+      diffuseTexture: null
+    };
+    set((state) => ({
+      status: 'Ready',
+      ...selectEntry([...assets.filter((candidate) => candidate !== existing), entry], asset.id),
+      deviation: keepDeviation(state.deviation, asset.id),
+      ...keepMeasurements(state, asset.id),
+      picked: keepPick(state.picked, asset.id),
       error: null,
       // Reset clipping on new mesh load
+      clipping: { ...DEFAULT_CLIPPING_STATE },
+      loadProgress: null
+    }));
+  },
+
+  replaceAsset: (asset: MeshAsset) => {
+    const { assets } = get();
+    const current = assets.find((entry) => entry.asset.id === asset.id);
+    if (!current) {
+      return;
+    }
+    if (current.asset.buffers !== asset.buffers) {
+      releaseBuffers(current.asset);
+    }
+    set((state) => ({
+      status: 'Ready',
+      ...selectEntry(assets.map((entry) => (entry === current ? { ...entry, asset } : entry)), asset.id),
+      deviation: keepDeviation(state.deviation, asset.id),
+      ...keepMeasurements(state, asset.id),
+      picked: keepPick(state.picked, asset.id),
+      error: null,
+      // The cut is baked into the geometry; GPU clipping starts over
       clipping: { ...DEFAULT_CLIPPING_STATE }
-    }),
+    }));
+  },
+
+  selectAsset: (id: string) =>
+    set((state) => selectEntry(state.assets, id)),
+
+  setAssetVisible: (id: string, visible: boolean) =>
+    set((state) => ({
+      assets: state.assets.map((entry) => (entry.asset.id === id ? { ...entry, visible } : entry))
+    })),
+
+  setAssetColor: (id: string, color: string) =>
+    set((state) => ({
+      assets: state.assets.map((entry) => (entry.asset.id === id ? { ...entry, color } : entry))
+    })),
+
+  setAssetTransform: (id: string, partial: Partial<SceneTransform>) =>
+    set((state) => ({
+      assets: state.assets.map((entry) =>
+        entry.asset.id === id ? { ...entry, transform: { ...entry.transform, ...partial } } : entry
+      ),
+      deviation: keepDeviation(state.deviation, id),
+      ...keepMeasurements(state, id)
+    })),
+
+  setAssetUnits: (id: string, partial: { units?: LengthUnit; upAxis?: UpAxis }) =>
+    set((state) =>
+      selectEntry(
+        state.assets.map((entry) => (entry.asset.id === id ? { ...entry, asset: { ...entry.asset, ...partial } } : entry)),
+        state.activeAssetId
+      )
+    ),
+
+  removeAsset: (id: string) => {
+    const { assets, activeAssetId, status, deviation, measurements, measureTool, picked } = get();
+    const removed = assets.find((entry) => entry.asset.id === id);
+    if (!removed) {
+      return;
+    }
+    releaseBuffers(removed.asset);
+
+    const remaining = assets.filter((entry) => entry !== removed);
+    // Removing the selection selects the most recently loaded asset
+    const nextId = activeAssetId === id ? remaining[remaining.length - 1]?.asset.id ?? null : activeAssetId;
+    set({
+      ...selectEntry(remaining, nextId),
+      status: remaining.length === 0 && status === 'Ready' ? 'Idle' : status,
+      deviation: keepDeviation(deviation, id),
+      ...keepMeasurements({ measurements, measureTool }, id),
+      picked: keepPick(picked, id),
+      ...(activeAssetId === id ? { clipping: { ...DEFAULT_CLIPPING_STATE } } : {})
+    });
+  },
 
   setError: (error: ViewerError) =>
     set({
       status: 'Error',
-      error
+      error,
+      loadProgress: null
     }),
 
   resetView: () =>
@@ -118,16 +424,18 @@ export const useViewerState = create<ViewerStore>((set, get) => ({
     set({ fitToView: enabled }),
 
   clearAsset: () => {
-    const current = get().asset;
-    if (current?.buffers) {
-      current.buffers.release();
-    }
+    get().assets.forEach((entry) => releaseBuffers(entry.asset));
     set({
       status: 'Idle',
-      activeAssetId: null,
-      asset: null,
+      ...selectEntry([], null),
       error: null,
-      clipping: { ...DEFAULT_CLIPPING_STATE }
+      clipping: { ...DEFAULT_CLIPPING_STATE },
+      loadProgress: null,
+      deviation: null,
+      topologyHighlight: null,
+      measureTool: { ...DEFAULT_MEASURE_TOOL },
+      measurements: [],
+      picked: null
     });
   },
 
@@ -144,9 +452,109 @@ export const useViewerState = create<ViewerStore>((set, get) => ({
   resetClipping: () =>
     set({ clipping: { ...DEFAULT_CLIPPING_STATE } }),
 
+  addClippingPlane: () =>
+    set((state) => {
+      const planes = state.clipping.planes ?? [];
+      // The primary plane counts as one, the clip box as its six faces
+      const primaryCount = state.clipping.mode === 'box' ? CLIP_BOX_PLANE_COUNT : 1;
+      if (planes.length + primaryCount >= MAX_CLIPPING_PLANES) {
+        return state;
+      }
+      return {
+        clipping: {
+          ...state.clipping,
+          planes: [...planes, createClippingPlaneEntry(state.clipping)]
+        }
+      };
+    }),
+
+  updateClippingPlane: (id, partial) =>
+    set((state) => ({
+      clipping: {
+        ...state.clipping,
+        planes: (state.clipping.planes ?? []).map((entry) =>
+          entry.id === id ? { ...entry, ...partial } : entry
+        )
+      }
+    })),
+
+  removeClippingPlane: (id) =>
+    set((state) => ({
+      clipping: {
+        ...state.clipping,
+        planes: (state.clipping.planes ?? []).filter((entry) => entry.id !== id)
+      }
+    })),
+
   setApplyingClipping: (isApplying: boolean) =>
     set({ isApplyingClipping: isApplying }),
 
+  setDiffuseTexture: (texture: MeshTexture | null) =>
+    set((state) => ({
+      assets: state.assets.map((entry) =>
+        entry.asset.id === state.activeAssetId ? { ...entry, diffuseTexture: texture } : entry
+      ),
+      diffuseTexture: state.activeAssetId ? texture : null
+    })),
+
+  setDeviation: (deviation: DeviationOverlay | null) =>
+    set({ deviation }),
+
+  setTopologyHighlight: (issue: TopologyIssue | null) =>
+    set({ topologyHighlight: issue }),
+
+  setMeasureTool: (partial) =>
+    set((state) => {
+      const next = { ...state.measureTool, ...partial };
+      const restart = next.kind !== state.measureTool.kind || !next.enabled;
+      return { measureTool: restart ? { ...next, pending: [] } : next };
+    }),
+
+  addMeasurePoint: (point: MeasurementPoint) =>
+    set((state) => {
+      const { kind, pending } = state.measureTool;
+      const points = [...pending, point];
+      if (points.length < MEASUREMENT_POINT_COUNT[kind]) {
+        return { measureTool: { ...state.measureTool, pending: points } };
+      }
+      measurementIdCounter += 1;
+      const measurement: Measurement = {
+        id: `measurement-${measurementIdCounter}`,
+        kind,
+        label: nextMeasurementLabel(state.measurements, kind),
+        points
+      };
+      return {
+        measurements: [...state.measurements, measurement],
+        measureTool: { ...state.measureTool, pending: [] }
+      };
+    }),
+
+  renameMeasurement: (id: string, label: string) =>
+    set((state) => ({
+      measurements: state.measurements.map((measurement) => (measurement.id === id ? { ...measurement, label } : measurement))
+    })),
+
+  removeMeasurement: (id: string) =>
+    set((state) => ({
+      measurements: state.measurements.filter((measurement) => measurement.id !== id)
+    })),
+
+  clearMeasurements: () =>
+    set((state) => ({
+      measurements: [],
+      measureTool: { ...state.measureTool, pending: [] }
+    })),
+
+  setPickTarget: (target: PickTarget) =>
+    set((state) => ({
+      pickTarget: target,
+      picked: state.picked?.target === target ? state.picked : null
+    })),
+
+  setPicked: (picked: MeshPick | null) =>
+    set({ picked }),
+
   applyClipping: async () => {
     const { asset, clipping, isApplyingClipping } = get();
     
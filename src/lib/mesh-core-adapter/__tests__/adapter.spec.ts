@@ -0,0 +1,153 @@
+import { describe, expect, it, vi } from 'vitest';
+import { MeshCoreAdapter } from '../adapter';
+import type { MeshCoreBridge, MeshBufferPointers } from '../mesh-loader';
+
+/**
+ * Creates a File-like object.
+ * jsdom's File does not implement arrayBuffer()/Blob.arrayBuffer().
+ */
+function createMockFile(name: string, content: string | Uint8Array): File {
+  const bytes = typeof content === 'string' ? new TextEncoder().encode(content) : content;
+  const toArrayBuffer = (start = 0, end = bytes.length) =>
+    bytes.buffer.slice(bytes.byteOffset + start, bytes.byteOffset + Math.min(end, bytes.length));
+
+  return {
+    name,
+    size: bytes.length,
+    type: '',
+    arrayBuffer: async () => toArrayBuffer(),
+    slice: (start?: number, end?: number) => ({
+      arrayBuffer: async () => toArrayBuffer(start, end)
+    })
+  } as unknown as File;
+}
+
+describe('MeshCoreAdapter.load', () => {
+  it('loads OBJ in Fast mode without fallback', async () => {
+    const adapter = new MeshCoreAdapter();
+    const file = createMockFile('tri.obj', 'v 0 0 0\nv 1 0 0\nv 0 1 0\nf 1 2 3\n');
+
+    const result = await adapter.load(file);
+
+    expect(result.status).toBe('success');
+    expect(result.asset?.stats?.triangles).toBe(1);
+    expect(result.asset?.stats?.vertices).toBe(3);
+    expect(result.metrics.parserMode).toBe('fast');
+    expect(result.metrics.fallbackCount).toBe(0);
+  });
+
+  it('falls back to Exact mode when Fast output references missing vertices', async () => {
+    const adapter = new MeshCoreAdapter();
+    const file = createMockFile('broken.obj', 'v 0 0 0\nv 1 0 0\nv 0 1 0\nf 1 2 3\nf 1 2 9\n');
+
+    const result = await adapter.load(file);
+
+    expect(result.status).toBe('success');
+    expect(result.metrics.parserMode).toBe('exact');
+    expect(result.metrics.fallbackCount).toBe(1);
+    expect(result.asset?.stats?.triangles).toBe(1);
+    expect(result.logs.some((log) => log.context?.op === 'reject_faces')).toBe(true);
+  });
+
+  it('returns E_PARSE_FAILED when both Fast and Exact fail', async () => {
+    const adapter = new MeshCoreAdapter();
+    const file = createMockFile('nan.obj', 'v 0 0 0\nv 1 0 abc\nv 0 1 0\nf 1 2 3\n');
+
+    const result = await adapter.load(file);
+
+    expect(result.status).toBe('error');
+    expect(result.error?.code).toBe('E_PARSE_FAILED');
+    expect(result.metrics.fallbackCount).toBe(1);
+  });
+
+  it('does not fall back when enableFallback is false', async () => {
+    const adapter = new MeshCoreAdapter();
+    const file = createMockFile('broken.obj', 'v 0 0 0\nv 1 0 0\nv 0 1 0\nf 1 2 9\n');
+
+    const result = await adapter.load(file, { enableFallback: false });
+
+    expect(result.status).toBe('error');
+    expect(result.metrics.parserMode).toBe('fast');
+    expect(result.metrics.fallbackCount).toBe(0);
+  });
+
+  it('routes binary STL through the WASM bridge', async () => {
+    const memory = new WebAssembly.Memory({ initial: 1 });
+    const vertices = new Float64Array(memory.buffer, 0, 9);
+    vertices.set([0, 0, 0, 1, 0, 0, 0, 1, 0]);
+    const indices = new Uint32Array(memory.buffer, 72, 3);
+    indices.set([0, 1, 2]);
+    const pointers: MeshBufferPointers = {
+      vertexPtr: 0,
+      vertexCount: 9,
+      indexPtr: 72,
+      indexCount: 3,
+      generation: 7
+    };
+    const bridge: MeshCoreBridge = {
+      memory,
+      parseMesh: vi.fn(async () => pointers),
+      releaseBuffers: vi.fn()
+    };
+
+    // 80-byte header + triangle count (1) + one 50-byte facet
+    const stl = new Uint8Array(134);
+    new DataView(stl.buffer).setUint32(80, 1, true);
+
+    const adapter = new MeshCoreAdapter(bridge);
+    const result = await adapter.load(createMockFile('part.stl', stl));
+
+    expect(bridge.parseMesh).toHaveBeenCalledWith(expect.any(ArrayBuffer), 'stl_binary');
+    expect(result.status).toBe('success');
+    expect(result.asset?.format).toBe('stl_binary');
+    expect(result.asset?.stats?.triangles).toBe(1);
+  });
+
+  it('fails binary formats without a bridge', async () => {
+    const stl = new Uint8Array(134);
+    new DataView(stl.buffer).setUint32(80, 1, true);
+
+    const adapter = new MeshCoreAdapter();
+    const result = await adapter.load(createMockFile('part.stl', stl));
+
+    expect(result.status).toBe('error');
+    expect(result.error?.code).toBe('E_PARSE_FAILED');
+  });
+
+  it('reports progress and returns E_ABORTED when cancelled', async () => {
+    const adapter = new MeshCoreAdapter();
+    const file = createMockFile('tri.obj', 'v 0 0 0\nv 1 0 0\nv 0 1 0\nf 1 2 3\n');
+    const controller = new AbortController();
+    const phases: string[] = [];
+
+    const result = await adapter.load(file, {
+      signal: controller.signal,
+      onProgress: ({ phase }) => {
+        phases.push(phase);
+        if (phase === 'parse') controller.abort();
+      }
+    });
+
+    expect(phases).toEqual(['detect', 'read', 'read', 'parse']);
+    expect(result.error?.code).toBe('E_ABORTED');
+    expect(result.error?.context?.reason).toBe('parse');
+    expect(result.logs.some((log) => log.context?.op === 'load_aborted')).toBe(true);
+  });
+});
+
+describe('MeshCoreAdapter.listAssets', () => {
+  it('lists loaded assets until their buffers are released', async () => {
+    const adapter = new MeshCoreAdapter();
+    const tri = 'v 0 0 0\nv 1 0 0\nv 0 1 0\nf 1 2 3\n';
+
+    const first = await adapter.load(createMockFile('a.obj', tri));
+    const second = await adapter.load(createMockFile('b.obj', tri));
+    await adapter.load(createMockFile('nan.obj', 'v 0 0 abc\n'));
+
+    expect(adapter.listAssets().map((asset) => asset.fileName)).toEqual(['a.obj', 'b.obj']);
+
+    first.asset!.buffers.release();
+
+    expect(adapter.listAssets()).toEqual([second.asset]);
+  });
+});
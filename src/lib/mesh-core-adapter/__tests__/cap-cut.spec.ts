@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest';
+import { capSliceMesh } from '../cap-cut';
+import { sliceMeshJs } from '../js-slicer';
+import { createAxisPlane, sliceMesh } from '../slice-mesh';
+import type { SliceMeshData } from '../slice-mesh';
+
+// Box triangles with outward-facing counter-clockwise winding
+const BOX_INDICES = [
+  0, 2, 1, 0, 3, 2,
+  4, 5, 6, 4, 6, 7,
+  0, 1, 5, 0, 5, 4,
+  3, 7, 6, 3, 6, 2,
+  0, 4, 7, 0, 7, 3,
+  1, 2, 6, 1, 6, 5
+];
+
+function box(min: number, max: number, inward = false): { vertices: number[]; indices: number[] } {
+  const vertices = [
+    min, min, min, max, min, min, max, max, min, min, max, min,
+    min, min, max, max, min, max, max, max, max, min, max, max
+  ];
+  const indices = [...BOX_INDICES];
+  if (inward) {
+    for (let i = 0; i < indices.length; i += 3) {
+      [indices[i + 1], indices[i + 2]] = [indices[i + 2], indices[i + 1]];
+    }
+  }
+  return { vertices, indices };
+}
+
+/** Outer box [0,1]^3 with an inward-facing cavity [0.25,0.75]^3 */
+function hollowBox(): SliceMeshData {
+  const outer = box(0, 1);
+  const inner = box(0.25, 0.75, true);
+  return {
+    vertices: new Float64Array([...outer.vertices, ...inner.vertices]),
+    indices: new Uint32Array([...outer.indices, ...inner.indices.map((i) => i + 8)])
+  };
+}
+
+/** Every directed edge must be matched by exactly one opposite edge */
+function isWatertight(mesh: SliceMeshData): boolean {
+  const directed = new Map<string, number>();
+  const indices = mesh.indices;
+  for (let f = 0; f < indices.length; f += 3) {
+    for (let k = 0; k < 3; k++) {
+      const key = `${indices[f + k]}:${indices[f + ((k + 1) % 3)]}`;
+      directed.set(key, (directed.get(key) ?? 0) + 1);
+    }
+  }
+  for (const [key, count] of directed) {
+    const [a, b] = key.split(':');
+    if (count !== 1 || directed.get(`${b}:${a}`) !== 1) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/** Sum of cap triangle areas projected on the X axis (signed, cap faces point to -X) */
+function capAreaX(mesh: SliceMeshData, capFaceCount: number): number {
+  const { vertices, indices } = mesh;
+  let area = 0;
+  for (let f = indices.length / 3 - capFaceCount; f < indices.length / 3; f++) {
+    const [a, b, c] = [indices[f * 3], indices[f * 3 + 1], indices[f * 3 + 2]];
+    const uy = vertices[b * 3 + 1] - vertices[a * 3 + 1];
+    const uz = vertices[b * 3 + 2] - vertices[a * 3 + 2];
+    const vy = vertices[c * 3 + 1] - vertices[a * 3 + 1];
+    const vz = vertices[c * 3 + 2] - vertices[a * 3 + 2];
+    area += (uy * vz - uz * vy) / 2;
+  }
+  return area;
+}
+
+describe('capSliceMesh', () => {
+  it('closes a sliced box into a watertight mesh', () => {
+    const { vertices, indices } = box(0, 1);
+    const plane = createAxisPlane('x', 0.5);
+    const sliced = sliceMeshJs({ vertices: new Float64Array(vertices), indices: new Uint32Array(indices) }, plane);
+    expect(isWatertight(sliced.mesh!)).toBe(false);
+
+    const capped = capSliceMesh(sliced.mesh!, plane);
+
+    expect(capped.loopCount).toBe(1);
+    expect(capped.capFaceCount).toBeGreaterThan(0);
+    expect(isWatertight(capped.mesh)).toBe(true);
+    expect(capAreaX(capped.mesh, capped.capFaceCount)).toBeCloseTo(-1);
+  });
+
+  it('triangulates around holes', () => {
+    const plane = createAxisPlane('x', 0.5);
+    const sliced = sliceMeshJs(hollowBox(), plane);
+
+    const capped = capSliceMesh(sliced.mesh!, plane);
+
+    expect(capped.loopCount).toBe(2);
+    expect(isWatertight(capped.mesh)).toBe(true);
+    // Outer square minus the cavity: 1 - 0.25
+    expect(capAreaX(capped.mesh, capped.capFaceCount)).toBeCloseTo(-0.75);
+  });
+});
+
+describe('sliceMesh capCut option', () => {
+  it('caps only when requested', async () => {
+    const plane = createAxisPlane('x', 0.5, true);
+
+    const open = await sliceMesh(null, hollowBox(), plane);
+    const capped = await sliceMesh(null, hollowBox(), plane, { capCut: true });
+
+    expect(open.capFaceCount).toBeUndefined();
+    expect(capped.success).toBe(true);
+    expect(capped.capFaceCount).toBeGreaterThan(0);
+    expect(capped.mesh!.faceCount).toBe(open.mesh!.faceCount! + capped.capFaceCount!);
+    expect(isWatertight(capped.mesh!)).toBe(true);
+  });
+});
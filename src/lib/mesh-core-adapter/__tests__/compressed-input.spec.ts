@@ -0,0 +1,203 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { inflateRawJs } from '../js-inflate';
+import { detectContainer, gunzip, peekGzip, unpackCompressedInput, DecompressedSizeError } from '../compressed-input';
+import { detectMeshFormat } from '../format-detector';
+import { loadMeshAsset, type MeshCoreBridge } from '../mesh-loader';
+import { inflateRaw } from '../zip-reader';
+
+const bridge = {} as MeshCoreBridge;
+const capabilities = { binaryPlyEnabled: true, wasmVersion: 'test' };
+
+const STL = 'solid t\nfacet normal 0 0 1\nouter loop\nvertex 0 0 0\nvertex 1 0 0\nvertex 0 1 0\nendloop\nendfacet\nendsolid t\n';
+const OBJ = 'mtllib parts.mtl\nv 0 0 0\nv 1 0 0\nv 0 1 0\nusemtl red\nf 1 2 3\n';
+const MTL = 'newmtl red\nKd 1 0 0\n';
+
+const encode = (text: string) => new TextEncoder().encode(text);
+
+async function compress(bytes: Uint8Array, format: CompressionFormat): Promise<Uint8Array> {
+  const stream = new Response(bytes).body!.pipeThrough(new CompressionStream(format));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/** Builds a ZIP archive of deflated entries (CRCs are left zero; the reader does not verify them) */
+async function buildZip(entries: Record<string, string>): Promise<ArrayBuffer> {
+  const locals: Uint8Array[] = [];
+  const centrals: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const [entryName, text] of Object.entries(entries)) {
+    const name = encode(entryName);
+    const raw = encode(text);
+    const data = await compress(raw, 'deflate-raw');
+
+    const local = new Uint8Array(30 + name.length + data.length);
+    const lv = new DataView(local.buffer);
+    lv.setUint32(0, 0x04034b50, true);
+    lv.setUint16(8, 8, true);
+    lv.setUint32(18, data.length, true);
+    lv.setUint32(22, raw.length, true);
+    lv.setUint16(26, name.length, true);
+    local.set(name, 30);
+    local.set(data, 30 + name.length);
+
+    const central = new Uint8Array(46 + name.length);
+    const cv = new DataView(central.buffer);
+    cv.setUint32(0, 0x02014b50, true);
+    cv.setUint16(10, 8, true);
+    cv.setUint32(20, data.length, true);
+    cv.setUint32(24, raw.length, true);
+    cv.setUint16(28, name.length, true);
+    cv.setUint32(42, offset, true);
+    central.set(name, 46);
+
+    locals.push(local);
+    centrals.push(central);
+    offset += local.length;
+  }
+
+  const eocd = new Uint8Array(22);
+  const ev = new DataView(eocd.buffer);
+  ev.setUint32(0, 0x06054b50, true);
+  ev.setUint16(8, centrals.length, true);
+  ev.setUint16(10, centrals.length, true);
+  ev.setUint32(12, centrals.reduce((sum, c) => sum + c.length, 0), true);
+  ev.setUint32(16, offset, true);
+
+  const parts = [...locals, ...centrals, eocd];
+  const out = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let cursor = 0;
+  for (const part of parts) {
+    out.set(part, cursor);
+    cursor += part.length;
+  }
+  return out.buffer;
+}
+
+function mockFile(name: string, bytes: Uint8Array | ArrayBuffer): File {
+  const data = bytes instanceof Uint8Array ? bytes.slice().buffer : bytes;
+  return {
+    name,
+    size: data.byteLength,
+    type: '',
+    arrayBuffer: async () => data,
+    slice: (start = 0, end = data.byteLength) => mockFile(name, data.slice(start, end))
+  } as unknown as File;
+}
+
+/** Deterministic pseudo-random bytes (incompressible: deflate emits stored blocks) */
+function noise(length: number): Uint8Array {
+  const bytes = new Uint8Array(length);
+  let seed = 12345;
+  for (let i = 0; i < length; i++) {
+    seed = (seed * 1103515245 + 12345) >>> 0;
+    bytes[i] = seed >>> 24;
+  }
+  return bytes;
+}
+
+describe('inflateRawJs', () => {
+  it('matches the native decoder for fixed, dynamic and stored blocks', async () => {
+    const samples = [
+      encode('v 0 0 0\n'),
+      encode(Array.from({ length: 4000 }, (_, i) => `v ${i % 17} ${(i * 7) % 31} ${i % 5}.25\n`).join('')),
+      noise(70_000)
+    ];
+
+    for (const sample of samples) {
+      const compressed = await compress(sample, 'deflate-raw');
+      expect(Array.from(inflateRawJs(compressed))).toEqual(Array.from(sample));
+    }
+  });
+
+  it('stops at the output limit and rejects truncated streams', async () => {
+    const sample = encode(STL.repeat(200));
+    const compressed = await compress(sample, 'deflate-raw');
+
+    expect(Array.from(inflateRawJs(compressed, 100))).toEqual(Array.from(sample.subarray(0, 100)));
+    expect(() => inflateRawJs(compressed.subarray(0, compressed.length >> 1))).toThrow(/deflate/);
+  });
+});
+
+describe('compressed input', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('gunzips with the JavaScript fallback when DecompressionStream is unavailable', async () => {
+    const gz = await compress(encode(STL), 'gzip');
+    vi.stubGlobal('DecompressionStream', undefined);
+
+    expect(new TextDecoder().decode(await gunzip(gz.slice().buffer))).toBe(STL);
+    expect(new TextDecoder().decode(await inflateRaw(await compress(encode(OBJ), 'deflate-raw')))).toBe(OBJ);
+  });
+
+  it('detects containers and the format inside', async () => {
+    const gz = await compress(encode('ply\nformat binary_little_endian 1.0\nelement vertex 0\nend_header\n'), 'gzip');
+    const zip = await buildZip({ 'readme.txt': 'hi', 'model/part.obj': OBJ });
+
+    expect(detectContainer(gz.slice().buffer, 'scan.gz')).toBe('gzip');
+    expect(peekGzip(gz.slice().buffer)?.bytes.length).toBeGreaterThan(0);
+    expect(await detectMeshFormat(mockFile('scan.gz', gz))).toMatchObject({ format: 'ply_binary_le', container: 'gzip' });
+    expect(await detectMeshFormat(mockFile('bundle.zip', zip))).toMatchObject({ format: 'obj', container: 'zip' });
+    expect(detectContainer(zip, 'bundle.3mf')).toBeNull();
+  });
+
+  it('loads an .stl.gz file', async () => {
+    const gz = await compress(encode(STL), 'gzip');
+
+    const result = await loadMeshAsset(mockFile('part.stl.gz', gz), { bridge, capabilities });
+
+    expect(result.status).toBe('success');
+    expect(result.asset?.fileName).toBe('part.stl.gz');
+    expect(result.asset?.format).toBe('stl');
+    expect(result.logs.some((log) => log.context?.op === 'decompress')).toBe(true);
+  });
+
+  it('detects the inner format of a nameless .gz by its content', async () => {
+    // CompressionStream writes no FNAME, and "scan" carries no mesh extension
+    const gz = await compress(encode(STL), 'gzip');
+
+    const result = await loadMeshAsset(mockFile('scan.gz', gz), { bridge, capabilities });
+
+    expect(result.status).toBe('success');
+    expect(result.asset?.format).toBe('stl');
+    expect(result.asset?.buffers.indexView.length).toBe(3);
+  });
+
+  it('loads a zip bundle with its material library', async () => {
+    const zip = await buildZip({ '__MACOSX/model/._part.obj': '', 'model/part.obj': OBJ, 'model/parts.mtl': MTL });
+
+    const result = await loadMeshAsset(mockFile('bundle.zip', zip), { bridge, capabilities });
+
+    expect(result.status).toBe('success');
+    expect(result.asset?.format).toBe('obj');
+    expect(result.asset?.materials?.map((m) => m.name)).toEqual(['red']);
+  });
+
+  it('applies the size limit to the decompressed size', async () => {
+    const text = STL.repeat(100);
+    const gz = await compress(encode(text), 'gzip');
+
+    const result = await loadMeshAsset(mockFile('part.stl.gz', gz), { bridge, capabilities, maxFileBytes: 4096 });
+
+    expect(result.error?.code).toBe('E_FILE_TOO_LARGE');
+    expect(result.error?.context).toMatchObject({
+      fileName: 'part.stl.gz',
+      compressedBytes: gz.length,
+      decompressedBytes: text.length,
+      maxBytes: 4096
+    });
+    await expect(unpackCompressedInput(await buildZip({ 'a.stl': text }), 'a.zip', 'zip', { maxBytes: 4096 })).rejects.toBeInstanceOf(
+      DecompressedSizeError
+    );
+  });
+
+  it('reports zip bundles without a mesh as E_PARSE_FAILED', async () => {
+    const zip = await buildZip({ 'notes.txt': 'no mesh here' });
+
+    const result = await loadMeshAsset(mockFile('bundle.zip', zip), { bridge, capabilities });
+
+    expect(result.error?.code).toBe('E_PARSE_FAILED');
+    expect(result.error?.context?.reason).toBe('missing_entry');
+  });
+});
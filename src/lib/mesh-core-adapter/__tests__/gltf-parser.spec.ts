@@ -0,0 +1,167 @@
+import { describe, expect, it } from 'vitest';
+import { isGlb, parseGltf } from '../gltf-parser';
+import { determineParseStrategy, parseWithJs } from '../mesh-loader';
+
+// Single triangle in the XY plane, facing +Z
+const POSITIONS = new Float32Array([0, 0, 0, 1, 0, 0, 0, 1, 0]);
+const NORMALS = new Float32Array([0, 0, 1, 0, 0, 1, 0, 0, 1]);
+const INDICES = new Uint16Array([0, 1, 2, 0]); // padded to 4 bytes
+
+/** BIN layout: positions (36) | normals (36) | indices (8) */
+function buildBin(): ArrayBuffer {
+  const bin = new Uint8Array(80);
+  bin.set(new Uint8Array(POSITIONS.buffer), 0);
+  bin.set(new Uint8Array(NORMALS.buffer), 36);
+  bin.set(new Uint8Array(INDICES.buffer), 72);
+  return bin.buffer;
+}
+
+function buildDocument(nodes: object[], options: { uri?: string; withNormals?: boolean } = {}) {
+  const withNormals = options.withNormals ?? true;
+  return {
+    asset: { version: '2.0' },
+    scene: 0,
+    scenes: [{ nodes: [0] }],
+    nodes,
+    meshes: [{
+      primitives: [{
+        attributes: withNormals ? { POSITION: 0, NORMAL: 1 } : { POSITION: 0 },
+        indices: 2
+      }]
+    }],
+    accessors: [
+      { bufferView: 0, componentType: 5126, count: 3, type: 'VEC3' },
+      { bufferView: 1, componentType: 5126, count: 3, type: 'VEC3' },
+      { bufferView: 2, componentType: 5123, count: 3, type: 'SCALAR' }
+    ],
+    bufferViews: [
+      { buffer: 0, byteOffset: 0, byteLength: 36 },
+      { buffer: 0, byteOffset: 36, byteLength: 36 },
+      { buffer: 0, byteOffset: 72, byteLength: 6 }
+    ],
+    buffers: [{ byteLength: 80, ...(options.uri ? { uri: options.uri } : {}) }]
+  };
+}
+
+function buildGlb(document: object, bin: ArrayBuffer): ArrayBuffer {
+  let json = new TextEncoder().encode(JSON.stringify(document));
+  const padded = Math.ceil(json.length / 4) * 4;
+  const jsonChunk = new Uint8Array(padded).fill(0x20);
+  jsonChunk.set(json);
+  json = jsonChunk;
+
+  const total = 12 + 8 + json.length + 8 + bin.byteLength;
+  const out = new ArrayBuffer(total);
+  const view = new DataView(out);
+  view.setUint32(0, 0x46546c67, true);
+  view.setUint32(4, 2, true);
+  view.setUint32(8, total, true);
+  view.setUint32(12, json.length, true);
+  view.setUint32(16, 0x4e4f534a, true);
+  new Uint8Array(out).set(json, 20);
+  const binOffset = 20 + json.length;
+  view.setUint32(binOffset, bin.byteLength, true);
+  view.setUint32(binOffset + 4, 0x004e4942, true);
+  new Uint8Array(out).set(new Uint8Array(bin), binOffset + 8);
+  return out;
+}
+
+function encodeJson(document: object): ArrayBuffer {
+  return new TextEncoder().encode(JSON.stringify(document)).buffer as ArrayBuffer;
+}
+
+describe('parseGltf', () => {
+  it('parses a GLB and applies node translation', () => {
+    const glb = buildGlb(buildDocument([{ mesh: 0, translation: [10, 0, 0] }]), buildBin());
+
+    expect(isGlb(glb)).toBe(true);
+    const result = parseGltf(glb);
+
+    expect(result.vertexCount).toBe(3);
+    expect(result.faceCount).toBe(1);
+    expect(Array.from(result.vertices)).toEqual([10, 0, 0, 11, 0, 0, 10, 1, 0]);
+    expect(Array.from(result.indices)).toEqual([0, 1, 2]);
+    expect(Array.from(result.normals!)).toEqual([0, 0, 1, 0, 0, 1, 0, 0, 1]);
+  });
+
+  it('composes nested node transforms and rotates normals', () => {
+    // Parent scales by 2, child rotates 90° about X (+Z → -Y)
+    const s = Math.SQRT1_2;
+    const glb = buildGlb(
+      buildDocument([
+        { children: [1], scale: [2, 2, 2] },
+        { mesh: 0, rotation: [s, 0, 0, s] }
+      ]),
+      buildBin()
+    );
+
+    const result = parseGltf(glb);
+    const vertices = Array.from(result.vertices);
+    const normal = Array.from(result.normals!.slice(0, 3));
+
+    expect(vertices[3]).toBeCloseTo(2);
+    expect(vertices[7]).toBeCloseTo(0);
+    expect(vertices[8]).toBeCloseTo(2);
+    expect(normal[0]).toBeCloseTo(0);
+    expect(normal[1]).toBeCloseTo(-1);
+    expect(normal[2]).toBeCloseTo(0);
+  });
+
+  it('flips winding and normals for mirroring transforms', () => {
+    const glb = buildGlb(buildDocument([{ mesh: 0, scale: [1, 1, -1] }]), buildBin());
+
+    const result = parseGltf(glb);
+
+    expect(Array.from(result.indices)).toEqual([0, 2, 1]);
+    expect(result.normals![2]).toBeCloseTo(-1);
+  });
+
+  it('resolves external .bin buffers from resources', () => {
+    const gltf = encodeJson(buildDocument([{ mesh: 0 }], { uri: 'model.bin' }));
+
+    expect(isGlb(gltf)).toBe(false);
+    expect(() => parseGltf(gltf)).toThrow('external buffer not provided: model.bin');
+
+    const result = parseGltf(gltf, new Map([['model.bin', buildBin()]]));
+    expect(result.faceCount).toBe(1);
+  });
+
+  it('decodes embedded data URI buffers', () => {
+    const bytes = new Uint8Array(buildBin());
+    const base64 = btoa(String.fromCharCode(...bytes));
+    const gltf = encodeJson(buildDocument([{ mesh: 0 }], { uri: `data:application/octet-stream;base64,${base64}` }));
+
+    const result = parseGltf(gltf);
+    expect(Array.from(result.vertices)).toEqual([0, 0, 0, 1, 0, 0, 0, 1, 0]);
+  });
+
+  it('omits normals when a primitive has none', () => {
+    const glb = buildGlb(buildDocument([{ mesh: 0 }], { withNormals: false }), buildBin());
+
+    expect(parseGltf(glb).normals).toBeUndefined();
+  });
+
+  it('rejects glTF 1.0 assets', () => {
+    const gltf = encodeJson({ asset: { version: '1.0' } });
+
+    expect(() => parseGltf(gltf)).toThrow('Unsupported glTF version: 1.0');
+  });
+});
+
+describe('glTF loader routing', () => {
+  it('routes .glb and .gltf to the JS parser', () => {
+    const glb = buildGlb(buildDocument([{ mesh: 0 }]), buildBin());
+    const gltf = encodeJson(buildDocument([{ mesh: 0 }], { uri: 'model.bin' }));
+
+    expect(determineParseStrategy(glb, 'glb')).toEqual({ parser: 'js', format: 'glb' });
+    expect(determineParseStrategy(gltf, 'gltf')).toEqual({ parser: 'js', format: 'gltf' });
+  });
+
+  it('passes resources through parseWithJs', () => {
+    const gltf = encodeJson(buildDocument([{ mesh: 0 }], { uri: 'model.bin' }));
+
+    const result = parseWithJs(gltf, 'gltf', 'exact', new Map([['model.bin', buildBin()]]));
+    expect(result.faceCount).toBe(1);
+    expect(result.rejectedFaceCount).toBe(0);
+  });
+});
@@ -0,0 +1,263 @@
+import { describe, expect, it } from 'vitest';
+import {
+  extractBinaryPlyColors,
+  extractBinaryPlyUvs,
+  parseAsciiPly,
+  parseAsciiPlyExact,
+  parseAsciiStlExact,
+  parseObj,
+  parseObjExact,
+  parseOff,
+  parseOffExact,
+  rejectDegenerateFaces
+} from '../js-parsers';
+
+const encode = (text: string): ArrayBuffer => new TextEncoder().encode(text).buffer as ArrayBuffer;
+
+describe('parseAsciiPlyExact', () => {
+  it('reads coordinates by property name and skips extra elements', () => {
+    const ply = [
+      'ply',
+      'format ascii 1.0',
+      'comment reordered properties',
+      'element vertex 3',
+      'property float confidence',
+      'property float z',
+      'property float x',
+      'property float y',
+      'element face 1',
+      'property list uchar int vertex_indices',
+      'element edge 1',
+      'property int vertex1',
+      'property int vertex2',
+      'end_header',
+      '0.9 3 1 2',
+      '0.8 3 4 2',
+      '0.7 3 1 5',
+      '3 0 1 2',
+      '0 1',
+      ''
+    ].join('\n');
+
+    const result = parseAsciiPlyExact(encode(ply));
+
+    expect(Array.from(result.vertices.slice(0, 3))).toEqual([1, 2, 3]);
+    expect(Array.from(result.indices)).toEqual([0, 1, 2]);
+  });
+
+  it('rejects malformed headers', () => {
+    expect(() => parseAsciiPlyExact(encode('ply\nelement vertex 1\nend_header\n0 0 0\n'))).toThrow(/format/);
+    expect(() => parseAsciiPlyExact(encode('ply\nformat ascii 1.0\nelement vertex 1\nproperty float x\nend_header\n0\n'))).toThrow(/x, y and z/);
+  });
+
+  it('rejects truncated data', () => {
+    const ply = 'ply\nformat ascii 1.0\nelement vertex 2\nproperty float x\nproperty float y\nproperty float z\nend_header\n0 0 0\n';
+    expect(() => parseAsciiPlyExact(encode(ply))).toThrow(/unexpected end of data/);
+  });
+});
+
+describe('parseAsciiStlExact', () => {
+  it('rejects facets with more than three vertices', () => {
+    const stl = `solid t
+facet normal 0 0 1
+outer loop
+vertex 0 0 0
+vertex 1 0 0
+vertex 0 1 0
+vertex 1 1 0
+endloop
+endfacet
+endsolid t
+`;
+    expect(() => parseAsciiStlExact(encode(stl))).toThrow(/more than 3 vertices/);
+  });
+
+  it('rejects tokens parseFloat would silently truncate', () => {
+    const stl = `solid t
+facet normal 0 0 1
+outer loop
+vertex 0 0 0
+vertex 1.5abc 0 0
+vertex 0 1 0
+endloop
+endfacet
+endsolid t
+`;
+    expect(() => parseAsciiStlExact(encode(stl))).toThrow(/invalid number/);
+  });
+});
+
+describe('parseObjExact', () => {
+  it('rejects zero indices', () => {
+    expect(() => parseObjExact(encode('v 0 0 0\nv 1 0 0\nv 0 1 0\nf 0 1 2\n'))).toThrow(/1-based/);
+  });
+
+  it('resolves relative indices and drops faces referencing missing vertices', () => {
+    const result = parseObjExact(encode('v 0 0 0\nv 1 0 0\nv 0 1 0\nf -3 -2 -1\nf 1 2 7\n'));
+    expect(Array.from(result.indices)).toEqual([0, 1, 2]);
+    expect(result.rejectedFaceCount).toBe(1);
+  });
+});
+
+describe('vertex colors', () => {
+  const coloredPly = [
+    'ply', 'format ascii 1.0', 'element vertex 3',
+    'property float x', 'property float y', 'property float z',
+    'property uchar red', 'property uchar green', 'property uchar blue',
+    'element face 1', 'property list uchar int vertex_indices', 'end_header',
+    '0 0 0 255 0 0', '1 0 0 0 255 0', '0 1 0 0 0 255', '3 0 1 2', ''
+  ].join('\n');
+
+  it('reads uchar PLY colors in Fast and Exact mode', () => {
+    const expected = [1, 0, 0, 0, 1, 0, 0, 0, 1];
+    expect(Array.from(parseAsciiPly(encode(coloredPly)).colors!)).toEqual(expected);
+    expect(Array.from(parseAsciiPlyExact(encode(coloredPly)).colors!)).toEqual(expected);
+  });
+
+  it('reads the OBJ "v x y z r g b" extension', () => {
+    const obj = 'v 0 0 0 1 0 0\nv 1 0 0 0 1 0\nv 0 1 0\nf 1 2 3\n';
+    expect(Array.from(parseObj(encode(obj)).colors!)).toEqual([1, 0, 0, 0, 1, 0, 1, 1, 1]);
+    expect(Array.from(parseObjExact(encode(obj)).colors!)).toEqual([1, 0, 0, 0, 1, 0, 1, 1, 1]);
+    expect(parseObj(encode('v 0 0 0\nv 1 0 0\nv 0 1 0\nf 1 2 3\n')).colors).toBeUndefined();
+  });
+
+  it('extracts colors from binary PLY vertex records', () => {
+    const header = new TextEncoder().encode([
+      'ply', 'format binary_little_endian 1.0', 'element vertex 2',
+      'property float x', 'property float y', 'property float z',
+      'property uchar red', 'property uchar green', 'property uchar blue',
+      'end_header', ''
+    ].join('\n'));
+    const stride = 15;
+    const data = new Uint8Array(header.length + stride * 2);
+    data.set(header);
+    const view = new DataView(data.buffer, header.length);
+    view.setFloat32(stride + 0, 1, true);
+    data.set([255, 0, 51], header.length + 12);
+    data.set([0, 102, 255], header.length + stride + 12);
+
+    const colors = extractBinaryPlyColors(data.buffer)!;
+    [1, 0, 0.2, 0, 0.4, 1].forEach((value, i) => expect(colors[i]).toBeCloseTo(value));
+    expect(extractBinaryPlyColors(encode(coloredPly))).toBeUndefined();
+  });
+});
+
+describe('texture coordinates', () => {
+  // Two triangles sharing edge 2-3; vertex 2 has a seam (different vt per face)
+  const seamObj = [
+    'v 0 0 0', 'v 1 0 0', 'v 1 1 0', 'v 0 1 0',
+    'vt 0 0', 'vt 1 0', 'vt 1 1', 'vt 0 1', 'vt 0.5 0.5',
+    'f 1/1 2/2 3/3', 'f 1/1 3/5 4/4', ''
+  ].join('\n');
+
+  it('splits OBJ vertices used with different vt in Fast and Exact mode', () => {
+    for (const result of [parseObj(encode(seamObj)), parseObjExact(encode(seamObj))]) {
+      expect(result.vertexCount).toBe(5);
+      expect(Array.from(result.indices)).toEqual([0, 1, 2, 0, 4, 3]);
+      expect(Array.from(result.vertices.slice(12))).toEqual([1, 1, 0]);
+      expect(Array.from(result.uvs!)).toEqual([0, 0, 1, 0, 1, 1, 0, 1, 0.5, 0.5]);
+    }
+  });
+
+  it('resolves relative vt indices and leaves UVs out when faces have none', () => {
+    const obj = 'v 0 0 0\nv 1 0 0\nv 0 1 0\nvt 0 0\nvt 1 0\nvt 0 1\nf 1/-3 2/-2 3/-1\n';
+    expect(Array.from(parseObj(encode(obj)).uvs!)).toEqual([0, 0, 1, 0, 0, 1]);
+    expect(parseObj(encode('v 0 0 0\nv 1 0 0\nv 0 1 0\nvt 0 0\nf 1//1 2//1 3//1\n')).uvs).toBeUndefined();
+  });
+
+  it('rejects out-of-range vt indices in Exact mode', () => {
+    expect(() => parseObjExact(encode('v 0 0 0\nv 1 0 0\nv 0 1 0\nvt 0 0\nf 1/1 2/2 3/1\n')))
+      .toThrow('OBJ line 5: texture coordinate index 2 is out of range');
+  });
+
+  it('reads PLY s/t and u/v properties', () => {
+    const ply = (u: string, v: string) => [
+      'ply', 'format ascii 1.0', 'element vertex 3',
+      'property float x', 'property float y', 'property float z',
+      `property float ${u}`, `property float ${v}`,
+      'element face 1', 'property list uchar int vertex_indices', 'end_header',
+      '0 0 0 0 0', '1 0 0 1 0', '0 1 0 0 0.5', '3 0 1 2', ''
+    ].join('\n');
+
+    expect(Array.from(parseAsciiPly(encode(ply('s', 't'))).uvs!)).toEqual([0, 0, 1, 0, 0, 0.5]);
+    expect(Array.from(parseAsciiPlyExact(encode(ply('u', 'v'))).uvs!)).toEqual([0, 0, 1, 0, 0, 0.5]);
+  });
+
+  it('extracts UVs from binary PLY vertex records', () => {
+    const header = new TextEncoder().encode([
+      'ply', 'format binary_little_endian 1.0', 'element vertex 1',
+      'property float x', 'property float y', 'property float z',
+      'property float texture_u', 'property float texture_v',
+      'end_header', ''
+    ].join('\n'));
+    const data = new Uint8Array(header.length + 20);
+    data.set(header);
+    const view = new DataView(data.buffer, header.length);
+    view.setFloat32(12, 0.25, true);
+    view.setFloat32(16, 0.75, true);
+
+    expect(Array.from(extractBinaryPlyUvs(data.buffer)!)).toEqual([0.25, 0.75]);
+  });
+});
+
+describe('parseOff', () => {
+  it('fan-triangulates polygon faces', () => {
+    const result = parseOff(encode('OFF\n# unit square\n4 1 0\n0 0 0\n1 0 0\n1 1 0\n0 1 0\n4 0 1 2 3\n'));
+
+    expect(result.vertexCount).toBe(4);
+    expect(Array.from(result.indices)).toEqual([0, 1, 2, 0, 2, 3]);
+    expect(result.colors).toBeUndefined();
+    expect(result.normals).toBeUndefined();
+  });
+
+  it('reads COFF colors as 0..255 integers or 0..1 floats', () => {
+    const integers = parseOff(encode('COFF\n3 1 0\n0 0 0 255 0 0 255\n1 0 0 0 51 0\n0 1 0 0 0 255\n3 0 1 2\n'));
+    const floats = parseOff(encode('COFF\n3 1 0\n0 0 0 1.0 0 0 1\n1 0 0 0 0.5 0\n0 1 0 0 0 1\n3 0 1 2\n'));
+
+    [1, 0, 0, 0, 0.2, 0, 0, 0, 1].forEach((value, i) => expect(integers.colors![i]).toBeCloseTo(value));
+    expect(Array.from(floats.colors!)).toEqual([1, 0, 0, 0, 0.5, 0, 0, 0, 1]);
+  });
+
+  it('decides the COFF color scale once per file', () => {
+    // `1 0 0` is a near-black integer color, not full red
+    const dark = parseOff(encode('COFF\n3 1 0\n0 0 0 1 0 0\n1 0 0 1 0 0\n0 1 0 1 0 0\n3 0 1 2\n'));
+    const mixed = parseOff(encode('COFF\n3 1 0\n0 0 0 200 0 0\n1 0 0 0.5 0 0\n0 1 0\n3 0 1 2\n'));
+
+    [1, 0, 0, 1, 0, 0, 1, 0, 0].forEach((value, i) => expect(dark.colors![i]).toBeCloseTo(value / 255, 6));
+    [200, 0, 0, 0.5, 0, 0].forEach((value, i) => expect(mixed.colors![i]).toBeCloseTo(value / 255, 6));
+    // Vertices without a color stay white
+    expect(Array.from(mixed.colors!.slice(6))).toEqual([1, 1, 1]);
+  });
+
+  it('reads NOFF normals and the merged ModelNet header', () => {
+    const result = parseOff(encode('NOFF3 1 0\n0 0 0 0 0 1\n1 0 0 0 0 1\n0 1 0 0 0 1\n3 0 1 2\n'));
+
+    expect(result.faceCount).toBe(1);
+    expect(Array.from(result.normals!)).toEqual([0, 0, 1, 0, 0, 1, 0, 0, 1]);
+  });
+});
+
+describe('parseOffExact', () => {
+  it('requires the declared vertex and face counts', () => {
+    expect(() => parseOffExact(encode('OFF\n3 1 0\n0 0 0\n1 0 0\n'))).toThrow(/expected 3 vertices/);
+    expect(() => parseOffExact(encode('OFF\n3 2 0\n0 0 0\n1 0 0\n0 1 0\n3 0 1 2\n'))).toThrow(/expected 2 faces/);
+  });
+
+  it('rejects invalid tokens and drops faces referencing missing vertices', () => {
+    expect(() => parseOffExact(encode('OFF\n1 0 0\n0 0 1.5abc\n'))).toThrow(/invalid number/);
+
+    const result = parseOffExact(encode('OFF\n3 2 0\n0 0 0\n1 0 0\n0 1 0\n3 0 1 2\n3 0 1 9\n'));
+    expect(Array.from(result.indices)).toEqual([0, 1, 2]);
+    expect(result.rejectedFaceCount).toBe(1);
+  });
+});
+
+describe('rejectDegenerateFaces', () => {
+  it('drops repeated-index and collinear faces', () => {
+    const vertices = new Float64Array([0, 0, 0, 1, 0, 0, 2, 0, 0, 0, 1, 0]);
+    const { indices, rejectedFaceCount } = rejectDegenerateFaces(vertices, [0, 1, 3, 0, 0, 1, 0, 1, 2]);
+
+    expect(Array.from(indices)).toEqual([0, 1, 3]);
+    expect(rejectedFaceCount).toBe(2);
+  });
+});
@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest';
+import { sliceMeshJs } from '../js-slicer';
+import { createAxisPlane } from '../slice-mesh';
+
+// Unit cube [0,1]^3, outward-facing counter-clockwise triangles
+const CUBE_VERTICES = new Float64Array([
+  0, 0, 0, 1, 0, 0, 1, 1, 0, 0, 1, 0,
+  0, 0, 1, 1, 0, 1, 1, 1, 1, 0, 1, 1
+]);
+const CUBE_INDICES = new Uint32Array([
+  0, 2, 1, 0, 3, 2, // -z
+  4, 5, 6, 4, 6, 7, // +z
+  0, 1, 5, 0, 5, 4, // -y
+  3, 7, 6, 3, 6, 2, // +y
+  0, 4, 7, 0, 7, 3, // -x
+  1, 2, 6, 1, 6, 5  // +x
+]);
+
+function faceNormal(vertices: Float64Array, indices: Uint32Array, face: number): [number, number, number] {
+  const p = [0, 1, 2].map((k) => {
+    const i = indices[face * 3 + k] * 3;
+    return [vertices[i], vertices[i + 1], vertices[i + 2]];
+  });
+  const u = [p[1][0] - p[0][0], p[1][1] - p[0][1], p[1][2] - p[0][2]];
+  const v = [p[2][0] - p[0][0], p[2][1] - p[0][1], p[2][2] - p[0][2]];
+  return [u[1] * v[2] - u[2] * v[1], u[2] * v[0] - u[0] * v[2], u[0] * v[1] - u[1] * v[0]];
+}
+
+describe('sliceMeshJs', () => {
+  it('keeps the positive half-space and welds cut vertices', () => {
+    const result = sliceMeshJs(
+      { vertices: CUBE_VERTICES, indices: CUBE_INDICES },
+      createAxisPlane('x', 0.25)
+    );
+
+    expect(result.success).toBe(true);
+    const mesh = result.mesh!;
+    const vertices = mesh.vertices as Float64Array;
+
+    for (let i = 0; i < vertices.length; i += 3) {
+      expect(vertices[i]).toBeGreaterThanOrEqual(0.25);
+    }
+
+    // 4 kept corners + 8 cut vertices (4 cube edges, 4 face diagonals), each emitted once
+    expect(mesh.vertexCount).toBe(12);
+    const keys = new Set<string>();
+    for (let i = 0; i < vertices.length; i += 3) {
+      keys.add(`${vertices[i]},${vertices[i + 1]},${vertices[i + 2]}`);
+    }
+    expect(keys.size).toBe(12);
+
+    // +x face (2 tris) kept, each side face yields a quad (2 tris) and a triangle
+    expect(mesh.faceCount).toBe(14);
+  });
+
+  it('welds cut vertices of unindexed triangle soups by position', () => {
+    // STL-like copy of the cube: 3 vertices per face, none shared
+    const soupVertices = new Float64Array(Array.from(CUBE_INDICES, (i) => [...CUBE_VERTICES.subarray(i * 3, i * 3 + 3)]).flat());
+    const soupIndices = new Uint32Array(CUBE_INDICES.length).map((_, i) => i);
+
+    const mesh = sliceMeshJs({ vertices: soupVertices, indices: soupIndices }, createAxisPlane('x', 0.25)).mesh!;
+    const vertices = mesh.vertices as Float64Array;
+    const indices = mesh.indices as Uint32Array;
+
+    // The 8 cut points are emitted once each and shared by the faces meeting there
+    const cutVertices = new Set<number>();
+    indices.forEach((v) => {
+      if (vertices[v * 3] === 0.25) cutVertices.add(v);
+    });
+    expect(cutVertices.size).toBe(8);
+    expect(mesh.faceCount).toBe(14);
+  });
+
+  it('preserves triangle winding', () => {
+    const result = sliceMeshJs(
+      { vertices: CUBE_VERTICES, indices: CUBE_INDICES },
+      createAxisPlane('x', 0.5)
+    );
+    const mesh = result.mesh!;
+    const vertices = mesh.vertices as Float64Array;
+    const indices = mesh.indices as Uint32Array;
+
+    for (let f = 0; f < mesh.faceCount!; f++) {
+      const n = faceNormal(vertices, indices, f);
+      // Every remaining face is on the cube surface: its normal must point outwards
+      const i = indices[f * 3] * 3;
+      const center = [vertices[i] - 0.5, vertices[i + 1] - 0.5, vertices[i + 2] - 0.5];
+      const dominant = [0, 1, 2].reduce((a, b) => (Math.abs(n[a]) >= Math.abs(n[b]) ? a : b));
+      expect(Math.sign(n[dominant])).toBe(Math.sign(center[dominant]));
+    }
+  });
+
+  it('reports Slice.EmptyResult when every face is clipped', () => {
+    const result = sliceMeshJs(
+      { vertices: CUBE_VERTICES, indices: CUBE_INDICES },
+      createAxisPlane('x', 2)
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.error).toMatch(/^Slice\.EmptyResult/);
+  });
+
+  it('counts exact fallbacks for vertices lying on the plane', () => {
+    const result = sliceMeshJs(
+      { vertices: CUBE_VERTICES, indices: CUBE_INDICES },
+      createAxisPlane('x', 1, true)
+    );
+
+    // Plane x = 1 keeping x <= 1: the 4 corners at x = 1 need the exact predicate
+    expect(result.success).toBe(true);
+    expect(result.exactFallbackCount).toBe(4);
+    expect(result.exactFallbackRatio).toBe(0.5);
+    expect(result.mesh?.faceCount).toBe(12);
+  });
+});
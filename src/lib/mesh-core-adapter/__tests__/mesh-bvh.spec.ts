@@ -0,0 +1,179 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildTriangleBvh,
+  closestPointOnMesh,
+  raycastMesh,
+  trianglesInBox,
+  trianglesNearPlane,
+  type TriangleBvh
+} from '../mesh-bvh';
+import { getMeshBvh, loadMeshBvh, peekMeshBvh } from '../mesh-bvh-cache';
+import type { MeshBuffers } from '../types';
+
+/** Deterministic pseudo-random numbers in [0, 1) */
+function random(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state * 1664525 + 1013904223) >>> 0;
+    return state / 2 ** 32;
+  };
+}
+
+/** Unit sphere tessellated as an n × n latitude/longitude grid */
+function sphere(n: number): { vertexView: Float64Array; indexView: Uint32Array } {
+  const vertices: number[] = [];
+  const indices: number[] = [];
+  for (let i = 0; i <= n; i++) {
+    for (let j = 0; j <= n; j++) {
+      const theta = (i / n) * Math.PI;
+      const phi = (j / n) * Math.PI * 2;
+      vertices.push(Math.sin(theta) * Math.cos(phi), Math.sin(theta) * Math.sin(phi), Math.cos(theta));
+    }
+  }
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j < n; j++) {
+      const a = i * (n + 1) + j;
+      indices.push(a, a + 1, a + n + 2, a, a + n + 2, a + n + 1);
+    }
+  }
+  return { vertexView: new Float64Array(vertices), indexView: new Uint32Array(indices) };
+}
+
+function meshBuffers(vertexView: Float64Array, indexView: Uint32Array): MeshBuffers {
+  return { vertexView, indexView, generation: 1, release: () => {} };
+}
+
+/** Nearest-hit distance of a ray over every triangle (via single-triangle BVHs) */
+function bruteForceRay(bvh: TriangleBvh, origin: [number, number, number], direction: [number, number, number]): number {
+  let best = Infinity;
+  for (let t = 0; t < bvh.indices.length; t += 3) {
+    const hit = raycastMesh(buildTriangleBvh(bvh.vertices, bvh.indices.subarray(t, t + 3)), origin, direction);
+    if (hit) best = Math.min(best, hit.distance);
+  }
+  return best;
+}
+
+describe('SAH triangle BVH', () => {
+  it('covers every triangle exactly once', () => {
+    const { vertexView, indexView } = sphere(24);
+    const bvh = buildTriangleBvh(vertexView, indexView);
+    const sorted = Array.from(bvh.triangles).sort((a, b) => a - b);
+    expect(sorted).toEqual(Array.from({ length: indexView.length / 3 }, (_, t) => t));
+  });
+
+  it('matches brute-force ray and closest-point queries', () => {
+    const { vertexView, indexView } = sphere(16);
+    const bvh = buildTriangleBvh(vertexView, indexView);
+    const next = random(7);
+
+    for (let k = 0; k < 40; k++) {
+      const origin: [number, number, number] = [next() * 4 - 2, next() * 4 - 2, next() * 4 - 2];
+      const direction: [number, number, number] = [next() - 0.5, next() - 0.5, next() - 0.5];
+      const hit = raycastMesh(bvh, origin, direction);
+      const expected = bruteForceRay(bvh, origin, direction);
+      if (expected === Infinity) {
+        expect(hit).toBeNull();
+      } else {
+        expect(hit!.distance).toBeCloseTo(expected, 9);
+      }
+
+      const [x, y, z] = origin;
+      // Every point of a fine sphere lies within the chord error of distance |r - 1|
+      const nearest = closestPointOnMesh(bvh, x, y, z)!;
+      expect(nearest.distance).toBeCloseTo(Math.abs(Math.hypot(x, y, z) - 1), 1);
+    }
+  });
+
+  it('builds leaves for triangles sharing one centroid', () => {
+    // 20 copies of the same triangle cannot be split
+    const vertexView = new Float64Array([0, 0, 0, 1, 0, 0, 0, 1, 0]);
+    const indexView = new Uint32Array(Array.from({ length: 60 }, (_, i) => i % 3));
+    const bvh = buildTriangleBvh(vertexView, indexView);
+
+    expect(bvh.counts[0]).toBe(20);
+    expect(raycastMesh(bvh, [0.2, 0.2, 1], [0, 0, -1])!.distance).toBeCloseTo(1);
+  });
+});
+
+describe('BVH region queries', () => {
+  const { vertexView, indexView } = sphere(20);
+  const bvh = buildTriangleBvh(vertexView, indexView);
+  const triangleCount = indexView.length / 3;
+  const corner = (t: number, c: number): number[] => Array.from(vertexView.subarray(indexView[t * 3 + c] * 3, indexView[t * 3 + c] * 3 + 3));
+
+  it('finds the triangles near a plane', () => {
+    const normal: [number, number, number] = [0.3, -0.5, 0.8];
+    const length = Math.hypot(...normal);
+    for (const [constant, tolerance] of [[0, 0], [-0.4 * length, 0.05], [2 * length, 0]]) {
+      const expected: number[] = [];
+      for (let t = 0; t < triangleCount; t++) {
+        const d = [0, 1, 2].map((c) => corner(t, c).reduce((sum, value, axis) => sum + value * normal[axis], constant));
+        if (Math.min(...d) <= tolerance && Math.max(...d) >= -tolerance) expected.push(t);
+      }
+      expect(Array.from(trianglesNearPlane(bvh, normal, constant, tolerance))).toEqual(expected);
+    }
+  });
+
+  it('finds the triangles overlapping a box', () => {
+    const next = random(3);
+    for (let k = 0; k < 10; k++) {
+      const min: [number, number, number] = [next() * 2 - 1.2, next() * 2 - 1.2, next() * 2 - 1.2];
+      const max: [number, number, number] = [min[0] + next() * 0.8, min[1] + next() * 0.8, min[2] + next() * 0.8];
+      // Reference: a triangle overlaps the box when a dense sample of it falls inside
+      const inside = (p: number[]) => p.every((value, axis) => value >= min[axis] && value <= max[axis]);
+      const found = new Set(trianglesInBox(bvh, min, max));
+
+      for (let t = 0; t < triangleCount; t++) {
+        const [a, b, c] = [0, 1, 2].map((i) => corner(t, i));
+        let sampled = false;
+        for (let i = 0; i <= 12 && !sampled; i++) {
+          for (let j = 0; j <= 12 - i && !sampled; j++) {
+            const u = i / 12;
+            const v = j / 12;
+            sampled = inside(a.map((value, axis) => value + u * (b[axis] - value) + v * (c[axis] - value)));
+          }
+        }
+        // Sampling may miss grazing overlaps, never invent them
+        if (sampled) expect(found.has(t)).toBe(true);
+        if (found.has(t)) {
+          const boxOverlap = [0, 1, 2].every(
+            (axis) => Math.min(a[axis], b[axis], c[axis]) <= max[axis] && Math.max(a[axis], b[axis], c[axis]) >= min[axis]
+          );
+          expect(boxOverlap).toBe(true);
+        }
+      }
+    }
+  });
+
+  it('returns ascending ids and nothing for boxes off the mesh', () => {
+    const ids = Array.from(trianglesInBox(bvh, [-2, -2, -0.1], [2, 2, 0.1]));
+    expect(ids.length).toBeGreaterThan(0);
+    expect(ids).toEqual([...ids].sort((a, b) => a - b));
+    expect(trianglesInBox(bvh, [2, 2, 2], [3, 3, 3])).toHaveLength(0);
+  });
+});
+
+describe('mesh BVH cache', () => {
+  it('reuses the tree until the buffer generation changes', () => {
+    const { vertexView, indexView } = sphere(4);
+    const buffers = meshBuffers(vertexView, indexView);
+
+    expect(peekMeshBvh(buffers)).toBeUndefined();
+    const bvh = getMeshBvh(buffers);
+    expect(getMeshBvh(buffers)).toBe(bvh);
+    expect(peekMeshBvh(buffers)).toBe(bvh);
+
+    buffers.generation++;
+    expect(peekMeshBvh(buffers)).toBeUndefined();
+    expect(getMeshBvh(buffers)).not.toBe(bvh);
+  });
+
+  it('loads on the calling thread without workers', async () => {
+    const { vertexView, indexView } = sphere(4);
+    const buffers = meshBuffers(vertexView, indexView);
+
+    const bvh = await loadMeshBvh(buffers);
+    expect(bvh.triangles).toHaveLength(indexView.length / 3);
+    expect(getMeshBvh(buffers)).toBe(bvh);
+  });
+});
@@ -0,0 +1,130 @@
+import { describe, expect, it } from 'vitest';
+import { buildTriangleBvh, closestPointOnMesh, raycastMesh } from '../mesh-bvh';
+import { computeMeshDeviation, deviationColor, transformVertices, type DeviationMesh } from '../mesh-deviation';
+
+/** Flat n x n grid of quads (2n² triangles) in the z = height plane over [0, 1]² */
+function grid(n: number, height = 0): DeviationMesh {
+  const vertices: number[] = [];
+  const indices: number[] = [];
+  for (let y = 0; y <= n; y++) {
+    for (let x = 0; x <= n; x++) {
+      vertices.push(x / n, y / n, height);
+    }
+  }
+  for (let y = 0; y < n; y++) {
+    for (let x = 0; x < n; x++) {
+      const i = y * (n + 1) + x;
+      indices.push(i, i + 1, i + n + 2, i, i + n + 2, i + n + 1);
+    }
+  }
+  return { vertexView: new Float64Array(vertices), indexView: new Uint32Array(indices) };
+}
+
+/** Brute-force nearest distance over every triangle (via single-triangle BVHs) */
+function bruteForceDistance(mesh: DeviationMesh, x: number, y: number, z: number): number {
+  let best = Infinity;
+  for (let t = 0; t < mesh.indexView.length; t += 3) {
+    const bvh = buildTriangleBvh(mesh.vertexView, mesh.indexView.subarray(t, t + 3));
+    best = Math.min(best, closestPointOnMesh(bvh, x, y, z)!.distance);
+  }
+  return best;
+}
+
+describe('triangle BVH', () => {
+  it('finds the same nearest distance as a brute-force search', () => {
+    const mesh = grid(12);
+    // Bend the grid so distances vary across the surface
+    for (let i = 2; i < mesh.vertexView.length; i += 3) {
+      mesh.vertexView[i] = Math.sin(mesh.vertexView[i - 2] * 5) * 0.1;
+    }
+    const bvh = buildTriangleBvh(mesh.vertexView, mesh.indexView);
+
+    let seed = 7;
+    const random = () => {
+      seed = (seed * 1103515245 + 12345) >>> 0;
+      return seed / 0x100000000;
+    };
+    for (let i = 0; i < 40; i++) {
+      const [x, y, z] = [random() * 1.6 - 0.3, random() * 1.6 - 0.3, random() - 0.5];
+      const hit = closestPointOnMesh(bvh, x, y, z)!;
+      expect(hit.distance).toBeCloseTo(bruteForceDistance(mesh, x, y, z), 10);
+      expect(Math.hypot(hit.point[0] - x, hit.point[1] - y, hit.point[2] - z)).toBeCloseTo(hit.distance, 10);
+    }
+  });
+
+  it('returns null for empty meshes and hits beyond maxDistance', () => {
+    const mesh = grid(2);
+    const bvh = buildTriangleBvh(mesh.vertexView, mesh.indexView);
+
+    expect(closestPointOnMesh(buildTriangleBvh(new Float64Array(0), new Uint32Array(0)), 0, 0, 0)).toBeNull();
+    expect(closestPointOnMesh(bvh, 0.5, 0.5, 2, 1)).toBeNull();
+    expect(closestPointOnMesh(bvh, 0.5, 0.5, 2, 3)?.distance).toBeCloseTo(2);
+  });
+
+  it('casts rays to the nearest triangle from either side', () => {
+    // Two parallel grids; the ray passes through both
+    const lower = grid(6);
+    const upper = grid(6, 1);
+    const vertexView = new Float64Array([...lower.vertexView, ...upper.vertexView]);
+    const indexView = new Uint32Array([...lower.indexView, ...Array.from(upper.indexView, (i) => i + 49)]);
+    const bvh = buildTriangleBvh(vertexView, indexView);
+
+    const down = raycastMesh(bvh, [0.3, 0.4, 3], [0, 0, -1])!;
+    expect(down.distance).toBeCloseTo(2);
+    expect(down.triangle).toBeGreaterThanOrEqual(72);
+    down.point.forEach((value, i) => expect(value).toBeCloseTo([0.3, 0.4, 1][i]));
+
+    const up = raycastMesh(bvh, [0.3, 0.4, -1], [0, 0, 2])!;
+    expect(up.distance).toBeCloseTo(0.5);
+    expect(up.triangle).toBeLessThan(72);
+
+    // Rejected hits let the ray continue to the surface behind
+    const behind = raycastMesh(bvh, [0.3, 0.4, 3], [0, 0, -1], { accept: (hit) => hit.point[2] < 0.5 });
+    expect(behind?.distance).toBeCloseTo(3);
+
+    expect(raycastMesh(bvh, [0.3, 0.4, 3], [0, 0, -1], { far: 1 })).toBeNull();
+    expect(raycastMesh(bvh, [2, 2, 3], [0, 0, -1])).toBeNull();
+    expect(raycastMesh(buildTriangleBvh(new Float64Array(0), new Uint32Array(0)), [0, 0, 0], [1, 0, 0])).toBeNull();
+  });
+});
+
+describe('computeMeshDeviation', () => {
+  it('reports the offset between parallel surfaces', () => {
+    const result = computeMeshDeviation(grid(8, 0.25), grid(4));
+
+    expect(result.distances).toHaveLength(81);
+    expect(Array.from(result.distances).every((d) => Math.abs(d - 0.25) < 1e-6)).toBe(true);
+    expect(result.aToB.min).toBeCloseTo(0.25);
+    expect(result.aToB.mean).toBeCloseTo(0.25);
+    expect(result.aToB.rms).toBeCloseTo(0.25);
+    expect(result.hausdorff.symmetric).toBeCloseTo(0.25);
+  });
+
+  it('distinguishes the one-sided Hausdorff distances', () => {
+    // B only covers half of A: A's far vertices are up to 0.5 away, B lies on A
+    const half = grid(4);
+    for (let i = 0; i < half.vertexView.length; i += 3) {
+      half.vertexView[i] *= 0.5;
+    }
+
+    const result = computeMeshDeviation(grid(4), half);
+
+    expect(result.hausdorff.aToB).toBeCloseTo(0.5);
+    expect(result.hausdorff.bToA).toBeCloseTo(0);
+    expect(result.hausdorff.symmetric).toBeCloseTo(0.5);
+    expect(result.aToB.min).toBe(0);
+  });
+
+  it('transforms vertices with a column-major matrix', () => {
+    // Translation by (1, 2, 3) and uniform scale 2
+    const matrix = [2, 0, 0, 0, 0, 2, 0, 0, 0, 0, 2, 0, 1, 2, 3, 1];
+
+    expect(Array.from(transformVertices(new Float64Array([1, 1, 1]), matrix))).toEqual([3, 4, 5]);
+  });
+
+  it('maps deviations onto the color ramp', () => {
+    expect(deviationColor(0, 1).map((c) => Math.round(c * 255))).toEqual([0x2c, 0x7b, 0xb6]);
+    expect(deviationColor(5, 1).map((c) => Math.round(c * 255))).toEqual([0xd7, 0x19, 0x1c]);
+    expect(deviationColor(0.5, 1).map((c) => Math.round(c * 255))).toEqual([0xff, 0xff, 0xbf]);
+  });
+});
@@ -0,0 +1,164 @@
+import { describe, expect, it } from 'vitest';
+import { isAsciiStl, parseAsciiPly, parseAsciiStl, parseObj, parsePlyHeader, extractBinaryPlyColors, extractBinaryPlyUvs } from '../js-parsers';
+import { isGlb, parseGltf } from '../gltf-parser';
+import {
+  exportMesh,
+  serializeGlb,
+  serializeObj,
+  serializePlyAscii,
+  serializePlyBinary,
+  serializeStlAscii,
+  serializeStlBinary,
+  type ExportMesh
+} from '../mesh-export';
+
+/** Unit square in the z = 0 plane split into two triangles, with every attribute */
+function square(): Required<ExportMesh> {
+  return {
+    vertexView: new Float64Array([0, 0, 0, 1, 0, 0, 1, 1, 0, 0, 1, 0.1234567890123]),
+    indexView: new Uint32Array([0, 1, 2, 0, 2, 3]),
+    normalView: new Float32Array([0, 0, 1, 0, 0, 1, 0, 0, 1, 0, 0, 1]),
+    colorView: new Float32Array([1, 0, 0, 0, 1, 0, 0, 0, 1, 1, 1, 1]),
+    uvView: new Float32Array([0, 0, 1, 0, 1, 1, 0, 1])
+  };
+}
+
+/** Corner positions of every triangle (formats that unweld vertices compare equal) */
+function trianglePositions(vertices: ArrayLike<number>, indices: ArrayLike<number>): number[] {
+  return Array.from(indices, (i) => [vertices[i * 3], vertices[i * 3 + 1], vertices[i * 3 + 2]]).flat();
+}
+
+function expectClose(actual: ArrayLike<number>, expected: ArrayLike<number>, digits = 6): void {
+  expect(actual.length).toBe(expected.length);
+  Array.from(expected).forEach((value, i) => expect(actual[i]).toBeCloseTo(value, digits));
+}
+
+describe('STL export', () => {
+  it('round-trips ASCII STL through the JS parser', () => {
+    const mesh = square();
+    const data = serializeStlAscii(mesh, 'my part');
+    const text = new TextDecoder().decode(data);
+    const parsed = parseAsciiStl(data);
+
+    expect(text.startsWith('solid my_part\n')).toBe(true);
+    expect(text).toContain('facet normal 0 0 1');
+    expect(isAsciiStl(data)).toBe(true);
+    expect(parsed.faceCount).toBe(2);
+    expect(trianglePositions(parsed.vertices, parsed.indices)).toEqual(trianglePositions(mesh.vertexView, mesh.indexView));
+  });
+
+  it('writes binary STL records with facet normals', () => {
+    const mesh = square();
+    const data = serializeStlBinary(mesh);
+    const view = new DataView(data);
+
+    expect(data.byteLength).toBe(84 + 2 * 50);
+    expect(isAsciiStl(data)).toBe(false);
+    expect(view.getUint32(80, true)).toBe(2);
+
+    const record = (t: number) => Array.from({ length: 12 }, (_, k) => view.getFloat32(84 + t * 50 + k * 4, true));
+    expectClose(record(0), [0, 0, 1, 0, 0, 0, 1, 0, 0, 1, 1, 0]);
+    expectClose(record(1).slice(0, 3), [0.1217, -0.1217, 0.9851], 3);
+    expectClose(record(1).slice(9), [0, 1, 0.1234567890123]);
+  });
+});
+
+describe('OBJ export', () => {
+  it('round-trips positions, colors and UVs through the JS parser', () => {
+    const mesh = square();
+    const data = serializeObj(mesh);
+    const text = new TextDecoder().decode(data);
+    const parsed = parseObj(data);
+
+    expect(text).toContain('vn 0 0 1');
+    expect(text).toContain('f 1/1/1 2/2/2 3/3/3');
+    expect(Array.from(parsed.vertices)).toEqual(Array.from(mesh.vertexView));
+    expect(Array.from(parsed.indices)).toEqual(Array.from(mesh.indexView));
+    expectClose(parsed.colors!, mesh.colorView);
+    expectClose(parsed.uvs!, mesh.uvView);
+  });
+
+  it('writes plain faces for position-only meshes', () => {
+    const { vertexView, indexView } = square();
+    const text = new TextDecoder().decode(serializeObj({ vertexView, indexView }));
+
+    expect(text).toContain('f 1 3 4');
+    expect(text).not.toContain('vt ');
+    expect(parseObj(new TextEncoder().encode(text).buffer as ArrayBuffer).colors).toBeUndefined();
+  });
+});
+
+describe('PLY export', () => {
+  it('round-trips ASCII PLY through the JS parser', () => {
+    const mesh = square();
+    const data = serializePlyAscii(mesh);
+    const parsed = parseAsciiPly(data);
+
+    expect(parsePlyHeader(data).vertexProperties.map((p) => p.name)).toEqual([
+      'x', 'y', 'z', 'nx', 'ny', 'nz', 'red', 'green', 'blue', 's', 't'
+    ]);
+    expect(Array.from(parsed.vertices)).toEqual(Array.from(mesh.vertexView));
+    expect(Array.from(parsed.indices)).toEqual(Array.from(mesh.indexView));
+    expectClose(parsed.colors!, mesh.colorView);
+    expectClose(parsed.uvs!, mesh.uvView);
+  });
+
+  it('writes binary PLY the attribute readers understand', () => {
+    const mesh = square();
+    const data = serializePlyBinary(mesh);
+    const header = parsePlyHeader(data);
+
+    expect(header.format).toBe('binary_little_endian');
+    expect(header.vertexCount).toBe(4);
+    expect(header.faceCount).toBe(2);
+    expectClose(extractBinaryPlyColors(data)!, mesh.colorView);
+    expectClose(extractBinaryPlyUvs(data)!, mesh.uvView);
+
+    // 11 properties: 8 floats + 3 uchars per vertex, then "3 a b c" per face
+    const view = new DataView(data, header.headerEndOffset);
+    const stride = 8 * 4 + 3;
+    expectClose(Array.from({ length: 3 }, (_, axis) => view.getFloat32(3 * stride + axis * 4, true)), [0, 1, 0.1234567890123]);
+    const faces = 4 * stride;
+    expect(view.getUint8(faces + 13)).toBe(3);
+    expect([1, 5, 9].map((o) => view.getInt32(faces + 13 + o, true))).toEqual([0, 2, 3]);
+    expect(data.byteLength).toBe(header.headerEndOffset + faces + 2 * 13);
+  });
+});
+
+describe('GLB export', () => {
+  it('round-trips through the glTF parser', () => {
+    const mesh = square();
+    const data = serializeGlb(mesh, 'part');
+    const parsed = parseGltf(data);
+
+    expect(isGlb(data)).toBe(true);
+    expect(data.byteLength % 4).toBe(0);
+    expectClose(parsed.vertices, mesh.vertexView);
+    expect(Array.from(parsed.indices)).toEqual(Array.from(mesh.indexView));
+    expectClose(parsed.normals!, mesh.normalView);
+  });
+
+  it('declares every attribute with flipped texture coordinates', () => {
+    const data = serializeGlb(square());
+    const view = new DataView(data);
+    const jsonLength = view.getUint32(12, true);
+    const json = JSON.parse(new TextDecoder().decode(new Uint8Array(data, 20, jsonLength)));
+    const { attributes } = json.meshes[0].primitives[0];
+
+    expect(Object.keys(attributes).sort()).toEqual(['COLOR_0', 'NORMAL', 'POSITION', 'TEXCOORD_0']);
+    expect(json.accessors[attributes.POSITION].max).toEqual([1, 1, Math.fround(0.1234567890123)]);
+
+    const uvView = json.bufferViews[json.accessors[attributes.TEXCOORD_0].bufferView];
+    const uvs = new Float32Array(data.slice(20 + jsonLength + 8 + uvView.byteOffset, 20 + jsonLength + 8 + uvView.byteOffset + uvView.byteLength));
+    expect(Array.from(uvs)).toEqual([0, 1, 1, 1, 1, 0, 0, 0]);
+  });
+});
+
+describe('exportMesh', () => {
+  it('dispatches on the format', () => {
+    const mesh = square();
+    expect(new Uint8Array(exportMesh(mesh, 'stl_binary'))).toEqual(new Uint8Array(serializeStlBinary(mesh)));
+    expect(new TextDecoder().decode(exportMesh(mesh, 'obj', 'part'))).toContain('o part');
+    expect(new TextDecoder().decode(exportMesh(mesh, 'ply_ascii'))).toContain('format ascii 1.0');
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { inspectFace, inspectVertex, nearestFaceVertex, type InspectMesh } from '../mesh-inspect';
+
+/** Unit square in z = 0 as two indexed triangles */
+function square(): InspectMesh {
+  return {
+    vertexView: new Float64Array([0, 0, 0, 1, 0, 0, 1, 1, 0, 0, 1, 0]),
+    indexView: new Uint32Array([0, 1, 2, 0, 2, 3])
+  };
+}
+
+/** The same square as a triangle soup (STL style, no shared vertices) */
+function soup(): InspectMesh {
+  return {
+    vertexView: new Float64Array([0, 0, 0, 1, 0, 0, 1, 1, 0, 0, 0, 0, 1, 1, 0, 0, 1, 0]),
+    indexView: new Uint32Array([0, 1, 2, 3, 4, 5])
+  };
+}
+
+describe('inspectFace', () => {
+  it('reports corners, normal, area and edge neighbors', () => {
+    const face = inspectFace(square(), 1)!;
+
+    expect(face.vertices).toEqual([0, 2, 3]);
+    expect(face.positions).toEqual([[0, 0, 0], [1, 1, 0], [0, 1, 0]]);
+    expect(face.normal).toEqual([0, 0, 1]);
+    expect(face.area).toBeCloseTo(0.5);
+    expect(face.adjacentFaces).toEqual([0]);
+  });
+
+  it('finds neighbors by position in unindexed meshes', () => {
+    expect(inspectFace(soup(), 0)!.adjacentFaces).toEqual([1]);
+  });
+
+  it('returns null for faces outside the mesh', () => {
+    expect(inspectFace(square(), 2)).toBeNull();
+    expect(inspectFace(square(), -1)).toBeNull();
+  });
+});
+
+describe('inspectVertex', () => {
+  it('computes the normal from the surrounding faces without stored normals', () => {
+    const vertex = inspectVertex(soup(), 0)!;
+
+    expect(vertex.position).toEqual([0, 0, 0]);
+    expect(vertex.normal).toEqual([0, 0, 1]);
+    expect(vertex.normalSource).toBe('computed');
+    expect(vertex.faces).toEqual([0, 1]);
+    expect(vertex.coincidentVertices).toEqual([3]);
+    expect(vertex.uv).toBeUndefined();
+  });
+
+  it('reports stored normals, UVs and colors', () => {
+    const mesh: InspectMesh = {
+      ...square(),
+      normalView: new Float32Array([0, 0, -1, 0, 0, -1, 0, 0, -1, 0, 0, -1]),
+      uvView: new Float32Array([0, 0, 1, 0, 1, 1, 0, 1]),
+      colorView: new Float32Array([1, 0, 0, 0, 1, 0, 0, 0, 1, 1, 1, 1])
+    };
+    const vertex = inspectVertex(mesh, 2)!;
+
+    expect(vertex.normal).toEqual([0, 0, -1]);
+    expect(vertex.normalSource).toBe('stored');
+    expect(vertex.uv).toEqual([1, 1]);
+    expect(vertex.color).toEqual([0, 0, 1]);
+    expect(vertex.faces).toEqual([0, 1]);
+    expect(inspectVertex(mesh, 4)).toBeNull();
+  });
+});
+
+describe('nearestFaceVertex', () => {
+  it('picks the triangle corner closest to the point', () => {
+    expect(nearestFaceVertex(square(), 1, [0.9, 0.8, 0])).toBe(2);
+    expect(nearestFaceVertex(square(), 1, [0.1, 0.9, 0])).toBe(3);
+  });
+});
@@ -2,7 +2,7 @@ import { describe, expect, it, vi } from 'vitest';
 import type { MockInstance } from 'vitest';
 import { loadMeshAsset, MeshCoreBridge, MeshBufferPointers } from '../mesh-loader';
 import { parsePlyHeader } from '../js-parsers';
-import type { MeshCoreCapabilities, MeshFormat } from '../types';
+import type { LoadProgress, MeshCoreCapabilities, MeshFormat } from '../types';
 
 type BridgeMock = MeshCoreBridge & {
   parseMesh: MockInstance<[ArrayBuffer, MeshFormat], Promise<MeshBufferPointers>>;
@@ -137,10 +137,139 @@ endsolid test
       expect(result.asset.fileName).toBe('legacy.stl');
       expect(result.asset.format).toBe('stl');
       expect(result.asset.buffers.vertexView.length).toBe(9); // 3 vertices * 3 coords
+      // Unit-sized STL: guessed as meters, Z-up by convention
+      expect(result.asset.units).toBe('m');
+      expect(result.asset.upAxis).toBe('z');
       result.asset.buffers.release();
       // JS parser does not call bridge.releaseBuffers
     }
   });
+
+  it('keeps declared units and up axis', async () => {
+    const objBytes = new TextEncoder().encode('v 0 0 0\nv 1 0 0\nv 0 1 0\nf 1 2 3\n');
+    const mockFile = {
+      name: 'part.obj',
+      size: objBytes.length,
+      type: 'application/octet-stream',
+      arrayBuffer: async () => objBytes.buffer.slice(objBytes.byteOffset, objBytes.byteOffset + objBytes.byteLength)
+    } as unknown as File;
+
+    const result = await loadMeshAsset(mockFile, {
+      bridge: createBridge(),
+      capabilities: baseCapabilities,
+      units: 'in',
+      upAxis: 'z'
+    });
+
+    expect(result.asset).toMatchObject({ units: 'in', upAxis: 'z' });
+  });
+});
+
+describe('load progress and cancellation', () => {
+  const OBJ = 'v 0 0 0\nv 1 0 0\nv 0 1 0\nf 1 2 3\n';
+
+  /** File stand-in whose stream() yields `chunkSize`-byte chunks */
+  function streamingFile(name: string, content: string, chunkSize = 4): File {
+    const bytes = new TextEncoder().encode(content);
+    return {
+      name,
+      size: bytes.length,
+      type: '',
+      arrayBuffer: async () => bytes.slice().buffer,
+      stream: () => {
+        let offset = 0;
+        return new ReadableStream<Uint8Array>({
+          pull(controller) {
+            if (offset >= bytes.length) {
+              controller.close();
+              return;
+            }
+            controller.enqueue(bytes.slice(offset, offset + chunkSize));
+            offset += chunkSize;
+          }
+        });
+      }
+    } as unknown as File;
+  }
+
+  it('reports read, detect, parse and stats phases', async () => {
+    const file = streamingFile('tri.obj', OBJ);
+    const progress: LoadProgress[] = [];
+
+    const result = await loadMeshAsset(file, {
+      bridge: createBridge(),
+      capabilities: baseCapabilities,
+      statsCalculator: () => undefined,
+      onProgress: (event) => progress.push(event)
+    });
+
+    expect(result.status).toBe('success');
+    expect(Array.from(new Set(progress.map((event) => event.phase)))).toEqual(['read', 'detect', 'parse', 'stats']);
+    const reads = progress.filter((event) => event.phase === 'read').map((event) => event.bytesRead);
+    expect(reads.length).toBeGreaterThan(2);
+    expect(reads[reads.length - 1]).toBe(file.size);
+    expect(progress.every((event) => event.totalBytes === file.size)).toBe(true);
+  });
+
+  it('returns E_ABORTED without reading when the signal is already aborted', async () => {
+    const bridge = createBridge();
+    const controller = new AbortController();
+    controller.abort();
+
+    const result = await loadMeshAsset(streamingFile('tri.obj', OBJ), {
+      bridge,
+      capabilities: baseCapabilities,
+      signal: controller.signal
+    });
+
+    expect(result.error?.code).toBe('E_ABORTED');
+    expect(result.error?.context?.reason).toBe('read');
+    expect(bridge.parseMesh).not.toHaveBeenCalled();
+  });
+
+  it('stops reading when aborted mid-read', async () => {
+    const controller = new AbortController();
+    const reads: number[] = [];
+
+    const result = await loadMeshAsset(streamingFile('tri.obj', OBJ), {
+      bridge: createBridge(),
+      capabilities: baseCapabilities,
+      signal: controller.signal,
+      onProgress: ({ phase, bytesRead }) => {
+        if (phase === 'read' && bytesRead > 0) {
+          reads.push(bytesRead);
+          controller.abort();
+        }
+      }
+    });
+
+    expect(result.error?.code).toBe('E_ABORTED');
+    expect(result.error?.context?.reason).toBe('read');
+    expect(reads).toEqual([4]);
+  });
+
+  it('releases WASM buffers when aborted during parsing', async () => {
+    const bridge = createBridge();
+    const controller = new AbortController();
+    const parse = bridge.parseMesh.getMockImplementation()!;
+    bridge.parseMesh.mockImplementation(async (...args) => {
+      controller.abort();
+      return parse(...args);
+    });
+    const bytes = new Uint8Array(84 + 50);
+    new DataView(bytes.buffer).setUint32(80, 1, true);
+    const file = { name: 'part.stl', size: bytes.length, type: '', arrayBuffer: async () => bytes.buffer } as unknown as File;
+
+    const result = await loadMeshAsset(file, {
+      bridge,
+      capabilities: baseCapabilities,
+      signal: controller.signal
+    });
+
+    expect(result.error?.code).toBe('E_ABORTED');
+    expect(result.error?.context?.reason).toBe('parse');
+    expect(bridge.releaseBuffers).toHaveBeenCalledWith(1);
+  });
 });
 
 describe('parsePlyHeader', () => {
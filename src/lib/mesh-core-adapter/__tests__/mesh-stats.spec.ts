@@ -1,5 +1,6 @@
 import { describe, expect, it } from 'vitest';
-import { computeMeshStats, formatMeshStats } from '../mesh-stats';
+import { computeMeshStats, formatMeasure, formatMeshStats } from '../mesh-stats';
+import { analyzeMeshTopology } from '../mesh-topology';
 import type { MeshBuffers, MeshStats } from '../types';
 
 /**
@@ -114,6 +115,93 @@ describe('computeMeshStats', () => {
   });
 });
 
+/** Box [0, sx] x [0, sy] x [0, sz] with outward-facing triangles */
+function createBox(sx: number, sy: number, sz: number): { vertices: number[][]; indices: number[] } {
+  return {
+    vertices: [
+      [0, 0, 0],
+      [sx, 0, 0],
+      [sx, sy, 0],
+      [0, sy, 0],
+      [0, 0, sz],
+      [sx, 0, sz],
+      [sx, sy, sz],
+      [0, sy, sz]
+    ],
+    indices: [0, 2, 1, 0, 3, 2, 4, 5, 6, 4, 6, 7, 0, 1, 5, 0, 5, 4, 1, 2, 6, 1, 6, 5, 2, 3, 7, 2, 7, 6, 3, 0, 4, 3, 4, 7]
+  };
+}
+
+describe('computeMeshStats mass properties', () => {
+  it('computes area, volume, centroids and inertia of a closed box', () => {
+    const { vertices, indices } = createBox(1, 2, 3);
+
+    const buffers = createMockBuffers(vertices, indices);
+    const stats = computeMeshStats(buffers);
+
+    // Left to the topology analysis, off the load path
+    expect(stats.isClosed).toBeUndefined();
+    expect(analyzeMeshTopology(buffers).isWatertight).toBe(true);
+    expect(stats.surfaceArea).toBeCloseTo(22, 10);
+    expect(stats.volume).toBeCloseTo(6, 10);
+    stats.centerOfMass!.forEach((c, i) => expect(c).toBeCloseTo([0.5, 1, 1.5][i], 10));
+    stats.surfaceCentroid!.forEach((c, i) => expect(c).toBeCloseTo([0.5, 1, 1.5][i], 10));
+
+    // Solid box: I_xx = m (b² + c²) / 12 with m = volume
+    const expected = [(6 * (4 + 9)) / 12, (6 * (1 + 9)) / 12, (6 * (1 + 4)) / 12];
+    stats.inertiaTensor!.forEach((row, i) =>
+      row.forEach((value, j) => expect(value).toBeCloseTo(i === j ? expected[i] : 0, 10))
+    );
+    stats.principalMoments!.forEach((m, i) => expect(m).toBeCloseTo([2.5, 5, 6.5][i], 10));
+    expect(Math.abs(stats.principalAxes![0][2])).toBeCloseTo(1, 10);
+    expect(Math.abs(stats.principalAxes![2][0])).toBeCloseTo(1, 10);
+  });
+
+  it('finds principal axes of a rotated box', () => {
+    const { vertices, indices } = createBox(4, 1, 1);
+    const cos = Math.cos(Math.PI / 6);
+    const sin = Math.sin(Math.PI / 6);
+    const rotated = vertices.map(([x, y, z]) => [cos * x - sin * y + 10, sin * x + cos * y - 5, z]);
+
+    const stats = computeMeshStats(createMockBuffers(rotated, indices));
+
+    expect(stats.volume).toBeCloseTo(4, 10);
+    // Smallest moment about the long axis
+    expect(stats.principalMoments![0]).toBeCloseTo((4 * 2) / 12, 8);
+    expect(Math.abs(stats.principalAxes![0][0])).toBeCloseTo(cos, 8);
+    expect(Math.abs(stats.principalAxes![0][1])).toBeCloseTo(sin, 8);
+  });
+
+  it('reports a negative signed volume (and positive moments) for an inward-wound closed box', () => {
+    const { vertices, indices } = createBox(1, 1, 1);
+    const flipped = indices.map((_, i) => indices[i - (i % 3) + [0, 2, 1][i % 3]]);
+
+    const buffers = createMockBuffers(vertices, flipped);
+    const stats = computeMeshStats(buffers);
+
+    expect(analyzeMeshTopology(buffers).isWatertight).toBe(true);
+    expect(stats.volume).toBeCloseTo(-1, 10);
+    stats.principalMoments!.forEach((m) => expect(m).toBeCloseTo(1 / 6, 10));
+  });
+
+  it('flags open surfaces and treats a triangle soup as welded', () => {
+    const { vertices, indices } = createBox(1, 1, 1);
+
+    // Without the top face
+    const openBuffers = createMockBuffers(vertices, [...indices.slice(0, 6), ...indices.slice(12)]);
+    expect(analyzeMeshTopology(openBuffers).isWatertight).toBe(false);
+    expect(computeMeshStats(openBuffers).surfaceArea).toBeCloseTo(5, 10);
+
+    // Unindexed (STL-like) copy of the closed box
+    const soupBuffers = createMockBuffers(
+      indices.map((i) => vertices[i]),
+      indices.map((_, i) => i)
+    );
+    expect(analyzeMeshTopology(soupBuffers).isWatertight).toBe(true);
+    expect(computeMeshStats(soupBuffers).volume).toBeCloseTo(1, 10);
+  });
+});
+
 describe('formatMeshStats', () => {
   it('formats statistics in human-readable format', () => {
     const stats: MeshStats = {
@@ -133,5 +221,18 @@ describe('formatMeshStats', () => {
     expect(formatted.bboxMin).toBe('(-1.500, -2.500, -3.500)');
     expect(formatted.bboxMax).toBe('(4.567, 5.678, 6.789)');
     expect(formatted.diagonal).toBe('12.346');
+    expect(formatted.surfaceArea).toBe('—');
+  });
+
+  it('appends the unit to measurements', () => {
+    const { vertices, indices } = createBox(1, 2, 3);
+    const formatted = formatMeshStats(computeMeshStats(createMockBuffers(vertices, indices)), 'mm');
+
+    expect(formatted.diagonal).toBe('3.742 mm');
+    expect(formatted.surfaceArea).toBe('22.000 mm²');
+    expect(formatted.volume).toBe('6.000 mm³');
+    expect(formatted.centerOfMass).toBe('(0.500, 1.000, 1.500) mm');
+    expect(formatMeasure(2.5e7, 'mm', 5)).toBe('2.500e+7 mm⁵');
+    expect(formatMeasure(0.5, undefined, 3)).toBe('0.500');
   });
 });
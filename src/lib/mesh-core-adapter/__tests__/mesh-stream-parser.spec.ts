@@ -0,0 +1,152 @@
+import { describe, expect, it } from 'vitest';
+import { collectTransferables, parseMeshStream } from '../mesh-stream-parser';
+import { parseAsciiPly, parseAsciiStl, parseObj } from '../js-parsers';
+import { GrowableTypedArray } from '../growable-array';
+import { loadMeshAsset, type MeshCoreBridge } from '../mesh-loader';
+
+const encoder = new TextEncoder();
+
+/** Streams `bytes` in fixed-size chunks (splitting lines and multi-byte characters) */
+function chunkedStream(bytes: Uint8Array, chunkSize: number): ReadableStream<Uint8Array> {
+  let offset = 0;
+  return new ReadableStream<Uint8Array>({
+    pull(controller) {
+      if (offset >= bytes.length) {
+        controller.close();
+        return;
+      }
+      controller.enqueue(bytes.slice(offset, offset + chunkSize));
+      offset += chunkSize;
+    }
+  });
+}
+
+const OBJ = [
+  '# café — multi-byte comment',
+  'mtllib scene.mtl',
+  'v 0 0 0 1 0 0', 'v 1 0 0', 'v 1 1 0', 'v 0 1 0',
+  'vt 0 0', 'vt 1 0', 'vt 1 1', 'vt 0 1', 'vt 0.5 0.5',
+  'usemtl a',
+  'f 1/1 2/2 3/3',
+  'usemtl b',
+  'f 1/1 3/5 4/4'
+].join('\r\n');
+
+const STL = [
+  'solid tri',
+  'facet normal 0 0 1', 'outer loop', 'vertex 0 0 0', 'vertex 1 0 0', 'vertex 0 1 0', 'endloop', 'endfacet',
+  'endsolid tri'
+].join('\n');
+
+const PLY = [
+  'ply', 'format ascii 1.0', 'element vertex 3',
+  'property float x', 'property float y', 'property float z', 'property uchar red', 'property uchar green', 'property uchar blue',
+  'element face 1', 'property list uchar int vertex_indices', 'end_header',
+  '0 0 0 255 0 0', '1 0 0 0 255 0', '', '0 1 0 0 0 255', '3 0 1 2'
+].join('\n');
+
+describe('parseMeshStream', () => {
+  it.each([1, 3, 7, 4096])('matches the whole-buffer parsers with %i-byte chunks', async (chunkSize) => {
+    for (const [format, text, parse] of [
+      ['obj', OBJ, parseObj],
+      ['stl', STL, parseAsciiStl],
+      ['ply_ascii', PLY, parseAsciiPly]
+    ] as const) {
+      const bytes = encoder.encode(text);
+      const streamed = await parseMeshStream(chunkedStream(bytes, chunkSize), format);
+      expect(streamed).toEqual(parse(bytes.buffer as ArrayBuffer));
+    }
+  });
+
+  it('reports monotonic progress ending at the stream length', async () => {
+    const bytes = encoder.encode(OBJ);
+    const reports: number[] = [];
+
+    await parseMeshStream(chunkedStream(bytes, 16), 'obj', {
+      totalBytes: bytes.length,
+      onProgress: (bytesRead, totalBytes) => {
+        expect(totalBytes).toBe(bytes.length);
+        reports.push(bytesRead);
+      }
+    });
+
+    expect(reports.length).toBeGreaterThan(1);
+    expect(reports).toEqual([...reports].sort((a, b) => a - b));
+    expect(reports[reports.length - 1]).toBe(bytes.length);
+  });
+
+  it('returns tightly sized, distinct transferable buffers', async () => {
+    const result = await parseMeshStream(chunkedStream(encoder.encode(OBJ), 64), 'obj');
+    const buffers = collectTransferables(result);
+
+    expect(result.vertices.buffer.byteLength).toBe(result.vertices.byteLength);
+    expect(buffers).toHaveLength(4); // vertices, indices, colors, uvs
+    expect(new Set(buffers).size).toBe(buffers.length);
+  });
+});
+
+describe('GrowableTypedArray', () => {
+  it('grows past its initial capacity', () => {
+    const array = new GrowableTypedArray(Uint32Array, 2);
+    for (let i = 0; i < 10; i++) array.push(i);
+    array.push3(10, 11, 12);
+
+    expect(array.length).toBe(13);
+    expect(Array.from(array.toTypedArray())).toEqual([0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12]);
+  });
+});
+
+describe('streamed loading', () => {
+  const bridge = {} as MeshCoreBridge;
+  const capabilities = { binaryPlyEnabled: true, wasmVersion: 'test' };
+
+  /** File stand-in with stream() (jsdom's Blob has none) */
+  function streamableFile(name: string, bytes: Uint8Array): File {
+    return {
+      name,
+      size: bytes.length,
+      type: '',
+      arrayBuffer: async () => bytes.slice().buffer,
+      slice: (start: number, end: number) => ({ arrayBuffer: async () => bytes.slice(start, end).buffer }),
+      stream: () => chunkedStream(bytes, 5)
+    } as unknown as File;
+  }
+
+  it('parses large ASCII files through the stream parser', async () => {
+    const bytes = encoder.encode(OBJ);
+    const progress: number[] = [];
+
+    const result = await loadMeshAsset(streamableFile('scene.obj', bytes), {
+      bridge,
+      capabilities,
+      streamingThresholdBytes: 0,
+      onProgress: ({ phase, bytesRead }) => {
+        if (phase === 'parse') progress.push(bytesRead);
+      }
+    });
+
+    expect(result.status).toBe('success');
+    expect(result.asset?.buffers.indexView.length).toBe(6);
+    expect(result.asset?.buffers.uvView?.length).toBe(10);
+    expect(progress[progress.length - 1]).toBe(bytes.length);
+    expect(result.logs?.some((log) => log.context?.op === 'stream_parse')).toBe(true);
+  });
+
+  it('reads the whole file when a streamed candidate turns out binary', async () => {
+    // Binary STL: 80-byte header + count + one 50-byte triangle
+    const bytes = new Uint8Array(134);
+    new DataView(bytes.buffer).setUint32(80, 1, true);
+    const parseMesh = async (data: ArrayBuffer) => {
+      expect(data.byteLength).toBe(134);
+      throw new Error('stop after read');
+    };
+
+    const result = await loadMeshAsset(streamableFile('part.stl', bytes), {
+      bridge: { ...bridge, parseMesh } as unknown as MeshCoreBridge,
+      capabilities,
+      streamingThresholdBytes: 0
+    });
+
+    expect(result.error?.message).toContain('stop after read');
+  });
+});
@@ -0,0 +1,170 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeMeshTopology, type TopologyMesh } from '../mesh-topology';
+import { loadMeshTopology, peekMeshTopology } from '../mesh-topology-cache';
+import type { MeshBuffers } from '../types';
+
+/** Unit cube, 8 shared vertices, 12 outward-facing triangles */
+function cube(): { vertices: number[]; indices: number[] } {
+  return {
+    vertices: [0, 0, 0, 1, 0, 0, 1, 1, 0, 0, 1, 0, 0, 0, 1, 1, 0, 1, 1, 1, 1, 0, 1, 1],
+    indices: [
+      0, 2, 1, 0, 3, 2, // bottom
+      4, 5, 6, 4, 6, 7, // top
+      0, 1, 5, 0, 5, 4, // front
+      1, 2, 6, 1, 6, 5, // right
+      2, 3, 7, 2, 7, 6, // back
+      3, 0, 4, 3, 4, 7 // left
+    ]
+  };
+}
+
+function mesh(vertices: number[], indices: number[]): TopologyMesh {
+  return { vertexView: new Float64Array(vertices), indexView: new Uint32Array(indices) };
+}
+
+/** Torus as an n x m quad grid wrapped in both directions */
+function torus(n: number, m: number): TopologyMesh {
+  const vertices: number[] = [];
+  const indices: number[] = [];
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j < m; j++) {
+      const u = (i / n) * Math.PI * 2;
+      const v = (j / m) * Math.PI * 2;
+      vertices.push((2 + Math.cos(v)) * Math.cos(u), (2 + Math.cos(v)) * Math.sin(u), Math.sin(v));
+    }
+  }
+  const id = (i: number, j: number) => (i % n) * m + (j % m);
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j < m; j++) {
+      indices.push(id(i, j), id(i + 1, j), id(i + 1, j + 1), id(i, j), id(i + 1, j + 1), id(i, j + 1));
+    }
+  }
+  return mesh(vertices, indices);
+}
+
+describe('analyzeMeshTopology', () => {
+  it('reports a closed cube as a genus-0 manifold', () => {
+    const { vertices, indices } = cube();
+
+    const report = analyzeMeshTopology(mesh(vertices, indices));
+
+    expect(report).toMatchObject({
+      vertices: 8,
+      edges: 18,
+      faces: 12,
+      boundaryEdges: 0,
+      holes: 0,
+      nonManifoldEdges: 0,
+      nonManifoldVertices: 0,
+      inconsistentEdges: 0,
+      components: 1,
+      eulerCharacteristic: 2,
+      genus: 0,
+      isClosed: true,
+      isManifold: true,
+      isConsistentlyOriented: true,
+      isWatertight: true
+    });
+  });
+
+  it('computes genus 1 for a torus and counts components', () => {
+    expect(analyzeMeshTopology(torus(8, 6))).toMatchObject({ eulerCharacteristic: 0, genus: 1, components: 1 });
+
+    // Two disjoint cubes
+    const { vertices, indices } = cube();
+    const shifted = vertices.map((value, i) => (i % 3 === 0 ? value + 3 : value));
+    const report = analyzeMeshTopology(mesh([...vertices, ...shifted], [...indices, ...indices.map((i) => i + 8)]));
+    expect(report).toMatchObject({ components: 2, eulerCharacteristic: 4, genus: 0 });
+  });
+
+  it('welds coincident vertices of a triangle soup', () => {
+    const { vertices, indices } = cube();
+    const soup = indices.flatMap((i) => vertices.slice(i * 3, i * 3 + 3));
+
+    const report = analyzeMeshTopology(mesh(soup, indices.map((_, i) => i)));
+
+    expect(report).toMatchObject({ vertices: 8, isClosed: true, genus: 0 });
+  });
+
+  it('finds holes and their boundary edges', () => {
+    const { vertices, indices } = cube();
+
+    // Drop the top face (two triangles)
+    const report = analyzeMeshTopology(mesh(vertices, [...indices.slice(0, 6), ...indices.slice(12)]));
+
+    expect(report.boundaryEdges).toBe(4);
+    expect(report.holes).toBe(1);
+    expect(report.isClosed).toBe(false);
+    expect(report.genus).toBeNull();
+    expect(report.problems.boundaryEdges).toHaveLength(8);
+  });
+
+  it('flags inconsistent winding', () => {
+    const { vertices, indices } = cube();
+    // Flip the first bottom triangle
+    [indices[1], indices[2]] = [indices[2], indices[1]];
+
+    const report = analyzeMeshTopology(mesh(vertices, indices));
+
+    expect(report.inconsistentEdges).toBe(3);
+    expect(report.isConsistentlyOriented).toBe(false);
+    // Closed, but the flipped face breaks the volume integration
+    expect(report.isClosed).toBe(true);
+    expect(report.isWatertight).toBe(false);
+    expect(report.genus).toBeNull();
+  });
+
+  it('flags non-manifold edges and vertices', () => {
+    // Three triangles on the edge (0, 1)
+    const fin = analyzeMeshTopology(
+      mesh([0, 0, 0, 1, 0, 0, 0, 1, 0, 0, -1, 0, 0, 0, 1], [0, 1, 2, 1, 0, 3, 0, 1, 4])
+    );
+    expect(fin.nonManifoldEdges).toBe(1);
+    expect(Array.from(fin.problems.nonManifoldEdges)).toEqual([0, 1]);
+
+    // Bowtie: two triangles touching at vertex 0 only
+    const bowtie = analyzeMeshTopology(mesh([0, 0, 0, 1, 0, 0, 1, 1, 0, -1, 0, 0, -1, -1, 0], [0, 1, 2, 0, 3, 4]));
+    expect(bowtie.nonManifoldVertices).toBe(1);
+    expect(Array.from(bowtie.problems.nonManifoldVertices)).toEqual([0]);
+    expect(bowtie.components).toBe(1);
+    expect(bowtie.isManifold).toBe(false);
+  });
+
+  it('counts degenerate and duplicate faces and isolated vertices', () => {
+    const report = analyzeMeshTopology(
+      mesh(
+        [0, 0, 0, 1, 0, 0, 0, 1, 0, 2, 0, 0, 5, 5, 5],
+        [
+          0, 1, 2,
+          0, 1, 2, // duplicate
+          0, 0, 1, // repeated vertex
+          0, 1, 3 // collinear
+        ]
+      )
+    );
+
+    expect(report.degenerateFaces).toBe(2);
+    expect(Array.from(report.problems.degenerateFaces)).toEqual([2, 3]);
+    expect(report.duplicateFaces).toBe(1);
+    expect(Array.from(report.problems.duplicateFaces)).toEqual([1]);
+    expect(report.isolatedVertices).toBe(1);
+    expect(Array.from(report.problems.isolatedVertices)).toEqual([4]);
+  });
+});
+
+describe('mesh topology cache', () => {
+  it('analyzes on the calling thread without workers and caches per generation', async () => {
+    const { vertices, indices } = cube();
+    const buffers: MeshBuffers = { ...mesh(vertices, indices), generation: 1, release: () => {} };
+
+    expect(peekMeshTopology(buffers)).toBeUndefined();
+    const report = await loadMeshTopology(buffers);
+    expect(report.isClosed).toBe(true);
+    expect(await loadMeshTopology(buffers)).toBe(report);
+    expect(peekMeshTopology(buffers)).toBe(report);
+
+    buffers.generation++;
+    expect(peekMeshTopology(buffers)).toBeUndefined();
+    expect(await loadMeshTopology(buffers)).not.toBe(report);
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import {
+  convertLength,
+  guessLengthUnit,
+  guessUpAxis,
+  resolveMeshUnits,
+  scaleMeshStats,
+  unitScale
+} from '../mesh-units';
+import type { MeshStats } from '../types';
+
+/** Two opposite corners of a box with the given extents */
+function corners(x: number, y: number, z: number): Float64Array {
+  return new Float64Array([0, 0, 0, x, y, z]);
+}
+
+describe('unit conversion', () => {
+  it('converts lengths, areas and volumes', () => {
+    expect(unitScale('in', 'mm')).toBeCloseTo(25.4, 12);
+    expect(unitScale('m', 'm')).toBe(1);
+    expect(convertLength(1, 'ft', 'in')).toBeCloseTo(12, 12);
+    expect(convertLength(1, 'm', 'cm', 2)).toBeCloseTo(10_000, 8);
+    expect(convertLength(1000, 'mm', 'cm', 3)).toBeCloseTo(1, 12);
+  });
+
+  it('scales every measurement of mesh statistics', () => {
+    const stats: MeshStats = {
+      vertices: 8,
+      triangles: 12,
+      bbox: { min: [0, 0, 0], max: [1, 2, 3] },
+      diagonalLength: Math.sqrt(14),
+      surfaceArea: 22,
+      volume: 6,
+      isClosed: true,
+      centerOfMass: [0.5, 1, 1.5],
+      principalMoments: [2.5, 5, 6.5],
+      principalAxes: [
+        [0, 0, 1],
+        [0, 1, 0],
+        [1, 0, 0]
+      ]
+    };
+
+    const scaled = scaleMeshStats(stats, 10);
+
+    expect(scaled).toMatchObject({
+      vertices: 8,
+      triangles: 12,
+      bbox: { min: [0, 0, 0], max: [10, 20, 30] },
+      surfaceArea: 2200,
+      volume: 6000,
+      isClosed: true,
+      centerOfMass: [5, 10, 15],
+      principalAxes: stats.principalAxes
+    });
+    expect(scaled.diagonalLength).toBeCloseTo(Math.sqrt(14) * 10, 12);
+    expect(scaled.principalMoments![0]).toBeCloseTo(250_000, 6);
+    expect(scaleMeshStats(stats, 1)).toBe(stats);
+  });
+});
+
+describe('unit guessing', () => {
+  it('guesses meters for small extents and millimeters otherwise', () => {
+    expect(guessLengthUnit('stl', corners(0.2, 1.5, 0.4))).toBe('m');
+    expect(guessLengthUnit('obj', corners(40, 25, 120))).toBe('mm');
+    expect(guessLengthUnit('ply_ascii', new Float64Array())).toBe('mm');
+  });
+
+  it('follows format conventions', () => {
+    expect(guessLengthUnit('glb', corners(500, 500, 500))).toBe('m');
+    expect(guessLengthUnit('3mf', corners(1, 1, 1))).toBe('mm');
+    expect(guessUpAxis('gltf')).toBe('y');
+    expect(guessUpAxis('stl_binary')).toBe('z');
+    expect(guessUpAxis('3mf')).toBe('z');
+    expect(guessUpAxis('obj')).toBe('y');
+  });
+
+  it('only guesses what is not declared', () => {
+    const vertices = corners(100, 100, 100);
+
+    expect(resolveMeshUnits('stl', vertices)).toEqual({ units: 'mm', upAxis: 'z' });
+    expect(resolveMeshUnits('stl', vertices, { units: 'in', upAxis: 'auto' })).toEqual({ units: 'in', upAxis: 'z' });
+    expect(resolveMeshUnits('obj', vertices, { units: 'auto', upAxis: 'z' })).toEqual({ units: 'mm', upAxis: 'z' });
+    expect(resolveMeshUnits('3mf', vertices, {}, 'in')).toEqual({ units: 'in', upAxis: 'z' });
+    expect(resolveMeshUnits('3mf', vertices, { units: 'cm' }, 'in').units).toBe('cm');
+  });
+});
@@ -0,0 +1,130 @@
+import { describe, expect, it } from 'vitest';
+import { parseMtl, resolveObjMaterials, DEFAULT_MATERIAL_NAME } from '../mtl-parser';
+import { parseObj, parseObjExact } from '../js-parsers';
+import { loadMeshAsset, type MeshCoreBridge } from '../mesh-loader';
+
+function encode(text: string): ArrayBuffer {
+  return new TextEncoder().encode(text).buffer as ArrayBuffer;
+}
+
+// Two quads: the first red, the second textured
+const OBJ = `mtllib scene.mtl
+v 0 0 0
+v 1 0 0
+v 1 1 0
+v 0 1 0
+v 2 0 0
+v 2 1 0
+usemtl red
+f 1 2 3 4
+usemtl wood
+f 2 5 6 3
+`;
+
+const MTL = `# materials
+newmtl red
+Kd 1 0 0
+d 0.5
+
+newmtl wood
+Kd 0.8 0.8 0.8
+map_Kd -s 2 2 1 -clamp on C:\\textures\\wood grain.png
+`;
+
+describe('parseMtl', () => {
+  it('reads diffuse color, opacity and texture references', () => {
+    const materials = parseMtl(MTL);
+
+    expect(materials.get('red')).toEqual({ name: 'red', diffuseColor: [1, 0, 0], opacity: 0.5 });
+    expect(materials.get('wood')?.diffuseMap).toBe('C:\\textures\\wood grain.png');
+  });
+
+  it('treats Tr as inverted opacity and a single Kd value as grey', () => {
+    const material = parseMtl('newmtl glass\nKd 0.25\nTr 0.75\n').get('glass');
+
+    expect(material?.diffuseColor).toEqual([0.25, 0.25, 0.25]);
+    expect(material?.opacity).toBe(0.25);
+  });
+});
+
+describe('OBJ material groups', () => {
+  it('splits faces into usemtl groups and lists libraries', () => {
+    const result = parseObj(encode(OBJ));
+
+    expect(result.materialLibraries).toEqual(['scene.mtl']);
+    expect(result.groups).toEqual([
+      { start: 0, count: 6, material: 'red' },
+      { start: 6, count: 6, material: 'wood' }
+    ]);
+  });
+
+  it('merges consecutive faces that switch back to the same material', () => {
+    const result = parseObj(encode('v 0 0 0\nv 1 0 0\nv 0 1 0\nf 1 2 3\nusemtl a\nf 1 2 3\nusemtl a\nf 1 3 2\n'));
+
+    expect(result.groups).toEqual([
+      { start: 0, count: 3, material: null },
+      { start: 3, count: 6, material: 'a' }
+    ]);
+  });
+
+  it('omits groups when the file does not use materials', () => {
+    expect(parseObj(encode('v 0 0 0\nv 1 0 0\nv 0 1 0\nf 1 2 3\n')).groups).toBeUndefined();
+  });
+
+  it('keeps Exact mode group ranges aligned after rejecting degenerate faces', () => {
+    const obj = 'v 0 0 0\nv 1 0 0\nv 0 1 0\nusemtl a\nf 1 2 3\nf 1 1 2\nusemtl b\nf 1 3 2\n';
+
+    const result = parseObjExact(encode(obj));
+
+    expect(result.rejectedFaceCount).toBe(1);
+    expect(Array.from(result.indices)).toEqual([0, 1, 2, 0, 2, 1]);
+    expect(result.groups).toEqual([
+      { start: 0, count: 3, material: 'a' },
+      { start: 3, count: 3, material: 'b' }
+    ]);
+  });
+});
+
+describe('resolveObjMaterials', () => {
+  it('resolves libraries and textures by base name', () => {
+    const image = new Uint8Array([0x89, 0x50, 0x4e, 0x47]).buffer;
+    const resources = new Map([['scene.mtl', encode(MTL)], ['Wood Grain.PNG', image]]);
+
+    const resolved = resolveObjMaterials(parseObj(encode(OBJ)), resources);
+
+    expect(resolved.missing).toEqual([]);
+    expect(resolved.groups.map((g) => g.materialIndex)).toEqual([0, 1]);
+    expect(resolved.materials[0]).toMatchObject({ name: 'red', diffuseColor: [1, 0, 0], opacity: 0.5 });
+    expect(resolved.materials[1].diffuseTexture).toMatchObject({ fileName: 'wood grain.png', mimeType: 'image/png' });
+  });
+
+  it('falls back to the default material and reports missing files', () => {
+    const resolved = resolveObjMaterials(parseObj(encode(OBJ)), new Map());
+
+    expect(resolved.missing).toEqual(['scene.mtl']);
+    expect(resolved.materials.map((m) => m.name)).toEqual([DEFAULT_MATERIAL_NAME]);
+    expect(resolved.groups.map((g) => g.materialIndex)).toEqual([0, 0]);
+  });
+});
+
+describe('OBJ + MTL loading', () => {
+  const bridge = {} as MeshCoreBridge;
+  const capabilities = { binaryPlyEnabled: true, wasmVersion: 'test' };
+
+  function mockFile(name: string, data: ArrayBuffer): File {
+    return { name, size: data.byteLength, type: '', arrayBuffer: async () => data } as unknown as File;
+  }
+
+  it('attaches groups and materials from companion files', async () => {
+    const result = await loadMeshAsset(mockFile('scene.obj', encode(OBJ)), {
+      bridge,
+      capabilities,
+      companionFiles: [mockFile('scene.mtl', encode(MTL))]
+    });
+
+    expect(result.status).toBe('success');
+    expect(result.asset?.buffers.groups).toHaveLength(2);
+    expect(result.asset?.materials?.map((m) => m.name)).toEqual(['red', 'wood']);
+    expect(result.logs?.some((log) => log.level === 'WARN' && log.message.includes('wood grain.png'))).toBe(true);
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, expect, it, vi } from 'vitest';
+import {
+  sliceMesh,
+  sliceMeshByPlanes,
+  createAxisPlane,
+  hasSliceCapability,
+  applySliceResult
+} from '../slice-mesh';
+import type { MeshAsset } from '../types';
+
+function createAsset(): MeshAsset {
+  return {
+    id: 'asset-1',
+    fileName: 'tri.obj',
+    fileSizeBytes: 42,
+    format: 'obj',
+    loadedAt: 0,
+    loadDurationMs: 1,
+    buffers: {
+      vertexView: new Float64Array([0, 0, 0, 1, 0, 0, 0, 1, 0]),
+      indexView: new Uint32Array([0, 1, 2]),
+      generation: -1,
+      release: vi.fn()
+    }
+  };
+}
+
+describe('createAxisPlane', () => {
+  it('keeps the plane in place when flipped', () => {
+    const plane = createAxisPlane('x', 2, true);
+    expect(plane.normal).toEqual({ x: -1, y: -0, z: -0 });
+    expect(plane.distance).toBe(-2);
+  });
+});
+
+describe('sliceMesh', () => {
+  it('falls back to the TypeScript slicer when the module lacks sliceMeshFromPointer', async () => {
+    const module = { _malloc: vi.fn(), _free: vi.fn() };
+    expect(hasSliceCapability(module)).toBe(false);
+
+    const asset = createAsset();
+    const result = await sliceMesh(
+      module,
+      { vertices: asset.buffers.vertexView, indices: asset.buffers.indexView },
+      createAxisPlane('x', 0.5)
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.mesh?.faceCount).toBe(1);
+    expect(Array.from(result.mesh!.vertices)).toEqual([0.5, 0, 0, 1, 0, 0, 0.5, 0.5, 0]);
+    expect(module._malloc).not.toHaveBeenCalled();
+  });
+});
+
+describe('sliceMeshByPlanes', () => {
+  it('keeps the intersection of all planes', async () => {
+    const asset = createAsset();
+    const result = await sliceMeshByPlanes(
+      null,
+      { vertices: asset.buffers.vertexView, indices: asset.buffers.indexView },
+      [createAxisPlane('x', 0.25), createAxisPlane('y', 0.25)]
+    );
+
+    expect(result.success).toBe(true);
+    const vertices = Array.from(result.mesh!.vertices);
+    for (let i = 0; i < vertices.length; i += 3) {
+      expect(vertices[i]).toBeGreaterThanOrEqual(0.25);
+      expect(vertices[i + 1]).toBeGreaterThanOrEqual(0.25);
+    }
+  });
+
+  it('stops at the first plane that clips everything', async () => {
+    const asset = createAsset();
+    const result = await sliceMeshByPlanes(
+      null,
+      { vertices: asset.buffers.vertexView, indices: asset.buffers.indexView },
+      [createAxisPlane('x', 0.25), createAxisPlane('y', 0.9)]
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.error).toMatch(/^Slice\.EmptyResult/);
+  });
+});
+
+describe('applySliceResult', () => {
+  it('bumps the buffer generation and recomputes stats', () => {
+    const asset = createAsset();
+    const sliced = applySliceResult(asset, {
+      vertices: new Float64Array([0, 0, 0, 0.5, 0, 0, 0, 0.5, 0]),
+      indices: new Uint32Array([0, 1, 2])
+    });
+
+    expect(sliced.id).toBe(asset.id);
+    expect(sliced.buffers.generation).toBe(1);
+    expect(sliced.stats?.triangles).toBe(1);
+    expect(sliced.stats?.bbox.max).toEqual([0.5, 0.5, 0]);
+    expect(asset.buffers.release).not.toHaveBeenCalled();
+  });
+});
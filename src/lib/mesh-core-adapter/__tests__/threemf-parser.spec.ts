@@ -0,0 +1,236 @@
+import { describe, expect, it } from 'vitest';
+import { parse3mf } from '../threemf-parser';
+import { ArchiveError, isZip, readZipDirectory } from '../zip-reader';
+import { loadMeshAsset, type MeshCoreBridge } from '../mesh-loader';
+
+interface ZipInput {
+  name: string;
+  text: string;
+  deflate?: boolean;
+}
+
+async function deflateRaw(bytes: Uint8Array): Promise<Uint8Array> {
+  const stream = new Response(bytes).body!.pipeThrough(new CompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/** Builds a ZIP archive (CRCs are left zero; the reader does not verify them) */
+async function buildZip(inputs: ZipInput[]): Promise<ArrayBuffer> {
+  const encoder = new TextEncoder();
+  const locals: Uint8Array[] = [];
+  const centrals: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const input of inputs) {
+    const name = encoder.encode(input.name);
+    const raw = encoder.encode(input.text);
+    const data = input.deflate ? await deflateRaw(raw) : raw;
+    const method = input.deflate ? 8 : 0;
+
+    const local = new Uint8Array(30 + name.length + data.length);
+    const lv = new DataView(local.buffer);
+    lv.setUint32(0, 0x04034b50, true);
+    lv.setUint16(8, method, true);
+    lv.setUint32(18, data.length, true);
+    lv.setUint32(22, raw.length, true);
+    lv.setUint16(26, name.length, true);
+    local.set(name, 30);
+    local.set(data, 30 + name.length);
+
+    const central = new Uint8Array(46 + name.length);
+    const cv = new DataView(central.buffer);
+    cv.setUint32(0, 0x02014b50, true);
+    cv.setUint16(10, method, true);
+    cv.setUint32(20, data.length, true);
+    cv.setUint32(24, raw.length, true);
+    cv.setUint16(28, name.length, true);
+    cv.setUint32(42, offset, true);
+    central.set(name, 46);
+
+    locals.push(local);
+    centrals.push(central);
+    offset += local.length;
+  }
+
+  const directorySize = centrals.reduce((sum, c) => sum + c.length, 0);
+  const eocd = new Uint8Array(22);
+  const ev = new DataView(eocd.buffer);
+  ev.setUint32(0, 0x06054b50, true);
+  ev.setUint16(8, inputs.length, true);
+  ev.setUint16(10, inputs.length, true);
+  ev.setUint32(12, directorySize, true);
+  ev.setUint32(16, offset, true);
+
+  const parts = [...locals, ...centrals, eocd];
+  const out = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let cursor = 0;
+  for (const part of parts) {
+    out.set(part, cursor);
+    cursor += part.length;
+  }
+  return out.buffer;
+}
+
+const TRIANGLE_OBJECT = `
+  <object id="1" type="model">
+    <mesh>
+      <vertices>
+        <vertex x="0" y="0" z="0" />
+        <vertex x="1" y="0" z="0" />
+        <vertex x="0" y="1" z="0" />
+      </vertices>
+      <triangles>
+        <triangle v1="0" v2="1" v3="2" />
+      </triangles>
+    </mesh>
+  </object>`;
+
+function model(resources: string, build: string, unit = 'millimeter'): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<model unit="${unit}" xmlns="http://schemas.microsoft.com/3dmanufacturing/core/2015/02">
+  <!-- test model -->
+  <resources>${resources}</resources>
+  <build>${build}</build>
+</model>`;
+}
+
+const RELS = `<?xml version="1.0" encoding="UTF-8"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+  <Relationship Target="/3D/part.model" Id="rel0" Type="http://schemas.microsoft.com/3dmanufacturing/2013/01/3dmodel" />
+</Relationships>`;
+
+async function expectArchiveError(promise: Promise<unknown>, reason: string): Promise<ArchiveError> {
+  const error = await promise.then(() => null, (e: unknown) => e);
+  expect(error).toBeInstanceOf(ArchiveError);
+  expect((error as ArchiveError).reason).toBe(reason);
+  return error as ArchiveError;
+}
+
+describe('parse3mf', () => {
+  it('merges build items with their transforms', async () => {
+    const zip = await buildZip([{
+      name: '3D/3dmodel.model',
+      text: model(TRIANGLE_OBJECT, `
+        <item objectid="1" />
+        <item objectid="1" transform="1 0 0 0 1 0 0 0 1 10 0 5" />`)
+    }]);
+
+    expect(isZip(zip)).toBe(true);
+    const result = await parse3mf(zip);
+
+    expect(result.vertexCount).toBe(6);
+    expect(result.faceCount).toBe(2);
+    expect(Array.from(result.vertices.slice(9))).toEqual([10, 0, 5, 11, 0, 5, 10, 1, 5]);
+    expect(Array.from(result.indices)).toEqual([0, 1, 2, 3, 4, 5]);
+  });
+
+  it('composes component transforms and flips mirrored winding', async () => {
+    // Component scales by 2, item mirrors X
+    const zip = await buildZip([{
+      name: '3D/3dmodel.model',
+      text: model(`${TRIANGLE_OBJECT}
+        <object id="2" type="model">
+          <components>
+            <component objectid="1" transform="2 0 0 0 2 0 0 0 2 0 0 0" />
+          </components>
+        </object>`,
+      `<item objectid="2" transform="-1 0 0 0 1 0 0 0 1 0 0 0" />`)
+    }]);
+
+    const result = await parse3mf(zip);
+
+    expect(Array.from(result.vertices)).toEqual([0, 0, 0, -2, 0, 0, 0, 2, 0]);
+    expect(Array.from(result.indices)).toEqual([0, 2, 1]);
+  });
+
+  it('follows the root relationship and inflates deflated parts', async () => {
+    const zip = await buildZip([
+      { name: '_rels/.rels', text: RELS, deflate: true },
+      { name: '3D/part.model', text: model(TRIANGLE_OBJECT, '<item objectid="1" />'), deflate: true }
+    ]);
+
+    expect(readZipDirectory(zip).map((entry) => entry.compressionMethod)).toEqual([8, 8]);
+    const result = await parse3mf(zip);
+    expect(result.faceCount).toBe(1);
+  });
+
+  it('returns the declared model unit', async () => {
+    const part = (unit: string) => buildZip([{ name: '3D/3dmodel.model', text: model(TRIANGLE_OBJECT, '<item objectid="1" />', unit) }]);
+
+    expect((await parse3mf(await part('millimeter'))).units).toBe('mm');
+    expect((await parse3mf(await part('inch'))).units).toBe('in');
+    expect((await parse3mf(await part('meter'))).units).toBe('m');
+    expect((await parse3mf(await part('parsec'))).units).toBeUndefined();
+
+    // Microns have no viewer unit: positions are scaled to millimeters
+    const micron = await parse3mf(await part('micron'));
+    expect(micron.units).toBe('mm');
+    expect(Array.from(micron.vertices)).toEqual([0, 0, 0, 0.001, 0, 0, 0, 0.001, 0]);
+  });
+
+  it('reports malformed archives', async () => {
+    const notZip = new TextEncoder().encode('solid nothing here at all').buffer as ArrayBuffer;
+    await expectArchiveError(parse3mf(notZip), 'malformed_archive');
+
+    const zip = await buildZip([{ name: '3D/3dmodel.model', text: model(TRIANGLE_OBJECT, '<item objectid="1" />') }]);
+    await expectArchiveError(parse3mf(zip.slice(0, zip.byteLength - 10)), 'malformed_archive');
+  });
+
+  it('reports missing and invalid model parts', async () => {
+    const empty = await buildZip([{ name: 'Metadata/thumbnail.png', text: '' }]);
+    const missing = await expectArchiveError(parse3mf(empty), 'missing_entry');
+    expect(missing.entryName).toBe('3D/3dmodel.model');
+
+    const truncated = await buildZip([{ name: '3D/3dmodel.model', text: '<model><resources>' }]);
+    await expectArchiveError(parse3mf(truncated), 'invalid_model');
+
+    const outOfRange = await buildZip([{
+      name: '3D/3dmodel.model',
+      text: model(TRIANGLE_OBJECT.replace('v3="2"', 'v3="7"'), '<item objectid="1" />')
+    }]);
+    const error = await expectArchiveError(parse3mf(outOfRange), 'invalid_model');
+    expect(error.entryName).toBe('3D/3dmodel.model');
+  });
+});
+
+describe('3MF loading', () => {
+  const bridge = {} as MeshCoreBridge;
+  const capabilities = { binaryPlyEnabled: true, wasmVersion: 'test' };
+
+  function mockFile(name: string, data: ArrayBuffer): File {
+    return { name, size: data.byteLength, type: 'model/3mf', arrayBuffer: async () => data } as unknown as File;
+  }
+
+  it('loads a 3MF package as one asset', async () => {
+    const zip = await buildZip([{ name: '3D/3dmodel.model', text: model(TRIANGLE_OBJECT, '<item objectid="1" /><item objectid="1" />') }]);
+
+    const result = await loadMeshAsset(mockFile('part.3mf', zip), { bridge, capabilities });
+
+    expect(result.status).toBe('success');
+    expect(result.asset?.format).toBe('3mf');
+    expect(result.asset?.buffers.indexView.length).toBe(6);
+    expect(result.asset?.units).toBe('mm');
+  });
+
+  it('uses the declared unit instead of guessing', async () => {
+    const zip = await buildZip([{ name: '3D/3dmodel.model', text: model(TRIANGLE_OBJECT, '<item objectid="1" />', 'inch') }]);
+
+    const result = await loadMeshAsset(mockFile('part.3mf', zip), { bridge, capabilities });
+
+    expect(result.asset?.units).toBe('in');
+  });
+
+  it('returns E_PARSE_FAILED with the archive reason and entry', async () => {
+    const zip = await buildZip([{ name: '3D/3dmodel.model', text: '<model><build><item objectid="9" /></build></model>' }]);
+
+    const result = await loadMeshAsset(mockFile('part.3mf', zip), { bridge, capabilities });
+
+    expect(result.status).toBe('error');
+    expect(result.error?.code).toBe('E_PARSE_FAILED');
+    expect(result.error?.context).toMatchObject({
+      fileName: 'part.3mf',
+      reason: 'invalid_model',
+      entry: '3D/3dmodel.model'
+    });
+  });
+});
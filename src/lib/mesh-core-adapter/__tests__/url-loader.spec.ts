@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest';
+import { loadMeshFromUrl, resolveDownloadFileName, withFormatExtension } from '../url-loader';
+import type { MeshCoreBridge } from '../mesh-loader';
+import type { LoadProgress } from '../types';
+
+const bridge = {} as MeshCoreBridge;
+const capabilities = { binaryPlyEnabled: true, wasmVersion: 'test' };
+
+const OBJ = 'v 0 0 0\nv 1 0 0\nv 0 1 0\nf 1 2 3\n';
+const STL = 'solid t\nfacet normal 0 0 1\nouter loop\nvertex 0 0 0\nvertex 1 0 0\nvertex 0 1 0\nendloop\nendfacet\nendsolid t\n';
+
+/** fetch stand-in serving `body` in `chunkSize`-byte chunks */
+function serve(body: string, headers: Record<string, string> = {}, chunkSize = 8): typeof fetch {
+  const bytes = new TextEncoder().encode(body);
+  return (async () => {
+    let offset = 0;
+    const stream = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        if (offset >= bytes.length) {
+          controller.close();
+          return;
+        }
+        controller.enqueue(bytes.slice(offset, offset + chunkSize));
+        offset += chunkSize;
+      }
+    });
+    return new Response(stream, { headers: { 'content-length': String(bytes.length), ...headers } });
+  }) as typeof fetch;
+}
+
+/** fetch stand-in that never responds until aborted */
+const stalledFetch = ((_url: string, init?: RequestInit) =>
+  new Promise((_resolve, reject) => {
+    init?.signal?.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')));
+  })) as typeof fetch;
+
+describe('loadMeshFromUrl', () => {
+  it('downloads with read progress and loads the mesh', async () => {
+    const progress: LoadProgress[] = [];
+
+    const result = await loadMeshFromUrl('https://example.com/models/tri.obj?rev=2', {
+      bridge,
+      capabilities,
+      fetchImpl: serve(OBJ),
+      onProgress: (event) => progress.push(event)
+    });
+
+    expect(result.status).toBe('success');
+    expect(result.asset?.fileName).toBe('tri.obj');
+    expect(result.asset?.buffers.indexView.length).toBe(3);
+
+    const reads = progress.filter((event) => event.phase === 'read');
+    expect(reads.length).toBeGreaterThan(2);
+    expect(reads[reads.length - 1]).toEqual({ phase: 'read', bytesRead: OBJ.length, totalBytes: OBJ.length });
+    expect(progress.map((event) => event.phase)).toContain('parse');
+    expect(result.logs.some((log) => log.context?.op === 'fetch_complete')).toBe(true);
+  });
+
+  it('derives the format from the Content-Type when the URL has no extension', async () => {
+    const result = await loadMeshFromUrl('/api/models/42', {
+      bridge,
+      capabilities,
+      fetchImpl: serve(STL, { 'content-type': 'model/stl; charset=utf-8' })
+    });
+
+    expect(result.status).toBe('success');
+    expect(result.asset?.fileName).toBe('42.stl');
+    expect(result.asset?.format).toBe('stl');
+  });
+
+  it('returns E_FETCH_FAILED for HTTP errors', async () => {
+    const fetchImpl = (async () => new Response('missing', { status: 404, statusText: 'Not Found' })) as typeof fetch;
+
+    const result = await loadMeshFromUrl('/missing.obj', { bridge, capabilities, fetchImpl });
+
+    expect(result.error?.code).toBe('E_FETCH_FAILED');
+    expect(result.error?.message).toContain('HTTP 404 Not Found');
+  });
+
+  it('returns E_FETCH_TIMEOUT when the server stalls', async () => {
+    const result = await loadMeshFromUrl('/slow.obj', { bridge, capabilities, fetchImpl: stalledFetch, timeoutMs: 10 });
+
+    expect(result.error?.code).toBe('E_FETCH_TIMEOUT');
+    expect(result.error?.context?.fileName).toBe('/slow.obj');
+  });
+
+  it('returns E_ABORTED when the caller cancels', async () => {
+    const controller = new AbortController();
+    const pending = loadMeshFromUrl('/slow.obj', { bridge, capabilities, fetchImpl: stalledFetch, signal: controller.signal });
+    controller.abort();
+
+    const result = await pending;
+
+    expect(result.error?.code).toBe('E_ABORTED');
+  });
+
+  it('rejects downloads over the size limit', async () => {
+    const result = await loadMeshFromUrl('/big.obj', { bridge, capabilities, fetchImpl: serve(OBJ), maxFileBytes: 16 });
+
+    expect(result.error?.code).toBe('E_FILE_TOO_LARGE');
+  });
+});
+
+describe('download file names', () => {
+  it('prefers Content-Disposition over the URL path', () => {
+    expect(resolveDownloadFileName('/download?id=1', 'attachment; filename="part A.stl"')).toBe('part A.stl');
+    expect(resolveDownloadFileName('/download', "attachment; filename*=UTF-8''b%C3%BCste.ply")).toBe('büste.ply');
+    expect(resolveDownloadFileName('https://example.com/a/my%20mesh.obj#view')).toBe('my mesh.obj');
+  });
+
+  it('keeps known extensions and appends one from the Content-Type otherwise', () => {
+    expect(withFormatExtension('scan.ply', 'model/stl')).toBe('scan.ply');
+    expect(withFormatExtension('scan', 'model/gltf-binary')).toBe('scan.glb');
+    expect(withFormatExtension('scan', 'application/octet-stream')).toBe('scan');
+  });
+});
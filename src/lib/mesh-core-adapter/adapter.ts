@@ -13,18 +13,23 @@
 
 import type {
   MeshAsset,
+  MeshBuffers,
   MeshCoreCapabilities,
   MeshLoadResult,
   MeshFormat,
   LogEvent,
   AdapterError,
-  LogContext
+  ErrorContext,
+  LogContext,
+  LoadPhase,
+  LoadProgressCallback
 } from './types';
 import { MAX_MESH_FILE_BYTES, MAX_TRIANGLE_COUNT } from './types';
 import { LogEmitter, nowISO8601, type LogSubscription, type LogCallback } from './log-emitter';
 import { MetricsCollector } from './metrics-collector';
 import { generateFileId } from './file-id';
 import {
+  createAbortedError,
   createEmptyFileError,
   createFileTooLargeError,
   createParseError,
@@ -36,6 +41,23 @@ import {
   withSharedBufferTimeout,
   SHARED_BUFFER_TIMEOUT_MS
 } from './shared-buffer-timeout';
+import {
+  determineParseStrategy,
+  parseWithJsAsync,
+  parseErrorContext,
+  attachBinaryPlyAttributes,
+  toJsBuffers,
+  toMeshBuffers,
+  readBlobArrayBuffer,
+  type MeshCoreBridge
+} from './mesh-loader';
+import { throwIfAborted } from './mesh-stream-parser';
+import { rejectDegenerateFaces } from './js-parsers';
+import { ArchiveError } from './zip-reader';
+import { DecompressedSizeError, unpackCompressedInput, type ContainerFormat } from './compressed-input';
+import type { GltfResources } from './gltf-parser';
+import { computeMeshStats } from './mesh-stats';
+import { bootstrapEmbindBridge } from './embind-bridge';
 
 // ============================================================================
 // Types
@@ -57,6 +79,21 @@ export interface MeshCoreBootstrapOptions {
    * @default '/core'
    */
   baseUrl?: string;
+
+  /**
+   * Pre-initialized WASM bridge
+   * 
+   * When provided, the WASM module is not loaded from `baseUrl`
+   * (useful for tests and for sharing one bridge across adapters).
+   */
+  bridge?: MeshCoreBridge;
+
+  /**
+   * Capabilities of the provided bridge
+   * 
+   * Only used together with `bridge`.
+   */
+  capabilities?: MeshCoreCapabilities;
 }
 
 /**
@@ -90,6 +127,31 @@ export interface MeshLoadOptions {
    * @default true
    */
   enableFallback?: boolean;
+
+  /**
+   * Load progress callback
+   * 
+   * Called on each phase change and while the file is read.
+   */
+  onProgress?: LoadProgressCallback;
+
+  /**
+   * Cancels the load
+   * 
+   * An aborted load resolves with an `E_ABORTED` error. WASM parsing
+   * cannot be interrupted; its result is discarded when it completes.
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * Mesh entry of a decompressed `.gz`/`.zip` input
+ */
+interface CompressedEntry {
+  /** Inner file name (selects the parser by extension) */
+  name: string;
+  /** Companion files bundled in a zip */
+  resources: GltfResources;
 }
 
 // ============================================================================
@@ -122,12 +184,21 @@ export interface MeshLoadOptions {
 export class MeshCoreAdapter {
   private logEmitter: LogEmitter;
   private _capabilities: MeshCoreCapabilities;
+  private bridge: MeshCoreBridge | null;
+  /** Assets loaded by this adapter whose buffers have not been released */
+  private assets = new Map<string, MeshAsset>();
 
-  constructor() {
+  /**
+   * @param bridge - WASM bridge for binary formats. Without a bridge only
+   *                 ASCII formats (JS parsers) can be loaded.
+   * @param capabilities - Capabilities reported by the bridge
+   */
+  constructor(bridge: MeshCoreBridge | null = null, capabilities?: MeshCoreCapabilities) {
     this.logEmitter = new LogEmitter();
-    this._capabilities = {
-      binaryPlyEnabled: true,
-      wasmVersion: '0.1.0'
+    this.bridge = bridge;
+    this._capabilities = capabilities ?? {
+      binaryPlyEnabled: bridge !== null,
+      wasmVersion: bridge ? '0.1.0' : '0.0.0-js-only'
     };
   }
 
@@ -248,6 +319,14 @@ export class MeshCoreAdapter {
     
     // Start timer
     metrics.startTotal();
+
+    let phase: LoadPhase = 'read';
+    let bytesRead = 0;
+    const report = (next: LoadPhase, bytes = bytesRead) => {
+      phase = next;
+      bytesRead = bytes;
+      options.onProgress?.({ phase, bytesRead, totalBytes: file.size });
+    };
     
     // Log start
     this.emitLog('DEBUG', `Load started: ${file.name}`, {
@@ -293,6 +372,8 @@ export class MeshCoreAdapter {
       // Step 2: Format Detection (FR-001)
       // =======================================================================
       
+      throwIfAborted(options.signal);
+      report('detect');
       const detection = await detectMeshFormat(file);
       
       // Format mismatch warning (US1-2)
@@ -328,7 +409,7 @@ export class MeshCoreAdapter {
       
       metrics.startParse();
       
-      const parseResult = await this.parseFile(file, detection.format!, options, metrics, fileId);
+      const parseResult = await this.parseFile(file, detection.format!, detection.container, options, metrics, fileId, report);
       
       metrics.stopParse();
       metrics.setParserMode(parseResult.parserMode);
@@ -343,7 +424,7 @@ export class MeshCoreAdapter {
       }
       
       if (!parseResult.success) {
-        const error = createParseError(file.name, parseResult.error);
+        const error = createParseError(file.name, parseResult.error, parseResult.errorContext);
         this.emitLog('ERROR', error.message, {
           category: 'adapter',
           op: 'parse_mesh',
@@ -360,6 +441,13 @@ export class MeshCoreAdapter {
       // =======================================================================
       
       const asset = parseResult.asset!;
+
+      // WASM parsing cannot be interrupted; its result is discarded instead
+      if (options.signal?.aborted) {
+        asset.buffers.release();
+        throwIfAborted(options.signal);
+      }
+      report('stats');
       
       // Triangle count check
       if (asset.stats && asset.stats.triangles > MAX_TRIANGLE_COUNT) {
@@ -391,13 +479,36 @@ export class MeshCoreAdapter {
         fileId
       });
 
+      this.registerAsset(asset);
       return this.buildSuccessResult(asset, metrics, this.logEmitter.getLogs());
 
     } catch (err) {
       metrics.stopTotal();
+
+      if (options.signal?.aborted) {
+        const error = createAbortedError(file.name, phase);
+        this.emitLog('WARN', error.message, {
+          category: 'adapter',
+          op: 'load_aborted',
+          code: error.code,
+          fileId
+        });
+        return this.buildErrorResult(error, metrics, this.logEmitter.getLogs());
+      }
+      
+      if (err instanceof DecompressedSizeError) {
+        const error = createFileTooLargeError(file.name, err.decompressedBytes, err.maxBytes, err.compressedBytes);
+        this.emitLog('ERROR', error.message, {
+          category: 'adapter',
+          op: 'decompress',
+          code: error.code,
+          fileId
+        });
+        return this.buildErrorResult(error, metrics, this.logEmitter.getLogs());
+      }
       
       const errorMessage = err instanceof Error ? err.message : String(err);
-      const error = createParseError(file.name, errorMessage);
+      const error = createParseError(file.name, errorMessage, err instanceof ArchiveError ? parseErrorContext(err) : undefined);
       
       this.emitLog('ERROR', `Load failed: ${errorMessage}`, {
         category: 'adapter',
@@ -417,19 +528,39 @@ export class MeshCoreAdapter {
   private async parseFile(
     file: File,
     format: MeshFormat,
+    container: ContainerFormat | undefined,
     options: MeshLoadOptions,
     metrics: MetricsCollector,
-    fileId: string
+    fileId: string,
+    report: (phase: LoadPhase, bytesRead?: number) => void
   ): Promise<{
     success: boolean;
     asset?: MeshAsset;
     error?: string;
+    errorContext?: ErrorContext;
     parserMode: 'fast' | 'exact';
     fallbackOccurred: boolean;
   }> {
     // Read file data
-    const buffer = await file.arrayBuffer();
-    const data = new Uint8Array(buffer);
+    report('read', 0);
+    let buffer = await readBlobArrayBuffer(file, {
+      signal: options.signal,
+      onBytesRead: (bytes) => report('read', bytes)
+    });
+
+    // Compressed input: parse the mesh inside (size errors propagate to load())
+    let entry: CompressedEntry | undefined;
+    if (container) {
+      const unpacked = await unpackCompressedInput(buffer, file.name, container, { maxBytes: MAX_MESH_FILE_BYTES });
+      buffer = unpacked.data;
+      entry = { name: unpacked.fileName, resources: unpacked.companions };
+      this.emitLog('INFO', `Decompressed ${container} input: ${unpacked.fileName} (${file.size} → ${buffer.byteLength} bytes)`, {
+        category: 'adapter',
+        op: 'decompress',
+        fileId
+      });
+    }
+    report('parse');
     
     const enableFallback = options.enableFallback !== false;
 
@@ -446,7 +577,7 @@ export class MeshCoreAdapter {
     const fastStartTime = performance.now();
     
     try {
-      const asset = await this.parseWithMode(file, data, format, 'fast', fileId);
+      const asset = await this.parseWithMode(file, buffer, format, 'fast', fileId, entry);
       
       // Fast mode validation
       const validation = this.validateParsedMesh(asset);
@@ -469,6 +600,8 @@ export class MeshCoreAdapter {
       }
       
       // Fast mode validation failed - fallback needed
+      asset.buffers.release();
+
       if (!enableFallback) {
         return {
           success: false,
@@ -492,6 +625,7 @@ export class MeshCoreAdapter {
         return {
           success: false,
           error: fastErrorMsg,
+          errorContext: fastError instanceof ArchiveError ? parseErrorContext(fastError) : undefined,
           parserMode: 'fast',
           fallbackOccurred: false
         };
@@ -510,6 +644,7 @@ export class MeshCoreAdapter {
     // Exact mode fallback (T036, T038)
     // =======================================================================
     
+    throwIfAborted(options.signal);
     metrics.recordFallback(); // fallbackCount = 1
     
     this.emitLog('DEBUG', 'Attempting Exact mode parsing', {
@@ -521,7 +656,13 @@ export class MeshCoreAdapter {
     const exactStartTime = performance.now();
     
     try {
-      const asset = await this.parseWithMode(file, data, format, 'exact', fileId);
+      const asset = await this.parseWithMode(file, buffer, format, 'exact', fileId, entry);
+      
+      const validation = this.validateParsedMesh(asset);
+      if (!validation.valid) {
+        asset.buffers.release();
+        throw new Error(`Exact mode validation failed: ${validation.reason}`);
+      }
       
       const exactElapsed = performance.now() - exactStartTime;
       this.emitLog('INFO', `Exact mode parsing successful after fallback (${exactElapsed.toFixed(2)}ms)`, {
@@ -552,6 +693,7 @@ export class MeshCoreAdapter {
       return {
         success: false,
         error: `Both Fast and Exact parsing failed. Last error: ${exactErrorMsg}`,
+        errorContext: exactError instanceof ArchiveError ? parseErrorContext(exactError) : undefined,
         parserMode: 'exact',
         fallbackOccurred: true
       };
@@ -561,33 +703,62 @@ export class MeshCoreAdapter {
   /**
    * Execute parsing with specific mode
    * 
+   * Uses the same hybrid dispatch as `loadMeshAsset`: ASCII formats go through
+   * the JS parsers, binary formats through the WASM bridge.
+   * 
+   * - `fast`: lenient JS parsers / raw WASM output
+   * - `exact`: strict JS parsers (full-token numbers, header validation,
+   *   degenerate-face rejection); WASM output is post-validated the same way
+   * 
    * Monitors SharedArrayBuffer lock delay and emits WARN log after 30 second timeout.
    * Operation continues even after timeout.
    * 
    */
   private async parseWithMode(
     file: File,
-    data: Uint8Array,
+    data: ArrayBuffer,
     format: MeshFormat,
     mode: 'fast' | 'exact',
-    fileId?: string
+    fileId?: string,
+    entry?: CompressedEntry
   ): Promise<MeshAsset> {
-    // Mark parameters as used to satisfy strict noUnusedLocals during build
-    void data;
-    void mode;
     const id = fileId ?? generateFileId(file.name);
     
     // SharedArrayBuffer timeout monitoring (T052)
     const { value: asset, timedOut, elapsedMs } = await withSharedBufferTimeout(
       async () => {
         const startTime = performance.now();
+        const strategy = determineParseStrategy(data, format);
+        
+        let buffers: MeshBuffers;
+        let rejectedFaceCount = 0;
         
-        // TODO: Integrate actual parsing logic (parseWithJs/parseWithWasm from mesh-loader.ts)
-        // Use more precise parsing algorithm when mode === 'exact'
+        if (strategy.parser === 'js') {
+          const jsResult = await parseWithJsAsync(data, strategy.format, mode, entry?.resources);
+          rejectedFaceCount = jsResult.rejectedFaceCount ?? 0;
+          buffers = toJsBuffers(jsResult);
+        } else {
+          if (!this.bridge) {
+            throw new Error(`WASM bridge is not available for binary format: ${strategy.format}`);
+          }
+          const pointers = await this.bridge.parseMesh(data, strategy.format);
+          buffers = attachBinaryPlyAttributes(toMeshBuffers(this.bridge, pointers), data, strategy.format);
+          
+          if (mode === 'exact') {
+            const filtered = rejectDegenerateFaces(buffers.vertexView, buffers.indexView);
+            rejectedFaceCount = filtered.rejectedFaceCount;
+            buffers = { ...buffers, indexView: filtered.indices };
+          }
+        }
         
-        // Create basic buffer structure
-        const vertices = new Float64Array(0);
-        const indices = new Uint32Array(0);
+        if (rejectedFaceCount > 0) {
+          this.emitLog('WARN', `Exact mode rejected ${rejectedFaceCount} invalid or degenerate faces`, {
+            category: 'robustness',
+            op: 'reject_faces',
+            rejectedFaceCount,
+            fileId: id
+          });
+        }
         
         const loadDurationMs = performance.now() - startTime;
         
@@ -595,26 +766,11 @@ export class MeshCoreAdapter {
           id,
           fileName: file.name,
           fileSizeBytes: file.size,
-          format,
+          format: strategy.format,
           loadedAt: Date.now(),
           loadDurationMs,
-          buffers: {
-            vertexView: vertices,
-            indexView: indices,
-            generation: 1,
-            release: () => {
-              // Buffer release logic
-            }
-          },
-          stats: {
-            vertices: vertices.length / 3,
-            triangles: indices.length / 3,
-            bbox: {
-              min: [0, 0, 0],
-              max: [0, 0, 0]
-            },
-            diagonalLength: 0
-          }
+          buffers,
+          stats: computeMeshStats(buffers)
         };
         
         return meshAsset;
@@ -661,6 +817,22 @@ export class MeshCoreAdapter {
       return { valid: false, reason: 'No triangles found' };
     }
     
+    // Index range check
+    const { vertexView, indexView } = asset.buffers;
+    const vertexCount = asset.stats.vertices;
+    for (let i = 0; i < indexView.length; i++) {
+      if (indexView[i] >= vertexCount) {
+        return { valid: false, reason: `Index out of range at ${i} (${indexView[i]} >= ${vertexCount})` };
+      }
+    }
+    
+    // Coordinate check (NaN/Infinity from lenient number parsing)
+    for (let i = 0; i < vertexView.length; i++) {
+      if (!Number.isFinite(vertexView[i])) {
+        return { valid: false, reason: `Non-finite coordinate at vertex ${Math.floor(i / 3)}` };
+      }
+    }
+    
     // TODO: Additional validation such as winding-number consistency check
     
     return { valid: true };
@@ -701,9 +873,24 @@ export class MeshCoreAdapter {
   // ==========================================================================
 
   /**
-   * Returns a list of currently cached assets.
+   * Tracks a loaded asset until its buffers are released.
+   */
+  private registerAsset(asset: MeshAsset): void {
+    const release = asset.buffers.release;
+    asset.buffers.release = () => {
+      this.assets.delete(asset.id);
+      release();
+    };
+    this.assets.set(asset.id, asset);
+  }
+
+  /**
+   * Returns the assets loaded by this adapter that are still alive.
+   * 
+   * An asset is listed from its successful load until `buffers.release()`
+   * is called on it (e.g. when it is removed from the scene).
    * 
-   * @returns Array of loaded MeshAssets (currently empty array - cache not implemented)
+   * @returns Array of loaded MeshAssets in load order
    * 
    * @example
    * ```typescript
@@ -712,11 +899,9 @@ export class MeshCoreAdapter {
    *   console.log(`${asset.fileName}: ${asset.stats?.triangles} triangles`);
    * });
    * ```
-   * 
-   * @todo Asset cache implementation planned
    */
   listAssets(): MeshAsset[] {
-    return [];
+    return [...this.assets.values()];
   }
 }
 
@@ -754,13 +939,17 @@ export async function createMeshCoreAdapter(
   options: MeshCoreBootstrapOptions = {}
 ): Promise<MeshCoreAdapter> {
   const { baseUrl = '/core' } = options;
-  // ensure baseUrl is referenced (placeholder for future usage)
-  void baseUrl;
-  
-  const adapter = new MeshCoreAdapter();
   
-  // TODO: Load WASM module
-  // await adapter.initWasm(baseUrl);
+  if (options.bridge) {
+    return new MeshCoreAdapter(options.bridge, options.capabilities);
+  }
   
-  return adapter;
+  try {
+    const { bridge, capabilities } = await bootstrapEmbindBridge(baseUrl);
+    return new MeshCoreAdapter(bridge, capabilities);
+  } catch (err) {
+    // ASCII formats remain loadable through the JS parsers
+    console.warn('[MeshCoreAdapter] WASM module unavailable, binary formats disabled:', err);
+    return new MeshCoreAdapter();
+  }
 }
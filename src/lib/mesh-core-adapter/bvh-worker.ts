@@ -0,0 +1,25 @@
+/**
+ * BVH worker entry
+ *
+ * Builds the triangle BVH of the posted mesh views off the main thread and
+ * transfers the node arrays back.
+ *
+ * @module bvh-worker
+ */
+
+import { buildTriangleBvh } from './mesh-bvh';
+import type { BvhWorkerRequest, BvhWorkerResponse } from './mesh-bvh-cache';
+
+function post(message: BvhWorkerResponse, transfer: Transferable[] = []): void {
+  self.postMessage(message, { transfer });
+}
+
+self.onmessage = (event: MessageEvent<BvhWorkerRequest>) => {
+  const { vertices, indices } = event.data;
+  try {
+    const { bounds, offsets, counts, triangles } = buildTriangleBvh(vertices, indices);
+    post({ type: 'result', bounds, offsets, counts, triangles }, [bounds.buffer, offsets.buffer, counts.buffer, triangles.buffer]);
+  } catch (error) {
+    post({ type: 'error', message: (error as Error).message ?? String(error) });
+  }
+};
@@ -0,0 +1,430 @@
+/**
+ * @file cap-cut.ts
+ * @description Cut surface capping for sliced meshes
+ *
+ * Closes the open boundary left on the slice plane with a triangulated cap:
+ * - Boundary edges lying on the plane are chained into closed loops
+ * - Loops are projected to plane-local 2D and classified as outer/hole by winding
+ * - Each outer loop (with its holes bridged in) is triangulated by ear clipping
+ *
+ * Cap triangles reuse the cut vertices and face away from the kept half-space,
+ * so a closed input stays watertight after slicing.
+ */
+
+import type { SliceMeshData, SlicePlane } from './slice-mesh';
+
+/** Cap result */
+export interface CapCutResult {
+  /** Mesh with cap triangles appended */
+  mesh: SliceMeshData;
+  /** Number of closed cut loops found */
+  loopCount: number;
+  /** Number of cap triangles added */
+  capFaceCount: number;
+}
+
+/** Relative tolerance for "vertex lies on the plane" (scaled by mesh extent) */
+const ON_PLANE_TOLERANCE = 1e-9;
+
+interface Loop2D {
+  /** Vertex indices (into the mesh) */
+  indices: number[];
+  /** Plane-local 2D coordinates (x, y interleaved) */
+  points: number[];
+  /** Signed area in the cap frame (> 0: outer, < 0: hole) */
+  area: number;
+}
+
+// ============================================================================
+// Plane frame
+// ============================================================================
+
+/**
+ * Builds an orthonormal frame (u, v) with u × v = -normal,
+ * i.e. counter-clockwise in 2D means facing the clipped side.
+ */
+function buildCapFrame(plane: SlicePlane): { n: number[]; u: number[]; v: number[] } {
+  const { x, y, z } = plane.normal;
+  const length = Math.hypot(x, y, z) || 1;
+  const n = [x / length, y / length, z / length];
+  const c = [-n[0], -n[1], -n[2]];
+
+  // Helper axis: the world axis least aligned with the normal
+  const ax = Math.abs(c[0]);
+  const ay = Math.abs(c[1]);
+  const az = Math.abs(c[2]);
+  const helper = ax <= ay && ax <= az ? [1, 0, 0] : ay <= az ? [0, 1, 0] : [0, 0, 1];
+
+  const u = cross(helper, c);
+  const uLength = Math.hypot(u[0], u[1], u[2]);
+  u[0] /= uLength;
+  u[1] /= uLength;
+  u[2] /= uLength;
+  const v = cross(c, u);
+
+  return { n, u, v };
+}
+
+function cross(a: number[], b: number[]): number[] {
+  return [
+    a[1] * b[2] - a[2] * b[1],
+    a[2] * b[0] - a[0] * b[2],
+    a[0] * b[1] - a[1] * b[0]
+  ];
+}
+
+function signedArea(points: number[]): number {
+  let area = 0;
+  const count = points.length / 2;
+  for (let i = 0, j = count - 1; i < count; j = i++) {
+    area += points[j * 2] * points[i * 2 + 1] - points[i * 2] * points[j * 2 + 1];
+  }
+  return area / 2;
+}
+
+// ============================================================================
+// Loop extraction
+// ============================================================================
+
+/**
+ * Extracts closed cut loops from a sliced mesh.
+ *
+ * Loops follow the reversed boundary half-edges, which is the orientation
+ * the cap polygon needs to be consistent with the adjacent faces.
+ * Open chains (non-closed inputs) are skipped.
+ *
+ * @param mesh Sliced mesh data
+ * @param plane Slice plane used to produce the mesh
+ * @returns Loops as vertex index arrays
+ */
+export function extractCutLoops(mesh: SliceMeshData, plane: SlicePlane): number[][] {
+  const vertices = mesh.vertices;
+  const indices = mesh.indices;
+  const vertexCount = Math.floor(vertices.length / 3);
+  const faceCount = Math.floor(indices.length / 3);
+
+  // Vertices on the plane, welded by quantized position
+  const { x: nx, y: ny, z: nz } = plane.normal;
+  const normalLength = Math.hypot(nx, ny, nz) || 1;
+  let extent = 1;
+  for (let i = 0; i < vertices.length; i++) {
+    extent = Math.max(extent, Math.abs(vertices[i]));
+  }
+  const tolerance = ON_PLANE_TOLERANCE * extent;
+
+  const canonical = new Int32Array(vertexCount).fill(-1);
+  const weldMap = new Map<string, number>();
+  for (let i = 0; i < vertexCount; i++) {
+    const x = vertices[i * 3];
+    const y = vertices[i * 3 + 1];
+    const z = vertices[i * 3 + 2];
+    const d = (nx * x + ny * y + nz * z) / normalLength - plane.distance / normalLength;
+    if (Math.abs(d) > tolerance) {
+      continue;
+    }
+    const key = `${Math.round(x / tolerance)},${Math.round(y / tolerance)},${Math.round(z / tolerance)}`;
+    const existing = weldMap.get(key);
+    if (existing === undefined) {
+      weldMap.set(key, i);
+      canonical[i] = i;
+    } else {
+      canonical[i] = existing;
+    }
+  }
+
+  // Count undirected edge usage between on-plane vertices
+  const edgeKey = (a: number, b: number) => (a < b ? `${a}:${b}` : `${b}:${a}`);
+  const edgeUse = new Map<string, number>();
+  const halfEdges: [number, number][] = [];
+  for (let f = 0; f < faceCount; f++) {
+    for (let k = 0; k < 3; k++) {
+      const a = canonical[indices[f * 3 + k]];
+      const b = canonical[indices[f * 3 + ((k + 1) % 3)]];
+      if (a < 0 || b < 0 || a === b) {
+        continue;
+      }
+      const key = edgeKey(a, b);
+      edgeUse.set(key, (edgeUse.get(key) ?? 0) + 1);
+      halfEdges.push([a, b]);
+    }
+  }
+
+  // Boundary half-edges reversed: cap edge goes b → a
+  const outgoing = new Map<number, number[]>();
+  for (const [a, b] of halfEdges) {
+    if (edgeUse.get(edgeKey(a, b)) !== 1) {
+      continue;
+    }
+    const list = outgoing.get(b);
+    if (list) {
+      list.push(a);
+    } else {
+      outgoing.set(b, [a]);
+    }
+  }
+
+  const loops: number[][] = [];
+  for (const start of outgoing.keys()) {
+    while ((outgoing.get(start)?.length ?? 0) > 0) {
+      const loop = [start];
+      let current = outgoing.get(start)!.pop()!;
+      while (current !== start) {
+        loop.push(current);
+        const next = outgoing.get(current)?.pop();
+        if (next === undefined) {
+          break;
+        }
+        current = next;
+      }
+      if (current === start && loop.length >= 3) {
+        loops.push(loop);
+      }
+    }
+  }
+
+  return loops;
+}
+
+// ============================================================================
+// Triangulation
+// ============================================================================
+
+function pointInTriangle(
+  px: number, py: number,
+  ax: number, ay: number, bx: number, by: number, cx: number, cy: number
+): boolean {
+  const d1 = (px - bx) * (ay - by) - (ax - bx) * (py - by);
+  const d2 = (px - cx) * (by - cy) - (bx - cx) * (py - cy);
+  const d3 = (px - ax) * (cy - ay) - (cx - ax) * (py - ay);
+  const hasNegative = d1 < 0 || d2 < 0 || d3 < 0;
+  const hasPositive = d1 > 0 || d2 > 0 || d3 > 0;
+  return !(hasNegative && hasPositive);
+}
+
+function pointInPolygon(px: number, py: number, points: number[]): boolean {
+  let inside = false;
+  const count = points.length / 2;
+  for (let i = 0, j = count - 1; i < count; j = i++) {
+    const xi = points[i * 2];
+    const yi = points[i * 2 + 1];
+    const xj = points[j * 2];
+    const yj = points[j * 2 + 1];
+    if ((yi > py) !== (yj > py) && px < ((xj - xi) * (py - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+function segmentsCross(
+  ax: number, ay: number, bx: number, by: number,
+  cx: number, cy: number, dx: number, dy: number
+): boolean {
+  const o1 = (bx - ax) * (cy - ay) - (by - ay) * (cx - ax);
+  const o2 = (bx - ax) * (dy - ay) - (by - ay) * (dx - ax);
+  const o3 = (dx - cx) * (ay - cy) - (dy - cy) * (ax - cx);
+  const o4 = (dx - cx) * (by - cy) - (dy - cy) * (bx - cx);
+  return o1 * o2 < 0 && o3 * o4 < 0;
+}
+
+/**
+ * Merges holes into an outer loop with bridge edges (Eberly's method,
+ * simplified to the nearest mutually visible vertex).
+ */
+function bridgeHoles(outer: Loop2D, holes: Loop2D[]): Loop2D {
+  const merged: Loop2D = { indices: [...outer.indices], points: [...outer.points], area: outer.area };
+
+  // Process holes from right to left so earlier bridges don't block later ones
+  const ordered = holes
+    .map((hole) => {
+      let best = 0;
+      for (let i = 1; i < hole.indices.length; i++) {
+        if (hole.points[i * 2] > hole.points[best * 2]) {
+          best = i;
+        }
+      }
+      return { hole, start: best };
+    })
+    .sort((a, b) => b.hole.points[b.start * 2] - a.hole.points[a.start * 2]);
+
+  for (const { hole, start } of ordered) {
+    const mx = hole.points[start * 2];
+    const my = hole.points[start * 2 + 1];
+    const mergedCount = merged.indices.length;
+
+    const candidates: number[] = [];
+    for (let i = 0; i < mergedCount; i++) {
+      candidates.push(i);
+    }
+    candidates.sort((a, b) =>
+      Math.hypot(merged.points[a * 2] - mx, merged.points[a * 2 + 1] - my) -
+      Math.hypot(merged.points[b * 2] - mx, merged.points[b * 2 + 1] - my)
+    );
+
+    let bridge = candidates[0];
+    for (const candidate of candidates) {
+      const vx = merged.points[candidate * 2];
+      const vy = merged.points[candidate * 2 + 1];
+      let blocked = false;
+      for (let i = 0, j = mergedCount - 1; i < mergedCount && !blocked; j = i++) {
+        blocked = segmentsCross(
+          mx, my, vx, vy,
+          merged.points[j * 2], merged.points[j * 2 + 1], merged.points[i * 2], merged.points[i * 2 + 1]
+        );
+      }
+      const holeCount = hole.indices.length;
+      for (let i = 0, j = holeCount - 1; i < holeCount && !blocked; j = i++) {
+        blocked = segmentsCross(
+          mx, my, vx, vy,
+          hole.points[j * 2], hole.points[j * 2 + 1], hole.points[i * 2], hole.points[i * 2 + 1]
+        );
+      }
+      if (!blocked) {
+        bridge = candidate;
+        break;
+      }
+    }
+
+    // outer[..bridge] → hole[start..] → hole[start] → outer[bridge..]
+    const insertIndices: number[] = [];
+    const insertPoints: number[] = [];
+    const holeCount = hole.indices.length;
+    for (let k = 0; k <= holeCount; k++) {
+      const h = (start + k) % holeCount;
+      insertIndices.push(hole.indices[h]);
+      insertPoints.push(hole.points[h * 2], hole.points[h * 2 + 1]);
+    }
+    insertIndices.push(merged.indices[bridge]);
+    insertPoints.push(merged.points[bridge * 2], merged.points[bridge * 2 + 1]);
+
+    merged.indices.splice(bridge + 1, 0, ...insertIndices);
+    merged.points.splice((bridge + 1) * 2, 0, ...insertPoints);
+  }
+
+  return merged;
+}
+
+/**
+ * Ear clipping triangulation of a counter-clockwise simple polygon
+ * (bridged polygons with duplicated vertices are supported).
+ */
+function earClip(polygon: Loop2D, out: number[]): void {
+  const remaining: number[] = [];
+  for (let i = 0; i < polygon.indices.length; i++) {
+    remaining.push(i);
+  }
+  const px = (i: number) => polygon.points[i * 2];
+  const py = (i: number) => polygon.points[i * 2 + 1];
+
+  let guard = 0;
+  let cursor = 0;
+  while (remaining.length > 3) {
+    const count = remaining.length;
+    const prev = remaining[(cursor + count - 1) % count];
+    const curr = remaining[cursor % count];
+    const next = remaining[(cursor + 1) % count];
+
+    const convex =
+      (px(curr) - px(prev)) * (py(next) - py(prev)) - (py(curr) - py(prev)) * (px(next) - px(prev)) > 0;
+
+    let isEar = convex;
+    if (isEar) {
+      for (const other of remaining) {
+        if (other === prev || other === curr || other === next) {
+          continue;
+        }
+        // Bridge duplicates share a position with a triangle corner
+        const sameAsCorner = [prev, curr, next].some(
+          (corner) => px(corner) === px(other) && py(corner) === py(other)
+        );
+        if (!sameAsCorner && pointInTriangle(px(other), py(other), px(prev), py(prev), px(curr), py(curr), px(next), py(next))) {
+          isEar = false;
+          break;
+        }
+      }
+    }
+
+    // Degenerate input: after a full pass without ears, clip anyway to terminate
+    if (isEar || guard >= count) {
+      out.push(polygon.indices[prev], polygon.indices[curr], polygon.indices[next]);
+      remaining.splice(cursor % count, 1);
+      cursor = cursor % remaining.length;
+      guard = 0;
+    } else {
+      cursor = (cursor + 1) % count;
+      guard++;
+    }
+  }
+
+  out.push(polygon.indices[remaining[0]], polygon.indices[remaining[1]], polygon.indices[remaining[2]]);
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Closes the cut of a sliced mesh with triangulated cap polygons.
+ *
+ * @param mesh Sliced mesh data
+ * @param plane Slice plane used to produce the mesh
+ * @returns Capped mesh and cap statistics
+ */
+export function capSliceMesh(mesh: SliceMeshData, plane: SlicePlane): CapCutResult {
+  const vertices = mesh.vertices;
+  const loops = extractCutLoops(mesh, plane);
+  const { u, v } = buildCapFrame(plane);
+
+  const loops2D: Loop2D[] = loops.map((loop) => {
+    const points: number[] = [];
+    for (const index of loop) {
+      const x = vertices[index * 3];
+      const y = vertices[index * 3 + 1];
+      const z = vertices[index * 3 + 2];
+      points.push(x * u[0] + y * u[1] + z * u[2], x * v[0] + y * v[1] + z * v[2]);
+    }
+    return { indices: loop, points, area: signedArea(points) };
+  });
+
+  const outers = loops2D.filter((loop) => loop.area > 0).sort((a, b) => a.area - b.area);
+  const holes = loops2D.filter((loop) => loop.area < 0);
+
+  // Assign each hole to the smallest outer loop containing it
+  const holesByOuter = new Map<Loop2D, Loop2D[]>();
+  for (const hole of holes) {
+    const owner = outers.find((outer) => pointInPolygon(hole.points[0], hole.points[1], outer.points));
+    if (!owner) {
+      continue;
+    }
+    const list = holesByOuter.get(owner);
+    if (list) {
+      list.push(hole);
+    } else {
+      holesByOuter.set(owner, [hole]);
+    }
+  }
+
+  const capIndices: number[] = [];
+  for (const outer of outers) {
+    earClip(bridgeHoles(outer, holesByOuter.get(outer) ?? []), capIndices);
+  }
+
+  if (capIndices.length === 0) {
+    return { mesh, loopCount: loops.length, capFaceCount: 0 };
+  }
+
+  const indices = new Uint32Array(mesh.indices.length + capIndices.length);
+  indices.set(mesh.indices);
+  indices.set(capIndices, mesh.indices.length);
+
+  return {
+    mesh: {
+      vertices: mesh.vertices,
+      indices,
+      vertexCount: Math.floor(mesh.vertices.length / 3),
+      faceCount: indices.length / 3
+    },
+    loopCount: loops.length,
+    capFaceCount: capIndices.length / 3
+  };
+}
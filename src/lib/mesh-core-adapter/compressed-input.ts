@@ -0,0 +1,320 @@
+/**
+ * Compressed mesh input (gzip files, zip bundles)
+ *
+ * - gzip (`.stl.gz`, `.obj.gz`, ...): the member is inflated and the inner
+ *   name is taken from the file name without `.gz` (or the gzip header name)
+ * - zip (`.zip`, not a 3MF package): the first mesh entry is extracted
+ *   together with companion entries (MTL libraries, textures, glTF buffers)
+ *
+ * Inflation uses the native `DecompressionStream` when available and falls
+ * back to the JavaScript decoder (see `zip-reader.inflateRaw`). The size
+ * limit is checked against the declared sizes (gzip `ISIZE`, zip central
+ * directory) before inflating and enforced again while inflating.
+ *
+ * @module compressed-input
+ */
+
+import { ArchiveError, extractZipEntry, inflateRaw, isZip, readZipDirectory, type ZipEntry } from './zip-reader';
+import { inflateRawJs } from './js-inflate';
+
+export type ContainerFormat = 'gzip' | 'zip';
+
+/** Mesh file extensions looked up inside containers */
+const MESH_EXTENSIONS = ['.obj', '.stl', '.ply', '.gltf', '.glb', '.3mf', '.off'];
+
+/** Bundle entries extracted alongside the mesh */
+const COMPANION_EXTENSIONS = ['.bin', '.mtl', '.png', '.jpg', '.jpeg', '.webp', '.gif', '.bmp'];
+
+const GZIP_EXTENSION_PATTERN = /\.(gz|gzip)$/i;
+
+/** gzip header flags (RFC 1952) */
+const FLAG_HCRC = 0x02;
+const FLAG_EXTRA = 0x04;
+const FLAG_NAME = 0x08;
+const FLAG_COMMENT = 0x10;
+
+/** Output size when peeking at the start of a gzip member */
+const PEEK_BYTES = 256;
+
+/**
+ * Error thrown when the decompressed input exceeds the size limit
+ */
+export class DecompressedSizeError extends Error {
+  constructor(
+    public readonly compressedBytes: number,
+    public readonly decompressedBytes: number,
+    public readonly maxBytes: number
+  ) {
+    super(`Decompressed size exceeds allowed limit: ${decompressedBytes} bytes (${compressedBytes} bytes compressed) > ${maxBytes} bytes`);
+    this.name = 'DecompressedSizeError';
+  }
+}
+
+/**
+ * Unpacked container contents
+ */
+export interface UnpackedInput {
+  container: ContainerFormat;
+  /** Inner mesh file name (zip entry path or gzip name) */
+  fileName: string;
+  data: ArrayBuffer;
+  /** Companion entries of a zip bundle, keyed by path relative to the mesh entry */
+  companions: Map<string, ArrayBuffer>;
+  compressedBytes: number;
+}
+
+export interface UnpackOptions {
+  /** Maximum decompressed size (mesh plus companions) */
+  maxBytes: number;
+}
+
+interface GzipMember {
+  /** Offset of the DEFLATE stream */
+  dataOffset: number;
+  /** Original file name stored in the header */
+  fileName?: string;
+}
+
+function hasExtension(name: string, extensions: string[]): boolean {
+  const lower = name.toLowerCase();
+  return extensions.some((ext) => lower.endsWith(ext));
+}
+
+/**
+ * Checks for the gzip magic (`1f 8b`).
+ */
+export function isGzip(data: ArrayBuffer): boolean {
+  const bytes = new Uint8Array(data, 0, Math.min(data.byteLength, 2));
+  return bytes.length === 2 && bytes[0] === 0x1f && bytes[1] === 0x8b;
+}
+
+/**
+ * Whether the head of a file starts a gzip or zip container.
+ *
+ * Does not tell zip bundles from 3MF packages (see `detectContainer`).
+ */
+export function hasContainerMagic(head: ArrayBuffer): boolean {
+  return isGzip(head) || isZip(head);
+}
+
+/**
+ * Whether zip entries form a 3MF package rather than a bundle of files.
+ */
+export function isThreeMfPackage(entries: ZipEntry[]): boolean {
+  return entries.some((entry) => {
+    const name = entry.name.replace(/^\/+/, '').toLowerCase();
+    return name === '[content_types].xml' || (name.startsWith('3d/') && name.endsWith('.model'));
+  });
+}
+
+/**
+ * Detects a compressed container from the file contents.
+ *
+ * `.3mf` files and zip archives laid out as 3MF packages are not containers.
+ *
+ * @param data Whole file (zip archives are identified by their directory)
+ * @param fileName File name
+ */
+export function detectContainer(data: ArrayBuffer, fileName: string): ContainerFormat | null {
+  if (isGzip(data)) {
+    return 'gzip';
+  }
+  if (!isZip(data) || fileName.toLowerCase().endsWith('.3mf')) {
+    return null;
+  }
+  try {
+    return isThreeMfPackage(readZipDirectory(data)) ? null : 'zip';
+  } catch {
+    // Broken archives are reported by the 3MF parser
+    return null;
+  }
+}
+
+/**
+ * Detects a container from the file name (`.gz`, `.gzip`, `.zip`).
+ */
+export function detectContainerByName(fileName: string): ContainerFormat | null {
+  if (GZIP_EXTENSION_PATTERN.test(fileName)) {
+    return 'gzip';
+  }
+  return fileName.toLowerCase().endsWith('.zip') ? 'zip' : null;
+}
+
+/**
+ * Removes a trailing `.gz` / `.gzip` (`part.stl.gz` → `part.stl`).
+ */
+export function stripCompressionExtension(fileName: string): string {
+  return fileName.replace(GZIP_EXTENSION_PATTERN, '');
+}
+
+function readGzipMember(bytes: Uint8Array): GzipMember {
+  if (bytes.length < 18 || bytes[0] !== 0x1f || bytes[1] !== 0x8b) {
+    throw new ArchiveError('gzip header is truncated', 'malformed_archive');
+  }
+  if (bytes[2] !== 8) {
+    throw new ArchiveError(`gzip compression method ${bytes[2]} is not supported`, 'unsupported_archive');
+  }
+
+  const flags = bytes[3];
+  let offset = 10;
+  let fileName: string | undefined;
+
+  const readZeroTerminated = (): string => {
+    const end = bytes.indexOf(0, offset);
+    if (end < 0) {
+      throw new ArchiveError('gzip header is truncated', 'malformed_archive');
+    }
+    // Header strings are ISO 8859-1
+    const value = String.fromCharCode(...bytes.subarray(offset, end));
+    offset = end + 1;
+    return value;
+  };
+
+  if (flags & FLAG_EXTRA) {
+    offset += 2 + (bytes[offset] | (bytes[offset + 1] << 8));
+  }
+  if (flags & FLAG_NAME) {
+    fileName = readZeroTerminated();
+  }
+  if (flags & FLAG_COMMENT) {
+    readZeroTerminated();
+  }
+  if (flags & FLAG_HCRC) {
+    offset += 2;
+  }
+  if (offset > bytes.length - 8) {
+    throw new ArchiveError('gzip header is truncated', 'malformed_archive');
+  }
+
+  return { dataOffset: offset, fileName: fileName || undefined };
+}
+
+/** Uncompressed size from the gzip trailer (modulo 2^32) */
+function gzipDeclaredSize(bytes: Uint8Array): number {
+  return new DataView(bytes.buffer, bytes.byteOffset + bytes.length - 4, 4).getUint32(0, true);
+}
+
+/**
+ * Decompresses a gzip member (native stream, JavaScript fallback).
+ *
+ * @param limit Maximum number of output bytes
+ * @throws ArchiveError When the header or stream is corrupt
+ */
+export async function gunzip(data: ArrayBuffer, limit = Infinity): Promise<Uint8Array> {
+  const bytes = new Uint8Array(data);
+  const member = readGzipMember(bytes);
+  try {
+    return await inflateRaw(bytes.subarray(member.dataOffset, bytes.length - 8), limit);
+  } catch (error) {
+    throw new ArchiveError(`gzip stream is corrupt (${(error as Error).message})`, 'malformed_archive');
+  }
+}
+
+/**
+ * Decompresses the start of a gzip file for format detection.
+ *
+ * Works on a truncated file (only the head needs to be read).
+ *
+ * @returns Up to 256 decompressed bytes and the header file name, or null
+ */
+export function peekGzip(head: ArrayBuffer): { bytes: Uint8Array; fileName?: string } | null {
+  try {
+    const bytes = new Uint8Array(head);
+    const member = readGzipMember(bytes);
+    return { bytes: inflateRawJs(bytes.subarray(member.dataOffset), PEEK_BYTES), fileName: member.fileName };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Picks the mesh entry of a zip bundle (first in directory order).
+ */
+export function findBundleMeshEntry(entries: ZipEntry[]): ZipEntry | undefined {
+  return entries.find(
+    (entry) => !entry.name.endsWith('/') && !entry.name.startsWith('__MACOSX/') && hasExtension(entry.name, MESH_EXTENSIONS)
+  );
+}
+
+function toArrayBuffer(bytes: Uint8Array): ArrayBuffer {
+  return bytes.byteOffset === 0 && bytes.byteLength === bytes.buffer.byteLength
+    ? (bytes.buffer as ArrayBuffer)
+    : (bytes.slice().buffer as ArrayBuffer);
+}
+
+async function unpackGzip(data: ArrayBuffer, fileName: string, maxBytes: number): Promise<UnpackedInput> {
+  const bytes = new Uint8Array(data);
+  const member = readGzipMember(bytes);
+
+  const declared = gzipDeclaredSize(bytes);
+  if (declared > maxBytes) {
+    throw new DecompressedSizeError(data.byteLength, declared, maxBytes);
+  }
+  // The trailer may lie (or wrap beyond 4 GB): enforce the limit while inflating
+  const contents = await gunzip(data, maxBytes + 1);
+  if (contents.byteLength > maxBytes) {
+    throw new DecompressedSizeError(data.byteLength, contents.byteLength, maxBytes);
+  }
+
+  const stripped = stripCompressionExtension(fileName);
+  const innerName = !hasExtension(stripped, MESH_EXTENSIONS) && member.fileName ? member.fileName : stripped;
+
+  return {
+    container: 'gzip',
+    fileName: innerName,
+    data: toArrayBuffer(contents),
+    companions: new Map(),
+    compressedBytes: data.byteLength
+  };
+}
+
+async function unpackZip(data: ArrayBuffer, maxBytes: number): Promise<UnpackedInput> {
+  const entries = readZipDirectory(data);
+  const meshEntry = findBundleMeshEntry(entries);
+  if (!meshEntry) {
+    throw new ArchiveError('ZIP archive contains no mesh file', 'missing_entry');
+  }
+
+  const directory = meshEntry.name.includes('/') ? meshEntry.name.slice(0, meshEntry.name.lastIndexOf('/') + 1) : '';
+  const companionEntries = entries.filter(
+    (entry) => entry !== meshEntry && !entry.name.startsWith('__MACOSX/') && hasExtension(entry.name, COMPANION_EXTENSIONS)
+  );
+
+  const declared = [meshEntry, ...companionEntries].reduce((sum, entry) => sum + entry.uncompressedSize, 0);
+  if (declared > maxBytes) {
+    throw new DecompressedSizeError(data.byteLength, declared, maxBytes);
+  }
+
+  // Sizes are verified against the directory on extraction
+  const companions = new Map<string, ArrayBuffer>();
+  for (const entry of companionEntries) {
+    const key = directory && entry.name.startsWith(directory) ? entry.name.slice(directory.length) : entry.name;
+    companions.set(key, toArrayBuffer(await extractZipEntry(data, entry)));
+  }
+
+  return {
+    container: 'zip',
+    fileName: meshEntry.name,
+    data: toArrayBuffer(await extractZipEntry(data, meshEntry)),
+    companions,
+    compressedBytes: data.byteLength
+  };
+}
+
+/**
+ * Unpacks a gzip file or zip bundle.
+ *
+ * @param data Whole compressed file
+ * @param fileName Compressed file name (inner gzip name is derived from it)
+ * @param container Container format (see `detectContainer`)
+ * @throws DecompressedSizeError When the contents exceed `maxBytes`
+ * @throws ArchiveError When the container is corrupt, unsupported or has no mesh
+ */
+export async function unpackCompressedInput(
+  data: ArrayBuffer,
+  fileName: string,
+  container: ContainerFormat,
+  options: UnpackOptions
+): Promise<UnpackedInput> {
+  return container === 'gzip' ? unpackGzip(data, fileName, options.maxBytes) : unpackZip(data, options.maxBytes);
+}
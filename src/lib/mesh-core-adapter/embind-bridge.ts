@@ -168,7 +168,11 @@ export function createEmbindBridge(
         obj: 'model.obj',
         ply_ascii: 'model.ply',
         ply_binary_le: 'model.ply',
-        ply_binary_be: 'model.ply'
+        ply_binary_be: 'model.ply',
+        gltf: 'model.gltf',
+        glb: 'model.glb',
+        '3mf': 'model.3mf',
+        off: 'model.off'
       };
       const filename = filenameMap[format] ?? 'model.stl';
 
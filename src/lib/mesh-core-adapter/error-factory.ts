@@ -8,7 +8,7 @@
  * @module error-factory
  */
 
-import type { AdapterError, AdapterErrorCode, ErrorContext } from './types';
+import type { AdapterError, AdapterErrorCode, ErrorContext, LoadPhase } from './types';
 import { nowISO8601 } from './log-emitter';
 import { validateAdapterError, validateInDev } from './schema-validator';
 
@@ -73,12 +73,22 @@ export function createEmptyFileError(fileName?: string): AdapterError {
 
 /**
  * Create E_FILE_TOO_LARGE error
+ *
+ * @param compressedSize Size of the .gz/.zip file when `fileSize` is the decompressed size
  */
 export function createFileTooLargeError(
   fileName: string,
   fileSize: number,
-  maxSize: number
+  maxSize: number,
+  compressedSize?: number
 ): AdapterError {
+  if (compressedSize !== undefined) {
+    return createAdapterError({
+      code: 'E_FILE_TOO_LARGE',
+      message: `Decompressed size exceeds maximum: ${fileSize} bytes (${compressedSize} bytes compressed) > ${maxSize} bytes`,
+      context: { fileName, compressedBytes: compressedSize, decompressedBytes: fileSize, maxBytes: maxSize }
+    });
+  }
   return createAdapterError({
     code: 'E_FILE_TOO_LARGE',
     message: `File exceeds maximum size: ${fileSize} bytes > ${maxSize} bytes`,
@@ -97,14 +107,29 @@ export function createFileReadError(fileName: string, reason?: string): AdapterE
   });
 }
 
+/**
+ * Create E_ABORTED error
+ * 
+ * `phase` is the load phase that was interrupted.
+ */
+export function createAbortedError(fileName: string, phase?: LoadPhase): AdapterError {
+  return createAdapterError({
+    code: 'E_ABORTED',
+    message: phase ? `Load cancelled during ${phase}` : 'Load cancelled',
+    context: { fileName, reason: phase }
+  });
+}
+
 /**
  * Create E_PARSE_FAILED error
+ * 
+ * `details` overrides the context (e.g. archive `reason` and `entry`).
  */
-export function createParseError(fileName: string, reason?: string): AdapterError {
+export function createParseError(fileName: string, reason?: string, details?: ErrorContext): AdapterError {
   return createAdapterError({
     code: 'E_PARSE_FAILED',
     message: `Failed to parse mesh: ${reason || 'unknown error'}`,
-    context: { fileName, reason }
+    context: { fileName, reason, ...details }
   });
 }
 
@@ -3,13 +3,28 @@
  * 
  * This module detects formats with the following priority:
  * 1. Magic Bytes (highest priority) - Inspects first 80 bytes of file
- * 2. Extension - .stl, .obj, .ply extensions
+ * 2. Extension - .stl, .obj, .ply, .gltf, .glb, .3mf, .off extensions
  * 3. MIME Header (fallback) - When provided by File API
  * 
+ * gzip files and zip bundles report the format of the mesh inside
+ * (`container` is set).
+ * 
  * @module format-detector
  */
 
 import type { MeshFormat } from './types';
+import {
+  detectContainer,
+  findBundleMeshEntry,
+  isGzip,
+  peekGzip,
+  stripCompressionExtension,
+  type ContainerFormat
+} from './compressed-input';
+import { readZipDirectory } from './zip-reader';
+
+/** Bytes of a gzip file read to peek at the inner header */
+const GZIP_PEEK_READ_BYTES = 64 * 1024;
 
 /**
  * Format detection result
@@ -23,6 +38,8 @@ export interface FormatDetectionResult {
   mismatch: boolean;
   /** Expected format based on extension (when mismatched) */
   expectedFormat?: MeshFormat;
+  /** Compressed container; `format` is then the format of the mesh inside */
+  container?: ContainerFormat;
 }
 
 /**
@@ -50,6 +67,16 @@ function detectPlySubformat(header: Uint8Array): MeshFormat {
 function detectByMagicBytes(header: Uint8Array): MeshFormat | null {
   if (header.length < 4) return null;
   
+  // GLB: 'glTF'
+  if (header[0] === 0x67 && header[1] === 0x6C && header[2] === 0x54 && header[3] === 0x46) {
+    return 'glb';
+  }
+  
+  // ZIP container: 'PK\x03\x04' (3MF package)
+  if (header[0] === 0x50 && header[1] === 0x4B && header[2] === 0x03 && header[3] === 0x04) {
+    return '3mf';
+  }
+  
   // PLY: 'ply\n' or 'ply\r\n'
   if (header[0] === 0x70 && header[1] === 0x6C && header[2] === 0x79) {
     if (header[3] === 0x0A || header[3] === 0x0D) {
@@ -57,6 +84,12 @@ function detectByMagicBytes(header: Uint8Array): MeshFormat | null {
     }
   }
   
+  // OFF: 'OFF', 'COFF', 'NOFF', ... followed by whitespace or counts
+  const firstLine = new TextDecoder().decode(header.slice(0, 16));
+  if (/^(ST)?C?N?OFF(\s|\d)/.test(firstLine)) {
+    return 'off';
+  }
+  
   // OBJ heuristic: starts with 'v ' or '# '
   const firstTwo = String.fromCharCode(header[0], header[1]);
   if (firstTwo === 'v ' || firstTwo === '# ') {
@@ -92,13 +125,24 @@ function detectByMagicBytes(header: Uint8Array): MeshFormat | null {
   return null;
 }
 
+/**
+ * Detect format by content (magic bytes of already-read data, e.g. a
+ * decompressed `.gz` whose name carries no mesh extension)
+ * 
+ * @param data - File contents (only the first 256 bytes are inspected)
+ * @returns Detected format or null
+ */
+export function detectByContent(data: ArrayBuffer): MeshFormat | null {
+  return detectByMagicBytes(new Uint8Array(data, 0, Math.min(256, data.byteLength)));
+}
+
 /**
  * Detect format by extension
  * 
  * @param fileName - File name
  * @returns Detected format or null
  */
-function detectByExtension(fileName: string): MeshFormat | null {
+export function detectByExtension(fileName: string): MeshFormat | null {
   const ext = fileName.split('.').pop()?.toLowerCase();
   
   switch (ext) {
@@ -108,6 +152,14 @@ function detectByExtension(fileName: string): MeshFormat | null {
       return 'obj';
     case 'ply':
       return 'ply_ascii'; // Assume ASCII, binary check during actual load
+    case 'gltf':
+      return 'gltf';
+    case 'glb':
+      return 'glb';
+    case '3mf':
+      return '3mf';
+    case 'off':
+      return 'off';
     default:
       return null;
   }
@@ -119,9 +171,18 @@ function detectByExtension(fileName: string): MeshFormat | null {
  * @param mimeType - MIME type
  * @returns Detected format or null
  */
-function detectByMime(mimeType: string): MeshFormat | null {
+export function detectByMime(mimeType: string): MeshFormat | null {
   const lower = mimeType.toLowerCase();
   
+  if (lower === 'model/gltf-binary') {
+    return 'glb';
+  }
+  if (lower === 'model/gltf+json') {
+    return 'gltf';
+  }
+  if (lower === 'model/3mf' || lower.includes('3dmanufacturing')) {
+    return '3mf';
+  }
   if (lower.includes('stl') || lower === 'model/stl') {
     return 'stl';
   }
@@ -135,6 +196,31 @@ function detectByMime(mimeType: string): MeshFormat | null {
   return null;
 }
 
+/**
+ * Detect the mesh format inside a gzip file or zip bundle
+ * 
+ * @returns Detection result, or null when the file is not a container
+ */
+async function detectCompressedFormat(file: File, header: ArrayBuffer): Promise<FormatDetectionResult | null> {
+  if (isGzip(header)) {
+    const peek = peekGzip(await file.slice(0, GZIP_PEEK_READ_BYTES).arrayBuffer());
+    const innerName = stripCompressionExtension(file.name);
+    const format =
+      (peek && detectByMagicBytes(peek.bytes)) ??
+      detectByExtension(innerName) ??
+      (peek?.fileName ? detectByExtension(peek.fileName) : null);
+    return { format, method: 'magic', mismatch: false, container: 'gzip' };
+  }
+
+  // Zip bundles need the central directory at the end of the file
+  const data = await file.arrayBuffer();
+  if (detectContainer(data, file.name) !== 'zip') {
+    return null;
+  }
+  const entry = findBundleMeshEntry(readZipDirectory(data));
+  return { format: entry ? detectByExtension(entry.name) : null, method: 'magic', mismatch: false, container: 'zip' };
+}
+
 /**
  * Detect mesh file format
  * 
@@ -166,6 +252,13 @@ export async function detectMeshFormat(file: File): Promise<FormatDetectionResul
     const headerBuffer = await headerBlob.arrayBuffer();
     const header = new Uint8Array(headerBuffer);
     
+    const isContainer =
+      isGzip(headerBuffer) || (detectByMagicBytes(header) === '3mf' && extensionFormat !== '3mf');
+    const compressed = isContainer ? await detectCompressedFormat(file, headerBuffer) : null;
+    if (compressed) {
+      return compressed;
+    }
+    
     const magicFormat = detectByMagicBytes(header);
     if (magicFormat) {
       result.format = magicFormat;
@@ -211,6 +304,7 @@ function isSameFormatFamily(a: MeshFormat, b: MeshFormat): boolean {
   const family = (f: MeshFormat): string => {
     if (f.startsWith('stl')) return 'stl';
     if (f.startsWith('ply')) return 'ply';
+    if (f === 'glb') return 'gltf';
     return f;
   };
   return family(a) === family(b);
@@ -222,16 +316,19 @@ function isSameFormatFamily(a: MeshFormat, b: MeshFormat): boolean {
 export function isSupportedFormat(format: MeshFormat | null): format is MeshFormat {
   if (!format) return false;
   const supported: MeshFormat[] = [
-    'stl', 'stl_binary', 'obj', 'ply_ascii', 'ply_binary_le', 'ply_binary_be'
+    'stl', 'stl_binary', 'obj', 'ply_ascii', 'ply_binary_le', 'ply_binary_be', 'gltf', 'glb', '3mf', 'off'
   ];
   return supported.includes(format);
 }
 
 /**
- * Extract base type from format (stl, obj, ply)
+ * Extract base type from format (stl, obj, ply, gltf, 3mf, off)
  */
-export function getFormatFamily(format: MeshFormat): 'stl' | 'obj' | 'ply' {
+export function getFormatFamily(format: MeshFormat): 'stl' | 'obj' | 'ply' | 'gltf' | '3mf' | 'off' {
   if (format.startsWith('stl')) return 'stl';
   if (format.startsWith('ply')) return 'ply';
+  if (format === 'gltf' || format === 'glb') return 'gltf';
+  if (format === '3mf') return '3mf';
+  if (format === 'off') return 'off';
   return 'obj';
 }
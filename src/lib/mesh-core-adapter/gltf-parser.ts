@@ -0,0 +1,521 @@
+/**
+ * glTF 2.0 parser (`.gltf` JSON and `.glb` binary container)
+ *
+ * Flattens every triangle primitive of the default scene into a single
+ * indexed mesh, with node transforms applied:
+ * - Positions are transformed by the node world matrix
+ * - Normals are transformed by the inverse-transpose and renormalized
+ * - Winding is flipped for mirroring transforms (negative determinant)
+ *
+ * Buffers may be embedded (GLB BIN chunk, `data:` URIs) or external
+ * (`.bin` files supplied through `resources`).
+ *
+ * @module gltf-parser
+ */
+
+import type { JsParseResult } from './js-parsers';
+
+/**
+ * External glTF resources, keyed by URI or file name
+ */
+export type GltfResources = Map<string, ArrayBuffer>;
+
+/** GLB magic 'glTF' (little-endian) */
+export const GLB_MAGIC = 0x46546c67;
+const GLB_CHUNK_JSON = 0x4e4f534a;
+const GLB_CHUNK_BIN = 0x004e4942;
+
+const COMPONENT_SIZE: Record<number, number> = {
+  5120: 1, // BYTE
+  5121: 1, // UNSIGNED_BYTE
+  5122: 2, // SHORT
+  5123: 2, // UNSIGNED_SHORT
+  5125: 4, // UNSIGNED_INT
+  5126: 4 // FLOAT
+};
+
+const TYPE_COMPONENTS: Record<string, number> = {
+  SCALAR: 1,
+  VEC2: 2,
+  VEC3: 3,
+  VEC4: 4,
+  MAT2: 4,
+  MAT3: 9,
+  MAT4: 16
+};
+
+/** Primitive modes */
+const MODE_TRIANGLES = 4;
+const MODE_TRIANGLE_STRIP = 5;
+const MODE_TRIANGLE_FAN = 6;
+
+// ============================================================================
+// glTF JSON types (subset used by the parser)
+// ============================================================================
+
+interface GltfAccessor {
+  bufferView?: number;
+  byteOffset?: number;
+  componentType: number;
+  normalized?: boolean;
+  count: number;
+  type: string;
+  sparse?: {
+    count: number;
+    indices: { bufferView: number; byteOffset?: number; componentType: number };
+    values: { bufferView: number; byteOffset?: number };
+  };
+}
+
+interface GltfBufferView {
+  buffer: number;
+  byteOffset?: number;
+  byteLength: number;
+  byteStride?: number;
+}
+
+interface GltfPrimitive {
+  attributes: Record<string, number>;
+  indices?: number;
+  mode?: number;
+}
+
+interface GltfNode {
+  children?: number[];
+  mesh?: number;
+  matrix?: number[];
+  translation?: number[];
+  rotation?: number[];
+  scale?: number[];
+}
+
+interface GltfDocument {
+  asset?: { version?: string };
+  scene?: number;
+  scenes?: { nodes?: number[] }[];
+  nodes?: GltfNode[];
+  meshes?: { primitives: GltfPrimitive[] }[];
+  accessors?: GltfAccessor[];
+  bufferViews?: GltfBufferView[];
+  buffers?: { uri?: string; byteLength: number }[];
+}
+
+// ============================================================================
+// Container
+// ============================================================================
+
+/**
+ * Checks for the GLB magic header.
+ */
+export function isGlb(data: ArrayBuffer): boolean {
+  return data.byteLength >= 12 && new DataView(data).getUint32(0, true) === GLB_MAGIC;
+}
+
+function readGlb(data: ArrayBuffer): { json: GltfDocument; bin: ArrayBuffer | null } {
+  const view = new DataView(data);
+  const version = view.getUint32(4, true);
+  if (version !== 2) {
+    throw new Error(`Unsupported GLB version: ${version}`);
+  }
+  const length = Math.min(view.getUint32(8, true), data.byteLength);
+
+  let json: GltfDocument | null = null;
+  let bin: ArrayBuffer | null = null;
+  let offset = 12;
+
+  while (offset + 8 <= length) {
+    const chunkLength = view.getUint32(offset, true);
+    const chunkType = view.getUint32(offset + 4, true);
+    const start = offset + 8;
+    if (start + chunkLength > length) {
+      throw new Error('GLB chunk exceeds file length');
+    }
+
+    if (chunkType === GLB_CHUNK_JSON) {
+      json = JSON.parse(new TextDecoder('utf-8').decode(new Uint8Array(data, start, chunkLength)));
+    } else if (chunkType === GLB_CHUNK_BIN && bin === null) {
+      bin = data.slice(start, start + chunkLength);
+    }
+    // Chunks are 4-byte aligned
+    offset = start + Math.ceil(chunkLength / 4) * 4;
+  }
+
+  if (!json) {
+    throw new Error('GLB has no JSON chunk');
+  }
+  return { json, bin };
+}
+
+function decodeDataUri(uri: string): ArrayBuffer {
+  const comma = uri.indexOf(',');
+  const meta = uri.slice(5, comma);
+  const payload = uri.slice(comma + 1);
+  if (!meta.endsWith(';base64')) {
+    return new TextEncoder().encode(decodeURIComponent(payload)).buffer as ArrayBuffer;
+  }
+  const binary = atob(payload);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes.buffer;
+}
+
+function resolveBuffers(json: GltfDocument, bin: ArrayBuffer | null, resources?: GltfResources): ArrayBuffer[] {
+  return (json.buffers ?? []).map((buffer, index) => {
+    if (buffer.uri === undefined) {
+      if (index === 0 && bin) {
+        return bin;
+      }
+      throw new Error(`glTF buffer ${index} has no data`);
+    }
+    if (buffer.uri.startsWith('data:')) {
+      return decodeDataUri(buffer.uri);
+    }
+
+    const uri = decodeURIComponent(buffer.uri);
+    const baseName = uri.split('/').pop() ?? uri;
+    const external = resources?.get(uri) ?? resources?.get(baseName);
+    if (!external) {
+      throw new Error(`glTF external buffer not provided: ${uri}`);
+    }
+    return external;
+  });
+}
+
+// ============================================================================
+// Accessors
+// ============================================================================
+
+function readComponent(view: DataView, offset: number, componentType: number, normalized: boolean): number {
+  switch (componentType) {
+    case 5120: {
+      const v = view.getInt8(offset);
+      return normalized ? Math.max(v / 127, -1) : v;
+    }
+    case 5121: {
+      const v = view.getUint8(offset);
+      return normalized ? v / 255 : v;
+    }
+    case 5122: {
+      const v = view.getInt16(offset, true);
+      return normalized ? Math.max(v / 32767, -1) : v;
+    }
+    case 5123: {
+      const v = view.getUint16(offset, true);
+      return normalized ? v / 65535 : v;
+    }
+    case 5125:
+      return view.getUint32(offset, true);
+    case 5126:
+      return view.getFloat32(offset, true);
+    default:
+      throw new Error(`Unsupported accessor componentType: ${componentType}`);
+  }
+}
+
+function readAccessor(json: GltfDocument, buffers: ArrayBuffer[], index: number): { data: Float64Array; components: number } {
+  const accessor = json.accessors?.[index];
+  if (!accessor) {
+    throw new Error(`glTF accessor not found: ${index}`);
+  }
+  const components = TYPE_COMPONENTS[accessor.type];
+  const componentSize = COMPONENT_SIZE[accessor.componentType];
+  if (!components || !componentSize) {
+    throw new Error(`Unsupported accessor type: ${accessor.type}/${accessor.componentType}`);
+  }
+
+  const data = new Float64Array(accessor.count * components);
+  const normalized = accessor.normalized ?? false;
+
+  if (accessor.bufferView !== undefined) {
+    const bufferView = json.bufferViews?.[accessor.bufferView];
+    if (!bufferView) {
+      throw new Error(`glTF bufferView not found: ${accessor.bufferView}`);
+    }
+    const buffer = buffers[bufferView.buffer];
+    const elementSize = components * componentSize;
+    const stride = bufferView.byteStride ?? elementSize;
+    const base = (bufferView.byteOffset ?? 0) + (accessor.byteOffset ?? 0);
+    if (accessor.count > 0 && base + stride * (accessor.count - 1) + elementSize > buffer.byteLength) {
+      throw new Error(`glTF accessor ${index} exceeds buffer length`);
+    }
+    const view = new DataView(buffer);
+
+    for (let i = 0; i < accessor.count; i++) {
+      for (let c = 0; c < components; c++) {
+        data[i * components + c] = readComponent(view, base + i * stride + c * componentSize, accessor.componentType, normalized);
+      }
+    }
+  }
+
+  // Sparse substitution
+  if (accessor.sparse) {
+    const { count, indices, values } = accessor.sparse;
+    const indexView = json.bufferViews![indices.bufferView];
+    const valueView = json.bufferViews![values.bufferView];
+    const indexData = new DataView(buffers[indexView.buffer]);
+    const valueData = new DataView(buffers[valueView.buffer]);
+    const indexBase = (indexView.byteOffset ?? 0) + (indices.byteOffset ?? 0);
+    const valueBase = (valueView.byteOffset ?? 0) + (values.byteOffset ?? 0);
+    const indexSize = COMPONENT_SIZE[indices.componentType];
+
+    for (let i = 0; i < count; i++) {
+      const target = readComponent(indexData, indexBase + i * indexSize, indices.componentType, false);
+      for (let c = 0; c < components; c++) {
+        data[target * components + c] = readComponent(
+          valueData,
+          valueBase + (i * components + c) * componentSize,
+          accessor.componentType,
+          normalized
+        );
+      }
+    }
+  }
+
+  return { data, components };
+}
+
+// ============================================================================
+// Transforms (column-major 4x4, as in glTF)
+// ============================================================================
+
+const IDENTITY = [1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1];
+
+function multiply(a: number[], b: number[]): number[] {
+  const out = new Array<number>(16);
+  for (let col = 0; col < 4; col++) {
+    for (let row = 0; row < 4; row++) {
+      let sum = 0;
+      for (let k = 0; k < 4; k++) {
+        sum += a[k * 4 + row] * b[col * 4 + k];
+      }
+      out[col * 4 + row] = sum;
+    }
+  }
+  return out;
+}
+
+function localMatrix(node: GltfNode): number[] {
+  if (node.matrix && node.matrix.length === 16) {
+    return node.matrix;
+  }
+  const [tx, ty, tz] = node.translation ?? [0, 0, 0];
+  const [qx, qy, qz, qw] = node.rotation ?? [0, 0, 0, 1];
+  const [sx, sy, sz] = node.scale ?? [1, 1, 1];
+
+  return [
+    (1 - 2 * (qy * qy + qz * qz)) * sx, (2 * (qx * qy + qz * qw)) * sx, (2 * (qx * qz - qy * qw)) * sx, 0,
+    (2 * (qx * qy - qz * qw)) * sy, (1 - 2 * (qx * qx + qz * qz)) * sy, (2 * (qy * qz + qx * qw)) * sy, 0,
+    (2 * (qx * qz + qy * qw)) * sz, (2 * (qy * qz - qx * qw)) * sz, (1 - 2 * (qx * qx + qy * qy)) * sz, 0,
+    tx, ty, tz, 1
+  ];
+}
+
+/**
+ * Inverse-transpose of the upper 3x3 (column-major) and its determinant
+ */
+function normalMatrix(m: number[]): { matrix: number[]; determinant: number } {
+  const a = m[0], b = m[4], c = m[8];
+  const d = m[1], e = m[5], f = m[9];
+  const g = m[2], h = m[6], i = m[10];
+  const determinant = a * (e * i - f * h) - b * (d * i - f * g) + c * (d * h - e * g);
+  const inv = determinant !== 0 ? 1 / determinant : 0;
+
+  // Cofactor matrix / det == (inverse)^T, stored column-major
+  return {
+    matrix: [
+      (e * i - f * h) * inv, -(b * i - c * h) * inv, (b * f - c * e) * inv,
+      -(d * i - f * g) * inv, (a * i - c * g) * inv, -(a * f - c * d) * inv,
+      (d * h - e * g) * inv, -(a * h - b * g) * inv, (a * e - b * d) * inv
+    ],
+    determinant
+  };
+}
+
+// ============================================================================
+// Parser
+// ============================================================================
+
+interface MeshInstance {
+  mesh: number;
+  matrix: number[];
+}
+
+function collectInstances(json: GltfDocument): MeshInstance[] {
+  const nodes = json.nodes ?? [];
+  const instances: MeshInstance[] = [];
+
+  if (nodes.length === 0) {
+    // No scene graph: every mesh once, untransformed
+    return (json.meshes ?? []).map((_, mesh) => ({ mesh, matrix: IDENTITY }));
+  }
+
+  let roots: number[];
+  const scene = json.scenes?.[json.scene ?? 0];
+  if (scene?.nodes) {
+    roots = scene.nodes;
+  } else {
+    const children = new Set(nodes.flatMap((node) => node.children ?? []));
+    roots = nodes.map((_, index) => index).filter((index) => !children.has(index));
+  }
+
+  const visit = (index: number, parent: number[], depth: number) => {
+    const node = nodes[index];
+    if (!node || depth > nodes.length) {
+      throw new Error(`glTF node hierarchy is invalid at node ${index}`);
+    }
+    const world = multiply(parent, localMatrix(node));
+    if (node.mesh !== undefined) {
+      instances.push({ mesh: node.mesh, matrix: world });
+    }
+    for (const child of node.children ?? []) {
+      visit(child, world, depth + 1);
+    }
+  };
+  roots.forEach((root) => visit(root, IDENTITY, 0));
+
+  return instances;
+}
+
+function triangulate(mode: number, indices: ArrayLike<number>): number[] {
+  const out: number[] = [];
+  if (mode === MODE_TRIANGLES) {
+    for (let i = 0; i + 2 < indices.length; i += 3) {
+      out.push(indices[i], indices[i + 1], indices[i + 2]);
+    }
+  } else if (mode === MODE_TRIANGLE_STRIP) {
+    for (let i = 0; i + 2 < indices.length; i++) {
+      // Alternate winding to keep orientation consistent
+      if (i % 2 === 0) {
+        out.push(indices[i], indices[i + 1], indices[i + 2]);
+      } else {
+        out.push(indices[i + 1], indices[i], indices[i + 2]);
+      }
+    }
+  } else if (mode === MODE_TRIANGLE_FAN) {
+    for (let i = 1; i + 1 < indices.length; i++) {
+      out.push(indices[0], indices[i], indices[i + 1]);
+    }
+  }
+  return out;
+}
+
+/**
+ * Parses a glTF 2.0 asset (`.gltf` JSON or `.glb`) into a flat indexed mesh.
+ *
+ * Point and line primitives are skipped. Normals are returned only when
+ * every included primitive provides a NORMAL attribute.
+ *
+ * @param data File contents
+ * @param resources External buffers referenced by URI (for `.gltf` + `.bin`)
+ * @returns Flattened mesh (vertices, indices, optional normals)
+ */
+export function parseGltf(data: ArrayBuffer, resources?: GltfResources): JsParseResult {
+  let json: GltfDocument;
+  let bin: ArrayBuffer | null = null;
+
+  if (isGlb(data)) {
+    ({ json, bin } = readGlb(data));
+  } else {
+    try {
+      json = JSON.parse(new TextDecoder('utf-8').decode(data));
+    } catch {
+      throw new Error('Invalid glTF JSON');
+    }
+  }
+
+  const version = json.asset?.version;
+  if (!version || !version.startsWith('2')) {
+    throw new Error(`Unsupported glTF version: ${version ?? 'missing'}`);
+  }
+
+  const buffers = resolveBuffers(json, bin, resources);
+  const vertices: number[] = [];
+  const normals: number[] = [];
+  const indices: number[] = [];
+  let allHaveNormals = true;
+
+  for (const instance of collectInstances(json)) {
+    const mesh = json.meshes?.[instance.mesh];
+    if (!mesh) {
+      throw new Error(`glTF mesh not found: ${instance.mesh}`);
+    }
+    const m = instance.matrix;
+    const { matrix: n, determinant } = normalMatrix(m);
+
+    for (const primitive of mesh.primitives) {
+      const mode = primitive.mode ?? MODE_TRIANGLES;
+      if (mode !== MODE_TRIANGLES && mode !== MODE_TRIANGLE_STRIP && mode !== MODE_TRIANGLE_FAN) {
+        continue;
+      }
+      if (primitive.attributes.POSITION === undefined) {
+        continue;
+      }
+
+      const position = readAccessor(json, buffers, primitive.attributes.POSITION);
+      const count = position.data.length / position.components;
+      const base = vertices.length / 3;
+
+      for (let i = 0; i < count; i++) {
+        const x = position.data[i * 3];
+        const y = position.data[i * 3 + 1];
+        const z = position.data[i * 3 + 2];
+        vertices.push(
+          m[0] * x + m[4] * y + m[8] * z + m[12],
+          m[1] * x + m[5] * y + m[9] * z + m[13],
+          m[2] * x + m[6] * y + m[10] * z + m[14]
+        );
+      }
+
+      if (primitive.attributes.NORMAL !== undefined && allHaveNormals) {
+        const normal = readAccessor(json, buffers, primitive.attributes.NORMAL);
+        for (let i = 0; i < count; i++) {
+          const x = normal.data[i * 3];
+          const y = normal.data[i * 3 + 1];
+          const z = normal.data[i * 3 + 2];
+          const nx = n[0] * x + n[3] * y + n[6] * z;
+          const ny = n[1] * x + n[4] * y + n[7] * z;
+          const nz = n[2] * x + n[5] * y + n[8] * z;
+          const length = Math.hypot(nx, ny, nz) || 1;
+          normals.push(nx / length, ny / length, nz / length);
+        }
+      } else {
+        allHaveNormals = false;
+      }
+
+      let primitiveIndices: ArrayLike<number>;
+      if (primitive.indices !== undefined) {
+        primitiveIndices = readAccessor(json, buffers, primitive.indices).data;
+      } else {
+        primitiveIndices = Array.from({ length: count }, (_, i) => i);
+      }
+
+      const triangles = triangulate(mode, primitiveIndices);
+      for (let i = 0; i < triangles.length; i += 3) {
+        const a = triangles[i], b = triangles[i + 1], c = triangles[i + 2];
+        if (a >= count || b >= count || c >= count) {
+          throw new Error(`glTF index out of range in mesh ${instance.mesh}`);
+        }
+        // Mirroring transforms invert the winding
+        if (determinant < 0) {
+          indices.push(base + a, base + c, base + b);
+        } else {
+          indices.push(base + a, base + b, base + c);
+        }
+      }
+    }
+  }
+
+  if (indices.length === 0) {
+    throw new Error('glTF contains no triangle primitives');
+  }
+
+  return {
+    vertices: new Float64Array(vertices),
+    indices: new Uint32Array(indices),
+    normals: allHaveNormals ? new Float32Array(normals) : undefined,
+    vertexCount: vertices.length / 3,
+    faceCount: indices.length / 3
+  };
+}
@@ -0,0 +1,76 @@
+/**
+ * Growable typed array
+ *
+ * Append-only buffer for incremental parsing: capacity doubles on demand,
+ * so parsers can fill typed arrays without knowing element counts upfront
+ * (and without the per-element overhead of `number[]`).
+ *
+ * @module growable-array
+ */
+
+type NumericTypedArray = Float64Array | Float32Array | Uint32Array | Int32Array;
+
+interface TypedArrayConstructor<T extends NumericTypedArray> {
+  new (length: number): T;
+}
+
+const MIN_CAPACITY = 1024;
+
+export class GrowableTypedArray<T extends NumericTypedArray> {
+  private data: T;
+  private size = 0;
+
+  constructor(private readonly ctor: TypedArrayConstructor<T>, initialCapacity = MIN_CAPACITY) {
+    this.data = new ctor(Math.max(initialCapacity, 1));
+  }
+
+  /** Number of elements written */
+  get length(): number {
+    return this.size;
+  }
+
+  push(value: number): void {
+    if (this.size === this.data.length) {
+      this.grow(this.size + 1);
+    }
+    this.data[this.size++] = value;
+  }
+
+  push3(a: number, b: number, c: number): void {
+    if (this.size + 3 > this.data.length) {
+      this.grow(this.size + 3);
+    }
+    this.data[this.size++] = a;
+    this.data[this.size++] = b;
+    this.data[this.size++] = c;
+  }
+
+  get(index: number): number {
+    return this.data[index];
+  }
+
+  set(index: number, value: number): void {
+    this.data[index] = value;
+  }
+
+  /**
+   * Returns the written elements as a tightly sized typed array.
+   *
+   * The backing store is returned as-is when it is exactly full; otherwise
+   * the elements are copied, so the result owns a transferable buffer of
+   * the right size.
+   */
+  toTypedArray(): T {
+    return this.size === this.data.length ? this.data : (this.data.slice(0, this.size) as T);
+  }
+
+  private grow(required: number): void {
+    let capacity = this.data.length * 2;
+    while (capacity < required) {
+      capacity *= 2;
+    }
+    const next = new this.ctor(capacity);
+    next.set(this.data);
+    this.data = next;
+  }
+}
@@ -2,11 +2,46 @@
 export * from './adapter';
 export * from './types';
 export * from './mesh-loader';
+export * from './url-loader';
 export * from './mesh-stats';
+export * from './mesh-topology';
+export { peekMeshTopology, loadMeshTopology } from './mesh-topology-cache';
+export * from './mesh-units';
+export * from './mesh-inspect';
+export * from './mesh-export';
 export * from './persistence';
 export * from './metrics-recorder';
 export * from './embind-bridge';
 export * from './js-parsers';
+export * from './growable-array';
+export * from './mesh-stream-parser';
+export * from './parse-worker-client';
+export { parseGltf, isGlb, GLB_MAGIC, type GltfResources } from './gltf-parser';
+export { parse3mf } from './threemf-parser';
+export {
+  parseMtl,
+  resolveObjMaterials,
+  DEFAULT_MATERIAL_NAME,
+  type MtlMaterial,
+  type ResolvedObjMaterials
+} from './mtl-parser';
+export {
+  ArchiveError,
+  isZip,
+  readZipDirectory,
+  findZipEntry,
+  extractZipEntry,
+  type ArchiveErrorReason,
+  type ZipEntry
+} from './zip-reader';
+export {
+  DecompressedSizeError,
+  detectContainer,
+  gunzip,
+  unpackCompressedInput,
+  type ContainerFormat,
+  type UnpackedInput
+} from './compressed-input';
 
 // Observability exports (003-mesh-core-adapter)
 export * from './log-emitter';
@@ -60,9 +95,30 @@ export {
 // Slice Mesh exports (004-mesh-cross-section)
 export {
   sliceMesh,
+  sliceMeshByPlanes,
+  hasSliceCapability,
+  applySliceResult,
   createAxisPlane,
   computeSlicePlane,
+  type SliceMeshModule,
+  type SliceMeshOptions,
   type SlicePlane,
   type SliceMeshResult,
   type SliceMeshData
 } from './slice-mesh';
+export { sliceMeshJs } from './js-slicer';
+export { capSliceMesh, extractCutLoops, type CapCutResult } from './cap-cut';
+
+// Mesh comparison exports
+export {
+  buildTriangleBvh,
+  closestPointOnMesh,
+  raycastMesh,
+  trianglesNearPlane,
+  trianglesInBox,
+  type TriangleBvh,
+  type ClosestPointHit,
+  type RayHit
+} from './mesh-bvh';
+export { getMeshBvh, peekMeshBvh, loadMeshBvh } from './mesh-bvh-cache';
+export * from './mesh-deviation';
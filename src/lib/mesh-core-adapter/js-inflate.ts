@@ -0,0 +1,255 @@
+/**
+ * JavaScript DEFLATE decoder (RFC 1951)
+ *
+ * Fallback for runtimes without `DecompressionStream`. Decodes stored,
+ * fixed-Huffman and dynamic-Huffman blocks with a canonical Huffman
+ * decoder; speed is secondary to the native stream.
+ *
+ * @module js-inflate
+ */
+
+const MAX_BITS = 15;
+
+/** Length codes 257..285: base lengths and extra bits */
+const LENGTH_BASE = [3, 4, 5, 6, 7, 8, 9, 10, 11, 13, 15, 17, 19, 23, 27, 31, 35, 43, 51, 59, 67, 83, 99, 115, 131, 163, 195, 227, 258];
+const LENGTH_EXTRA = [0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 2, 2, 3, 3, 3, 3, 4, 4, 4, 4, 5, 5, 5, 5, 0];
+
+/** Distance codes 0..29: base distances and extra bits */
+const DISTANCE_BASE = [
+  1, 2, 3, 4, 5, 7, 9, 13, 17, 25, 33, 49, 65, 97, 129, 193, 257, 385, 513, 769, 1025, 1537, 2049, 3073, 4097, 6145, 8193,
+  12289, 16385, 24577
+];
+const DISTANCE_EXTRA = [0, 0, 0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 6, 7, 7, 8, 8, 9, 9, 10, 10, 11, 11, 12, 12, 13, 13];
+
+/** Order in which code length code lengths are stored */
+const CODE_LENGTH_ORDER = [16, 17, 18, 0, 8, 7, 9, 6, 10, 5, 11, 4, 12, 3, 13, 2, 14, 1, 15];
+
+/**
+ * Canonical Huffman code: number of codes per length and symbols in code order
+ */
+interface HuffmanTable {
+  counts: Uint16Array;
+  symbols: Uint16Array;
+}
+
+function buildHuffman(lengths: ArrayLike<number>): HuffmanTable {
+  const counts = new Uint16Array(MAX_BITS + 1);
+  for (let i = 0; i < lengths.length; i++) {
+    counts[lengths[i]]++;
+  }
+  counts[0] = 0;
+
+  const offsets = new Uint16Array(MAX_BITS + 2);
+  for (let length = 1; length <= MAX_BITS; length++) {
+    offsets[length + 1] = offsets[length] + counts[length];
+  }
+
+  const symbols = new Uint16Array(lengths.length);
+  for (let symbol = 0; symbol < lengths.length; symbol++) {
+    if (lengths[symbol] !== 0) {
+      symbols[offsets[lengths[symbol]]++] = symbol;
+    }
+  }
+  return { counts, symbols };
+}
+
+const FIXED_LITERAL_TABLE = buildHuffman(
+  Array.from({ length: 288 }, (_, symbol) => (symbol < 144 ? 8 : symbol < 256 ? 9 : symbol < 280 ? 7 : 8))
+);
+const FIXED_DISTANCE_TABLE = buildHuffman(new Array<number>(30).fill(5));
+
+class BitReader {
+  private bitBuffer = 0;
+  private bitCount = 0;
+
+  constructor(private readonly data: Uint8Array, public position = 0) {}
+
+  bits(count: number): number {
+    while (this.bitCount < count) {
+      if (this.position >= this.data.length) {
+        throw new Error('Unexpected end of deflate stream');
+      }
+      this.bitBuffer |= this.data[this.position++] << this.bitCount;
+      this.bitCount += 8;
+    }
+    const value = this.bitBuffer & ((1 << count) - 1);
+    this.bitBuffer >>>= count;
+    this.bitCount -= count;
+    return value;
+  }
+
+  /** Drops the bits left in the current byte (stored blocks start byte-aligned) */
+  alignToByte(): void {
+    this.bitBuffer = 0;
+    this.bitCount = 0;
+  }
+
+  decode(table: HuffmanTable): number {
+    let code = 0;
+    let first = 0;
+    let index = 0;
+    for (let length = 1; length <= MAX_BITS; length++) {
+      code |= this.bits(1);
+      const count = table.counts[length];
+      if (code - count < first) {
+        return table.symbols[index + (code - first)];
+      }
+      index += count;
+      first = (first + count) << 1;
+      code <<= 1;
+    }
+    throw new Error('Invalid Huffman code in deflate stream');
+  }
+}
+
+class OutputBuffer {
+  bytes: Uint8Array;
+  length = 0;
+
+  constructor(capacity: number) {
+    this.bytes = new Uint8Array(Math.max(capacity, 1024));
+  }
+
+  reserve(extra: number): void {
+    if (this.length + extra <= this.bytes.length) {
+      return;
+    }
+    let capacity = this.bytes.length * 2;
+    while (capacity < this.length + extra) {
+      capacity *= 2;
+    }
+    const next = new Uint8Array(capacity);
+    next.set(this.bytes.subarray(0, this.length));
+    this.bytes = next;
+  }
+}
+
+function readDynamicTables(reader: BitReader): [HuffmanTable, HuffmanTable] {
+  const literalCount = reader.bits(5) + 257;
+  const distanceCount = reader.bits(5) + 1;
+  const codeLengthCount = reader.bits(4) + 4;
+
+  const codeLengthLengths = new Uint8Array(19);
+  for (let i = 0; i < codeLengthCount; i++) {
+    codeLengthLengths[CODE_LENGTH_ORDER[i]] = reader.bits(3);
+  }
+  const codeLengthTable = buildHuffman(codeLengthLengths);
+
+  const lengths = new Uint8Array(literalCount + distanceCount);
+  let i = 0;
+  while (i < lengths.length) {
+    const symbol = reader.decode(codeLengthTable);
+    if (symbol < 16) {
+      lengths[i++] = symbol;
+      continue;
+    }
+
+    let value = 0;
+    let repeat: number;
+    if (symbol === 16) {
+      if (i === 0) {
+        throw new Error('Invalid deflate code lengths: repeat without a previous length');
+      }
+      value = lengths[i - 1];
+      repeat = 3 + reader.bits(2);
+    } else if (symbol === 17) {
+      repeat = 3 + reader.bits(3);
+    } else {
+      repeat = 11 + reader.bits(7);
+    }
+    if (i + repeat > lengths.length) {
+      throw new Error('Invalid deflate code lengths: too many lengths');
+    }
+    lengths.fill(value, i, i + repeat);
+    i += repeat;
+  }
+
+  return [buildHuffman(lengths.subarray(0, literalCount)), buildHuffman(lengths.subarray(literalCount))];
+}
+
+/**
+ * Inflates raw DEFLATE data.
+ *
+ * Decoding stops once `limit` bytes have been produced, so a header peek or
+ * a size guard does not inflate the whole stream.
+ *
+ * @param data Raw DEFLATE stream (no zlib/gzip wrapper)
+ * @param limit Maximum number of output bytes
+ * @returns The inflated bytes (at most `limit`)
+ * @throws Error When the stream is truncated or corrupt
+ */
+export function inflateRawJs(data: Uint8Array, limit = Infinity): Uint8Array {
+  const reader = new BitReader(data);
+  const output = new OutputBuffer(Math.min(data.length * 4, limit));
+
+  let last = false;
+  while (!last && output.length < limit) {
+    last = reader.bits(1) === 1;
+    const type = reader.bits(2);
+
+    if (type === 0) {
+      reader.alignToByte();
+      const start = reader.position;
+      if (start + 4 > data.length) {
+        throw new Error('Unexpected end of deflate stream');
+      }
+      const length = data[start] | (data[start + 1] << 8);
+      const complement = data[start + 2] | (data[start + 3] << 8);
+      if ((length ^ 0xffff) !== complement) {
+        throw new Error('Invalid stored block length in deflate stream');
+      }
+      if (start + 4 + length > data.length) {
+        throw new Error('Unexpected end of deflate stream');
+      }
+      output.reserve(length);
+      output.bytes.set(data.subarray(start + 4, start + 4 + length), output.length);
+      output.length += length;
+      reader.position = start + 4 + length;
+      continue;
+    }
+
+    if (type === 3) {
+      throw new Error('Invalid deflate block type');
+    }
+    const [literalTable, distanceTable] = type === 1 ? [FIXED_LITERAL_TABLE, FIXED_DISTANCE_TABLE] : readDynamicTables(reader);
+
+    for (;;) {
+      const symbol = reader.decode(literalTable);
+      if (symbol < 256) {
+        output.reserve(1);
+        output.bytes[output.length++] = symbol;
+        continue;
+      }
+      if (symbol === 256) {
+        break;
+      }
+
+      const lengthCode = symbol - 257;
+      if (lengthCode >= LENGTH_BASE.length) {
+        throw new Error('Invalid length code in deflate stream');
+      }
+      const length = LENGTH_BASE[lengthCode] + reader.bits(LENGTH_EXTRA[lengthCode]);
+      const distanceCode = reader.decode(distanceTable);
+      if (distanceCode >= DISTANCE_BASE.length) {
+        throw new Error('Invalid distance code in deflate stream');
+      }
+      const distance = DISTANCE_BASE[distanceCode] + reader.bits(DISTANCE_EXTRA[distanceCode]);
+      if (distance > output.length) {
+        throw new Error('Invalid distance in deflate stream: before start of output');
+      }
+
+      output.reserve(length);
+      const bytes = output.bytes;
+      // Byte by byte: source and destination may overlap
+      for (let i = 0; i < length; i++) {
+        bytes[output.length] = bytes[output.length - distance];
+        output.length++;
+      }
+      if (output.length >= limit) {
+        break;
+      }
+    }
+  }
+
+  return output.bytes.slice(0, Math.min(output.length, limit));
+}
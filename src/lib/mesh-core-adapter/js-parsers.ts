@@ -7,13 +7,48 @@
  * Binary formats are processed in WASM (byte manipulation is more efficient in C++).
  */
 
+import { GrowableTypedArray } from './growable-array';
+import type { LengthUnit } from './types';
+
 export interface JsParseResult {
   vertices: Float64Array;
   indices: Uint32Array;
   vertexCount: number;
   faceCount: number;
+  /** Per-vertex normals, when the format carries them (glTF, NOFF) */
+  normals?: Float32Array;
+  /** Per-vertex RGB colors in 0..1, when the format carries them (PLY, OBJ, COFF) */
+  colors?: Float32Array;
+  /** Per-vertex texture coordinates (u, v), when the format carries them (OBJ, PLY) */
+  uvs?: Float32Array;
+  /** `usemtl` ranges of `indices` (OBJ); `material` is null before the first `usemtl` */
+  groups?: JsMaterialGroup[];
+  /** `mtllib` file names in declaration order (OBJ) */
+  materialLibraries?: string[];
+  /** Faces dropped by Exact mode validation (degenerate or out-of-range) */
+  rejectedFaceCount?: number;
+  /** Length unit declared by the file (3MF `<model unit>`) */
+  units?: LengthUnit;
 }
 
+/**
+ * Index range (in index elements) drawn with one named material
+ */
+export interface JsMaterialGroup {
+  start: number;
+  count: number;
+  material: string | null;
+}
+
+/**
+ * JS parser mode
+ * 
+ * - `fast`: Lenient line-based parsing (parseFloat, no structural checks)
+ * - `exact`: Strict parsing with full-token number validation, header
+ *   validation and degenerate-face rejection
+ */
+export type JsParseMode = 'fast' | 'exact';
+
 /**
  * Parses PLY file header to extract format information.
  */
@@ -22,6 +57,10 @@ export interface PlyHeader {
   vertexCount: number;
   faceCount: number;
   headerEndOffset: number;
+  /** Vertex element properties in declaration order (`type` is 'list' for list properties) */
+  vertexProperties: { name: string; type: string }[];
+  /** Position of the vertex element among all elements (-1 if missing) */
+  vertexElementIndex: number;
 }
 
 export function parsePlyHeader(data: ArrayBuffer): PlyHeader {
@@ -33,6 +72,10 @@ export function parsePlyHeader(data: ArrayBuffer): PlyHeader {
   let vertexCount = 0;
   let faceCount = 0;
   let headerEndOffset = 0;
+  const vertexProperties: PlyHeader['vertexProperties'] = [];
+  let currentElement: string | null = null;
+  let elementIndex = -1;
+  let vertexElementIndex = -1;
   
   const lines = headerText.split('\n');
   let offset = 0;
@@ -46,10 +89,23 @@ export function parsePlyHeader(data: ArrayBuffer): PlyHeader {
       if (parts[1] === 'binary_little_endian') format = 'binary_little_endian';
       else if (parts[1] === 'binary_big_endian') format = 'binary_big_endian';
       else format = 'ascii';
-    } else if (trimmed.startsWith('element vertex ')) {
-      vertexCount = parseInt(trimmed.split(/\s+/)[2], 10);
-    } else if (trimmed.startsWith('element face ')) {
-      faceCount = parseInt(trimmed.split(/\s+/)[2], 10);
+    } else if (trimmed.startsWith('element ')) {
+      const parts = trimmed.split(/\s+/);
+      currentElement = parts[1];
+      elementIndex++;
+      if (currentElement === 'vertex') {
+        vertexCount = parseInt(parts[2], 10);
+        vertexElementIndex = elementIndex;
+      } else if (currentElement === 'face') {
+        faceCount = parseInt(parts[2], 10);
+      }
+    } else if (trimmed.startsWith('property ') && currentElement === 'vertex') {
+      const parts = trimmed.split(/\s+/);
+      if (parts[1] === 'list') {
+        vertexProperties.push({ name: parts[4], type: 'list' });
+      } else {
+        vertexProperties.push({ name: parts[2], type: parts[1] });
+      }
     } else if (trimmed === 'end_header') {
       headerEndOffset = offset + line.length + 1; // include newline after end_header
       break;
@@ -58,69 +114,325 @@ export function parsePlyHeader(data: ArrayBuffer): PlyHeader {
     offset += lineWithNewline;
   }
   
-  return { format, vertexCount, faceCount, headerEndOffset };
+  return { format, vertexCount, faceCount, headerEndOffset, vertexProperties, vertexElementIndex };
+}
+
+/** Accepted PLY color property names per channel */
+const PLY_COLOR_NAMES = [
+  ['red', 'r', 'diffuse_red'],
+  ['green', 'g', 'diffuse_green'],
+  ['blue', 'b', 'diffuse_blue']
+];
+
+/**
+ * Normalization factor bringing a PLY color value into 0..1
+ * (integer channels use their full range, float channels are already 0..1).
+ */
+function plyColorScale(type: string): number {
+  switch (type) {
+    case 'uchar':
+    case 'uint8':
+    case 'char':
+    case 'int8':
+      return 1 / 255;
+    case 'ushort':
+    case 'uint16':
+    case 'short':
+    case 'int16':
+      return 1 / 65535;
+    case 'float':
+    case 'float32':
+    case 'double':
+    case 'float64':
+      return 1;
+    default:
+      return 1 / 255;
+  }
 }
 
 /**
- * Parses ASCII PLY files.
- * Uses split() + parseFloat() similar to Three.js PLYLoader approach.
+ * Locates the red/green/blue vertex properties.
+ * 
+ * @returns Property positions and normalization factors, or null if the
+ *   vertex element has no complete RGB triple
  */
-export function parseAsciiPly(data: ArrayBuffer): JsParseResult {
-  const text = new TextDecoder('utf-8').decode(data);
+function findPlyColorProperties(
+  properties: { name: string; type: string }[]
+): { indices: number[]; scales: number[] } | null {
+  const indices = PLY_COLOR_NAMES.map((names) =>
+    properties.findIndex((p) => p.type !== 'list' && names.includes(p.name))
+  );
+  if (indices.some((i) => i < 0)) {
+    return null;
+  }
+  return { indices, scales: indices.map((i) => plyColorScale(properties[i].type)) };
+}
+
+const PLY_TYPE_SIZES: Record<string, number> = {
+  char: 1, uchar: 1, int8: 1, uint8: 1,
+  short: 2, ushort: 2, int16: 2, uint16: 2,
+  int: 4, uint: 4, int32: 4, uint32: 4, float: 4, float32: 4,
+  double: 8, float64: 8
+};
+
+function readPlyScalar(view: DataView, offset: number, type: string, littleEndian: boolean): number {
+  switch (type) {
+    case 'char': case 'int8': return view.getInt8(offset);
+    case 'uchar': case 'uint8': return view.getUint8(offset);
+    case 'short': case 'int16': return view.getInt16(offset, littleEndian);
+    case 'ushort': case 'uint16': return view.getUint16(offset, littleEndian);
+    case 'int': case 'int32': return view.getInt32(offset, littleEndian);
+    case 'uint': case 'uint32': return view.getUint32(offset, littleEndian);
+    case 'float': case 'float32': return view.getFloat32(offset, littleEndian);
+    default: return view.getFloat64(offset, littleEndian);
+  }
+}
+
+/** Accepted PLY texture coordinate property names (u, v) */
+const PLY_UV_NAMES = [
+  ['s', 'u', 'texture_u', 'texture_s'],
+  ['t', 'v', 'texture_v', 'texture_t']
+];
+
+/**
+ * Locates the texture coordinate vertex properties.
+ * 
+ * @returns Property positions (u, v), or null if the vertex element has no UVs
+ */
+function findPlyUvProperties(properties: { name: string; type: string }[]): number[] | null {
+  const indices = PLY_UV_NAMES.map((names) =>
+    properties.findIndex((p) => p.type !== 'list' && names.includes(p.name))
+  );
+  return indices.some((i) => i < 0) ? null : indices;
+}
+
+/**
+ * Reads selected scalar vertex properties from a binary PLY.
+ * 
+ * The WASM parser only returns positions, normals and indices, so extra
+ * attributes are read here from the raw vertex records. Only the common
+ * layout is supported: the vertex element comes first and has no list
+ * properties.
+ * 
+ * @returns `indices.length` values per vertex (each multiplied by its scale),
+ *   or undefined when unsupported
+ */
+function readBinaryPlyVertexProperties(
+  data: ArrayBuffer,
+  header: PlyHeader,
+  indices: number[],
+  scales: number[]
+): Float32Array | undefined {
+  if (header.vertexProperties.some((p) => !(p.type in PLY_TYPE_SIZES))) {
+    return undefined;
+  }
+
+  const offsets: number[] = [];
+  let stride = 0;
+  for (const property of header.vertexProperties) {
+    offsets.push(stride);
+    stride += PLY_TYPE_SIZES[property.type];
+  }
+  if (header.headerEndOffset + stride * header.vertexCount > data.byteLength) {
+    return undefined;
+  }
+
+  const view = new DataView(data, header.headerEndOffset);
+  const littleEndian = header.format === 'binary_little_endian';
+  const width = indices.length;
+  const values = new Float32Array(header.vertexCount * width);
+  for (let i = 0; i < header.vertexCount; i++) {
+    for (let c = 0; c < width; c++) {
+      const p = indices[c];
+      const value = readPlyScalar(view, i * stride + offsets[p], header.vertexProperties[p].type, littleEndian);
+      values[i * width + c] = value * scales[c];
+    }
+  }
+  return values;
+}
+
+function parseBinaryPlyHeader(data: ArrayBuffer): PlyHeader | null {
   const header = parsePlyHeader(data);
-  
-  // Extract data section
-  const dataText = text.substring(header.headerEndOffset);
-  const lines = dataText.split('\n');
-  
-  const vertices = new Float64Array(header.vertexCount * 3);
-  const tempIndices: number[] = [];
-  
-  let lineIndex = 0;
-  
-  // Parse vertices
-  for (let i = 0; i < header.vertexCount && lineIndex < lines.length; i++) {
-    const line = lines[lineIndex++].trim();
-    if (!line) { i--; continue; }
-    
-    const parts = line.split(/\s+/);
-    vertices[i * 3] = parseFloat(parts[0]);
-    vertices[i * 3 + 1] = parseFloat(parts[1]);
-    vertices[i * 3 + 2] = parseFloat(parts[2]);
+  return header.format === 'ascii' || header.vertexElementIndex !== 0 ? null : header;
+}
+
+/**
+ * Reads per-vertex colors from a binary PLY.
+ * 
+ * @returns RGB colors in 0..1, or undefined when absent or unsupported
+ */
+export function extractBinaryPlyColors(data: ArrayBuffer): Float32Array | undefined {
+  const header = parseBinaryPlyHeader(data);
+  const color = header && findPlyColorProperties(header.vertexProperties);
+  if (!header || !color) {
+    return undefined;
   }
-  
-  // Parse faces
-  for (let i = 0; i < header.faceCount && lineIndex < lines.length; i++) {
-    const line = lines[lineIndex++].trim();
-    if (!line) { i--; continue; }
-    
-    const parts = line.split(/\s+/);
-    const count = parseInt(parts[0], 10);
-    
-    if (count >= 3) {
-      // Fan triangulation
-      const first = parseInt(parts[1], 10);
-      for (let j = 2; j < count; j++) {
-        tempIndices.push(first);
-        tempIndices.push(parseInt(parts[j], 10));
-        tempIndices.push(parseInt(parts[j + 1], 10));
+  return readBinaryPlyVertexProperties(data, header, color.indices, color.scales);
+}
+
+/**
+ * Reads per-vertex texture coordinates (`s/t` or `u/v`) from a binary PLY.
+ * 
+ * @returns UV pairs, or undefined when absent or unsupported
+ */
+export function extractBinaryPlyUvs(data: ArrayBuffer): Float32Array | undefined {
+  const header = parseBinaryPlyHeader(data);
+  const uv = header && findPlyUvProperties(header.vertexProperties);
+  if (!header || !uv) {
+    return undefined;
+  }
+  return readBinaryPlyVertexProperties(data, header, uv, [1, 1]);
+}
+
+// ============================================================================
+// Fast mode line parsers (shared by whole-buffer and streaming parsing)
+// ============================================================================
+
+/**
+ * Incremental Fast mode parser fed one line at a time.
+ * 
+ * Whole-buffer parsing (`parseObj`, ...) and chunked stream parsing
+ * (`parseMeshStream`) share these, so both produce identical results.
+ */
+export interface MeshLineParser {
+  /** Consumes one line ('\n' removed, a trailing '\r' is tolerated) */
+  line(line: string): void;
+  /** Returns the parsed mesh after the last line */
+  finish(): JsParseResult;
+}
+
+/** Formats parsed line by line in Fast mode (and therefore streamable) */
+export type LineParsedFormat = 'obj' | 'stl' | 'ply_ascii';
+
+export function isLineParsedFormat(format: string): format is LineParsedFormat {
+  return format === 'obj' || format === 'stl' || format === 'ply_ascii';
+}
+
+/**
+ * Creates the Fast mode line parser for a format.
+ */
+export function createLineParser(format: LineParsedFormat): MeshLineParser {
+  switch (format) {
+    case 'obj':
+      return new ObjLineParser();
+    case 'stl':
+      return new AsciiStlLineParser();
+    case 'ply_ascii':
+      return new AsciiPlyLineParser();
+  }
+}
+
+function parseAllLines(parser: MeshLineParser, data: ArrayBuffer): JsParseResult {
+  const text = new TextDecoder('utf-8').decode(data);
+  for (const line of text.split('\n')) {
+    parser.line(line);
+  }
+  return parser.finish();
+}
+
+/**
+ * ASCII PLY line parser.
+ * 
+ * Header lines are collected until `end_header`; vertex and face records
+ * follow in declaration order (only the vertex and face elements are read).
+ */
+class AsciiPlyLineParser implements MeshLineParser {
+  private readonly headerLines: string[] = [];
+  private header: PlyHeader | null = null;
+  private vertices = new Float64Array(0);
+  private colors: Float32Array | undefined;
+  private uvs: Float32Array | undefined;
+  private color: ReturnType<typeof findPlyColorProperties> = null;
+  private uv: number[] | null = null;
+  private readonly indices = new GrowableTypedArray(Uint32Array);
+  private vertexIndex = 0;
+  private faceIndex = 0;
+
+  line(line: string): void {
+    if (!this.header) {
+      this.headerLines.push(line);
+      if (line.trim() === 'end_header') {
+        this.startBody();
+      }
+      return;
+    }
+
+    const trimmed = line.trim();
+    if (!trimmed) return;
+    const parts = trimmed.split(/\s+/);
+
+    if (this.vertexIndex < this.header.vertexCount) {
+      const i = this.vertexIndex++;
+      this.vertices[i * 3] = parseFloat(parts[0]);
+      this.vertices[i * 3 + 1] = parseFloat(parts[1]);
+      this.vertices[i * 3 + 2] = parseFloat(parts[2]);
+
+      if (this.colors && this.color) {
+        this.colors[i * 3] = parseFloat(parts[this.color.indices[0]]) * this.color.scales[0];
+        this.colors[i * 3 + 1] = parseFloat(parts[this.color.indices[1]]) * this.color.scales[1];
+        this.colors[i * 3 + 2] = parseFloat(parts[this.color.indices[2]]) * this.color.scales[2];
+      }
+      if (this.uvs && this.uv) {
+        this.uvs[i * 2] = parseFloat(parts[this.uv[0]]);
+        this.uvs[i * 2 + 1] = parseFloat(parts[this.uv[1]]);
+      }
+    } else if (this.faceIndex < this.header.faceCount) {
+      this.faceIndex++;
+      const count = parseInt(parts[0], 10);
+      if (count >= 3) {
+        // Fan triangulation
+        const first = parseInt(parts[1], 10);
+        for (let j = 2; j < count; j++) {
+          this.indices.push3(first, parseInt(parts[j], 10), parseInt(parts[j + 1], 10));
+        }
       }
     }
   }
-  
-  return {
-    vertices,
-    indices: new Uint32Array(tempIndices),
-    vertexCount: header.vertexCount,
-    faceCount: tempIndices.length / 3
-  };
+
+  finish(): JsParseResult {
+    if (!this.header) {
+      this.startBody();
+    }
+    const indices = this.indices.toTypedArray();
+    return {
+      vertices: this.vertices,
+      indices,
+      vertexCount: this.header!.vertexCount,
+      faceCount: indices.length / 3,
+      colors: this.colors,
+      uvs: this.uvs
+    };
+  }
+
+  private startBody(): void {
+    // parsePlyHeader reads raw bytes, so hand it the collected header block
+    const headerBytes = new TextEncoder().encode(this.headerLines.join('\n') + '\n');
+    const header = parsePlyHeader(headerBytes.buffer as ArrayBuffer);
+    this.header = header;
+    this.vertices = new Float64Array(header.vertexCount * 3);
+    this.color = findPlyColorProperties(header.vertexProperties);
+    this.colors = this.color ? new Float32Array(header.vertexCount * 3) : undefined;
+    this.uv = findPlyUvProperties(header.vertexProperties);
+    this.uvs = this.uv ? new Float32Array(header.vertexCount * 2) : undefined;
+  }
+}
+
+/**
+ * Parses ASCII PLY files.
+ * Uses split() + parseFloat() similar to Three.js PLYLoader approach.
+ */
+export function parseAsciiPly(data: ArrayBuffer): JsParseResult {
+  return parseAllLines(new AsciiPlyLineParser(), data);
 }
 
 /**
  * Detects whether an STL file is ASCII or Binary format.
+ * 
+ * `data` may be just the beginning of the file when `fileSizeBytes` gives
+ * the full size (streamed files are only sniffed).
  */
-export function isAsciiStl(data: ArrayBuffer): boolean {
-  if (data.byteLength < 84) return true; // Too small for binary
+export function isAsciiStl(data: ArrayBuffer, fileSizeBytes = data.byteLength): boolean {
+  if (fileSizeBytes < 84 || data.byteLength < 84) return true; // Too small for binary
   
   const view = new Uint8Array(data, 0, Math.min(256, data.byteLength));
   const header = new TextDecoder('ascii').decode(view);
@@ -135,99 +447,999 @@ export function isAsciiStl(data: ArrayBuffer): boolean {
   const expectedSize = 84 + triangleCount * 50;
   
   // If size exactly matches binary format, it's binary
-  if (expectedSize === data.byteLength) return false;
+  if (expectedSize === fileSizeBytes) return false;
   
   return true;
 }
 
 /**
- * Parses ASCII STL files.
+ * ASCII STL line parser (every facet has exactly 3 vertices).
  */
-export function parseAsciiStl(data: ArrayBuffer): JsParseResult {
-  const text = new TextDecoder('utf-8').decode(data);
-  const lines = text.split('\n');
-  
-  const tempVertices: number[] = [];
-  const tempIndices: number[] = [];
-  let vertexIndex = 0;
-  
-  for (const line of lines) {
+class AsciiStlLineParser implements MeshLineParser {
+  private readonly vertices = new GrowableTypedArray(Float64Array);
+  private readonly indices = new GrowableTypedArray(Uint32Array);
+  private vertexIndex = 0;
+
+  line(line: string): void {
     const trimmed = line.trim();
     if (trimmed.startsWith('vertex ')) {
       const parts = trimmed.split(/\s+/);
-      tempVertices.push(
-        parseFloat(parts[1]),
-        parseFloat(parts[2]),
-        parseFloat(parts[3])
-      );
+      this.vertices.push3(parseFloat(parts[1]), parseFloat(parts[2]), parseFloat(parts[3]));
     } else if (trimmed === 'endfacet') {
-      // Each facet has exactly 3 vertices
-      tempIndices.push(vertexIndex, vertexIndex + 1, vertexIndex + 2);
-      vertexIndex += 3;
+      this.indices.push3(this.vertexIndex, this.vertexIndex + 1, this.vertexIndex + 2);
+      this.vertexIndex += 3;
     }
   }
-  
-  return {
-    vertices: new Float64Array(tempVertices),
-    indices: new Uint32Array(tempIndices),
-    vertexCount: tempVertices.length / 3,
-    faceCount: tempIndices.length / 3
-  };
+
+  finish(): JsParseResult {
+    const vertices = this.vertices.toTypedArray();
+    const indices = this.indices.toTypedArray();
+    return {
+      vertices,
+      indices,
+      vertexCount: vertices.length / 3,
+      faceCount: indices.length / 3
+    };
+  }
 }
 
 /**
- * Parses OBJ files.
- * OBJ is always in ASCII format.
+ * Parses ASCII STL files.
  */
-export function parseObj(data: ArrayBuffer): JsParseResult {
-  const text = new TextDecoder('utf-8').decode(data);
-  const lines = text.split('\n');
-  
-  const tempVertices: number[] = [];
-  const tempIndices: number[] = [];
-  
-  for (const line of lines) {
+export function parseAsciiStl(data: ArrayBuffer): JsParseResult {
+  return parseAllLines(new AsciiStlLineParser(), data);
+}
+
+/**
+ * OBJ line parser (`v` with optional colors, `vt`, `f`, `usemtl`, `mtllib`).
+ */
+class ObjLineParser implements MeshLineParser {
+  private readonly vertices = new GrowableTypedArray(Float64Array);
+  private readonly indices = new GrowableTypedArray(Uint32Array);
+  private readonly colors = new GrowableTypedArray(Float32Array);
+  private readonly uvs = new GrowableTypedArray(Float32Array);
+  // Texture coordinate index per entry of `indices` (-1 = none)
+  private readonly uvRefs = new GrowableTypedArray(Int32Array);
+  private readonly materials = new ObjMaterialTracker();
+  private hasColors = false;
+  private hasUvRefs = false;
+
+  line(line: string): void {
     const trimmed = line.trim();
-    if (!trimmed || trimmed.startsWith('#')) continue;
-    
+    if (!trimmed || trimmed.startsWith('#')) return;
+
     const parts = trimmed.split(/\s+/);
     const prefix = parts[0];
-    
-    if (prefix === 'v') {
-      tempVertices.push(
-        parseFloat(parts[1]),
-        parseFloat(parts[2]),
-        parseFloat(parts[3])
-      );
+
+    if (prefix === 'usemtl' || prefix === 'mtllib') {
+      this.materials.handle(prefix, trimmed);
+    } else if (prefix === 'v') {
+      this.vertices.push3(parseFloat(parts[1]), parseFloat(parts[2]), parseFloat(parts[3]));
+      // 'v x y z r g b' vertex color extension (vertices without color stay white)
+      if (parts.length >= 7) {
+        this.colors.push3(parseFloat(parts[4]), parseFloat(parts[5]), parseFloat(parts[6]));
+        this.hasColors = true;
+      } else {
+        this.colors.push3(1, 1, 1);
+      }
+    } else if (prefix === 'vt') {
+      this.uvs.push(parseFloat(parts[1]));
+      this.uvs.push(parts.length > 2 ? parseFloat(parts[2]) : 0);
     } else if (prefix === 'f') {
       const faceIndices: number[] = [];
-      
+      const faceUvRefs: number[] = [];
+
       for (let i = 1; i < parts.length; i++) {
         const vertexSpec = parts[i];
         // Handle v/vt/vn or v//vn or v format
         const slashIdx = vertexSpec.indexOf('/');
         const indexStr = slashIdx >= 0 ? vertexSpec.substring(0, slashIdx) : vertexSpec;
         let idx = parseInt(indexStr, 10);
-        
+
         // Handle negative indices (counting from end)
         if (idx < 0) {
-          idx = tempVertices.length / 3 + idx + 1;
+          idx = this.vertices.length / 3 + idx + 1;
         }
-        
+
         faceIndices.push(idx - 1); // Convert to 0-based index
+
+        let uvIdx = slashIdx >= 0 ? parseInt(vertexSpec.substring(slashIdx + 1), 10) : NaN;
+        if (uvIdx < 0) {
+          uvIdx = this.uvs.length / 2 + uvIdx + 1;
+        }
+        faceUvRefs.push(Number.isNaN(uvIdx) ? -1 : uvIdx - 1);
+        this.hasUvRefs ||= !Number.isNaN(uvIdx);
       }
-      
+
       // Fan triangulation
+      this.materials.markFace(this.indices.length);
       for (let i = 1; i < faceIndices.length - 1; i++) {
-        tempIndices.push(faceIndices[0], faceIndices[i], faceIndices[i + 1]);
+        this.indices.push3(faceIndices[0], faceIndices[i], faceIndices[i + 1]);
+        this.uvRefs.push3(faceUvRefs[0], faceUvRefs[i], faceUvRefs[i + 1]);
       }
     }
   }
-  
+
+  finish(): JsParseResult {
+    const uvs = this.hasUvRefs
+      ? splitObjUvVertices(this.vertices, this.colors, this.uvs, this.indices, this.uvRefs)
+      : undefined;
+    const vertices = this.vertices.toTypedArray();
+    const indices = this.indices.toTypedArray();
+
+    return {
+      vertices,
+      indices,
+      vertexCount: vertices.length / 3,
+      faceCount: indices.length / 3,
+      colors: this.hasColors ? this.colors.toTypedArray() : undefined,
+      uvs,
+      ...this.materials.finish(indices.length)
+    };
+  }
+}
+
+/**
+ * Parses OBJ files.
+ * OBJ is always in ASCII format.
+ */
+export function parseObj(data: ArrayBuffer): JsParseResult {
+  return parseAllLines(new ObjLineParser(), data);
+}
+
+/**
+ * Splits OBJ vertices that are used with different texture coordinates.
+ * 
+ * OBJ faces index positions and texture coordinates separately (`v/vt`),
+ * while render buffers share one index per vertex. Each position keeps its
+ * slot for the first `vt` it is used with; other combinations are appended
+ * as copies and `indices` is rewritten in place (`vertices` and `colors`
+ * grow accordingly).
+ * 
+ * @returns Per-vertex UVs (vertices without a `vt` get 0, 0)
+ */
+function splitObjUvVertices(
+  vertices: GrowableTypedArray<Float64Array>,
+  colors: GrowableTypedArray<Float32Array>,
+  uvs: GrowableTypedArray<Float32Array>,
+  indices: GrowableTypedArray<Uint32Array>,
+  uvRefs: GrowableTypedArray<Int32Array>
+): Float32Array {
+  const originalCount = vertices.length / 3;
+  const uvCount = uvs.length / 2;
+  // -2 = position not used yet
+  const firstUvRef = new Int32Array(originalCount).fill(-2);
+  const copies = new Map<string, number>();
+  const out = new GrowableTypedArray(Float32Array, originalCount * 2);
+  for (let i = 0; i < originalCount * 2; i++) {
+    out.push(0);
+  }
+  const uOf = (ref: number) => (ref >= 0 && ref < uvCount ? uvs.get(ref * 2) : 0);
+  const vOf = (ref: number) => (ref >= 0 && ref < uvCount ? uvs.get(ref * 2 + 1) : 0);
+
+  for (let k = 0; k < indices.length; k++) {
+    const v = indices.get(k);
+    const ref = uvRefs.get(k);
+    if (v >= originalCount) {
+      continue; // Left for validation to reject
+    }
+    if (firstUvRef[v] === -2) {
+      firstUvRef[v] = ref;
+      out.set(v * 2, uOf(ref));
+      out.set(v * 2 + 1, vOf(ref));
+      continue;
+    }
+    if (firstUvRef[v] === ref) {
+      continue;
+    }
+
+    const key = `${v}/${ref}`;
+    let copy = copies.get(key);
+    if (copy === undefined) {
+      copy = vertices.length / 3;
+      vertices.push3(vertices.get(v * 3), vertices.get(v * 3 + 1), vertices.get(v * 3 + 2));
+      colors.push3(colors.get(v * 3), colors.get(v * 3 + 1), colors.get(v * 3 + 2));
+      out.push(uOf(ref));
+      out.push(vOf(ref));
+      copies.set(key, copy);
+    }
+    indices.set(k, copy);
+  }
+
+  return out.toTypedArray();
+}
+
+/**
+ * Tracks OBJ `mtllib` / `usemtl` statements while faces are emitted.
+ * 
+ * Consecutive faces with the same material share one group; groups are
+ * only reported when the file uses materials at all.
+ */
+class ObjMaterialTracker {
+  private readonly libraries: string[] = [];
+  private readonly starts: { start: number; material: string | null }[] = [];
+  private current: string | null = null;
+  private used = false;
+
+  handle(keyword: 'usemtl' | 'mtllib', line: string): void {
+    // Names may contain spaces, so take the rest of the line
+    const rest = line.slice(keyword.length).trim();
+    if (keyword === 'usemtl') {
+      this.current = rest || null;
+      this.used = true;
+    } else if (rest) {
+      this.libraries.push(rest);
+    }
+  }
+
+  /** Called before the triangles of a face are appended at `indexOffset` */
+  markFace(indexOffset: number): void {
+    const last = this.starts[this.starts.length - 1];
+    if (!last || last.material !== this.current) {
+      this.starts.push({ start: indexOffset, material: this.current });
+    }
+  }
+
+  finish(indexCount: number): Pick<JsParseResult, 'groups' | 'materialLibraries'> {
+    if (!this.used) {
+      return this.libraries.length ? { materialLibraries: this.libraries } : {};
+    }
+    const groups: JsMaterialGroup[] = [];
+    this.starts.forEach((entry, i) => {
+      const end = i + 1 < this.starts.length ? this.starts[i + 1].start : indexCount;
+      if (end > entry.start) {
+        groups.push({ start: entry.start, count: end - entry.start, material: entry.material });
+      }
+    });
+    return { groups, materialLibraries: this.libraries };
+  }
+}
+
+/**
+ * OFF header keyword (geomview `[ST][C][N]OFF`): OFF, COFF, NOFF, CNOFF, ...
+ */
+const OFF_KEYWORD = /^(ST)?(C)?(N)?OFF/;
+
+/** COFF color channel written as an integer (0..255 colors) */
+const INTEGER_TOKEN = /^[+-]?\d+$/;
+
+/**
+ * Yields the whitespace-separated tokens of each non-empty line,
+ * with `#` comments stripped. Walks the text without splitting it up front.
+ */
+function* offLines(text: string): Generator<{ tokens: string[]; lineNo: number }> {
+  let start = 0;
+  let lineNo = 0;
+  while (start < text.length) {
+    let end = text.indexOf('\n', start);
+    if (end < 0) end = text.length;
+    lineNo++;
+
+    let line = text.substring(start, end);
+    const hash = line.indexOf('#');
+    if (hash >= 0) line = line.substring(0, hash);
+    line = line.trim();
+    if (line) {
+      yield { tokens: line.split(/\s+/), lineNo };
+    }
+    start = end + 1;
+  }
+}
+
+/**
+ * Shared OFF/COFF/NOFF parser.
+ * 
+ * - Vertex lines: `x y z [nx ny nz] [r g b [a]] [s t]`
+ * - Face lines: `n i1 ... in [r g b [a]]` (fan-triangulated, face colors ignored)
+ * - Colors are 0..1 floats or 0..255 integers (normalized to 0..1), decided
+ *   once per file: integer tokens or any channel above 1 mean 0..255
+ * - Tolerates ModelNet's merged header line (`OFF490 518 0`)
+ * 
+ * Exact mode validates every token, requires the declared vertex/face
+ * counts and rejects degenerate faces.
+ */
+function parseOffText(data: ArrayBuffer, exact: boolean): JsParseResult {
+  const text = new TextDecoder('utf-8').decode(data);
+  const lines = offLines(text);
+  const readLine = () => {
+    const next = lines.next();
+    return next.done ? null : next.value;
+  };
+  const number = (token: string | undefined, context: string) =>
+    exact ? parseExactNumber(token, context) : parseFloat(token ?? '');
+  const integer = (token: string | undefined, context: string) =>
+    exact ? parseExactInteger(token, context) : parseInt(token ?? '', 10);
+
+  // Header keyword
+  const header = readLine();
+  const match = header ? OFF_KEYWORD.exec(header.tokens[0]) : null;
+  if (!header || !match) {
+    throw new Error('OFF: missing OFF header');
+  }
+  const hasNormals = match[3] !== undefined;
+  const hasColors = match[2] !== undefined;
+  const remainder = header.tokens[0].substring(match[0].length);
+  if (remainder && !/^\d/.test(remainder)) {
+    throw new Error(`OFF: unsupported header variant '${header.tokens[0]}'`);
+  }
+
+  // Counts: on the header line or the next line
+  let countTokens = [remainder, ...header.tokens.slice(1)].filter((t) => t !== '');
+  let countLine = header.lineNo;
+  if (countTokens.length === 0) {
+    const next = readLine();
+    if (!next) {
+      throw new Error('OFF: missing vertex/face counts');
+    }
+    countTokens = next.tokens;
+    countLine = next.lineNo;
+  }
+  const vertexCount = integer(countTokens[0], `OFF line ${countLine}`);
+  const faceCount = integer(countTokens[1], `OFF line ${countLine}`);
+  if (!(vertexCount >= 0) || !(faceCount >= 0)) {
+    throw new Error(`OFF line ${countLine}: invalid vertex/face counts`);
+  }
+
+  const vertices = new Float64Array(vertexCount * 3);
+  const normals = hasNormals ? new Float32Array(vertexCount * 3) : undefined;
+  const colors = hasColors ? new Float32Array(vertexCount * 3).fill(1) : undefined;
+  const colorOffset = hasNormals ? 6 : 3;
+  // Vertices that listed a color (the rest keep white through normalization)
+  const colored = hasColors ? new Uint8Array(vertexCount) : undefined;
+  let integerColors = true;
+  let maxChannel = 0;
+
+  let readVertices = 0;
+  for (; readVertices < vertexCount; readVertices++) {
+    const line = readLine();
+    if (!line) break;
+    const { tokens } = line;
+    const context = `OFF line ${line.lineNo}`;
+    const o = readVertices * 3;
+
+    vertices[o] = number(tokens[0], context);
+    vertices[o + 1] = number(tokens[1], context);
+    vertices[o + 2] = number(tokens[2], context);
+
+    if (normals) {
+      normals[o] = number(tokens[3], context);
+      normals[o + 1] = number(tokens[4], context);
+      normals[o + 2] = number(tokens[5], context);
+    }
+
+    if (colors && colored && (exact || tokens.length >= colorOffset + 3)) {
+      for (let c = 0; c < 3; c++) {
+        const token = tokens[colorOffset + c];
+        colors[o + c] = number(token, context);
+        integerColors &&= INTEGER_TOKEN.test(token);
+        maxChannel = Math.max(maxChannel, colors[o + c]);
+      }
+      colored[readVertices] = 1;
+    }
+  }
+
+  // Integer colors are 0..255, judged over the whole file so dark vertices scale too
+  if (colors && colored && (integerColors || maxChannel > 1)) {
+    for (let v = 0; v < readVertices; v++) {
+      if (colored[v]) {
+        colors[v * 3] /= 255;
+        colors[v * 3 + 1] /= 255;
+        colors[v * 3 + 2] /= 255;
+      }
+    }
+  }
+  if (exact && readVertices < vertexCount) {
+    throw new Error(`OFF: expected ${vertexCount} vertices but found ${readVertices}`);
+  }
+
+  const tempIndices: number[] = [];
+  let rejectedPolygons = 0;
+  let readFaces = 0;
+  for (; readFaces < faceCount; readFaces++) {
+    const line = readLine();
+    if (!line) break;
+    const { tokens } = line;
+    const context = `OFF line ${line.lineNo}`;
+    const n = integer(tokens[0], context);
+
+    if (!(n >= 3) || tokens.length < n + 1) {
+      if (exact && tokens.length < n + 1) {
+        throw new Error(`${context}: face declares ${n} vertices but lists ${tokens.length - 1}`);
+      }
+      rejectedPolygons++;
+      continue;
+    }
+
+    const first = integer(tokens[1], context);
+    for (let i = 2; i < n; i++) {
+      tempIndices.push(first, integer(tokens[i], context), integer(tokens[i + 1], context));
+    }
+  }
+  if (exact && readFaces < faceCount) {
+    throw new Error(`OFF: expected ${faceCount} faces but found ${readFaces}`);
+  }
+
+  const parsedVertices = readVertices === vertexCount ? vertices : vertices.slice(0, readVertices * 3);
+  const base = exact
+    ? toExactResult(parsedVertices, tempIndices, rejectedPolygons)
+    : {
+        vertices: parsedVertices,
+        indices: new Uint32Array(tempIndices),
+        vertexCount: readVertices,
+        faceCount: tempIndices.length / 3
+      };
+
   return {
-    vertices: new Float64Array(tempVertices),
-    indices: new Uint32Array(tempIndices),
-    vertexCount: tempVertices.length / 3,
-    faceCount: tempIndices.length / 3
+    ...base,
+    normals: normals && normals.slice(0, readVertices * 3),
+    colors: colors && colors.slice(0, readVertices * 3)
   };
 }
+
+/**
+ * Parses OFF files (including COFF colors and NOFF normals).
+ * Polygon faces are fan-triangulated like `parseObj`.
+ */
+export function parseOff(data: ArrayBuffer): JsParseResult {
+  return parseOffText(data, false);
+}
+
+// ============================================================================
+// Exact mode parsers (Fast→Exact fallback target)
+// ============================================================================
+
+/**
+ * Parses a numeric token in Exact mode.
+ * Unlike parseFloat(), the whole token must be a valid finite number
+ * ("1.5abc" and "nan" are rejected instead of being silently truncated).
+ */
+function parseExactNumber(token: string | undefined, context: string): number {
+  if (token === undefined || token === '') {
+    throw new Error(`${context}: missing numeric value`);
+  }
+  const value = Number(token);
+  if (!Number.isFinite(value)) {
+    throw new Error(`${context}: invalid number '${token}'`);
+  }
+  return value;
+}
+
+/**
+ * Parses an integer token in Exact mode.
+ */
+function parseExactInteger(token: string | undefined, context: string): number {
+  const value = parseExactNumber(token, context);
+  if (!Number.isInteger(value)) {
+    throw new Error(`${context}: expected integer but got '${token}'`);
+  }
+  return value;
+}
+
+/**
+ * Removes faces that cannot be rendered or sliced reliably.
+ * 
+ * A face is rejected when it:
+ * - references a vertex index outside the vertex buffer
+ * - repeats a vertex index (collapsed edge)
+ * - touches a non-finite coordinate
+ * - has an exactly zero cross product (collinear vertices)
+ */
+export function rejectDegenerateFaces(
+  vertices: Float64Array,
+  indices: ArrayLike<number>
+): { indices: Uint32Array; rejectedFaceCount: number } {
+  const vertexCount = Math.floor(vertices.length / 3);
+  const faceCount = Math.floor(indices.length / 3);
+  const kept = new Uint32Array(faceCount * 3);
+  let keptLength = 0;
+  let rejectedFaceCount = 0;
+
+  for (let f = 0; f < faceCount; f++) {
+    const a = indices[f * 3];
+    const b = indices[f * 3 + 1];
+    const c = indices[f * 3 + 2];
+
+    if (a >= vertexCount || b >= vertexCount || c >= vertexCount || a === b || b === c || a === c) {
+      rejectedFaceCount++;
+      continue;
+    }
+
+    const ax = vertices[a * 3], ay = vertices[a * 3 + 1], az = vertices[a * 3 + 2];
+    const e1x = vertices[b * 3] - ax, e1y = vertices[b * 3 + 1] - ay, e1z = vertices[b * 3 + 2] - az;
+    const e2x = vertices[c * 3] - ax, e2y = vertices[c * 3 + 1] - ay, e2z = vertices[c * 3 + 2] - az;
+    const cx = e1y * e2z - e1z * e2y;
+    const cy = e1z * e2x - e1x * e2z;
+    const cz = e1x * e2y - e1y * e2x;
+
+    if (!Number.isFinite(cx) || !Number.isFinite(cy) || !Number.isFinite(cz) || (cx === 0 && cy === 0 && cz === 0)) {
+      rejectedFaceCount++;
+      continue;
+    }
+
+    kept[keptLength++] = a;
+    kept[keptLength++] = b;
+    kept[keptLength++] = c;
+  }
+
+  return {
+    indices: keptLength === kept.length ? kept : kept.slice(0, keptLength),
+    rejectedFaceCount
+  };
+}
+
+function toExactResult(vertices: Float64Array, rawIndices: ArrayLike<number>, rejectedBeforeValidation = 0): JsParseResult {
+  const { indices, rejectedFaceCount } = rejectDegenerateFaces(vertices, rawIndices);
+  return {
+    vertices,
+    indices,
+    vertexCount: vertices.length / 3,
+    faceCount: indices.length / 3,
+    rejectedFaceCount: rejectedFaceCount + rejectedBeforeValidation
+  };
+}
+
+const PLY_SCALAR_TYPES = new Set([
+  'char', 'uchar', 'short', 'ushort', 'int', 'uint', 'float', 'double',
+  'int8', 'uint8', 'int16', 'uint16', 'int32', 'uint32', 'float32', 'float64'
+]);
+
+interface PlyProperty {
+  name: string;
+  /** Scalar type (value type for list properties) */
+  type: string;
+  isList: boolean;
+}
+
+interface PlyElement {
+  name: string;
+  count: number;
+  properties: PlyProperty[];
+}
+
+/**
+ * Parses and validates a complete ASCII PLY header.
+ * Throws on any structural problem instead of guessing.
+ */
+function parsePlyHeaderExact(text: string): { elements: PlyElement[]; bodyOffset: number } {
+  const endMatch = /^end_header[ \t]*\r?$/m.exec(text);
+  if (!endMatch) {
+    throw new Error('PLY header: missing end_header');
+  }
+
+  const headerLines = text.slice(0, endMatch.index).split('\n').map((line) => line.trim());
+  if (headerLines[0] !== 'ply') {
+    throw new Error('PLY header: missing "ply" magic');
+  }
+
+  const elements: PlyElement[] = [];
+  let formatSeen = false;
+
+  for (let i = 1; i < headerLines.length; i++) {
+    const line = headerLines[i];
+    if (!line) continue;
+    const parts = line.split(/\s+/);
+
+    switch (parts[0]) {
+      case 'comment':
+      case 'obj_info':
+        break;
+      case 'format':
+        if (parts[1] !== 'ascii' || parts[2] !== '1.0') {
+          throw new Error(`PLY header: expected "format ascii 1.0" but got "${line}"`);
+        }
+        formatSeen = true;
+        break;
+      case 'element': {
+        const count = parseExactInteger(parts[2], `PLY header line ${i + 1}`);
+        if (!parts[1] || count < 0) {
+          throw new Error(`PLY header line ${i + 1}: invalid element declaration "${line}"`);
+        }
+        elements.push({ name: parts[1], count, properties: [] });
+        break;
+      }
+      case 'property': {
+        const element = elements[elements.length - 1];
+        if (!element) {
+          throw new Error(`PLY header line ${i + 1}: property declared before any element`);
+        }
+        if (parts[1] === 'list') {
+          if (!PLY_SCALAR_TYPES.has(parts[2]) || !PLY_SCALAR_TYPES.has(parts[3]) || !parts[4]) {
+            throw new Error(`PLY header line ${i + 1}: invalid list property "${line}"`);
+          }
+          element.properties.push({ name: parts[4], type: parts[3], isList: true });
+        } else {
+          if (!PLY_SCALAR_TYPES.has(parts[1]) || !parts[2]) {
+            throw new Error(`PLY header line ${i + 1}: invalid property "${line}"`);
+          }
+          element.properties.push({ name: parts[2], type: parts[1], isList: false });
+        }
+        break;
+      }
+      default:
+        throw new Error(`PLY header line ${i + 1}: unknown keyword "${parts[0]}"`);
+    }
+  }
+
+  if (!formatSeen) {
+    throw new Error('PLY header: missing format declaration');
+  }
+
+  const newlineAfterHeader = text.indexOf('\n', endMatch.index);
+  const bodyOffset = newlineAfterHeader === -1 ? text.length : newlineAfterHeader + 1;
+  return { elements, bodyOffset };
+}
+
+/**
+ * Parses ASCII PLY files in Exact mode.
+ * 
+ * Reads properties by name as declared in the header (x/y/z need not be the
+ * first columns), consumes list properties and unknown elements token by
+ * token, and rejects element count mismatches.
+ */
+export function parseAsciiPlyExact(data: ArrayBuffer): JsParseResult {
+  const text = new TextDecoder('utf-8').decode(data);
+  const { elements, bodyOffset } = parsePlyHeaderExact(text);
+
+  const vertexElement = elements.find((e) => e.name === 'vertex');
+  if (!vertexElement) {
+    throw new Error('PLY header: missing vertex element');
+  }
+  const propIndex = (name: string) => vertexElement.properties.findIndex((p) => p.name === name && !p.isList);
+  const xi = propIndex('x');
+  const yi = propIndex('y');
+  const zi = propIndex('z');
+  if (xi < 0 || yi < 0 || zi < 0) {
+    throw new Error('PLY header: vertex element must declare x, y and z properties');
+  }
+
+  const body = text.slice(bodyOffset).trim();
+  const tokens = body ? body.split(/\s+/) : [];
+  let cursor = 0;
+  const next = (context: string): string => {
+    if (cursor >= tokens.length) {
+      throw new Error(`PLY data: unexpected end of data while reading ${context}`);
+    }
+    return tokens[cursor++];
+  };
+
+  const vertices = new Float64Array(vertexElement.count * 3);
+  const tempIndices: number[] = [];
+  let rejectedPolygons = 0;
+  const color = findPlyColorProperties(
+    vertexElement.properties.map((p) => ({ name: p.name, type: p.isList ? 'list' : p.type }))
+  );
+  const colors = color ? new Float32Array(vertexElement.count * 3) : undefined;
+  const uv = findPlyUvProperties(
+    vertexElement.properties.map((p) => ({ name: p.name, type: p.isList ? 'list' : p.type }))
+  );
+  const uvs = uv ? new Float32Array(vertexElement.count * 2) : undefined;
+
+  for (const element of elements) {
+    const faceListIndex = element.name === 'face'
+      ? element.properties.findIndex((p) => p.isList && (p.name === 'vertex_indices' || p.name === 'vertex_index'))
+      : -1;
+    if (element.name === 'face' && faceListIndex < 0) {
+      throw new Error('PLY header: face element must declare a vertex_indices list property');
+    }
+
+    for (let i = 0; i < element.count; i++) {
+      const context = `${element.name} ${i}`;
+      for (let p = 0; p < element.properties.length; p++) {
+        const property = element.properties[p];
+
+        if (property.isList) {
+          const count = parseExactInteger(next(context), context);
+          if (count < 0) {
+            throw new Error(`${context}: negative list length`);
+          }
+          if (p === faceListIndex) {
+            const polygon: number[] = [];
+            for (let k = 0; k < count; k++) {
+              const index = parseExactInteger(next(context), context);
+              if (index < 0) {
+                throw new Error(`${context}: negative vertex index`);
+              }
+              polygon.push(index);
+            }
+            if (polygon.length < 3) {
+              rejectedPolygons++;
+              continue;
+            }
+            for (let k = 1; k < polygon.length - 1; k++) {
+              tempIndices.push(polygon[0], polygon[k], polygon[k + 1]);
+            }
+          } else {
+            for (let k = 0; k < count; k++) {
+              parseExactNumber(next(context), context);
+            }
+          }
+          continue;
+        }
+
+        const value = parseExactNumber(next(context), context);
+        if (element === vertexElement) {
+          if (p === xi) vertices[i * 3] = value;
+          else if (p === yi) vertices[i * 3 + 1] = value;
+          else if (p === zi) vertices[i * 3 + 2] = value;
+          else {
+            if (colors && color) {
+              const channel = color.indices.indexOf(p);
+              if (channel >= 0) colors[i * 3 + channel] = value * color.scales[channel];
+            }
+            if (uvs && uv) {
+              const channel = uv.indexOf(p);
+              if (channel >= 0) uvs[i * 2 + channel] = value;
+            }
+          }
+        }
+      }
+    }
+  }
+
+  if (cursor < tokens.length) {
+    throw new Error(`PLY data: ${tokens.length - cursor} unexpected trailing values after last element`);
+  }
+
+  return { ...toExactResult(vertices, tempIndices, rejectedPolygons), colors, uvs };
+}
+
+/**
+ * Parses ASCII STL files in Exact mode.
+ * 
+ * Validates the solid/facet/outer loop/vertex/endloop/endfacet/endsolid
+ * structure and requires exactly three vertices per facet.
+ */
+export function parseAsciiStlExact(data: ArrayBuffer): JsParseResult {
+  const text = new TextDecoder('utf-8').decode(data);
+  const lines = text.split('\n');
+
+  type StlState = 'start' | 'solid' | 'facet' | 'loop' | 'endloop' | 'end';
+  let state: StlState = 'start';
+  let loopVertices = 0;
+
+  const tempVertices: number[] = [];
+  const tempIndices: number[] = [];
+
+  for (let lineNo = 0; lineNo < lines.length; lineNo++) {
+    const trimmed = lines[lineNo].trim();
+    if (!trimmed) continue;
+    const parts = trimmed.split(/\s+/);
+    const keyword = parts[0];
+    const context = `STL line ${lineNo + 1}`;
+
+    const expectState = (expected: StlState) => {
+      if (state !== expected) {
+        throw new Error(`${context}: unexpected "${keyword}" (state: ${state})`);
+      }
+    };
+
+    switch (keyword) {
+      case 'solid':
+        if (state !== 'start' && state !== 'end') {
+          throw new Error(`${context}: nested solid`);
+        }
+        state = 'solid';
+        break;
+      case 'facet':
+        expectState('solid');
+        if (parts[1] !== 'normal') {
+          throw new Error(`${context}: expected "facet normal"`);
+        }
+        parseExactNumber(parts[2], context);
+        parseExactNumber(parts[3], context);
+        parseExactNumber(parts[4], context);
+        state = 'facet';
+        break;
+      case 'outer':
+        expectState('facet');
+        if (parts[1] !== 'loop') {
+          throw new Error(`${context}: expected "outer loop"`);
+        }
+        loopVertices = 0;
+        state = 'loop';
+        break;
+      case 'vertex':
+        expectState('loop');
+        if (loopVertices === 3) {
+          throw new Error(`${context}: facet has more than 3 vertices`);
+        }
+        tempVertices.push(
+          parseExactNumber(parts[1], context),
+          parseExactNumber(parts[2], context),
+          parseExactNumber(parts[3], context)
+        );
+        loopVertices++;
+        break;
+      case 'endloop':
+        expectState('loop');
+        if (loopVertices !== 3) {
+          throw new Error(`${context}: facet has ${loopVertices} vertices (expected 3)`);
+        }
+        state = 'endloop';
+        break;
+      case 'endfacet': {
+        expectState('endloop');
+        const base = tempVertices.length / 3 - 3;
+        tempIndices.push(base, base + 1, base + 2);
+        state = 'solid';
+        break;
+      }
+      case 'endsolid':
+        expectState('solid');
+        state = 'end';
+        break;
+      default:
+        throw new Error(`${context}: unknown keyword "${keyword}"`);
+    }
+  }
+
+  if (state !== 'end') {
+    throw new Error('STL: unexpected end of file (missing endsolid)');
+  }
+
+  return toExactResult(new Float64Array(tempVertices), tempIndices);
+}
+
+/**
+ * Parses OBJ files in Exact mode.
+ * 
+ * Every vertex coordinate and face reference must be a valid number,
+ * zero indices and relative indices pointing before the first vertex are
+ * errors, and faces referencing missing vertices are rejected.
+ */
+export function parseObjExact(data: ArrayBuffer): JsParseResult {
+  const text = new TextDecoder('utf-8').decode(data);
+  const lines = text.split('\n');
+
+  const tempVertices = new GrowableTypedArray(Float64Array);
+  const tempIndices = new GrowableTypedArray(Uint32Array);
+  const tempColors = new GrowableTypedArray(Float32Array);
+  const tempUvs = new GrowableTypedArray(Float32Array);
+  const tempUvRefs = new GrowableTypedArray(Int32Array);
+  let hasColors = false;
+  let hasUvRefs = false;
+  let rejectedPolygons = 0;
+  const materials = new ObjMaterialTracker();
+
+  for (let lineNo = 0; lineNo < lines.length; lineNo++) {
+    const trimmed = lines[lineNo].trim();
+    if (!trimmed || trimmed.startsWith('#')) continue;
+
+    const parts = trimmed.split(/\s+/);
+    const context = `OBJ line ${lineNo + 1}`;
+
+    if (parts[0] === 'usemtl' || parts[0] === 'mtllib') {
+      materials.handle(parts[0], trimmed);
+    } else if (parts[0] === 'v') {
+      if (parts.length < 4) {
+        throw new Error(`${context}: vertex requires 3 coordinates`);
+      }
+      tempVertices.push3(
+        parseExactNumber(parts[1], context),
+        parseExactNumber(parts[2], context),
+        parseExactNumber(parts[3], context)
+      );
+      // Optional w or vertex color components must still be numeric
+      for (let i = 4; i < parts.length; i++) {
+        parseExactNumber(parts[i], context);
+      }
+      if (parts.length >= 7) {
+        tempColors.push3(Number(parts[4]), Number(parts[5]), Number(parts[6]));
+        hasColors = true;
+      } else {
+        tempColors.push3(1, 1, 1);
+      }
+    } else if (parts[0] === 'vt') {
+      if (parts.length < 2) {
+        throw new Error(`${context}: texture coordinate requires at least 1 value`);
+      }
+      for (let i = 1; i < parts.length; i++) {
+        parseExactNumber(parts[i], context);
+      }
+      tempUvs.push(Number(parts[1]));
+      tempUvs.push(parts.length > 2 ? Number(parts[2]) : 0);
+    } else if (parts[0] === 'f') {
+      if (parts.length < 4) {
+        rejectedPolygons++;
+        continue;
+      }
+      const currentVertexCount = tempVertices.length / 3;
+      const currentUvCount = tempUvs.length / 2;
+      const faceIndices: number[] = [];
+      const faceUvRefs: number[] = [];
+
+      for (let i = 1; i < parts.length; i++) {
+        const [vertexRef, uvRef] = parts[i].split('/');
+        let idx = parseExactInteger(vertexRef, context);
+        if (idx === 0) {
+          throw new Error(`${context}: vertex index 0 is invalid (OBJ indices are 1-based)`);
+        }
+        if (idx < 0) {
+          idx = currentVertexCount + idx + 1;
+          if (idx < 1) {
+            throw new Error(`${context}: relative index ${vertexRef} points before the first vertex`);
+          }
+        }
+        faceIndices.push(idx - 1);
+
+        if (uvRef === undefined || uvRef === '') {
+          faceUvRefs.push(-1);
+          continue;
+        }
+        let uvIdx = parseExactInteger(uvRef, context);
+        if (uvIdx < 0) {
+          uvIdx = currentUvCount + uvIdx + 1;
+        }
+        if (uvIdx < 1 || uvIdx > currentUvCount) {
+          throw new Error(`${context}: texture coordinate index ${uvRef} is out of range`);
+        }
+        faceUvRefs.push(uvIdx - 1);
+        hasUvRefs = true;
+      }
+
+      materials.markFace(tempIndices.length);
+      for (let i = 1; i < faceIndices.length - 1; i++) {
+        tempIndices.push3(faceIndices[0], faceIndices[i], faceIndices[i + 1]);
+        tempUvRefs.push3(faceUvRefs[0], faceUvRefs[i], faceUvRefs[i + 1]);
+      }
+    }
+  }
+
+  const uvs = hasUvRefs ? splitObjUvVertices(tempVertices, tempColors, tempUvs, tempIndices, tempUvRefs) : undefined;
+  const vertices = tempVertices.toTypedArray();
+  const rawIndices = tempIndices.toTypedArray();
+  const colors = hasColors ? tempColors.toTypedArray() : undefined;
+  const { groups, materialLibraries } = materials.finish(rawIndices.length);
+  if (!groups) {
+    return { ...toExactResult(vertices, rawIndices, rejectedPolygons), colors, uvs, materialLibraries };
+  }
+
+  // Validate each group separately so the ranges stay aligned with the kept faces
+  const kept: Uint32Array[] = [];
+  const keptGroups: JsMaterialGroup[] = [];
+  let offset = 0;
+  let rejectedFaceCount = rejectedPolygons;
+  for (const group of groups) {
+    const filtered = rejectDegenerateFaces(vertices, rawIndices.subarray(group.start, group.start + group.count));
+    rejectedFaceCount += filtered.rejectedFaceCount;
+    if (filtered.indices.length === 0) {
+      continue;
+    }
+    const last = keptGroups[keptGroups.length - 1];
+    if (last && last.material === group.material) {
+      last.count += filtered.indices.length;
+    } else {
+      keptGroups.push({ start: offset, count: filtered.indices.length, material: group.material });
+    }
+    kept.push(filtered.indices);
+    offset += filtered.indices.length;
+  }
+  const indices = new Uint32Array(offset);
+  let cursor = 0;
+  for (const part of kept) {
+    indices.set(part, cursor);
+    cursor += part.length;
+  }
+
+  return {
+    vertices,
+    indices,
+    vertexCount: vertices.length / 3,
+    faceCount: indices.length / 3,
+    colors,
+    uvs,
+    groups: keptGroups,
+    materialLibraries,
+    rejectedFaceCount
+  };
+}
+
+/**
+ * Parses OFF files in Exact mode.
+ * 
+ * Every token must be a valid number, the declared vertex and face counts
+ * must be present, and faces referencing missing vertices are rejected.
+ */
+export function parseOffExact(data: ArrayBuffer): JsParseResult {
+  return parseOffText(data, true);
+}
@@ -0,0 +1,222 @@
+/**
+ * @file js-slicer.ts
+ * @description Pure TypeScript plane slicer (fallback for WASM sliceMeshFromPointer)
+ *
+ * Produces the same SliceMeshResult contract as the WASM implementation:
+ * - Keeps the half-space `dot(normal, p) >= distance`
+ * - Splits triangles crossing the plane, preserving their winding
+ * - Welds cut vertices by the positions of the cut edge's endpoints, so
+ *   triangles sharing an edge share the new vertex even in unindexed
+ *   triangle soups (STL)
+ *
+ * Vertex classification uses a floating-point filter: when the plain dot
+ * product is too close to zero to trust its sign, it is re-evaluated with
+ * error-free transformations (compensated dot product). Those re-evaluations
+ * are reported as `exactFallbackCount`.
+ */
+
+import type { SliceMeshData, SliceMeshResult, SlicePlane } from './slice-mesh';
+
+// ============================================================================
+// Robust plane-side predicate
+// ============================================================================
+
+/** Dekker splitter for 53-bit doubles (2^27 + 1) */
+const SPLITTER = 134217729;
+
+/** Forward error bound factor for a 4-term dot product */
+const DOT_ERROR_FACTOR = 8 * Number.EPSILON;
+
+function twoSum(a: number, b: number): [number, number] {
+  const s = a + b;
+  const bb = s - a;
+  const err = (a - (s - bb)) + (b - bb);
+  return [s, err];
+}
+
+function twoProduct(a: number, b: number): [number, number] {
+  const p = a * b;
+  let c = SPLITTER * a;
+  const aHi = c - (c - a);
+  const aLo = a - aHi;
+  c = SPLITTER * b;
+  const bHi = c - (c - b);
+  const bLo = b - bHi;
+  const err = aLo * bLo - (((p - aHi * bHi) - aLo * bHi) - aHi * bLo);
+  return [p, err];
+}
+
+/**
+ * Compensated evaluation of nx*x + ny*y + nz*z - distance (Dot2 algorithm).
+ * Accurate as if computed in twice the working precision.
+ */
+function compensatedSignedDistance(
+  nx: number, ny: number, nz: number, distance: number,
+  x: number, y: number, z: number
+): number {
+  let [sum, err] = twoProduct(nx, x);
+  const terms: [number, number][] = [twoProduct(ny, y), twoProduct(nz, z), [-distance, 0]];
+  for (const [product, productErr] of terms) {
+    const [s, sumErr] = twoSum(sum, product);
+    sum = s;
+    err += sumErr + productErr;
+  }
+  return sum + err;
+}
+
+// ============================================================================
+// Slicer
+// ============================================================================
+
+/**
+ * Slices a mesh with a plane in pure TypeScript.
+ *
+ * @param mesh Input mesh data
+ * @param plane Slice plane (normal need not be normalized)
+ * @returns Slice result with the same contract as the WASM sliceMesh
+ */
+export function sliceMeshJs(mesh: SliceMeshData, plane: SlicePlane): SliceMeshResult {
+  const vertices = mesh.vertices;
+  const indices = mesh.indices;
+  const vertexCount = Math.floor(vertices.length / 3);
+  const faceCount = Math.floor(indices.length / 3);
+  const { x: nx, y: ny, z: nz } = plane.normal;
+  const distance = plane.distance;
+
+  // --------------------------------------------------------------------------
+  // 1. Classify vertices (-1: clipped, 0: on plane, 1: kept)
+  // --------------------------------------------------------------------------
+  const signedDistances = new Float64Array(vertexCount);
+  const sides = new Int8Array(vertexCount);
+  let exactFallbackCount = 0;
+
+  for (let i = 0; i < vertexCount; i++) {
+    const x = vertices[i * 3];
+    const y = vertices[i * 3 + 1];
+    const z = vertices[i * 3 + 2];
+    let d = nx * x + ny * y + nz * z - distance;
+    const bound = DOT_ERROR_FACTOR * (Math.abs(nx * x) + Math.abs(ny * y) + Math.abs(nz * z) + Math.abs(distance));
+
+    if (Math.abs(d) <= bound) {
+      exactFallbackCount++;
+      d = compensatedSignedDistance(nx, ny, nz, distance, x, y, z);
+      // Still indistinguishable from zero: the vertex lies on the plane
+      if (Math.abs(d) <= bound * Number.EPSILON) {
+        d = 0;
+      }
+    }
+
+    signedDistances[i] = d;
+    sides[i] = d > 0 ? 1 : d < 0 ? -1 : 0;
+  }
+
+  // --------------------------------------------------------------------------
+  // 2. Emit kept/split triangles
+  // --------------------------------------------------------------------------
+  const outVertices: number[] = [];
+  const outIndices: number[] = [];
+  const remap = new Int32Array(vertexCount).fill(-1);
+  const cutVertexMap = new Map<string, number>();
+
+  const keepVertex = (i: number): number => {
+    if (remap[i] < 0) {
+      remap[i] = outVertices.length / 3;
+      outVertices.push(vertices[i * 3], vertices[i * 3 + 1], vertices[i * 3 + 2]);
+    }
+    return remap[i];
+  };
+
+  // Lexicographic order of two vertex positions
+  const comparePositions = (i: number, j: number): number =>
+    vertices[i * 3] - vertices[j * 3] ||
+    vertices[i * 3 + 1] - vertices[j * 3 + 1] ||
+    vertices[i * 3 + 2] - vertices[j * 3 + 2];
+
+  // Cut vertex on edge (i, j), welded across the triangles sharing the edge
+  // (by endpoint position, as unindexed faces never share indices)
+  const cutVertex = (i: number, j: number): number => {
+    const [a, b] = comparePositions(i, j) <= 0 ? [i, j] : [j, i];
+    const key =
+      `${vertices[a * 3]},${vertices[a * 3 + 1]},${vertices[a * 3 + 2]}:` +
+      `${vertices[b * 3]},${vertices[b * 3 + 1]},${vertices[b * 3 + 2]}`;
+    const existing = cutVertexMap.get(key);
+    if (existing !== undefined) {
+      return existing;
+    }
+
+    // Always interpolate from the lower position so both triangles get the same point
+    const da = signedDistances[a];
+    const t = da / (da - signedDistances[b]);
+    const index = outVertices.length / 3;
+    outVertices.push(
+      vertices[a * 3] + t * (vertices[b * 3] - vertices[a * 3]),
+      vertices[a * 3 + 1] + t * (vertices[b * 3 + 1] - vertices[a * 3 + 1]),
+      vertices[a * 3 + 2] + t * (vertices[b * 3 + 2] - vertices[a * 3 + 2])
+    );
+    cutVertexMap.set(key, index);
+    return index;
+  };
+
+  for (let f = 0; f < faceCount; f++) {
+    const tri = [indices[f * 3], indices[f * 3 + 1], indices[f * 3 + 2]];
+    const s = [sides[tri[0]], sides[tri[1]], sides[tri[2]]];
+
+    const hasPositive = s[0] > 0 || s[1] > 0 || s[2] > 0;
+    const hasNegative = s[0] < 0 || s[1] < 0 || s[2] < 0;
+
+    if (!hasNegative) {
+      // Entirely on the kept side (or lying in the plane)
+      outIndices.push(keepVertex(tri[0]), keepVertex(tri[1]), keepVertex(tri[2]));
+      continue;
+    }
+    if (!hasPositive) {
+      // Entirely clipped (touching the plane at most)
+      continue;
+    }
+
+    // Build the clipped polygon walking the triangle in its original order
+    // (Sutherland-Hodgman against a single plane), so winding is preserved.
+    const polygon: number[] = [];
+    for (let k = 0; k < 3; k++) {
+      const current = tri[k];
+      const next = tri[(k + 1) % 3];
+      const sc = s[k];
+      const sn = s[(k + 1) % 3];
+
+      if (sc >= 0) {
+        polygon.push(keepVertex(current));
+      }
+      if ((sc > 0 && sn < 0) || (sc < 0 && sn > 0)) {
+        polygon.push(cutVertex(current, next));
+      }
+    }
+
+    // Fan triangulation of the (convex) clipped polygon: 3 or 4 vertices
+    for (let k = 1; k < polygon.length - 1; k++) {
+      outIndices.push(polygon[0], polygon[k], polygon[k + 1]);
+    }
+  }
+
+  const exactFallbackRatio = vertexCount > 0 ? exactFallbackCount / vertexCount : 0;
+
+  if (outIndices.length === 0) {
+    return {
+      success: false,
+      error: 'Slice.EmptyResult: All faces were clipped',
+      exactFallbackCount,
+      exactFallbackRatio
+    };
+  }
+
+  return {
+    success: true,
+    mesh: {
+      vertices: new Float64Array(outVertices),
+      indices: new Uint32Array(outIndices),
+      vertexCount: outVertices.length / 3,
+      faceCount: outIndices.length / 3
+    },
+    exactFallbackCount,
+    exactFallbackRatio
+  };
+}
@@ -0,0 +1,135 @@
+/**
+ * @file mesh-bvh-cache.ts
+ * @description Triangle BVHs of loaded meshes, cached per buffer generation
+ *
+ * - One tree per `MeshBuffers`, rebuilt only when `generation` changes, so
+ *   picking, measuring and cross sections share a single build
+ * - `loadMeshBvh` builds in a Web Worker (copies of the views go in, the node
+ *   arrays come back by transfer); without workers (tests, older runtimes)
+ *   it builds on the calling thread
+ * - Builds finishing after the buffers changed are discarded
+ */
+
+import { buildTriangleBvh, type TriangleBvh } from './mesh-bvh';
+import type { MeshBuffers } from './types';
+
+/**
+ * Message posted to the BVH worker
+ */
+export interface BvhWorkerRequest {
+  vertices: Float64Array;
+  indices: Uint32Array;
+}
+
+/**
+ * Message posted back by the BVH worker
+ */
+export type BvhWorkerResponse =
+  | {
+      type: 'result';
+      bounds: Float64Array;
+      offsets: Uint32Array;
+      counts: Uint32Array;
+      triangles: Uint32Array;
+    }
+  | { type: 'error'; message: string };
+
+interface CacheEntry {
+  generation: number;
+  bvh?: TriangleBvh;
+  pending?: Promise<TriangleBvh>;
+}
+
+const cache = new WeakMap<MeshBuffers, CacheEntry>();
+
+function entryFor(buffers: MeshBuffers): CacheEntry {
+  let entry = cache.get(buffers);
+  if (!entry || entry.generation !== buffers.generation) {
+    entry = { generation: buffers.generation };
+    cache.set(buffers, entry);
+  }
+  return entry;
+}
+
+/**
+ * Cached tree of the buffers' current generation, if already built.
+ */
+export function peekMeshBvh(buffers: MeshBuffers): TriangleBvh | undefined {
+  const entry = cache.get(buffers);
+  return entry && entry.generation === buffers.generation ? entry.bvh : undefined;
+}
+
+/**
+ * Tree of the buffers' current generation, built on the calling thread when
+ * not cached yet (a worker build in flight is superseded).
+ */
+export function getMeshBvh(buffers: MeshBuffers): TriangleBvh {
+  const entry = entryFor(buffers);
+  if (!entry.bvh) {
+    entry.bvh = buildTriangleBvh(buffers.vertexView, buffers.indexView);
+  }
+  return entry.bvh;
+}
+
+function buildInWorker(vertices: Float64Array, indices: Uint32Array): Promise<TriangleBvh> {
+  return new Promise<TriangleBvh>((resolve, reject) => {
+    const worker = new Worker(new URL('./bvh-worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<BvhWorkerResponse>) => {
+      worker.terminate();
+      const message = event.data;
+      if (message.type === 'error') {
+        reject(new Error(message.message));
+        return;
+      }
+      const { bounds, offsets, counts, triangles } = message;
+      resolve({ vertices, indices, bounds, offsets, counts, triangles });
+    };
+    worker.onerror = (event) => {
+      worker.terminate();
+      reject(new Error(`BVH worker failed: ${event.message}`));
+    };
+
+    // Copies go to the worker, the views stay usable here
+    const request: BvhWorkerRequest = { vertices: vertices.slice(), indices: indices.slice() };
+    worker.postMessage(request, [request.vertices.buffer, request.indices.buffer]);
+  });
+}
+
+/**
+ * Tree of the buffers' current generation, built in a worker when available.
+ *
+ * Concurrent calls for the same generation share one build.
+ *
+ * @throws Error When the worker build fails
+ */
+export function loadMeshBvh(buffers: MeshBuffers): Promise<TriangleBvh> {
+  const entry = entryFor(buffers);
+  if (entry.bvh) {
+    return Promise.resolve(entry.bvh);
+  }
+  if (entry.pending) {
+    return entry.pending;
+  }
+  if (typeof Worker === 'undefined') {
+    return Promise.resolve(getMeshBvh(buffers));
+  }
+
+  const { vertexView, indexView } = buffers;
+  const pending = buildInWorker(vertexView, indexView).then(
+    (bvh) => {
+      if (cache.get(buffers) !== entry || buffers.generation !== entry.generation) {
+        // Buffers changed while building: build the current generation instead
+        return loadMeshBvh(buffers);
+      }
+      entry.pending = undefined;
+      entry.bvh ??= bvh;
+      return entry.bvh;
+    },
+    (error: unknown) => {
+      entry.pending = undefined;
+      throw error;
+    }
+  );
+  entry.pending = pending;
+  return pending;
+}
@@ -0,0 +1,800 @@
+/**
+ * @file mesh-bvh.ts
+ * @description Bounding volume hierarchy over the triangles of an indexed mesh
+ *
+ * - Built top-down with the binned surface area heuristic (SAH): triangle
+ *   centroids are binned along the node's longest centroid axis and the node is
+ *   split where the children's area × count is smallest; nodes the SAH cannot
+ *   split (and nodes past SAH_MAX_DEPTH) fall back to the centroid median (quickselect)
+ * - Nodes live in flat typed arrays; leaves reference a range of `triangles`
+ * - Nearest-surface queries visit the closer child first and prune nodes whose
+ *   box is farther than the best hit so far
+ * - Ray queries clip the ray against node boxes (slab test) and prune nodes
+ *   entered beyond the nearest hit so far; triangles are hit from both sides
+ * - Plane and box queries collect every overlapping triangle (exact tests at
+ *   the leaves) and return the ids sorted
+ * - Trees of loaded meshes are cached per buffer generation in mesh-bvh-cache
+ */
+
+/** Maximum number of triangles in a leaf */
+const LEAF_SIZE = 8;
+
+/** Centroid bins evaluated by the SAH */
+const SAH_BINS = 16;
+
+/** Depth after which nodes are split at the median (keeps the tree within STACK_SIZE) */
+const SAH_MAX_DEPTH = 64;
+
+/** Traversal stack depth (SAH_MAX_DEPTH plus the log2(n / LEAF_SIZE) of the median splits below it) */
+const STACK_SIZE = 128;
+
+/**
+ * Triangle BVH of one mesh
+ */
+export interface TriangleBvh {
+  /** Vertex positions the tree was built from (xyz per vertex) */
+  vertices: Float64Array;
+  /** Triangle vertex indices (3 per triangle) */
+  indices: Uint32Array;
+  /** Node bounds: minX, minY, minZ, maxX, maxY, maxZ per node (node 0 is the root) */
+  bounds: Float64Array;
+  /** Leaves: first entry in `triangles`; inner nodes: index of the left child */
+  offsets: Uint32Array;
+  /** Leaves: triangle count; inner nodes: 0 (the right child is `offsets[node] + 1`) */
+  counts: Uint32Array;
+  /** Triangle ids ordered so every leaf covers a contiguous range */
+  triangles: Uint32Array;
+}
+
+/**
+ * Nearest point on the mesh surface
+ */
+export interface ClosestPointHit {
+  /** Euclidean distance from the query point */
+  distance: number;
+  /** Triangle id (index into `indices` / 3) */
+  triangle: number;
+  point: [number, number, number];
+}
+
+/**
+ * Nearest ray hit on the mesh surface
+ */
+export interface RayHit {
+  /** Ray parameter of the hit (distance in units of the direction's length) */
+  distance: number;
+  /** Triangle id (index into `indices` / 3) */
+  triangle: number;
+  point: [number, number, number];
+  /** Barycentric weights of the triangle's second and third corner at the hit */
+  u: number;
+  v: number;
+}
+
+/**
+ * Reorders `order[start, end)` so the element at `k` has the k-th smallest key
+ * and the elements before it are not larger (Hoare quickselect)
+ */
+function selectMedian(order: Uint32Array, keys: Float64Array, start: number, end: number, k: number): void {
+  let lo = start;
+  let hi = end - 1;
+  while (lo < hi) {
+    const pivot = keys[order[(lo + hi) >>> 1]];
+    let i = lo;
+    let j = hi;
+    while (i <= j) {
+      while (keys[order[i]] < pivot) i++;
+      while (keys[order[j]] > pivot) j--;
+      if (i <= j) {
+        const tmp = order[i];
+        order[i] = order[j];
+        order[j] = tmp;
+        i++;
+        j--;
+      }
+    }
+    if (k <= j) {
+      hi = j;
+    } else if (k >= i) {
+      lo = i;
+    } else {
+      return;
+    }
+  }
+}
+
+/** Half surface area of a box (the SAH only compares areas) */
+function halfArea(minX: number, minY: number, minZ: number, maxX: number, maxY: number, maxZ: number): number {
+  const dx = maxX - minX;
+  const dy = maxY - minY;
+  const dz = maxZ - minZ;
+  return dx * dy + dy * dz + dz * dx;
+}
+
+/**
+ * Builds a BVH over the triangles of an indexed mesh.
+ *
+ * @param vertices - Vertex positions (xyz per vertex)
+ * @param indices - Triangle vertex indices
+ */
+export function buildTriangleBvh(vertices: Float64Array, indices: Uint32Array): TriangleBvh {
+  const triangleCount = Math.floor(indices.length / 3);
+
+  // Per-triangle bounds and centroids (centroids per axis for binning and quickselect)
+  const triBounds = new Float64Array(triangleCount * 6);
+  const centroids = [new Float64Array(triangleCount), new Float64Array(triangleCount), new Float64Array(triangleCount)];
+  for (let t = 0; t < triangleCount; t++) {
+    for (let axis = 0; axis < 3; axis++) {
+      const a = vertices[indices[t * 3] * 3 + axis];
+      const b = vertices[indices[t * 3 + 1] * 3 + axis];
+      const c = vertices[indices[t * 3 + 2] * 3 + axis];
+      const min = Math.min(a, b, c);
+      const max = Math.max(a, b, c);
+      triBounds[t * 6 + axis] = min;
+      triBounds[t * 6 + 3 + axis] = max;
+      centroids[axis][t] = (min + max) / 2;
+    }
+  }
+
+  const triangles = new Uint32Array(triangleCount);
+  for (let t = 0; t < triangleCount; t++) {
+    triangles[t] = t;
+  }
+
+  // Node storage grows on demand (SAH leaves may hold fewer than LEAF_SIZE triangles)
+  let capacity = Math.max(1, 2 * Math.ceil(triangleCount / LEAF_SIZE));
+  let bounds = new Float64Array(capacity * 6);
+  let offsets = new Uint32Array(capacity);
+  let counts = new Uint32Array(capacity);
+  let nodeCount = 1;
+  const reserve = (needed: number): void => {
+    if (needed <= capacity) return;
+    capacity = Math.max(needed, capacity * 2);
+    const grownBounds = new Float64Array(capacity * 6);
+    grownBounds.set(bounds);
+    bounds = grownBounds;
+    const grownOffsets = new Uint32Array(capacity);
+    grownOffsets.set(offsets);
+    offsets = grownOffsets;
+    const grownCounts = new Uint32Array(capacity);
+    grownCounts.set(counts);
+    counts = grownCounts;
+  };
+
+  // Bin scratch (reused by every node)
+  const binBounds = new Float64Array(SAH_BINS * 6);
+  const binCounts = new Uint32Array(SAH_BINS);
+  const leftAreas = new Float64Array(SAH_BINS);
+  const leftCounts = new Uint32Array(SAH_BINS);
+
+  /**
+   * Splits `triangles[start, end)` along `axis` with the binned SAH (fewer bins for small nodes).
+   *
+   * @returns The split position, or -1 when no bin boundary separates the triangles
+   */
+  const splitSah = (start: number, end: number, axis: number, cMin: number, cMax: number): number => {
+    const bins = Math.min(SAH_BINS, end - start);
+    const last = bins - 1;
+    const scale = bins / (cMax - cMin);
+    binCounts.fill(0, 0, bins);
+    for (let bin = 0; bin < bins; bin++) {
+      const o = bin * 6;
+      binBounds[o] = binBounds[o + 1] = binBounds[o + 2] = Infinity;
+      binBounds[o + 3] = binBounds[o + 4] = binBounds[o + 5] = -Infinity;
+    }
+    for (let i = start; i < end; i++) {
+      const to = triangles[i] * 6;
+      const bin = Math.min(last, Math.floor(((triBounds[to + axis] + triBounds[to + 3 + axis]) / 2 - cMin) * scale));
+      const o = bin * 6;
+      binCounts[bin]++;
+      for (let k = 0; k < 3; k++) {
+        if (triBounds[to + k] < binBounds[o + k]) binBounds[o + k] = triBounds[to + k];
+        if (triBounds[to + 3 + k] > binBounds[o + 3 + k]) binBounds[o + 3 + k] = triBounds[to + 3 + k];
+      }
+    }
+
+    // Left sweep: area and count of bins [0, b]
+    let minX = Infinity, minY = Infinity, minZ = Infinity;
+    let maxX = -Infinity, maxY = -Infinity, maxZ = -Infinity;
+    let count = 0;
+    for (let b = 0; b < last; b++) {
+      const o = b * 6;
+      if (binCounts[b] > 0) {
+        minX = Math.min(minX, binBounds[o]); minY = Math.min(minY, binBounds[o + 1]); minZ = Math.min(minZ, binBounds[o + 2]);
+        maxX = Math.max(maxX, binBounds[o + 3]); maxY = Math.max(maxY, binBounds[o + 4]); maxZ = Math.max(maxZ, binBounds[o + 5]);
+        count += binCounts[b];
+      }
+      leftCounts[b] = count;
+      leftAreas[b] = count > 0 ? halfArea(minX, minY, minZ, maxX, maxY, maxZ) : 0;
+    }
+    // Right sweep: bins [b, bins), split after bin b - 1
+    minX = Infinity; minY = Infinity; minZ = Infinity;
+    maxX = -Infinity; maxY = -Infinity; maxZ = -Infinity;
+    count = 0;
+    let bestCost = Infinity;
+    let bestBin = -1;
+    for (let b = last; b > 0; b--) {
+      const o = b * 6;
+      if (binCounts[b] > 0) {
+        minX = Math.min(minX, binBounds[o]); minY = Math.min(minY, binBounds[o + 1]); minZ = Math.min(minZ, binBounds[o + 2]);
+        maxX = Math.max(maxX, binBounds[o + 3]); maxY = Math.max(maxY, binBounds[o + 4]); maxZ = Math.max(maxZ, binBounds[o + 5]);
+        count += binCounts[b];
+      }
+      if (leftCounts[b - 1] === 0 || count === 0) continue;
+      const cost = leftAreas[b - 1] * leftCounts[b - 1] + halfArea(minX, minY, minZ, maxX, maxY, maxZ) * count;
+      if (cost < bestCost) {
+        bestCost = cost;
+        bestBin = b - 1;
+      }
+    }
+    if (bestBin < 0) {
+      return -1;
+    }
+
+    // Partition: bins up to `bestBin` go left
+    const keys = centroids[axis];
+    let i = start;
+    let j = end - 1;
+    while (i <= j) {
+      if (Math.min(last, Math.floor((keys[triangles[i]] - cMin) * scale)) <= bestBin) {
+        i++;
+      } else {
+        const tmp = triangles[i];
+        triangles[i] = triangles[j];
+        triangles[j] = tmp;
+        j--;
+      }
+    }
+    return i > start && i < end ? i : -1;
+  };
+
+  const build = (node: number, start: number, end: number, depth: number): void => {
+    let minX = Infinity, minY = Infinity, minZ = Infinity;
+    let maxX = -Infinity, maxY = -Infinity, maxZ = -Infinity;
+    const cMin = [Infinity, Infinity, Infinity];
+    const cMax = [-Infinity, -Infinity, -Infinity];
+    for (let i = start; i < end; i++) {
+      const t = triangles[i];
+      const o = t * 6;
+      if (triBounds[o] < minX) minX = triBounds[o];
+      if (triBounds[o + 1] < minY) minY = triBounds[o + 1];
+      if (triBounds[o + 2] < minZ) minZ = triBounds[o + 2];
+      if (triBounds[o + 3] > maxX) maxX = triBounds[o + 3];
+      if (triBounds[o + 4] > maxY) maxY = triBounds[o + 4];
+      if (triBounds[o + 5] > maxZ) maxZ = triBounds[o + 5];
+      for (let axis = 0; axis < 3; axis++) {
+        const c = (triBounds[o + axis] + triBounds[o + 3 + axis]) / 2;
+        if (c < cMin[axis]) cMin[axis] = c;
+        if (c > cMax[axis]) cMax[axis] = c;
+      }
+    }
+    const b = node * 6;
+    bounds[b] = minX;
+    bounds[b + 1] = minY;
+    bounds[b + 2] = minZ;
+    bounds[b + 3] = maxX;
+    bounds[b + 4] = maxY;
+    bounds[b + 5] = maxZ;
+
+    const count = end - start;
+    const extentX = cMax[0] - cMin[0];
+    const extentY = cMax[1] - cMin[1];
+    const extentZ = cMax[2] - cMin[2];
+    // Coincident centroids cannot be separated by a split
+    if (count <= LEAF_SIZE || Math.max(extentX, extentY, extentZ) <= 0) {
+      offsets[node] = start;
+      counts[node] = count;
+      return;
+    }
+
+    // Past SAH_MAX_DEPTH median splits bound the remaining depth (and the traversal stack)
+    const axis = extentX >= extentY && extentX >= extentZ ? 0 : extentY >= extentZ ? 1 : 2;
+    let mid = depth < SAH_MAX_DEPTH ? splitSah(start, end, axis, cMin[axis], cMax[axis]) : -1;
+    if (mid < 0) {
+      mid = (start + end) >>> 1;
+      selectMedian(triangles, centroids[axis], start, end, mid);
+    }
+
+    const left = nodeCount;
+    nodeCount += 2;
+    reserve(nodeCount);
+    offsets[node] = left;
+    counts[node] = 0;
+    build(left, start, mid, depth + 1);
+    build(left + 1, mid, end, depth + 1);
+  };
+
+  if (triangleCount > 0) {
+    build(0, 0, triangleCount, 0);
+  } else {
+    // Empty mesh: an inverted root box (queries never descend into it)
+    bounds.set([Infinity, Infinity, Infinity, -Infinity, -Infinity, -Infinity]);
+  }
+
+  return {
+    vertices,
+    indices,
+    bounds: bounds.slice(0, nodeCount * 6),
+    offsets: offsets.slice(0, nodeCount),
+    counts: counts.slice(0, nodeCount),
+    triangles
+  };
+}
+
+/** Squared distance from a point to a node box (0 inside) */
+function boxDistanceSq(bounds: Float64Array, node: number, x: number, y: number, z: number): number {
+  const b = node * 6;
+  const dx = x < bounds[b] ? bounds[b] - x : x > bounds[b + 3] ? x - bounds[b + 3] : 0;
+  const dy = y < bounds[b + 1] ? bounds[b + 1] - y : y > bounds[b + 4] ? y - bounds[b + 4] : 0;
+  const dz = z < bounds[b + 2] ? bounds[b + 2] - z : z > bounds[b + 5] ? z - bounds[b + 5] : 0;
+  return dx * dx + dy * dy + dz * dz;
+}
+
+/**
+ * Closest point on triangle (a, b, c) to p, by Voronoi region
+ * (Ericson, Real-Time Collision Detection, 5.1.5). Writes into `out`.
+ */
+function closestPointOnTriangle(
+  vertices: Float64Array,
+  ia: number,
+  ib: number,
+  ic: number,
+  px: number,
+  py: number,
+  pz: number,
+  out: Float64Array
+): void {
+  const ax = vertices[ia * 3], ay = vertices[ia * 3 + 1], az = vertices[ia * 3 + 2];
+  const bx = vertices[ib * 3], by = vertices[ib * 3 + 1], bz = vertices[ib * 3 + 2];
+  const cx = vertices[ic * 3], cy = vertices[ic * 3 + 1], cz = vertices[ic * 3 + 2];
+
+  const abx = bx - ax, aby = by - ay, abz = bz - az;
+  const acx = cx - ax, acy = cy - ay, acz = cz - az;
+  const apx = px - ax, apy = py - ay, apz = pz - az;
+
+  const d1 = abx * apx + aby * apy + abz * apz;
+  const d2 = acx * apx + acy * apy + acz * apz;
+  if (d1 <= 0 && d2 <= 0) {
+    out[0] = ax; out[1] = ay; out[2] = az;
+    return;
+  }
+
+  const bpx = px - bx, bpy = py - by, bpz = pz - bz;
+  const d3 = abx * bpx + aby * bpy + abz * bpz;
+  const d4 = acx * bpx + acy * bpy + acz * bpz;
+  if (d3 >= 0 && d4 <= d3) {
+    out[0] = bx; out[1] = by; out[2] = bz;
+    return;
+  }
+
+  const vc = d1 * d4 - d3 * d2;
+  if (vc <= 0 && d1 >= 0 && d3 <= 0) {
+    const v = d1 / (d1 - d3);
+    out[0] = ax + v * abx; out[1] = ay + v * aby; out[2] = az + v * abz;
+    return;
+  }
+
+  const cpx = px - cx, cpy = py - cy, cpz = pz - cz;
+  const d5 = abx * cpx + aby * cpy + abz * cpz;
+  const d6 = acx * cpx + acy * cpy + acz * cpz;
+  if (d6 >= 0 && d5 <= d6) {
+    out[0] = cx; out[1] = cy; out[2] = cz;
+    return;
+  }
+
+  const vb = d5 * d2 - d1 * d6;
+  if (vb <= 0 && d2 >= 0 && d6 <= 0) {
+    const w = d2 / (d2 - d6);
+    out[0] = ax + w * acx; out[1] = ay + w * acy; out[2] = az + w * acz;
+    return;
+  }
+
+  const va = d3 * d6 - d5 * d4;
+  if (va <= 0 && d4 - d3 >= 0 && d5 - d6 >= 0) {
+    const w = (d4 - d3) / (d4 - d3 + (d5 - d6));
+    out[0] = bx + w * (cx - bx); out[1] = by + w * (cy - by); out[2] = bz + w * (cz - bz);
+    return;
+  }
+
+  // Inside the face; degenerate triangles (zero area) fall back to vertex a
+  const denom = va + vb + vc;
+  if (denom === 0) {
+    out[0] = ax; out[1] = ay; out[2] = az;
+    return;
+  }
+  const v = vb / denom;
+  const w = vc / denom;
+  out[0] = ax + abx * v + acx * w;
+  out[1] = ay + aby * v + acy * w;
+  out[2] = az + abz * v + acz * w;
+}
+
+// Query scratch buffers (queries are synchronous, so they can be shared)
+const scratchCandidate = new Float64Array(3);
+const scratchBest = new Float64Array(3);
+const scratchStack = new Uint32Array(STACK_SIZE);
+
+/**
+ * Finds the point on the mesh surface nearest to (x, y, z).
+ *
+ * @param maxDistance - Ignore surface farther than this (speeds up bounded queries)
+ * @returns The nearest hit, or null for an empty mesh or nothing within `maxDistance`
+ */
+export function closestPointOnMesh(
+  bvh: TriangleBvh,
+  x: number,
+  y: number,
+  z: number,
+  maxDistance = Infinity
+): ClosestPointHit | null {
+  const { vertices, indices, bounds, offsets, counts, triangles } = bvh;
+  const candidate = scratchCandidate;
+  const best = scratchBest;
+  const stack = scratchStack;
+  let bestDistSq = maxDistance * maxDistance;
+  let bestTriangle = -1;
+
+  let top = 0;
+  if (triangles.length > 0 && boxDistanceSq(bounds, 0, x, y, z) <= bestDistSq) {
+    stack[top++] = 0;
+  }
+
+  while (top > 0) {
+    const node = stack[--top];
+    if (boxDistanceSq(bounds, node, x, y, z) > bestDistSq) {
+      continue;
+    }
+
+    const count = counts[node];
+    if (count > 0) {
+      const start = offsets[node];
+      for (let i = start; i < start + count; i++) {
+        const t = triangles[i];
+        closestPointOnTriangle(vertices, indices[t * 3], indices[t * 3 + 1], indices[t * 3 + 2], x, y, z, candidate);
+        const dx = candidate[0] - x;
+        const dy = candidate[1] - y;
+        const dz = candidate[2] - z;
+        const distSq = dx * dx + dy * dy + dz * dz;
+        if (distSq < bestDistSq || (bestTriangle < 0 && distSq <= bestDistSq)) {
+          bestDistSq = distSq;
+          bestTriangle = t;
+          best.set(candidate);
+        }
+      }
+      continue;
+    }
+
+    // Push the farther child first so the nearer one is visited next
+    const left = offsets[node];
+    const right = left + 1;
+    const leftDist = boxDistanceSq(bounds, left, x, y, z);
+    const rightDist = boxDistanceSq(bounds, right, x, y, z);
+    if (leftDist <= rightDist) {
+      if (rightDist <= bestDistSq) stack[top++] = right;
+      if (leftDist <= bestDistSq) stack[top++] = left;
+    } else {
+      if (leftDist <= bestDistSq) stack[top++] = left;
+      if (rightDist <= bestDistSq) stack[top++] = right;
+    }
+  }
+
+  if (bestTriangle < 0) {
+    return null;
+  }
+  return {
+    distance: Math.sqrt(bestDistSq),
+    triangle: bestTriangle,
+    point: [best[0], best[1], best[2]]
+  };
+}
+
+/**
+ * Ray parameter where the ray enters a node box, or Infinity when it misses
+ * the box within [near, far] (direction given by its inverse per axis)
+ */
+function rayBoxEntry(
+  bounds: Float64Array,
+  node: number,
+  ox: number,
+  oy: number,
+  oz: number,
+  invX: number,
+  invY: number,
+  invZ: number,
+  near: number,
+  far: number
+): number {
+  const b = node * 6;
+  let t1 = (bounds[b] - ox) * invX;
+  let t2 = (bounds[b + 3] - ox) * invX;
+  let tmin = Math.min(t1, t2);
+  let tmax = Math.max(t1, t2);
+  t1 = (bounds[b + 1] - oy) * invY;
+  t2 = (bounds[b + 4] - oy) * invY;
+  tmin = Math.max(tmin, Math.min(t1, t2));
+  tmax = Math.min(tmax, Math.max(t1, t2));
+  t1 = (bounds[b + 2] - oz) * invZ;
+  t2 = (bounds[b + 5] - oz) * invZ;
+  tmin = Math.max(tmin, Math.min(t1, t2));
+  tmax = Math.min(tmax, Math.max(t1, t2));
+  // NaN (origin on a slab plane of a flat box) compares false and keeps the node
+  if (tmax < tmin || tmax < near || tmin > far) {
+    return Infinity;
+  }
+  return Math.max(tmin, near);
+}
+
+/**
+ * Casts a ray against the mesh and returns the nearest accepted hit.
+ *
+ * Möller–Trumbore intersection without back-face culling.
+ *
+ * @param origin - Ray origin
+ * @param direction - Ray direction (need not be normalized)
+ * @param options.near - Ignore hits before this ray parameter (default 0)
+ * @param options.far - Ignore hits beyond this ray parameter (default Infinity)
+ * @param options.accept - Skips hits it rejects (e.g. clipped away), so surface behind them is found
+ * @returns The nearest hit, or null when the ray misses
+ */
+export function raycastMesh(
+  bvh: TriangleBvh,
+  origin: [number, number, number],
+  direction: [number, number, number],
+  options: { near?: number; far?: number; accept?: (hit: RayHit) => boolean } = {}
+): RayHit | null {
+  const { vertices, indices, bounds, offsets, counts, triangles } = bvh;
+  const [ox, oy, oz] = origin;
+  const [dx, dy, dz] = direction;
+  const near = options.near ?? 0;
+  const invX = 1 / dx;
+  const invY = 1 / dy;
+  const invZ = 1 / dz;
+  const stack = scratchStack;
+  let far = options.far ?? Infinity;
+  let best: RayHit | null = null;
+
+  let top = 0;
+  if (triangles.length > 0 && rayBoxEntry(bounds, 0, ox, oy, oz, invX, invY, invZ, near, far) !== Infinity) {
+    stack[top++] = 0;
+  }
+
+  while (top > 0) {
+    const node = stack[--top];
+    if (rayBoxEntry(bounds, node, ox, oy, oz, invX, invY, invZ, near, far) === Infinity) {
+      continue;
+    }
+
+    const count = counts[node];
+    if (count > 0) {
+      const start = offsets[node];
+      for (let i = start; i < start + count; i++) {
+        const t = triangles[i];
+        const ia = indices[t * 3] * 3;
+        const ib = indices[t * 3 + 1] * 3;
+        const ic = indices[t * 3 + 2] * 3;
+        const e1x = vertices[ib] - vertices[ia], e1y = vertices[ib + 1] - vertices[ia + 1], e1z = vertices[ib + 2] - vertices[ia + 2];
+        const e2x = vertices[ic] - vertices[ia], e2y = vertices[ic + 1] - vertices[ia + 1], e2z = vertices[ic + 2] - vertices[ia + 2];
+        const px = dy * e2z - dz * e2y;
+        const py = dz * e2x - dx * e2z;
+        const pz = dx * e2y - dy * e2x;
+        const det = e1x * px + e1y * py + e1z * pz;
+        if (det === 0) continue;
+        const invDet = 1 / det;
+        const sx = ox - vertices[ia], sy = oy - vertices[ia + 1], sz = oz - vertices[ia + 2];
+        const u = (sx * px + sy * py + sz * pz) * invDet;
+        if (u < 0 || u > 1) continue;
+        const qx = sy * e1z - sz * e1y;
+        const qy = sz * e1x - sx * e1z;
+        const qz = sx * e1y - sy * e1x;
+        const v = (dx * qx + dy * qy + dz * qz) * invDet;
+        if (v < 0 || u + v > 1) continue;
+        const distance = (e2x * qx + e2y * qy + e2z * qz) * invDet;
+        if (distance < near || distance > far) continue;
+
+        const hit: RayHit = {
+          distance,
+          triangle: t,
+          point: [ox + dx * distance, oy + dy * distance, oz + dz * distance],
+          u,
+          v
+        };
+        if (options.accept && !options.accept(hit)) continue;
+        best = hit;
+        far = distance;
+      }
+      continue;
+    }
+
+    // Push the farther child first so the nearer one is visited next
+    const left = offsets[node];
+    const right = left + 1;
+    const leftEntry = rayBoxEntry(bounds, left, ox, oy, oz, invX, invY, invZ, near, far);
+    const rightEntry = rayBoxEntry(bounds, right, ox, oy, oz, invX, invY, invZ, near, far);
+    if (leftEntry <= rightEntry) {
+      if (rightEntry !== Infinity) stack[top++] = right;
+      if (leftEntry !== Infinity) stack[top++] = left;
+    } else {
+      if (leftEntry !== Infinity) stack[top++] = left;
+      if (rightEntry !== Infinity) stack[top++] = right;
+    }
+  }
+
+  return best;
+}
+
+/** Sorted copy of collected triangle ids (leaf order is spatial, not by id) */
+function sortedIds(ids: number[]): Uint32Array {
+  return Uint32Array.from(ids).sort();
+}
+
+/**
+ * Triangles that intersect or lie within `tolerance` of a plane.
+ *
+ * The plane is the set of points p with `normal · p + constant = 0` (three.js
+ * `Plane` convention); `normal` need not be normalized, `tolerance` is in the
+ * plane's distance units (length × |normal|).
+ *
+ * @returns Triangle ids in ascending order
+ */
+export function trianglesNearPlane(
+  bvh: TriangleBvh,
+  normal: [number, number, number],
+  constant: number,
+  tolerance = 0
+): Uint32Array {
+  const { vertices, indices, bounds, offsets, counts, triangles } = bvh;
+  const [nx, ny, nz] = normal;
+  const ax = Math.abs(nx), ay = Math.abs(ny), az = Math.abs(nz);
+  const stack = scratchStack;
+  const found: number[] = [];
+
+  let top = 0;
+  if (triangles.length > 0) {
+    stack[top++] = 0;
+  }
+
+  while (top > 0) {
+    const node = stack[--top];
+    // Signed distance of the box center against the projected half extent
+    const b = node * 6;
+    const center = nx * (bounds[b] + bounds[b + 3]) / 2 + ny * (bounds[b + 1] + bounds[b + 4]) / 2 + nz * (bounds[b + 2] + bounds[b + 5]) / 2;
+    const radius = (ax * (bounds[b + 3] - bounds[b]) + ay * (bounds[b + 4] - bounds[b + 1]) + az * (bounds[b + 5] - bounds[b + 2])) / 2;
+    if (Math.abs(center + constant) > radius + tolerance) {
+      continue;
+    }
+
+    const count = counts[node];
+    if (count > 0) {
+      const start = offsets[node];
+      for (let i = start; i < start + count; i++) {
+        const t = triangles[i];
+        let min = Infinity;
+        let max = -Infinity;
+        for (let corner = 0; corner < 3; corner++) {
+          const o = indices[t * 3 + corner] * 3;
+          const d = nx * vertices[o] + ny * vertices[o + 1] + nz * vertices[o + 2] + constant;
+          if (d < min) min = d;
+          if (d > max) max = d;
+        }
+        if (min <= tolerance && max >= -tolerance) {
+          found.push(t);
+        }
+      }
+      continue;
+    }
+
+    stack[top++] = offsets[node];
+    stack[top++] = offsets[node] + 1;
+  }
+
+  return sortedIds(found);
+}
+
+/**
+ * Whether triangle (a, b, c) overlaps the box, by the separating axis test
+ * (box axes, triangle normal and the nine edge × axis cross products).
+ * Corners are given relative to the box center.
+ */
+function triangleOverlapsBox(v: Float64Array, hx: number, hy: number, hz: number): boolean {
+  const [ax, ay, az, bx, by, bz, cx, cy, cz] = v;
+
+  // Box axes
+  if (Math.min(ax, bx, cx) > hx || Math.max(ax, bx, cx) < -hx) return false;
+  if (Math.min(ay, by, cy) > hy || Math.max(ay, by, cy) < -hy) return false;
+  if (Math.min(az, bz, cz) > hz || Math.max(az, bz, cz) < -hz) return false;
+
+  const edges = [
+    [bx - ax, by - ay, bz - az],
+    [cx - bx, cy - by, cz - bz],
+    [ax - cx, ay - cy, az - cz]
+  ];
+
+  // Triangle normal
+  const [e0, e1] = edges;
+  const nx = e0[1] * e1[2] - e0[2] * e1[1];
+  const ny = e0[2] * e1[0] - e0[0] * e1[2];
+  const nz = e0[0] * e1[1] - e0[1] * e1[0];
+  const planeDistance = nx * ax + ny * ay + nz * az;
+  if (Math.abs(planeDistance) > hx * Math.abs(nx) + hy * Math.abs(ny) + hz * Math.abs(nz)) return false;
+
+  // Edge × box axis
+  for (const [ex, ey, ez] of edges) {
+    const axes = [
+      [0, -ez, ey],
+      [ez, 0, -ex],
+      [-ey, ex, 0]
+    ];
+    for (const [px, py, pz] of axes) {
+      const pa = px * ax + py * ay + pz * az;
+      const pb = px * bx + py * by + pz * bz;
+      const pc = px * cx + py * cy + pz * cz;
+      const r = hx * Math.abs(px) + hy * Math.abs(py) + hz * Math.abs(pz);
+      if (Math.min(pa, pb, pc) > r || Math.max(pa, pb, pc) < -r) return false;
+    }
+  }
+  return true;
+}
+
+const scratchCorners = new Float64Array(9);
+
+/**
+ * Triangles that intersect an axis-aligned box (boundary included).
+ *
+ * @param min - Box minimum corner
+ * @param max - Box maximum corner
+ * @returns Triangle ids in ascending order
+ */
+export function trianglesInBox(
+  bvh: TriangleBvh,
+  min: [number, number, number],
+  max: [number, number, number]
+): Uint32Array {
+  const { vertices, indices, bounds, offsets, counts, triangles } = bvh;
+  const [minX, minY, minZ] = min;
+  const [maxX, maxY, maxZ] = max;
+  const centerX = (minX + maxX) / 2, centerY = (minY + maxY) / 2, centerZ = (minZ + maxZ) / 2;
+  const halfX = (maxX - minX) / 2, halfY = (maxY - minY) / 2, halfZ = (maxZ - minZ) / 2;
+  const corners = scratchCorners;
+  const stack = scratchStack;
+  const found: number[] = [];
+
+  let top = 0;
+  if (triangles.length > 0 && halfX >= 0 && halfY >= 0 && halfZ >= 0) {
+    stack[top++] = 0;
+  }
+
+  while (top > 0) {
+    const node = stack[--top];
+    const b = node * 6;
+    if (
+      bounds[b] > maxX || bounds[b + 3] < minX ||
+      bounds[b + 1] > maxY || bounds[b + 4] < minY ||
+      bounds[b + 2] > maxZ || bounds[b + 5] < minZ
+    ) {
+      continue;
+    }
+
+    const count = counts[node];
+    if (count > 0) {
+      const start = offsets[node];
+      for (let i = start; i < start + count; i++) {
+        const t = triangles[i];
+        for (let corner = 0; corner < 3; corner++) {
+          const o = indices[t * 3 + corner] * 3;
+          corners[corner * 3] = vertices[o] - centerX;
+          corners[corner * 3 + 1] = vertices[o + 1] - centerY;
+          corners[corner * 3 + 2] = vertices[o + 2] - centerZ;
+        }
+        if (triangleOverlapsBox(corners, halfX, halfY, halfZ)) {
+          found.push(t);
+        }
+      }
+      continue;
+    }
+
+    stack[top++] = offsets[node];
+    stack[top++] = offsets[node] + 1;
+  }
+
+  return sortedIds(found);
+}
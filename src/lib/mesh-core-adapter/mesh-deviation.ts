@@ -0,0 +1,157 @@
+/**
+ * @file mesh-deviation.ts
+ * @description Geometric deviation between two meshes (Hausdorff distance)
+ *
+ * - Every vertex of one mesh is projected onto the nearest surface point of
+ *   the other (triangle BVH), in both directions
+ * - Per-direction min / max / mean / RMS of those distances, the one-sided
+ *   Hausdorff distances (the maxima) and the symmetric one (the larger maximum)
+ * - Distances are sampled at vertices, so the Hausdorff values are lower bounds
+ *   that converge as the meshes get denser
+ */
+
+import { buildTriangleBvh, closestPointOnMesh } from './mesh-bvh';
+
+/**
+ * Mesh geometry compared by `computeMeshDeviation`
+ */
+export interface DeviationMesh {
+  vertexView: Float64Array;
+  indexView: Uint32Array;
+}
+
+/**
+ * Distance statistics of one direction
+ */
+export interface DeviationStats {
+  min: number;
+  max: number;
+  mean: number;
+  /** Root mean square */
+  rms: number;
+}
+
+export interface MeshDeviationResult {
+  /** Distance from each vertex of A to the surface of B (heatmap values for A) */
+  distances: Float32Array;
+  /** Vertices of A against the surface of B */
+  aToB: DeviationStats;
+  /** Vertices of B against the surface of A */
+  bToA: DeviationStats;
+  hausdorff: {
+    /** One-sided: max over A of the distance to B */
+    aToB: number;
+    /** One-sided: max over B of the distance to A */
+    bToA: number;
+    /** Symmetric: max(aToB, bToA) */
+    symmetric: number;
+  };
+}
+
+/**
+ * Heatmap colors from zero deviation (first) to the legend maximum (last), evenly spaced
+ */
+export const DEVIATION_COLOR_STOPS = ['#2c7bb6', '#abd9e9', '#ffffbf', '#fdae61', '#d7191c'] as const;
+
+/**
+ * Applies a 4x4 column-major matrix (e.g. three.js `Matrix4.elements`) to vertex positions.
+ *
+ * @returns Transformed copy of `vertices`
+ */
+export function transformVertices(vertices: Float64Array, matrix: ArrayLike<number>): Float64Array {
+  const out = new Float64Array(vertices.length);
+  const m = matrix;
+  for (let i = 0; i < vertices.length; i += 3) {
+    const x = vertices[i];
+    const y = vertices[i + 1];
+    const z = vertices[i + 2];
+    const w = m[3] * x + m[7] * y + m[11] * z + m[15] || 1;
+    out[i] = (m[0] * x + m[4] * y + m[8] * z + m[12]) / w;
+    out[i + 1] = (m[1] * x + m[5] * y + m[9] * z + m[13]) / w;
+    out[i + 2] = (m[2] * x + m[6] * y + m[10] * z + m[14]) / w;
+  }
+  return out;
+}
+
+/** Distance from every vertex of `source` to the surface of `target` */
+function vertexDistances(source: DeviationMesh, target: DeviationMesh): Float32Array {
+  const bvh = buildTriangleBvh(target.vertexView, target.indexView);
+  const vertices = source.vertexView;
+  const distances = new Float32Array(Math.floor(vertices.length / 3));
+  for (let v = 0; v < distances.length; v++) {
+    const hit = closestPointOnMesh(bvh, vertices[v * 3], vertices[v * 3 + 1], vertices[v * 3 + 2]);
+    distances[v] = hit ? hit.distance : Infinity;
+  }
+  return distances;
+}
+
+function summarize(distances: Float32Array): DeviationStats {
+  if (distances.length === 0) {
+    return { min: 0, max: 0, mean: 0, rms: 0 };
+  }
+  let min = Infinity;
+  let max = 0;
+  let sum = 0;
+  let sumSq = 0;
+  for (let i = 0; i < distances.length; i++) {
+    const d = distances[i];
+    if (d < min) min = d;
+    if (d > max) max = d;
+    sum += d;
+    sumSq += d * d;
+  }
+  return {
+    min,
+    max,
+    mean: sum / distances.length,
+    rms: Math.sqrt(sumSq / distances.length)
+  };
+}
+
+/**
+ * Compares two meshes given in a common coordinate frame.
+ *
+ * Distances are unsigned. A mesh without triangles yields infinite distances
+ * for the vertices measured against it.
+ *
+ * @param a - Mesh whose vertices get per-vertex distances (heatmap mesh)
+ * @param b - Reference mesh
+ */
+export function computeMeshDeviation(a: DeviationMesh, b: DeviationMesh): MeshDeviationResult {
+  const distances = vertexDistances(a, b);
+  const aToB = summarize(distances);
+  const bToA = summarize(vertexDistances(b, a));
+
+  return {
+    distances,
+    aToB,
+    bToA,
+    hausdorff: {
+      aToB: aToB.max,
+      bToA: bToA.max,
+      symmetric: Math.max(aToB.max, bToA.max)
+    }
+  };
+}
+
+/**
+ * Heatmap color of a deviation, interpolated between `DEVIATION_COLOR_STOPS`.
+ *
+ * @param distance - Deviation (clamped to [0, maxDistance])
+ * @param maxDistance - Deviation shown with the last color
+ * @returns sRGB components in [0, 1]
+ */
+export function deviationColor(distance: number, maxDistance: number): [number, number, number] {
+  const t = maxDistance > 0 ? Math.min(Math.max(distance / maxDistance, 0), 1) : 0;
+  const scaled = t * (DEVIATION_COLOR_STOPS.length - 1);
+  const index = Math.min(Math.floor(scaled), DEVIATION_COLOR_STOPS.length - 2);
+  const f = scaled - index;
+  const from = parseInt(DEVIATION_COLOR_STOPS[index].slice(1), 16);
+  const to = parseInt(DEVIATION_COLOR_STOPS[index + 1].slice(1), 16);
+  const mix = (shift: number) => {
+    const start = ((from >> shift) & 0xff) / 255;
+    const end = ((to >> shift) & 0xff) / 255;
+    return start + (end - start) * f;
+  };
+  return [mix(16), mix(8), mix(0)];
+}
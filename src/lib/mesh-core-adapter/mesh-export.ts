@@ -0,0 +1,400 @@
+/**
+ * @file mesh-export.ts
+ * @description Serializes mesh buffers to STL, OBJ, PLY and GLB files
+ *
+ * - Positions are written as stored: text formats with round-trip precision,
+ *   binary formats as float32 (their usual coordinate type)
+ * - Normals, colors and UVs are written where the format has a place for them:
+ *   STL carries only per-facet normals (recomputed from the geometry), OBJ
+ *   colors use the `v x y z r g b` extension, PLY colors are uchar channels
+ * - GLB texture coordinates are flipped to glTF's top-left origin (v → 1 - v)
+ * - Material groups, textures and the scene placement are not exported
+ */
+
+import { GLB_MAGIC } from './gltf-parser';
+
+/**
+ * Mesh geometry written by the serializers
+ */
+export interface ExportMesh {
+  vertexView: Float64Array;
+  indexView: Uint32Array;
+  normalView?: Float32Array;
+  colorView?: Float32Array;
+  uvView?: Float32Array;
+}
+
+/**
+ * File formats meshes can be exported to
+ */
+export type MeshExportFormat = 'stl_binary' | 'stl_ascii' | 'obj' | 'ply_binary' | 'ply_ascii' | 'glb';
+
+/**
+ * File extension and MIME type per export format
+ */
+export const MESH_EXPORT_FILE_TYPES: Record<MeshExportFormat, { extension: string; mimeType: string }> = {
+  stl_binary: { extension: 'stl', mimeType: 'model/stl' },
+  stl_ascii: { extension: 'stl', mimeType: 'model/stl' },
+  obj: { extension: 'obj', mimeType: 'model/obj' },
+  ply_binary: { extension: 'ply', mimeType: 'application/octet-stream' },
+  ply_ascii: { extension: 'ply', mimeType: 'text/plain' },
+  glb: { extension: 'glb', mimeType: 'model/gltf-binary' }
+};
+
+/** Name written into file headers */
+const GENERATOR = 'MeshFoundry';
+
+/** Shortest text that parses back to the same double */
+const num = (value: number): string => String(value);
+
+function encodeLines(lines: string[]): ArrayBuffer {
+  return new TextEncoder().encode(lines.join('\n') + '\n').buffer as ArrayBuffer;
+}
+
+/** Keeps names on one line and free of whitespace (STL `solid` names, OBJ objects) */
+function headerName(name: string): string {
+  return name.replace(/\s+/g, '_') || 'mesh';
+}
+
+/** Unit facet normal of triangle `t` (zero for degenerate triangles) */
+function facetNormal(mesh: ExportMesh, t: number, out: Float64Array): void {
+  const { vertexView: v, indexView: idx } = mesh;
+  const a = idx[t * 3] * 3;
+  const b = idx[t * 3 + 1] * 3;
+  const c = idx[t * 3 + 2] * 3;
+  const e1x = v[b] - v[a], e1y = v[b + 1] - v[a + 1], e1z = v[b + 2] - v[a + 2];
+  const e2x = v[c] - v[a], e2y = v[c + 1] - v[a + 1], e2z = v[c + 2] - v[a + 2];
+  const nx = e1y * e2z - e1z * e2y;
+  const ny = e1z * e2x - e1x * e2z;
+  const nz = e1x * e2y - e1y * e2x;
+  const length = Math.hypot(nx, ny, nz);
+  const scale = length > 0 && Number.isFinite(length) ? 1 / length : 0;
+  out[0] = nx * scale;
+  out[1] = ny * scale;
+  out[2] = nz * scale;
+}
+
+// ============================================================================
+// STL
+// ============================================================================
+
+/**
+ * Binary STL: 80-byte header, triangle count, then 50 bytes per triangle
+ * (facet normal, three corners, attribute byte count).
+ */
+export function serializeStlBinary(mesh: ExportMesh): ArrayBuffer {
+  const { vertexView, indexView } = mesh;
+  const triangleCount = Math.floor(indexView.length / 3);
+  const buffer = new ArrayBuffer(84 + triangleCount * 50);
+  const view = new DataView(buffer);
+
+  // The header must not start with "solid" (ASCII STL detection)
+  const header = new TextEncoder().encode(`${GENERATOR} binary STL`);
+  new Uint8Array(buffer, 0, 80).set(header.subarray(0, 80));
+  view.setUint32(80, triangleCount, true);
+
+  const normal = new Float64Array(3);
+  let offset = 84;
+  for (let t = 0; t < triangleCount; t++) {
+    facetNormal(mesh, t, normal);
+    view.setFloat32(offset, normal[0], true);
+    view.setFloat32(offset + 4, normal[1], true);
+    view.setFloat32(offset + 8, normal[2], true);
+    offset += 12;
+    for (let corner = 0; corner < 3; corner++) {
+      const o = indexView[t * 3 + corner] * 3;
+      view.setFloat32(offset, vertexView[o], true);
+      view.setFloat32(offset + 4, vertexView[o + 1], true);
+      view.setFloat32(offset + 8, vertexView[o + 2], true);
+      offset += 12;
+    }
+    view.setUint16(offset, 0, true);
+    offset += 2;
+  }
+  return buffer;
+}
+
+/**
+ * ASCII STL (`solid` / `facet normal` / `outer loop` records).
+ */
+export function serializeStlAscii(mesh: ExportMesh, name = 'mesh'): ArrayBuffer {
+  const { vertexView, indexView } = mesh;
+  const triangleCount = Math.floor(indexView.length / 3);
+  const solid = headerName(name);
+  const lines = [`solid ${solid}`];
+
+  const normal = new Float64Array(3);
+  for (let t = 0; t < triangleCount; t++) {
+    facetNormal(mesh, t, normal);
+    lines.push(`  facet normal ${num(normal[0])} ${num(normal[1])} ${num(normal[2])}`, '    outer loop');
+    for (let corner = 0; corner < 3; corner++) {
+      const o = indexView[t * 3 + corner] * 3;
+      lines.push(`      vertex ${num(vertexView[o])} ${num(vertexView[o + 1])} ${num(vertexView[o + 2])}`);
+    }
+    lines.push('    endloop', '  endfacet');
+  }
+  lines.push(`endsolid ${solid}`);
+  return encodeLines(lines);
+}
+
+// ============================================================================
+// OBJ
+// ============================================================================
+
+/**
+ * Wavefront OBJ with one `vt` / `vn` per vertex (face corners reference the
+ * same index for position, UV and normal).
+ */
+export function serializeObj(mesh: ExportMesh, name = 'mesh'): ArrayBuffer {
+  const { vertexView, indexView, normalView, colorView, uvView } = mesh;
+  const vertexCount = Math.floor(vertexView.length / 3);
+  const lines = [`# ${GENERATOR} OBJ export`, `# ${vertexCount} vertices, ${Math.floor(indexView.length / 3)} faces`, `o ${headerName(name)}`];
+
+  for (let i = 0; i < vertexCount; i++) {
+    const position = `v ${num(vertexView[i * 3])} ${num(vertexView[i * 3 + 1])} ${num(vertexView[i * 3 + 2])}`;
+    lines.push(
+      colorView ? `${position} ${num(colorView[i * 3])} ${num(colorView[i * 3 + 1])} ${num(colorView[i * 3 + 2])}` : position
+    );
+  }
+  if (uvView) {
+    for (let i = 0; i < vertexCount; i++) {
+      lines.push(`vt ${num(uvView[i * 2])} ${num(uvView[i * 2 + 1])}`);
+    }
+  }
+  if (normalView) {
+    for (let i = 0; i < vertexCount; i++) {
+      lines.push(`vn ${num(normalView[i * 3])} ${num(normalView[i * 3 + 1])} ${num(normalView[i * 3 + 2])}`);
+    }
+  }
+
+  const corner = uvView && normalView
+    ? (i: number) => `${i}/${i}/${i}`
+    : uvView
+      ? (i: number) => `${i}/${i}`
+      : normalView
+        ? (i: number) => `${i}//${i}`
+        : (i: number) => `${i}`;
+  for (let f = 0; f + 2 < indexView.length; f += 3) {
+    lines.push(`f ${corner(indexView[f] + 1)} ${corner(indexView[f + 1] + 1)} ${corner(indexView[f + 2] + 1)}`);
+  }
+  return encodeLines(lines);
+}
+
+// ============================================================================
+// PLY
+// ============================================================================
+
+function plyHeader(mesh: ExportMesh, format: 'ascii' | 'binary_little_endian'): string[] {
+  const { vertexView, indexView, normalView, colorView, uvView } = mesh;
+  return [
+    'ply',
+    `format ${format} 1.0`,
+    `comment ${GENERATOR} PLY export`,
+    `element vertex ${Math.floor(vertexView.length / 3)}`,
+    'property float x',
+    'property float y',
+    'property float z',
+    ...(normalView ? ['property float nx', 'property float ny', 'property float nz'] : []),
+    ...(colorView ? ['property uchar red', 'property uchar green', 'property uchar blue'] : []),
+    ...(uvView ? ['property float s', 'property float t'] : []),
+    `element face ${Math.floor(indexView.length / 3)}`,
+    'property list uchar int vertex_indices',
+    'end_header'
+  ];
+}
+
+/** 0..1 color channel as a uchar */
+const toByte = (value: number): number => Math.round(Math.min(1, Math.max(0, value)) * 255);
+
+/**
+ * ASCII PLY (positions, then normals, colors and UVs where present).
+ */
+export function serializePlyAscii(mesh: ExportMesh): ArrayBuffer {
+  const { vertexView, indexView, normalView, colorView, uvView } = mesh;
+  const vertexCount = Math.floor(vertexView.length / 3);
+  const lines = plyHeader(mesh, 'ascii');
+
+  for (let i = 0; i < vertexCount; i++) {
+    const values = [num(vertexView[i * 3]), num(vertexView[i * 3 + 1]), num(vertexView[i * 3 + 2])];
+    if (normalView) values.push(num(normalView[i * 3]), num(normalView[i * 3 + 1]), num(normalView[i * 3 + 2]));
+    if (colorView) values.push(String(toByte(colorView[i * 3])), String(toByte(colorView[i * 3 + 1])), String(toByte(colorView[i * 3 + 2])));
+    if (uvView) values.push(num(uvView[i * 2]), num(uvView[i * 2 + 1]));
+    lines.push(values.join(' '));
+  }
+  for (let f = 0; f + 2 < indexView.length; f += 3) {
+    lines.push(`3 ${indexView[f]} ${indexView[f + 1]} ${indexView[f + 2]}`);
+  }
+  return encodeLines(lines);
+}
+
+/**
+ * Little-endian binary PLY with the same properties as the ASCII variant.
+ */
+export function serializePlyBinary(mesh: ExportMesh): ArrayBuffer {
+  const { vertexView, indexView, normalView, colorView, uvView } = mesh;
+  const vertexCount = Math.floor(vertexView.length / 3);
+  const faceCount = Math.floor(indexView.length / 3);
+  const header = new TextEncoder().encode(plyHeader(mesh, 'binary_little_endian').join('\n') + '\n');
+  const stride = 12 + (normalView ? 12 : 0) + (colorView ? 3 : 0) + (uvView ? 8 : 0);
+
+  const buffer = new ArrayBuffer(header.length + vertexCount * stride + faceCount * 13);
+  new Uint8Array(buffer).set(header);
+  const view = new DataView(buffer);
+  let offset = header.length;
+  for (let i = 0; i < vertexCount; i++) {
+    for (let axis = 0; axis < 3; axis++, offset += 4) {
+      view.setFloat32(offset, vertexView[i * 3 + axis], true);
+    }
+    if (normalView) {
+      for (let axis = 0; axis < 3; axis++, offset += 4) {
+        view.setFloat32(offset, normalView[i * 3 + axis], true);
+      }
+    }
+    if (colorView) {
+      for (let channel = 0; channel < 3; channel++, offset++) {
+        view.setUint8(offset, toByte(colorView[i * 3 + channel]));
+      }
+    }
+    if (uvView) {
+      view.setFloat32(offset, uvView[i * 2], true);
+      view.setFloat32(offset + 4, uvView[i * 2 + 1], true);
+      offset += 8;
+    }
+  }
+  for (let f = 0; f < faceCount; f++) {
+    view.setUint8(offset, 3);
+    view.setInt32(offset + 1, indexView[f * 3], true);
+    view.setInt32(offset + 5, indexView[f * 3 + 1], true);
+    view.setInt32(offset + 9, indexView[f * 3 + 2], true);
+    offset += 13;
+  }
+  return buffer;
+}
+
+// ============================================================================
+// GLB
+// ============================================================================
+
+const GLB_CHUNK_JSON = 0x4e4f534a;
+const GLB_CHUNK_BIN = 0x004e4942;
+const FLOAT = 5126;
+const UNSIGNED_INT = 5125;
+const ARRAY_BUFFER = 34962;
+const ELEMENT_ARRAY_BUFFER = 34963;
+
+const align4 = (n: number): number => (n + 3) & ~3;
+
+/**
+ * glTF 2.0 binary container with one mesh node (POSITION, NORMAL,
+ * TEXCOORD_0, COLOR_0 and uint32 indices in a single BIN chunk).
+ */
+export function serializeGlb(mesh: ExportMesh, name = 'mesh'): ArrayBuffer {
+  const { vertexView, indexView, normalView, colorView, uvView } = mesh;
+  const vertexCount = Math.floor(vertexView.length / 3);
+  const indexCount = Math.floor(indexView.length / 3) * 3;
+
+  // Positions as float32, with the min/max glTF requires for POSITION
+  const positions = new Float32Array(vertexCount * 3);
+  positions.set(vertexView.subarray(0, vertexCount * 3));
+  const min = [Infinity, Infinity, Infinity];
+  const max = [-Infinity, -Infinity, -Infinity];
+  for (let i = 0; i < positions.length; i++) {
+    const axis = i % 3;
+    min[axis] = Math.min(min[axis], positions[i]);
+    max[axis] = Math.max(max[axis], positions[i]);
+  }
+
+  let uvs: Float32Array | undefined;
+  if (uvView) {
+    uvs = uvView.slice(0, vertexCount * 2);
+    for (let i = 1; i < uvs.length; i += 2) {
+      uvs[i] = 1 - uvs[i];
+    }
+  }
+
+  const attributes: Record<string, number> = {};
+  const accessors: object[] = [];
+  const bufferViews: object[] = [];
+  const parts: Uint8Array[] = [];
+  let byteLength = 0;
+  const addView = (data: Float32Array | Uint32Array, target: number): number => {
+    bufferViews.push({ buffer: 0, byteOffset: byteLength, byteLength: data.byteLength, target });
+    parts.push(new Uint8Array(data.buffer, data.byteOffset, data.byteLength));
+    byteLength += align4(data.byteLength);
+    return bufferViews.length - 1;
+  };
+  const addAttribute = (semantic: string, data: Float32Array, type: 'VEC2' | 'VEC3', bounds?: object): void => {
+    const bufferView = addView(data, ARRAY_BUFFER);
+    accessors.push({ bufferView, componentType: FLOAT, count: vertexCount, type, ...bounds });
+    attributes[semantic] = accessors.length - 1;
+  };
+
+  addAttribute('POSITION', positions, 'VEC3', vertexCount > 0 ? { min, max } : undefined);
+  if (normalView) addAttribute('NORMAL', normalView.subarray(0, vertexCount * 3), 'VEC3');
+  if (uvs) addAttribute('TEXCOORD_0', uvs, 'VEC2');
+  if (colorView) addAttribute('COLOR_0', colorView.subarray(0, vertexCount * 3), 'VEC3');
+  const indicesView = addView(indexView.subarray(0, indexCount), ELEMENT_ARRAY_BUFFER);
+  accessors.push({ bufferView: indicesView, componentType: UNSIGNED_INT, count: indexCount, type: 'SCALAR' });
+
+  const json = {
+    asset: { version: '2.0', generator: GENERATOR },
+    scene: 0,
+    scenes: [{ nodes: [0] }],
+    nodes: [{ mesh: 0, name }],
+    meshes: [{ name, primitives: [{ attributes, indices: accessors.length - 1, mode: 4 }] }],
+    accessors,
+    bufferViews,
+    buffers: [{ byteLength }]
+  };
+
+  // JSON chunk padded with spaces, BIN chunk with zeros
+  const jsonBytes = new TextEncoder().encode(JSON.stringify(json));
+  const jsonLength = align4(jsonBytes.length);
+  const total = 12 + 8 + jsonLength + 8 + byteLength;
+  const buffer = new ArrayBuffer(total);
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+  view.setUint32(0, GLB_MAGIC, true);
+  view.setUint32(4, 2, true);
+  view.setUint32(8, total, true);
+  view.setUint32(12, jsonLength, true);
+  view.setUint32(16, GLB_CHUNK_JSON, true);
+  bytes.set(jsonBytes, 20);
+  bytes.fill(0x20, 20 + jsonBytes.length, 20 + jsonLength);
+  const binStart = 20 + jsonLength;
+  view.setUint32(binStart, byteLength, true);
+  view.setUint32(binStart + 4, GLB_CHUNK_BIN, true);
+  let offset = binStart + 8;
+  for (const part of parts) {
+    bytes.set(part, offset);
+    offset += align4(part.byteLength);
+  }
+  return buffer;
+}
+
+// ============================================================================
+// Dispatch
+// ============================================================================
+
+/**
+ * Serializes a mesh to one of the export formats.
+ *
+ * @param name - Mesh name written into the file where the format has one (STL, OBJ, GLB)
+ * @returns File contents
+ */
+export function exportMesh(mesh: ExportMesh, format: MeshExportFormat, name = 'mesh'): ArrayBuffer {
+  switch (format) {
+    case 'stl_binary':
+      return serializeStlBinary(mesh);
+    case 'stl_ascii':
+      return serializeStlAscii(mesh, name);
+    case 'obj':
+      return serializeObj(mesh, name);
+    case 'ply_binary':
+      return serializePlyBinary(mesh);
+    case 'ply_ascii':
+      return serializePlyAscii(mesh);
+    case 'glb':
+      return serializeGlb(mesh, name);
+  }
+}
@@ -0,0 +1,193 @@
+/**
+ * @file mesh-inspect.ts
+ * @description Details of single picked faces and vertices
+ *
+ * - Neighbors are found by exact corner position (like the topology weld), so
+ *   unindexed meshes (STL) report the faces they visually touch
+ * - Each query scans the whole index buffer once; it runs per click, not per frame
+ * - Out-of-range indices (files rejected or repaired by validation) show up as
+ *   non-finite coordinates instead of throwing
+ */
+
+/**
+ * Mesh geometry inspected by `inspectFace` / `inspectVertex`
+ */
+export interface InspectMesh {
+  vertexView: Float64Array;
+  indexView: Uint32Array;
+  normalView?: Float32Array;
+  colorView?: Float32Array;
+  uvView?: Float32Array;
+}
+
+type Vec3 = [number, number, number];
+
+/**
+ * Picked triangle
+ */
+export interface FaceInspection {
+  face: number;
+  /** Corner vertex indices */
+  vertices: [number, number, number];
+  /** Corner positions */
+  positions: [Vec3, Vec3, Vec3];
+  /** Unit geometric normal (right-handed winding); zero for degenerate faces */
+  normal: Vec3;
+  area: number;
+  /** Faces sharing an edge (two corner positions), ascending */
+  adjacentFaces: number[];
+}
+
+/**
+ * Picked vertex
+ */
+export interface VertexInspection {
+  vertex: number;
+  position: Vec3;
+  /** Stored normal, or the area-weighted normal of the surrounding faces */
+  normal: Vec3;
+  normalSource: 'stored' | 'computed';
+  uv?: [number, number];
+  color?: Vec3;
+  /** Faces with a corner at this position, ascending */
+  faces: number[];
+  /** Other vertices at the same position (split seams, unindexed formats) */
+  coincidentVertices: number[];
+}
+
+function position(vertexView: Float64Array, vertex: number): Vec3 {
+  const o = vertex * 3;
+  // Out-of-range reads are undefined; report them as NaN
+  return [vertexView[o] ?? NaN, vertexView[o + 1] ?? NaN, vertexView[o + 2] ?? NaN];
+}
+
+function samePosition(vertexView: Float64Array, vertex: number, p: Vec3): boolean {
+  const o = vertex * 3;
+  return vertexView[o] === p[0] && vertexView[o + 1] === p[1] && vertexView[o + 2] === p[2];
+}
+
+/** Area-weighted normal (cross product of the edges, length = 2 × area) */
+function faceCross(a: Vec3, b: Vec3, c: Vec3): Vec3 {
+  const e1 = [b[0] - a[0], b[1] - a[1], b[2] - a[2]];
+  const e2 = [c[0] - a[0], c[1] - a[1], c[2] - a[2]];
+  return [e1[1] * e2[2] - e1[2] * e2[1], e1[2] * e2[0] - e1[0] * e2[2], e1[0] * e2[1] - e1[1] * e2[0]];
+}
+
+function normalize(v: Vec3): Vec3 {
+  const length = Math.hypot(v[0], v[1], v[2]);
+  return length > 0 && Number.isFinite(length) ? [v[0] / length, v[1] / length, v[2] / length] : [0, 0, 0];
+}
+
+/**
+ * Details of one triangle.
+ *
+ * @returns null when `face` is not a triangle of the mesh
+ */
+export function inspectFace(mesh: InspectMesh, face: number): FaceInspection | null {
+  const { vertexView, indexView } = mesh;
+  const faceCount = Math.floor(indexView.length / 3);
+  if (!Number.isInteger(face) || face < 0 || face >= faceCount) {
+    return null;
+  }
+
+  const vertices: [number, number, number] = [indexView[face * 3], indexView[face * 3 + 1], indexView[face * 3 + 2]];
+  const positions = vertices.map((vertex) => position(vertexView, vertex)) as [Vec3, Vec3, Vec3];
+  const cross = faceCross(...positions);
+
+  const adjacentFaces: number[] = [];
+  for (let f = 0; f < faceCount; f++) {
+    if (f === face) continue;
+    let shared = 0;
+    for (const p of positions) {
+      if (
+        samePosition(vertexView, indexView[f * 3], p) ||
+        samePosition(vertexView, indexView[f * 3 + 1], p) ||
+        samePosition(vertexView, indexView[f * 3 + 2], p)
+      ) {
+        shared++;
+      }
+    }
+    if (shared >= 2) {
+      adjacentFaces.push(f);
+    }
+  }
+
+  return {
+    face,
+    vertices,
+    positions,
+    normal: normalize(cross),
+    area: Math.hypot(cross[0], cross[1], cross[2]) / 2,
+    adjacentFaces
+  };
+}
+
+/**
+ * Details of one vertex.
+ *
+ * @returns null when `vertex` is not a vertex of the mesh
+ */
+export function inspectVertex(mesh: InspectMesh, vertex: number): VertexInspection | null {
+  const { vertexView, indexView, normalView, colorView, uvView } = mesh;
+  const vertexCount = Math.floor(vertexView.length / 3);
+  if (!Number.isInteger(vertex) || vertex < 0 || vertex >= vertexCount) {
+    return null;
+  }
+
+  const p = position(vertexView, vertex);
+  const faces: number[] = [];
+  const summed: Vec3 = [0, 0, 0];
+  for (let f = 0; f < indexView.length / 3; f++) {
+    const a = indexView[f * 3];
+    const b = indexView[f * 3 + 1];
+    const c = indexView[f * 3 + 2];
+    if (samePosition(vertexView, a, p) || samePosition(vertexView, b, p) || samePosition(vertexView, c, p)) {
+      faces.push(f);
+      const cross = faceCross(position(vertexView, a), position(vertexView, b), position(vertexView, c));
+      summed[0] += cross[0];
+      summed[1] += cross[1];
+      summed[2] += cross[2];
+    }
+  }
+
+  const coincidentVertices: number[] = [];
+  for (let v = 0; v < vertexCount; v++) {
+    if (v !== vertex && samePosition(vertexView, v, p)) {
+      coincidentVertices.push(v);
+    }
+  }
+
+  return {
+    vertex,
+    position: p,
+    ...(normalView
+      ? {
+          normal: [normalView[vertex * 3], normalView[vertex * 3 + 1], normalView[vertex * 3 + 2]] as Vec3,
+          normalSource: 'stored' as const
+        }
+      : { normal: normalize(summed), normalSource: 'computed' as const }),
+    ...(uvView ? { uv: [uvView[vertex * 2], uvView[vertex * 2 + 1]] as [number, number] } : {}),
+    ...(colorView ? { color: [colorView[vertex * 3], colorView[vertex * 3 + 1], colorView[vertex * 3 + 2]] as Vec3 } : {}),
+    faces,
+    coincidentVertices
+  };
+}
+
+/**
+ * Corner of a triangle nearest to a point (e.g. a ray hit), as a vertex index
+ */
+export function nearestFaceVertex(mesh: InspectMesh, face: number, point: Vec3): number {
+  const { vertexView, indexView } = mesh;
+  let nearest = indexView[face * 3];
+  let nearestDistSq = Infinity;
+  for (let corner = 0; corner < 3; corner++) {
+    const vertex = indexView[face * 3 + corner];
+    const [x, y, z] = position(vertexView, vertex);
+    const distSq = (x - point[0]) ** 2 + (y - point[1]) ** 2 + (z - point[2]) ** 2;
+    if (distSq < nearestDistSq) {
+      nearest = vertex;
+      nearestDistSq = distSq;
+    }
+  }
+  return nearest;
+}
@@ -4,12 +4,17 @@ import type {
   MeshCoreCapabilities,
   MeshFormat,
   MeshLoadResult,
+  MeshMaterial,
   MeshStats,
   AdapterError,
   AdapterMetrics,
   AdapterErrorCode,
   LogEvent,
-  ErrorContext
+  ErrorContext,
+  LoadPhase,
+  LoadProgressCallback,
+  LengthUnit,
+  UpAxis
 } from './types';
 import { MAX_MESH_FILE_BYTES, MAX_TRIANGLE_COUNT } from './types';
 import { getBuffersForGeneration } from './embind-bridge';
@@ -19,8 +24,35 @@ import {
   isAsciiStl,
   parseAsciiStl,
   parseObj,
-  type JsParseResult
+  parseAsciiPlyExact,
+  parseAsciiStlExact,
+  parseObjExact,
+  parseOff,
+  parseOffExact,
+  extractBinaryPlyColors,
+  extractBinaryPlyUvs,
+  rejectDegenerateFaces,
+  isLineParsedFormat,
+  type JsParseMode,
+  type JsParseResult,
+  type LineParsedFormat
 } from './js-parsers';
+import { parseGltf, isGlb, type GltfResources } from './gltf-parser';
+import { parse3mf } from './threemf-parser';
+import { ArchiveError } from './zip-reader';
+import {
+  DecompressedSizeError,
+  detectContainer,
+  detectContainerByName,
+  hasContainerMagic,
+  stripCompressionExtension,
+  unpackCompressedInput
+} from './compressed-input';
+import { resolveObjMaterials } from './mtl-parser';
+import { canStreamFile, parseFileStreaming } from './parse-worker-client';
+import { throwIfAborted } from './mesh-stream-parser';
+import { resolveMeshUnits } from './mesh-units';
+import { detectByContent, getFormatFamily } from './format-detector';
 
 export interface MeshBufferPointers {
   vertexPtr: number;
@@ -47,8 +79,29 @@ export interface MeshLoaderOptions {
   statsCalculator?: (buffers: MeshBuffers) => MeshStats | undefined;
   maxFileBytes?: number;
   maxTriangleCount?: number;
+  /** Files referenced by the asset (`.bin` buffers of a `.gltf`, `.mtl` libraries and textures of an `.obj`) */
+  companionFiles?: File[];
+  /** ASCII OBJ/STL/PLY files from this size up are stream-parsed in a worker (default: STREAMING_THRESHOLD_BYTES) */
+  streamingThresholdBytes?: number;
+  /** Load progress (phase and bytes read); stream-parsed files report bytes during `parse` */
+  onProgress?: LoadProgressCallback;
+  /** Cancels the load; the result is then an `E_ABORTED` error */
+  signal?: AbortSignal;
+  /** Length unit of the coordinates; `'auto'` (default) guesses it from the format and bbox */
+  units?: LengthUnit | 'auto';
+  /** Up axis of the coordinates; `'auto'` (default) guesses it from the format */
+  upAxis?: UpAxis | 'auto';
 }
 
+/** Read progress is reported at most once per this fraction of the file */
+const READ_PROGRESS_STEP = 0.01;
+
+/** Default size from which line-based ASCII files are parsed in chunks (8 MB) */
+export const STREAMING_THRESHOLD_BYTES = 8 * 1024 * 1024;
+
+/** Bytes read upfront from a streamed file for format detection */
+export const STREAM_SNIFF_BYTES = 64 * 1024;
+
 const DEFAULT_CAMERA_TARGET: [number, number, number] = [0, 0, 0];
 
 /**
@@ -125,6 +178,17 @@ export async function loadMeshAsset(
     ...partial
   });
 
+  let bytesRead = 0;
+  const report = (phase: LoadPhase, bytes = bytesRead) => {
+    bytesRead = bytes;
+    options.onProgress?.({ phase, bytesRead, totalBytes: fileSizeBytes });
+  };
+
+  const aborted = (phase: LoadPhase): MeshLoadResult => {
+    emitLog('WARN', `Load cancelled during ${phase}`, { code: 'E_ABORTED' });
+    return buildErrorResult('E_ABORTED', `Load cancelled during ${phase}`, { fileName, reason: phase }, buildMetrics({ bytesRead }), logs);
+  };
+
   emitLog('DEBUG', `Starting mesh load: ${fileName}`, { op: 'load_start' });
 
   if (fileSizeBytes <= 0) {
@@ -137,37 +201,149 @@ export async function loadMeshAsset(
     return buildErrorResult('E_FILE_TOO_LARGE', 'Asset size exceeds allowed limit.', { fileName }, buildMetrics({}), logs);
   }
 
-  const format = options.formatHint ?? inferFormat(fileName);
-  if (!format) {
+  // `.gz`/`.zip` names are resolved to the inner mesh after decompression
+  const nameContainer = detectContainerByName(fileName);
+  const format = options.formatHint ?? inferFormat(stripCompressionExtension(fileName));
+  if (!format && !nameContainer) {
     emitLog('ERROR', `Unrecognized file extension: ${fileName}`, { code: 'E_UNSUPPORTED_FORMAT' });
     return buildErrorResult('E_UNSUPPORTED_FORMAT', `Unrecognized file extension: ${fileName}`, { fileName, format: 'unknown' }, buildMetrics({}), logs);
   }
 
+  const readFailed = (error: unknown): MeshLoadResult => {
+    if (options.signal?.aborted) {
+      return aborted('read');
+    }
+    emitLog('ERROR', `Failed to read file: ${(error as Error).message}`, { code: 'E_FILE_READ_FAILED' });
+    return buildErrorResult('E_FILE_READ_FAILED', `Failed to read file: ${(error as Error).message}`, { fileName, reason: 'io_error' }, buildMetrics({}), logs);
+  };
+
+  // Large line-based ASCII files are streamed; only their head is read here for detection
+  let streamable =
+    !!format &&
+    !nameContainer &&
+    isLineParsedFormat(format) &&
+    fileSizeBytes >= (options.streamingThresholdBytes ?? STREAMING_THRESHOLD_BYTES) &&
+    canStreamFile(file);
+
+  const readOptions: BlobReadOptions = { signal: options.signal, onBytesRead: (bytes) => report('read', bytes) };
+
+  if (options.signal?.aborted) {
+    return aborted('read');
+  }
+  report('read', 0);
+
   let arrayBuffer: ArrayBuffer;
   try {
-    arrayBuffer = await readBlobArrayBuffer(file);
+    arrayBuffer = streamable
+      ? await readBlobArrayBuffer(file.slice(0, STREAM_SNIFF_BYTES), { signal: options.signal })
+      : await readBlobArrayBuffer(file, readOptions);
+    if (streamable && hasContainerMagic(arrayBuffer)) {
+      // Compressed despite its extension: decompression needs the whole file
+      streamable = false;
+      arrayBuffer = await readBlobArrayBuffer(file, readOptions);
+    }
   } catch (error) {
-    emitLog('ERROR', `Failed to read file: ${(error as Error).message}`, { code: 'E_FILE_READ_FAILED' });
-    return buildErrorResult('E_FILE_READ_FAILED', `Failed to read file: ${(error as Error).message}`, { fileName, reason: 'io_error' }, buildMetrics({}), logs);
+    return readFailed(error);
+  }
+
+  let resources: GltfResources | undefined;
+  if (options.companionFiles?.length) {
+    try {
+      resources = await readCompanionFiles(options.companionFiles, options.signal);
+    } catch (error) {
+      if (options.signal?.aborted) {
+        return aborted('read');
+      }
+      emitLog('ERROR', `Failed to read companion file: ${(error as Error).message}`, { code: 'E_FILE_READ_FAILED' });
+      return buildErrorResult('E_FILE_READ_FAILED', `Failed to read companion file: ${(error as Error).message}`, { fileName, reason: 'io_error' }, buildMetrics({}), logs);
+    }
+  }
+
+  report('detect');
+
+  // Compressed input: continue with the mesh inside
+  let entryName = fileName;
+  let entryFormat = format;
+  const container = streamable ? null : detectContainer(arrayBuffer, fileName);
+  if (container) {
+    try {
+      const unpacked = await unpackCompressedInput(arrayBuffer, fileName, container, { maxBytes: guardBytes });
+      arrayBuffer = unpacked.data;
+      entryName = unpacked.fileName;
+      // Nameless entries (gzip without FNAME) are recognized by their content
+      entryFormat = options.formatHint ?? inferFormat(entryName) ?? detectByContent(arrayBuffer);
+      if (unpacked.companions.size > 0) {
+        // Separately dropped files win over bundled ones
+        resources = new Map([...unpacked.companions, ...(resources ?? [])]);
+      }
+    } catch (error) {
+      if (options.signal?.aborted) {
+        return aborted('detect');
+      }
+      if (error instanceof DecompressedSizeError) {
+        emitLog('ERROR', error.message, { code: 'E_FILE_TOO_LARGE' });
+        return buildErrorResult(
+          'E_FILE_TOO_LARGE',
+          error.message,
+          { fileName, compressedBytes: error.compressedBytes, decompressedBytes: error.decompressedBytes, maxBytes: error.maxBytes },
+          buildMetrics({}),
+          logs
+        );
+      }
+      emitLog('ERROR', `Failed to decompress file: ${(error as Error).message}`, { code: 'E_PARSE_FAILED' });
+      return buildErrorResult('E_PARSE_FAILED', `Failed to decompress file: ${(error as Error).message}`, { fileName, ...parseErrorContext(error) }, buildMetrics({}), logs);
+    }
+    emitLog('INFO', `Decompressed ${container} input: ${entryName} (${fileSizeBytes} → ${arrayBuffer.byteLength} bytes)`, { op: 'decompress' });
+  }
+
+  if (!entryFormat) {
+    emitLog('ERROR', `Unrecognized file extension: ${entryName}`, { code: 'E_UNSUPPORTED_FORMAT' });
+    return buildErrorResult('E_UNSUPPORTED_FORMAT', `Unrecognized file extension: ${entryName}`, { fileName, format: 'unknown' }, buildMetrics({}), logs);
   }
 
   // Format detection and parser selection
-  const parseStrategy = determineParseStrategy(arrayBuffer, format, fileName);
+  const parseStrategy = determineParseStrategy(arrayBuffer, entryFormat, container ? arrayBuffer.byteLength : fileSizeBytes);
+  const streamFormat: LineParsedFormat | null =
+    streamable && parseStrategy.parser === 'js' && isLineParsedFormat(parseStrategy.format) ? parseStrategy.format : null;
+
+  if (streamable && !streamFormat) {
+    // Binary STL/PLY after all: the WASM core needs the whole file
+    try {
+      arrayBuffer = await readBlobArrayBuffer(file, readOptions);
+    } catch (error) {
+      return readFailed(error);
+    }
+  }
+
+  if (options.signal?.aborted) {
+    return aborted('detect');
+  }
   
   emitLog('DEBUG', `Parser strategy determined: ${parseStrategy.parser} (${parseStrategy.format})`, { op: 'detect_format' });
   console.log(`🔧 Parse strategy: ${parseStrategy.parser} (${parseStrategy.format})`);
+  if (streamFormat) {
+    emitLog('DEBUG', `Streaming ${fileSizeBytes} bytes through the chunked parser`, { op: 'stream_parse' });
+  }
 
   let buffers: MeshBuffers;
+  let materials: MeshMaterial[] | undefined;
+  let declaredUnits: LengthUnit | undefined;
   let actualFormat = parseStrategy.format;
   let triangleCount: number;
   let vertexCount: number;
   const parseStart = now();
+  report('parse', streamFormat ? 0 : bytesRead);
 
   if (parseStrategy.parser === 'js') {
     // Use JavaScript parser (ASCII formats)
     console.time('📄 JS Parser');
     try {
-      const jsResult = parseWithJs(arrayBuffer, parseStrategy.format);
+      const jsResult = streamFormat
+        ? await parseFileStreaming(file, streamFormat, {
+            onProgress: (bytes) => report('parse', bytes),
+            signal: options.signal
+          })
+        : await parseWithJsAsync(arrayBuffer, parseStrategy.format, 'fast', resources);
       triangleCount = jsResult.faceCount;
       vertexCount = Math.floor(jsResult.vertices.length / 3);
       
@@ -177,9 +353,22 @@ export async function loadMeshAsset(
       }
       
       buffers = toJsBuffers(jsResult);
+      declaredUnits = jsResult.units;
+
+      if (jsResult.groups) {
+        const resolved = resolveObjMaterials(jsResult, resources ?? new Map());
+        for (const reference of resolved.missing) {
+          emitLog('WARN', `Referenced file not provided: ${reference}`, { op: 'resolve_materials' });
+        }
+        buffers = { ...buffers, groups: resolved.groups };
+        materials = resolved.materials;
+      }
     } catch (error) {
+      if (options.signal?.aborted) {
+        return aborted('parse');
+      }
       emitLog('ERROR', `JS parsing failed: ${(error as Error).message}`, { code: 'E_PARSE_FAILED' });
-      return buildErrorResult('E_PARSE_FAILED', `JS parsing failed: ${(error as Error).message}`, { fileName, reason: 'js_parser_error' }, buildMetrics({}), logs);
+      return buildErrorResult('E_PARSE_FAILED', `JS parsing failed: ${(error as Error).message}`, { fileName, ...parseErrorContext(error) }, buildMetrics({}), logs);
     }
     console.timeEnd('📄 JS Parser');
   } else {
@@ -189,12 +378,15 @@ export async function loadMeshAsset(
     try {
       pointers = await options.bridge.parseMesh(arrayBuffer, actualFormat);
     } catch (error) {
+      if (options.signal?.aborted) {
+        return aborted('parse');
+      }
       emitLog('ERROR', `WASM parsing failed: ${(error as Error).message}`, { code: 'E_PARSE_FAILED' });
       return buildErrorResult('E_PARSE_FAILED', `WASM parsing failed: ${(error as Error).message}`, { fileName, reason: 'wasm_parser_error' }, buildMetrics({}), logs);
     }
     console.timeEnd('🔩 WASM Parser');
 
-    buffers = toMeshBuffers(options.bridge, pointers);
+    buffers = attachBinaryPlyAttributes(toMeshBuffers(options.bridge, pointers), arrayBuffer, actualFormat);
     triangleCount = Math.floor(pointers.indexCount / 3);
     vertexCount = pointers.vertexCount;
     
@@ -205,7 +397,16 @@ export async function loadMeshAsset(
     }
   }
 
+  // The WASM call cannot be interrupted; its result is dropped instead
+  if (options.signal?.aborted) {
+    buffers.release();
+    return aborted('parse');
+  }
+
   const parseTimeMs = now() - parseStart;
+  if (options.statsCalculator) {
+    report('stats');
+  }
   const loadedAt = now();
   const loadDurationMs = loadedAt - startTime;
   
@@ -217,7 +418,9 @@ export async function loadMeshAsset(
     loadedAt,
     loadDurationMs,
     buffers,
-    stats: options.statsCalculator?.(buffers)
+    stats: options.statsCalculator?.(buffers),
+    ...(materials ? { materials } : {}),
+    ...resolveMeshUnits(actualFormat, buffers.vertexView, options, declaredUnits)
   };
 
   const metrics: AdapterMetrics = {
@@ -228,7 +431,7 @@ export async function loadMeshAsset(
     triangleCount,
     parserMode: 'fast',
     fallbackCount: 0,
-    bytesRead: arrayBuffer.byteLength
+    bytesRead: streamFormat ? fileSizeBytes : arrayBuffer.byteLength
   };
 
   emitLog('INFO', `Mesh load complete: ${triangleCount} triangles, ${vertexCount} vertices`, { 
@@ -245,22 +448,29 @@ export async function loadMeshAsset(
   };
 }
 
-interface ParseStrategy {
+export interface ParseStrategy {
   parser: 'js' | 'wasm';
   format: MeshFormat;
 }
 
 /**
  * Analyzes file content to determine the optimal parser.
+ * 
+ * `hintFormat` is the detected format (by extension, or by content for
+ * nameless compressed entries); its family picks the parser and the
+ * content settles ASCII vs binary.
+ * 
+ * `data` may be only the head of the file (see `STREAM_SNIFF_BYTES`) when
+ * `fileSizeBytes` is given.
  */
-function determineParseStrategy(
+export function determineParseStrategy(
   data: ArrayBuffer, 
   hintFormat: MeshFormat,
-  fileName: string
+  fileSizeBytes = data.byteLength
 ): ParseStrategy {
-  const ext = fileName.toLowerCase().split('.').pop() ?? '';
+  const family = getFormatFamily(hintFormat);
   
-  if (ext === 'ply') {
+  if (family === 'ply') {
     const header = parsePlyHeader(data);
     if (header.format === 'ascii') {
       return { parser: 'js', format: 'ply_ascii' };
@@ -271,49 +481,123 @@ function determineParseStrategy(
     }
   }
   
-  if (ext === 'stl') {
-    if (isAsciiStl(data)) {
+  if (family === 'stl') {
+    if (isAsciiStl(data, fileSizeBytes)) {
       return { parser: 'js', format: 'stl' };
     } else {
       return { parser: 'wasm', format: 'stl_binary' };
     }
   }
   
-  if (ext === 'obj') {
-    // OBJ is always ASCII
-    return { parser: 'js', format: 'obj' };
+  if (family === 'gltf') {
+    // glTF is flattened in JS (the core has no scene-graph support)
+    return { parser: 'js', format: isGlb(data) ? 'glb' : 'gltf' };
+  }
+  
+  if (family === 'off') {
+    // OFF is always ASCII
+    return { parser: 'js', format: 'off' };
   }
   
-  // Default: use WASM
-  return { parser: 'wasm', format: hintFormat };
+  if (family === '3mf') {
+    // 3MF is a ZIP package of XML parts
+    return { parser: 'js', format: '3mf' };
+  }
+  
+  // OBJ is always ASCII
+  return { parser: 'js', format: 'obj' };
 }
 
 /**
  * Parses mesh using JavaScript parser.
+ * 
+ * `exact` mode selects the strict parsers (full-token number validation,
+ * header/structure validation and degenerate-face rejection).
+ * 
+ * `resources` supplies external buffers for `.gltf` files.
  */
-function parseWithJs(data: ArrayBuffer, format: MeshFormat): JsParseResult {
+export function parseWithJs(
+  data: ArrayBuffer,
+  format: MeshFormat,
+  mode: JsParseMode = 'fast',
+  resources?: GltfResources
+): JsParseResult {
+  const exact = mode === 'exact';
   switch (format) {
     case 'ply_ascii':
-      return parseAsciiPly(data);
+      return exact ? parseAsciiPlyExact(data) : parseAsciiPly(data);
     case 'stl':
-      return parseAsciiStl(data);
+      return exact ? parseAsciiStlExact(data) : parseAsciiStl(data);
     case 'obj':
-      return parseObj(data);
+      return exact ? parseObjExact(data) : parseObj(data);
+    case 'off':
+      return exact ? parseOffExact(data) : parseOff(data);
+    case 'gltf':
+    case 'glb': {
+      const result = parseGltf(data, resources);
+      return exact ? withDegenerateFacesRejected(result) : result;
+    }
     default:
       throw new Error(`JS parser does not support format: ${format}`);
   }
 }
 
+/**
+ * Async variant of `parseWithJs` that also handles archive formats (3MF),
+ * which must be unzipped before parsing.
+ */
+export async function parseWithJsAsync(
+  data: ArrayBuffer,
+  format: MeshFormat,
+  mode: JsParseMode = 'fast',
+  resources?: GltfResources
+): Promise<JsParseResult> {
+  if (format === '3mf') {
+    const result = await parse3mf(data);
+    return mode === 'exact' ? withDegenerateFacesRejected(result) : result;
+  }
+  return parseWithJs(data, format, mode, resources);
+}
+
+/**
+ * Exact-mode post-validation for parsers without a strict variant.
+ */
+function withDegenerateFacesRejected(result: JsParseResult): JsParseResult {
+  const filtered = rejectDegenerateFaces(result.vertices, result.indices);
+  return {
+    ...result,
+    indices: filtered.indices,
+    faceCount: filtered.indices.length / 3,
+    rejectedFaceCount: filtered.rejectedFaceCount
+  };
+}
+
+/**
+ * Builds the `E_PARSE_FAILED` context for a JS parser failure.
+ * 
+ * Archive failures report their specific reason and the archive entry.
+ */
+export function parseErrorContext(error: unknown): ErrorContext {
+  if (error instanceof ArchiveError) {
+    return error.entryName !== undefined
+      ? { reason: error.reason, entry: error.entryName }
+      : { reason: error.reason };
+  }
+  return { reason: 'js_parser_error' };
+}
+
 /**
  * Converts JS parsing result to MeshBuffers.
  */
-function toJsBuffers(result: JsParseResult): MeshBuffers {
+export function toJsBuffers(result: JsParseResult): MeshBuffers {
   const released = { value: false };
   
   return {
     vertexView: result.vertices,
     indexView: result.indices,
-    normalView: undefined, // JS parser does not compute normals (computed by Three.js)
+    normalView: result.normals, // Only formats that carry normals (otherwise computed by Three.js)
+    colorView: result.colors,
+    uvView: result.uvs,
     generation: -1, // JS parser does not use generation
     release: () => {
       // JS buffers are automatically cleaned up by GC
@@ -322,7 +606,7 @@ function toJsBuffers(result: JsParseResult): MeshBuffers {
   };
 }
 
-function toMeshBuffers(bridge: MeshCoreBridge, pointers: MeshBufferPointers): MeshBuffers {
+export function toMeshBuffers(bridge: MeshCoreBridge, pointers: MeshBufferPointers): MeshBuffers {
   const released = { value: false };
 
   // Get copied buffers from Embind bridge
@@ -363,6 +647,26 @@ function toMeshBuffers(bridge: MeshCoreBridge, pointers: MeshBufferPointers): Me
   };
 }
 
+/**
+ * Adds per-vertex colors and texture coordinates to WASM-parsed binary PLY buffers.
+ * 
+ * The core drops these properties, so they are read from the raw data and
+ * attached only when the vertex count matches the parsed output.
+ */
+export function attachBinaryPlyAttributes(buffers: MeshBuffers, data: ArrayBuffer, format: MeshFormat): MeshBuffers {
+  if (format !== 'ply_binary_le' && format !== 'ply_binary_be') {
+    return buffers;
+  }
+  const vertexCount = buffers.vertexView.length / 3;
+  const colors = extractBinaryPlyColors(data);
+  const uvs = extractBinaryPlyUvs(data);
+  return {
+    ...buffers,
+    ...(colors && colors.length === vertexCount * 3 ? { colorView: colors } : {}),
+    ...(uvs && uvs.length === vertexCount * 2 ? { uvView: uvs } : {})
+  };
+}
+
 function inferFormat(fileName: string): MeshFormat | null {
   const lower = fileName.toLowerCase();
   if (lower.endsWith('.obj')) {
@@ -376,9 +680,32 @@ function inferFormat(fileName: string): MeshFormat | null {
     // Return default here; header analysis needed during actual parsing
     return 'ply_ascii';
   }
+  if (lower.endsWith('.gltf')) {
+    return 'gltf';
+  }
+  if (lower.endsWith('.glb')) {
+    return 'glb';
+  }
+  if (lower.endsWith('.3mf')) {
+    return '3mf';
+  }
+  if (lower.endsWith('.off')) {
+    return 'off';
+  }
   return null;
 }
 
+/**
+ * Reads companion files into a resource map keyed by file name.
+ */
+async function readCompanionFiles(files: File[], signal?: AbortSignal): Promise<GltfResources> {
+  const resources: GltfResources = new Map();
+  for (const file of files) {
+    resources.set(file.name, await readBlobArrayBuffer(file, { signal }));
+  }
+  return resources;
+}
+
 function createAssetId(): string {
   if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
     return crypto.randomUUID();
@@ -412,14 +739,73 @@ function buildErrorResult(
   };
 }
 
-async function readBlobArrayBuffer(blob: Blob): Promise<ArrayBuffer> {
+export interface BlobReadOptions {
+  /** Bytes read so far (throttled to `READ_PROGRESS_STEP` of the blob) */
+  onBytesRead?: (bytesRead: number) => void;
+  signal?: AbortSignal;
+}
+
+/**
+ * Reads a blob into an ArrayBuffer.
+ * 
+ * With progress or cancellation requested, the blob is read chunk by chunk
+ * through `Blob.stream()` (when available) into a preallocated buffer.
+ * 
+ * @throws The signal's abort reason when aborted
+ */
+export async function readBlobArrayBuffer(blob: Blob, options: BlobReadOptions = {}): Promise<ArrayBuffer> {
+  throwIfAborted(options.signal);
+  if ((options.onBytesRead || options.signal) && typeof blob.stream === 'function') {
+    return readBlobChunked(blob, options);
+  }
+  const data = await readBlobWhole(blob);
+  throwIfAborted(options.signal);
+  options.onBytesRead?.(data.byteLength);
+  return data;
+}
+
+async function readBlobChunked(blob: Blob, options: BlobReadOptions): Promise<ArrayBuffer> {
+  const bytes = new Uint8Array(blob.size);
+  const step = Math.max(1, Math.floor(blob.size * READ_PROGRESS_STEP));
+  const reader = blob.stream().getReader();
+  let offset = 0;
+  let reported = 0;
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      throwIfAborted(options.signal);
+      if (offset + value.byteLength > bytes.length) {
+        throw new Error('File changed while reading');
+      }
+      bytes.set(value, offset);
+      offset += value.byteLength;
+      if (offset - reported >= step) {
+        reported = offset;
+        options.onBytesRead?.(offset);
+      }
+    }
+  } catch (error) {
+    await reader.cancel().catch(() => undefined);
+    throw error;
+  } finally {
+    reader.releaseLock();
+  }
+
+  if (reported !== offset) {
+    options.onBytesRead?.(offset);
+  }
+  return offset === bytes.length ? bytes.buffer : bytes.buffer.slice(0, offset);
+}
+
+async function readBlobWhole(blob: Blob): Promise<ArrayBuffer> {
   const candidate = blob as Blob & { arrayBuffer?: () => Promise<ArrayBuffer> };
   if (typeof candidate.arrayBuffer === 'function') {
     return candidate.arrayBuffer();
   }
-  if (typeof Response !== 'undefined') {
-    return new Response(blob).arrayBuffer();
-  }
+  // FileReader before Response: a foreign Response implementation (e.g. Node's
+  // under jsdom) does not recognise the Blob and reads its string form
   if (typeof FileReader !== 'undefined') {
     return await new Promise<ArrayBuffer>((resolve, reject) => {
       const reader = new FileReader();
@@ -437,6 +823,9 @@ async function readBlobArrayBuffer(blob: Blob): Promise<ArrayBuffer> {
       reader.readAsArrayBuffer(blob);
     });
   }
+  if (typeof Response !== 'undefined') {
+    return new Response(blob).arrayBuffer();
+  }
   throw new Error('Environment does not support arrayBuffer API.');
 }
 
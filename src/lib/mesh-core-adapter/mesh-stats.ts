@@ -1,8 +1,74 @@
 import type { MeshBuffers, MeshStats } from './types';
 
+type Vector3 = [number, number, number];
+type Matrix3 = [Vector3, Vector3, Vector3];
+
+/** Jacobi sweeps before the eigen decomposition gives up (converges in far fewer) */
+const MAX_JACOBI_SWEEPS = 32;
+
 /**
- * Computes statistics (vertex count, triangle count, bbox, diagonal) from mesh buffers.
+ * Eigen decomposition of a symmetric 3x3 matrix (cyclic Jacobi rotations).
+ *
+ * @returns Eigenvalues in ascending order and the matching unit eigenvectors
+ */
+function symmetricEigen(matrix: Matrix3): { values: Vector3; vectors: Matrix3 } {
+  const a = matrix.map((row) => [...row]);
+  // Columns of v are the eigenvectors
+  const v = [
+    [1, 0, 0],
+    [0, 1, 0],
+    [0, 0, 1]
+  ];
+
+  for (let sweep = 0; sweep < MAX_JACOBI_SWEEPS; sweep++) {
+    const offDiagonal = Math.abs(a[0][1]) + Math.abs(a[0][2]) + Math.abs(a[1][2]);
+    const scale = Math.abs(a[0][0]) + Math.abs(a[1][1]) + Math.abs(a[2][2]);
+    if (offDiagonal <= 1e-15 * scale || offDiagonal === 0) break;
+
+    for (const [p, q] of [[0, 1], [0, 2], [1, 2]]) {
+      if (a[p][q] === 0) continue;
+      const theta = (a[q][q] - a[p][p]) / (2 * a[p][q]);
+      const t = Math.sign(theta || 1) / (Math.abs(theta) + Math.sqrt(theta * theta + 1));
+      const c = 1 / Math.sqrt(t * t + 1);
+      const s = t * c;
+      for (let k = 0; k < 3; k++) {
+        const akp = a[k][p];
+        const akq = a[k][q];
+        a[k][p] = c * akp - s * akq;
+        a[k][q] = s * akp + c * akq;
+      }
+      for (let k = 0; k < 3; k++) {
+        const apk = a[p][k];
+        const aqk = a[q][k];
+        a[p][k] = c * apk - s * aqk;
+        a[q][k] = s * apk + c * aqk;
+      }
+      for (let k = 0; k < 3; k++) {
+        const vkp = v[k][p];
+        const vkq = v[k][q];
+        v[k][p] = c * vkp - s * vkq;
+        v[k][q] = s * vkp + c * vkq;
+      }
+    }
+  }
+
+  const order = [0, 1, 2].sort((i, j) => a[i][i] - a[j][j]);
+  return {
+    values: order.map((i) => a[i][i]) as Vector3,
+    vectors: order.map((i) => [v[0][i], v[1][i], v[2][i]]) as Matrix3
+  };
+}
+
+/**
+ * Computes statistics (vertex count, triangle count, bbox, diagonal) and mass
+ * properties (surface area, volume, centroids, inertia) from mesh buffers.
  * Optimized to complete within 500ms.
+ *
+ * - Volume, center of mass and inertia integrate the signed tetrahedra spanned
+ *   by each face and the bbox center (divergence theorem), which is exact for
+ *   closed surfaces; `isClosed` is left to the topology analysis
+ *   (`MeshTopologyReport.isWatertight`), which welds and hashes every edge
+ * - Inertia assumes unit density, so moments scale with length^5
  * 
  * @param buffers - Mesh buffers (vertexView, indexView)
  * @returns MeshStats object
@@ -48,6 +114,107 @@ export function computeMeshStats(buffers: MeshBuffers): MeshStats {
   const dz = maxZ - minZ;
   const diagonalLength = Math.sqrt(dx * dx + dy * dy + dz * dz);
 
+  // Integrate relative to the bbox center to limit cancellation error
+  const ox = (minX + maxX) / 2;
+  const oy = (minY + maxY) / 2;
+  const oz = (minZ + maxZ) / 2;
+  let surfaceArea = 0;
+  let areaX = 0;
+  let areaY = 0;
+  let areaZ = 0;
+  let volume = 0;
+  let massX = 0;
+  let massY = 0;
+  let massZ = 0;
+  // Second moments ∫ x_i x_j dV about the origin
+  let xx = 0;
+  let yy = 0;
+  let zz = 0;
+  let xy = 0;
+  let xz = 0;
+  let yz = 0;
+
+  for (let t = 0; t < triangleCount; t++) {
+    const a = indexView[t * 3] * 3;
+    const b = indexView[t * 3 + 1] * 3;
+    const c = indexView[t * 3 + 2] * 3;
+    const ax = vertexView[a] - ox;
+    const ay = vertexView[a + 1] - oy;
+    const az = vertexView[a + 2] - oz;
+    const bx = vertexView[b] - ox;
+    const by = vertexView[b + 1] - oy;
+    const bz = vertexView[b + 2] - oz;
+    const cx = vertexView[c] - ox;
+    const cy = vertexView[c + 1] - oy;
+    const cz = vertexView[c + 2] - oz;
+    const sx = ax + bx + cx;
+    const sy = ay + by + cy;
+    const sz = az + bz + cz;
+
+    // Face area
+    const ux = bx - ax;
+    const uy = by - ay;
+    const uz = bz - az;
+    const vx = cx - ax;
+    const vy = cy - ay;
+    const vz = cz - az;
+    const nx = uy * vz - uz * vy;
+    const ny = uz * vx - ux * vz;
+    const nz = ux * vy - uy * vx;
+    const area = Math.sqrt(nx * nx + ny * ny + nz * nz) / 2;
+    surfaceArea += area;
+    areaX += (area * sx) / 3;
+    areaY += (area * sy) / 3;
+    areaZ += (area * sz) / 3;
+
+    // Signed tetrahedron (origin, a, b, c)
+    const tetra = (ax * (by * cz - bz * cy) + ay * (bz * cx - bx * cz) + az * (bx * cy - by * cx)) / 6;
+    volume += tetra;
+    massX += (tetra * sx) / 4;
+    massY += (tetra * sy) / 4;
+    massZ += (tetra * sz) / 4;
+    // ∫ x x^T over the tetrahedron = V/20 (Σ v v^T + s s^T)
+    const k = tetra / 20;
+    xx += k * (ax * ax + bx * bx + cx * cx + sx * sx);
+    yy += k * (ay * ay + by * by + cy * cy + sy * sy);
+    zz += k * (az * az + bz * bz + cz * cz + sz * sz);
+    xy += k * (ax * ay + bx * by + cx * cy + sx * sy);
+    xz += k * (ax * az + bx * bz + cx * cz + sx * sz);
+    yz += k * (ay * az + by * bz + cy * cz + sy * sz);
+  }
+
+  const surfaceCentroid: [number, number, number] =
+    surfaceArea > 0 ? [ox + areaX / surfaceArea, oy + areaY / surfaceArea, oz + areaZ / surfaceArea] : [ox, oy, oz];
+
+  let centerOfMass = surfaceCentroid;
+  let inertiaTensor: Matrix3 = [
+    [0, 0, 0],
+    [0, 0, 0],
+    [0, 0, 0]
+  ];
+  if (volume !== 0) {
+    const mx = massX / volume;
+    const my = massY / volume;
+    const mz = massZ / volume;
+    centerOfMass = [ox + mx, oy + my, oz + mz];
+
+    // Inward-wound surfaces give negative volume and second moments; flip both
+    const sign = Math.sign(volume);
+    const mass = Math.abs(volume);
+    const cxx = sign * xx - mass * mx * mx;
+    const cyy = sign * yy - mass * my * my;
+    const czz = sign * zz - mass * mz * mz;
+    const cxy = sign * xy - mass * mx * my;
+    const cxz = sign * xz - mass * mx * mz;
+    const cyz = sign * yz - mass * my * mz;
+    inertiaTensor = [
+      [cyy + czz, -cxy, -cxz],
+      [-cxy, cxx + czz, -cyz],
+      [-cxz, -cyz, cxx + cyy]
+    ];
+  }
+  const principal = symmetricEigen(inertiaTensor);
+
   return {
     vertices: vertexCount,
     triangles: triangleCount,
@@ -56,31 +223,57 @@ export function computeMeshStats(buffers: MeshBuffers): MeshStats {
       max: [maxX, maxY, maxZ],
     },
     diagonalLength,
+    surfaceArea,
+    volume,
+    surfaceCentroid,
+    centerOfMass,
+    inertiaTensor,
+    principalMoments: principal.values,
+    principalAxes: principal.vectors,
   };
 }
 
+const SUPERSCRIPTS: Record<number, string> = { 1: '', 2: '²', 3: '³', 5: '⁵' };
+
+/**
+ * Formats a measured quantity with its unit raised to the given power
+ * (`formatMeasure(2, 'mm', 2)` → `"2.000 mm²"`); no suffix without a unit.
+ */
+export function formatMeasure(value: number, unit: string | undefined, power: 1 | 2 | 3 | 5 = 1): string {
+  const formatted = Math.abs(value) >= 1e6 || (value !== 0 && Math.abs(value) < 1e-3) ? value.toExponential(3) : value.toFixed(3);
+  return unit ? `${formatted} ${unit}${SUPERSCRIPTS[power]}` : formatted;
+}
+
 /**
  * Formats mesh statistics computation results into display strings.
  * 
  * @param stats - MeshStats object
- * @returns Formatted string object
+ * @param unit - Length unit appended to measurements (e.g. 'mm'), none when omitted
+ * @returns Formatted string object (mass properties are '—' when not computed)
  */
-export function formatMeshStats(stats: MeshStats): {
+export function formatMeshStats(stats: MeshStats, unit?: string): {
   vertices: string;
   triangles: string;
   bboxMin: string;
   bboxMax: string;
   diagonal: string;
+  surfaceArea: string;
+  volume: string;
+  centerOfMass: string;
 } {
   const formatNumber = (n: number): string => n.toLocaleString();
   const formatCoord = (coords: [number, number, number]): string =>
     `(${coords.map((c) => c.toFixed(3)).join(', ')})`;
+  const withUnit = (text: string): string => (unit ? `${text} ${unit}` : text);
 
   return {
     vertices: formatNumber(stats.vertices),
     triangles: formatNumber(stats.triangles),
-    bboxMin: formatCoord(stats.bbox.min),
-    bboxMax: formatCoord(stats.bbox.max),
-    diagonal: stats.diagonalLength.toFixed(3),
+    bboxMin: withUnit(formatCoord(stats.bbox.min)),
+    bboxMax: withUnit(formatCoord(stats.bbox.max)),
+    diagonal: withUnit(stats.diagonalLength.toFixed(3)),
+    surfaceArea: stats.surfaceArea !== undefined ? formatMeasure(stats.surfaceArea, unit, 2) : '—',
+    volume: stats.volume !== undefined ? formatMeasure(stats.volume, unit, 3) : '—',
+    centerOfMass: stats.centerOfMass ? withUnit(formatCoord(stats.centerOfMass)) : '—',
   };
 }
@@ -0,0 +1,136 @@
+/**
+ * Chunked stream parsing for line-based ASCII formats (OBJ, ASCII STL, ASCII PLY)
+ *
+ * The file is consumed chunk by chunk: bytes are decoded incrementally,
+ * complete lines are handed to the Fast mode line parser and only the
+ * unterminated tail is carried over. The whole file never exists as one
+ * string, so memory stays proportional to the parsed mesh.
+ *
+ * Runs unchanged in the parse worker and (as a fallback) on the main thread.
+ *
+ * @module mesh-stream-parser
+ */
+
+import { createLineParser, type JsParseResult, type LineParsedFormat, type MeshLineParser } from './js-parsers';
+
+/**
+ * Stream progress callback
+ *
+ * `totalBytes` is 0 when the stream length is unknown.
+ */
+export type StreamProgressCallback = (bytesRead: number, totalBytes: number) => void;
+
+export interface StreamParseOptions {
+  /** Expected stream length (for progress reporting) */
+  totalBytes?: number;
+  onProgress?: StreamProgressCallback;
+  /** Cancels reading; the parse rejects with the signal's abort reason */
+  signal?: AbortSignal;
+}
+
+/** Progress is reported at most once per this fraction of the file */
+const PROGRESS_STEP = 0.01;
+
+/**
+ * Request posted to the parse worker
+ */
+export interface ParseWorkerRequest {
+  file: Blob;
+  format: LineParsedFormat;
+}
+
+/**
+ * Messages posted back by the parse worker
+ */
+export type ParseWorkerResponse =
+  | { type: 'progress'; bytesRead: number; totalBytes: number }
+  | { type: 'result'; result: JsParseResult }
+  | { type: 'error'; message: string };
+
+/**
+ * Throws the abort reason of an aborted signal.
+ *
+ * (`AbortSignal.throwIfAborted` is missing from some supported runtimes.)
+ */
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw signal.reason ?? new DOMException('The operation was aborted.', 'AbortError');
+  }
+}
+
+/**
+ * Feeds every complete line of `text[0..end]` (`end` is a '\n' position).
+ */
+function feedLines(parser: MeshLineParser, text: string, end: number): void {
+  let start = 0;
+  while (start <= end) {
+    const newline = text.indexOf('\n', start);
+    parser.line(text.slice(start, newline));
+    start = newline + 1;
+  }
+}
+
+/**
+ * Parses a byte stream with the Fast mode line parser of `format`.
+ *
+ * Produces the same result as the whole-buffer parsers (`parseObj`, ...).
+ */
+export async function parseMeshStream(
+  stream: ReadableStream<Uint8Array>,
+  format: LineParsedFormat,
+  options: StreamParseOptions = {}
+): Promise<JsParseResult> {
+  const totalBytes = options.totalBytes ?? 0;
+  const progressStep = Math.max(1, Math.floor(totalBytes * PROGRESS_STEP));
+  throwIfAborted(options.signal);
+  const parser = createLineParser(format);
+  const decoder = new TextDecoder('utf-8');
+  const reader = stream.getReader();
+
+  let pending = '';
+  let bytesRead = 0;
+  let reportedBytes = 0;
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      throwIfAborted(options.signal);
+
+      bytesRead += value.byteLength;
+      // `stream: true` keeps multi-byte characters split across chunks intact
+      pending += decoder.decode(value, { stream: true });
+
+      const lastNewline = pending.lastIndexOf('\n');
+      if (lastNewline >= 0) {
+        feedLines(parser, pending, lastNewline);
+        pending = pending.slice(lastNewline + 1);
+      }
+
+      if (options.onProgress && bytesRead - reportedBytes >= progressStep) {
+        reportedBytes = bytesRead;
+        options.onProgress(bytesRead, totalBytes);
+      }
+    }
+  } catch (error) {
+    await reader.cancel().catch(() => undefined);
+    throw error;
+  } finally {
+    reader.releaseLock();
+  }
+
+  parser.line(pending + decoder.decode());
+  options.onProgress?.(bytesRead, totalBytes);
+  return parser.finish();
+}
+
+/**
+ * Buffers of a parse result that can be transferred (not copied) between threads.
+ */
+export function collectTransferables(result: JsParseResult): ArrayBuffer[] {
+  const buffers = [result.vertices, result.indices, result.normals, result.colors, result.uvs]
+    .filter((array): array is NonNullable<typeof array> => array !== undefined)
+    .map((array) => array.buffer as ArrayBuffer);
+  // A buffer may only appear once in a transfer list
+  return Array.from(new Set(buffers));
+}
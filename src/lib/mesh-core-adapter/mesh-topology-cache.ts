@@ -0,0 +1,117 @@
+/**
+ * @file mesh-topology-cache.ts
+ * @description Topology reports of loaded meshes, cached per buffer generation
+ *
+ * - One report per `MeshBuffers`, recomputed only when `generation` changes,
+ *   so the statistics panel and the scene highlight share one analysis
+ * - `loadMeshTopology` analyzes in a Web Worker (copies of the views go in,
+ *   the problem arrays come back by transfer); without workers (tests, older
+ *   runtimes) it analyzes on the calling thread
+ * - Reports finishing after the buffers changed are discarded
+ */
+
+import { analyzeMeshTopology, type MeshTopologyReport } from './mesh-topology';
+import type { MeshBuffers } from './types';
+
+/**
+ * Message posted to the topology worker
+ */
+export interface TopologyWorkerRequest {
+  vertices: Float64Array;
+  indices: Uint32Array;
+}
+
+/**
+ * Message posted back by the topology worker
+ */
+export type TopologyWorkerResponse =
+  | { type: 'result'; report: MeshTopologyReport }
+  | { type: 'error'; message: string };
+
+interface CacheEntry {
+  generation: number;
+  report?: MeshTopologyReport;
+  pending?: Promise<MeshTopologyReport>;
+}
+
+const cache = new WeakMap<MeshBuffers, CacheEntry>();
+
+function entryFor(buffers: MeshBuffers): CacheEntry {
+  let entry = cache.get(buffers);
+  if (!entry || entry.generation !== buffers.generation) {
+    entry = { generation: buffers.generation };
+    cache.set(buffers, entry);
+  }
+  return entry;
+}
+
+/**
+ * Cached report of the buffers' current generation, if already analyzed.
+ */
+export function peekMeshTopology(buffers: MeshBuffers): MeshTopologyReport | undefined {
+  const entry = cache.get(buffers);
+  return entry && entry.generation === buffers.generation ? entry.report : undefined;
+}
+
+function analyzeInWorker(vertices: Float64Array, indices: Uint32Array): Promise<MeshTopologyReport> {
+  return new Promise<MeshTopologyReport>((resolve, reject) => {
+    const worker = new Worker(new URL('./topology-worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<TopologyWorkerResponse>) => {
+      worker.terminate();
+      const message = event.data;
+      if (message.type === 'error') {
+        reject(new Error(message.message));
+        return;
+      }
+      resolve(message.report);
+    };
+    worker.onerror = (event) => {
+      worker.terminate();
+      reject(new Error(`Topology worker failed: ${event.message}`));
+    };
+
+    // Copies go to the worker, the views stay usable here
+    const request: TopologyWorkerRequest = { vertices: vertices.slice(), indices: indices.slice() };
+    worker.postMessage(request, [request.vertices.buffer, request.indices.buffer]);
+  });
+}
+
+/**
+ * Report of the buffers' current generation, analyzed in a worker when available.
+ *
+ * Concurrent calls for the same generation share one analysis.
+ *
+ * @throws Error When the worker analysis fails
+ */
+export function loadMeshTopology(buffers: MeshBuffers): Promise<MeshTopologyReport> {
+  const entry = entryFor(buffers);
+  if (entry.report) {
+    return Promise.resolve(entry.report);
+  }
+  if (entry.pending) {
+    return entry.pending;
+  }
+  if (typeof Worker === 'undefined') {
+    entry.report = analyzeMeshTopology(buffers);
+    return Promise.resolve(entry.report);
+  }
+
+  const { vertexView, indexView } = buffers;
+  const pending = analyzeInWorker(vertexView, indexView).then(
+    (report) => {
+      if (cache.get(buffers) !== entry || buffers.generation !== entry.generation) {
+        // Buffers changed while analyzing: analyze the current generation instead
+        return loadMeshTopology(buffers);
+      }
+      entry.pending = undefined;
+      entry.report ??= report;
+      return entry.report;
+    },
+    (error: unknown) => {
+      entry.pending = undefined;
+      throw error;
+    }
+  );
+  entry.pending = pending;
+  return pending;
+}
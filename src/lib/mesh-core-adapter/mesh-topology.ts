@@ -0,0 +1,450 @@
+/**
+ * @file mesh-topology.ts
+ * @description Mesh health analysis (manifoldness, holes, orientation)
+ *
+ * - Coincident vertices are welded by exact position first, so unindexed
+ *   formats (STL) are analyzed as the connected surface they describe
+ * - Every undirected edge records its face count and traversal directions:
+ *   1 face = boundary, > 2 faces = non-manifold, 2 faces traversing it the
+ *   same way = inconsistent winding; the surface is watertight when every edge
+ *   is traversed equally often in both directions
+ * - Boundary edges are chained into loops (holes); faces around each vertex
+ *   are grouped into fans across manifold edges (more than one fan = non-manifold vertex)
+ * - Connected components, Euler characteristic V - E + F and, for closed
+ *   oriented manifolds, the genus from χ = 2C - 2g
+ */
+
+/**
+ * Mesh geometry analyzed by `analyzeMeshTopology`
+ */
+export interface TopologyMesh {
+  vertexView: Float64Array;
+  indexView: Uint32Array;
+}
+
+/**
+ * Problem elements by class, for highlighting.
+ * Edges are vertex index pairs and vertices are indices into `vertexView`
+ * (one representative per welded position); faces are triangle indices.
+ */
+export interface MeshTopologyProblems {
+  boundaryEdges: Uint32Array;
+  nonManifoldEdges: Uint32Array;
+  /** Edges shared by two faces that traverse it in the same direction */
+  inconsistentEdges: Uint32Array;
+  nonManifoldVertices: Uint32Array;
+  isolatedVertices: Uint32Array;
+  /** Faces with repeated vertices or zero area */
+  degenerateFaces: Uint32Array;
+  /** Repeated occurrences of a face with the same three vertices (first occurrence excluded) */
+  duplicateFaces: Uint32Array;
+}
+
+/** Highlightable problem class */
+export type TopologyIssue = keyof MeshTopologyProblems;
+
+export interface MeshTopologyReport {
+  /** Distinct vertex positions used by faces */
+  vertices: number;
+  /** Distinct undirected edges */
+  edges: number;
+  /** Faces with three distinct vertices */
+  faces: number;
+  boundaryEdges: number;
+  /** Closed loops (or open chains) of boundary edges */
+  holes: number;
+  nonManifoldEdges: number;
+  nonManifoldVertices: number;
+  inconsistentEdges: number;
+  degenerateFaces: number;
+  duplicateFaces: number;
+  isolatedVertices: number;
+  /** Vertex-connected components */
+  components: number;
+  /** V - E + F */
+  eulerCharacteristic: number;
+  /** Total genus; null unless the mesh is closed, manifold and consistently oriented */
+  genus: number | null;
+  /** No boundary edges */
+  isClosed: boolean;
+  /** No non-manifold edges or vertices */
+  isManifold: boolean;
+  /** No inconsistently wound edges */
+  isConsistentlyOriented: boolean;
+  /**
+   * Every edge traversed equally often in both directions (closed and
+   * consistently oriented), so the enclosed volume is well defined
+   */
+  isWatertight: boolean;
+  problems: MeshTopologyProblems;
+}
+
+/** Relative area below which a face counts as degenerate (scaled by its longest edge squared) */
+const DEGENERATE_AREA_TOLERANCE = 1e-12;
+
+function find(parent: Uint32Array, x: number): number {
+  while (parent[x] !== x) {
+    parent[x] = parent[parent[x]];
+    x = parent[x];
+  }
+  return x;
+}
+
+function union(parent: Uint32Array, a: number, b: number): void {
+  const ra = find(parent, a);
+  const rb = find(parent, b);
+  if (ra !== rb) {
+    parent[ra] = rb;
+  }
+}
+
+function createParents(count: number): Uint32Array {
+  const parent = new Uint32Array(count);
+  for (let i = 0; i < count; i++) {
+    parent[i] = i;
+  }
+  return parent;
+}
+
+// Bit patterns of one coordinate (for hashing positions)
+const coordinateBits = new Float64Array(1);
+const coordinateWords = new Uint32Array(coordinateBits.buffer);
+
+function hashPosition(vertices: Float64Array, v: number): number {
+  let hash = 0x811c9dc5;
+  for (let axis = 0; axis < 3; axis++) {
+    // + 0 folds -0 into 0 so both weld together
+    coordinateBits[0] = vertices[v * 3 + axis] + 0;
+    hash = Math.imul(hash ^ coordinateWords[0], 0x01000193);
+    hash = Math.imul(hash ^ coordinateWords[1], 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Maps every vertex to a welded id shared by all vertices at exactly the same position.
+ *
+ * @returns Welded id per vertex, the first vertex of every welded id, and the welded count
+ */
+export function weldVertices(vertices: Float64Array): { ids: Uint32Array; representatives: Uint32Array; count: number } {
+  const vertexCount = Math.floor(vertices.length / 3);
+  // Open addressing table of welded ids (load factor <= 0.5)
+  let capacity = 1;
+  while (capacity < vertexCount * 2) capacity <<= 1;
+  const table = new Int32Array(capacity).fill(-1);
+  const mask = capacity - 1;
+
+  const ids = new Uint32Array(vertexCount);
+  const representatives = new Uint32Array(vertexCount);
+  let count = 0;
+  for (let v = 0; v < vertexCount; v++) {
+    let slot = hashPosition(vertices, v) & mask;
+    for (;;) {
+      const id = table[slot];
+      if (id < 0) {
+        table[slot] = count;
+        representatives[count] = v;
+        ids[v] = count++;
+        break;
+      }
+      const r = representatives[id];
+      if (
+        vertices[r * 3] === vertices[v * 3] &&
+        vertices[r * 3 + 1] === vertices[v * 3 + 1] &&
+        vertices[r * 3 + 2] === vertices[v * 3 + 2]
+      ) {
+        ids[v] = id;
+        break;
+      }
+      slot = (slot + 1) & mask;
+    }
+  }
+  return { ids, representatives: representatives.slice(0, count), count };
+}
+
+/** Smallest power of two at or above `n` (open addressing table capacity) */
+function tableCapacity(n: number): number {
+  let capacity = 1;
+  while (capacity < n) capacity <<= 1;
+  return capacity;
+}
+
+function hashTriple(a: number, b: number, c: number): number {
+  return Math.imul(a, 0x9e3779b1) ^ Math.imul(b, 0x85ebca6b) ^ Math.imul(c, 0xc2b2ae35);
+}
+
+/** Whether a face with distinct vertices has (numerically) zero area */
+function hasZeroArea(vertices: Float64Array, a: number, b: number, c: number): boolean {
+  const abx = vertices[b * 3] - vertices[a * 3];
+  const aby = vertices[b * 3 + 1] - vertices[a * 3 + 1];
+  const abz = vertices[b * 3 + 2] - vertices[a * 3 + 2];
+  const acx = vertices[c * 3] - vertices[a * 3];
+  const acy = vertices[c * 3 + 1] - vertices[a * 3 + 1];
+  const acz = vertices[c * 3 + 2] - vertices[a * 3 + 2];
+  const bcx = acx - abx;
+  const bcy = acy - aby;
+  const bcz = acz - abz;
+  const cx = aby * acz - abz * acy;
+  const cy = abz * acx - abx * acz;
+  const cz = abx * acy - aby * acx;
+  const longest = Math.max(
+    abx * abx + aby * aby + abz * abz,
+    acx * acx + acy * acy + acz * acz,
+    bcx * bcx + bcy * bcy + bcz * bcz
+  );
+  return Math.sqrt(cx * cx + cy * cy + cz * cz) <= DEGENERATE_AREA_TOLERANCE * longest;
+}
+
+/**
+ * Analyzes the topology of an indexed triangle mesh.
+ *
+ * @param mesh - Mesh buffers (vertexView, indexView)
+ * @returns Problem counts, global invariants and the problem elements
+ */
+export function analyzeMeshTopology(mesh: TopologyMesh): MeshTopologyReport {
+  const { vertexView, indexView } = mesh;
+  const triangleCount = Math.floor(indexView.length / 3);
+  const { ids, representatives, count: weldedCount } = weldVertices(vertexView);
+
+  // Welded corners; faces with a repeated vertex are left out of the edge graph
+  const corners = new Uint32Array(triangleCount * 3);
+  const validFace = new Uint8Array(triangleCount);
+  const referenced = new Uint8Array(weldedCount);
+  const degenerateFaces: number[] = [];
+  const duplicateFaces: number[] = [];
+  // Open addressing table of faces by sorted welded corners (load factor <= 0.5)
+  const faceCapacity = tableCapacity(triangleCount * 2);
+  const faceMask = faceCapacity - 1;
+  const faceTable = new Int32Array(faceCapacity).fill(-1);
+  const sortedCorners = new Uint32Array(triangleCount * 3);
+
+  for (let t = 0; t < triangleCount; t++) {
+    const i0 = indexView[t * 3];
+    const i1 = indexView[t * 3 + 1];
+    const i2 = indexView[t * 3 + 2];
+    const a = ids[i0];
+    const b = ids[i1];
+    const c = ids[i2];
+    corners[t * 3] = a;
+    corners[t * 3 + 1] = b;
+    corners[t * 3 + 2] = c;
+    referenced[a] = referenced[b] = referenced[c] = 1;
+
+    if (a === b || b === c || a === c) {
+      degenerateFaces.push(t);
+      continue;
+    }
+    validFace[t] = 1;
+    if (hasZeroArea(vertexView, i0, i1, i2)) {
+      degenerateFaces.push(t);
+    }
+
+    const low = Math.min(a, b, c);
+    const high = Math.max(a, b, c);
+    const middle = a + b + c - low - high;
+    sortedCorners[t * 3] = low;
+    sortedCorners[t * 3 + 1] = middle;
+    sortedCorners[t * 3 + 2] = high;
+    let slot = hashTriple(low, middle, high) & faceMask;
+    for (;;) {
+      const f = faceTable[slot];
+      if (f < 0) {
+        faceTable[slot] = t;
+        break;
+      }
+      if (sortedCorners[f * 3] === low && sortedCorners[f * 3 + 1] === middle && sortedCorners[f * 3 + 2] === high) {
+        duplicateFaces.push(t);
+        break;
+      }
+      slot = (slot + 1) & faceMask;
+    }
+  }
+
+  // Undirected edges: face count, faces traversing low → high, first two faces.
+  // Open addressing table of edge ids (about 1.5 edges per face, so load factor <= 0.5)
+  const edgeCapacity = tableCapacity(triangleCount * 3);
+  const edgeMask = edgeCapacity - 1;
+  const edgeTable = new Int32Array(edgeCapacity).fill(-1);
+  const maxEdges = triangleCount * 3;
+  const edgeLow = new Uint32Array(maxEdges);
+  const edgeHigh = new Uint32Array(maxEdges);
+  const edgeFaceCount = new Uint32Array(maxEdges);
+  const edgeForward = new Uint32Array(maxEdges);
+  const edgeFaces = new Int32Array(maxEdges * 2).fill(-1);
+  let edgeCount = 0;
+
+  for (let t = 0; t < triangleCount; t++) {
+    if (!validFace[t]) continue;
+    for (let k = 0; k < 3; k++) {
+      const u = corners[t * 3 + k];
+      const v = corners[t * 3 + ((k + 1) % 3)];
+      const low = Math.min(u, v);
+      const high = Math.max(u, v);
+      let slot = (Math.imul(low, 0x9e3779b1) ^ Math.imul(high, 0x85ebca6b)) & edgeMask;
+      let e = edgeTable[slot];
+      while (e >= 0 && (edgeLow[e] !== low || edgeHigh[e] !== high)) {
+        slot = (slot + 1) & edgeMask;
+        e = edgeTable[slot];
+      }
+      if (e < 0) {
+        e = edgeCount++;
+        edgeTable[slot] = e;
+        edgeLow[e] = low;
+        edgeHigh[e] = high;
+      }
+      if (edgeFaceCount[e] < 2) {
+        edgeFaces[e * 2 + edgeFaceCount[e]] = t;
+      }
+      edgeFaceCount[e]++;
+      if (u < v) edgeForward[e]++;
+    }
+  }
+
+  const boundaryEdges: number[] = [];
+  const nonManifoldEdges: number[] = [];
+  const inconsistentEdges: number[] = [];
+  // Corners around each vertex, grouped into fans across manifold edges
+  const fans = createParents(triangleCount * 3);
+  const cornerOf = (t: number, vertex: number) =>
+    t * 3 + (corners[t * 3] === vertex ? 0 : corners[t * 3 + 1] === vertex ? 1 : 2);
+
+  let isWatertight = edgeCount > 0;
+  for (let e = 0; e < edgeCount; e++) {
+    const faceCount = edgeFaceCount[e];
+    if (faceCount !== edgeForward[e] * 2) {
+      isWatertight = false;
+    }
+    if (faceCount === 1) {
+      boundaryEdges.push(e);
+    } else if (faceCount > 2) {
+      nonManifoldEdges.push(e);
+    } else {
+      if (edgeForward[e] !== 1) {
+        inconsistentEdges.push(e);
+      }
+      const f = edgeFaces[e * 2];
+      const g = edgeFaces[e * 2 + 1];
+      union(fans, cornerOf(f, edgeLow[e]), cornerOf(g, edgeLow[e]));
+      union(fans, cornerOf(f, edgeHigh[e]), cornerOf(g, edgeHigh[e]));
+    }
+  }
+
+  // Non-manifold vertices: more than one fan; components: vertex connectivity
+  const fanOf = new Int32Array(weldedCount).fill(-1);
+  const nonManifoldVertex = new Uint8Array(weldedCount);
+  const usedVertex = new Uint8Array(weldedCount);
+  const components = createParents(weldedCount);
+  for (let t = 0; t < triangleCount; t++) {
+    if (!validFace[t]) continue;
+    for (let k = 0; k < 3; k++) {
+      const vertex = corners[t * 3 + k];
+      const fan = find(fans, t * 3 + k);
+      usedVertex[vertex] = 1;
+      if (fanOf[vertex] < 0) {
+        fanOf[vertex] = fan;
+      } else if (fanOf[vertex] !== fan) {
+        nonManifoldVertex[vertex] = 1;
+      }
+    }
+    union(components, corners[t * 3], corners[t * 3 + 1]);
+    union(components, corners[t * 3 + 1], corners[t * 3 + 2]);
+  }
+
+  let usedVertexCount = 0;
+  let componentCount = 0;
+  const nonManifoldVertices: number[] = [];
+  const isolatedVertices: number[] = [];
+  for (let v = 0; v < weldedCount; v++) {
+    if (usedVertex[v]) {
+      usedVertexCount++;
+      if (find(components, v) === v) componentCount++;
+    }
+    if (nonManifoldVertex[v]) nonManifoldVertices.push(representatives[v]);
+    if (!referenced[v]) isolatedVertices.push(representatives[v]);
+  }
+
+  // Holes: chain boundary edges (directed as in their face) end to start.
+  // Outgoing boundary edges are bucketed by start vertex (counting sort)
+  const boundaryStart = (e: number) => (edgeForward[e] === 1 ? edgeLow[e] : edgeHigh[e]);
+  const boundaryEnd = (e: number) => (edgeForward[e] === 1 ? edgeHigh[e] : edgeLow[e]);
+  const outgoingStart = new Uint32Array(weldedCount + 1);
+  for (const e of boundaryEdges) {
+    outgoingStart[boundaryStart(e) + 1]++;
+  }
+  for (let v = 0; v < weldedCount; v++) {
+    outgoingStart[v + 1] += outgoingStart[v];
+  }
+  const outgoing = new Uint32Array(boundaryEdges.length);
+  const outgoingFill = outgoingStart.slice(0, weldedCount);
+  for (const e of boundaryEdges) {
+    outgoing[outgoingFill[boundaryStart(e)]++] = e;
+  }
+  const visited = new Uint8Array(edgeCount);
+  const nextUnvisited = (vertex: number): number => {
+    for (let i = outgoingStart[vertex]; i < outgoingStart[vertex + 1]; i++) {
+      if (!visited[outgoing[i]]) return outgoing[i];
+    }
+    return -1;
+  };
+  let holes = 0;
+  for (const first of boundaryEdges) {
+    if (visited[first]) continue;
+    holes++;
+    let current = first;
+    while (current >= 0) {
+      visited[current] = 1;
+      current = nextUnvisited(boundaryEnd(current));
+    }
+  }
+
+  let faceCount = 0;
+  for (let t = 0; t < triangleCount; t++) {
+    faceCount += validFace[t];
+  }
+  const eulerCharacteristic = usedVertexCount - edgeCount + faceCount;
+  const isClosed = boundaryEdges.length === 0;
+  const isManifold = nonManifoldEdges.length === 0 && nonManifoldVertices.length === 0;
+  const isConsistentlyOriented = inconsistentEdges.length === 0;
+
+  const edgePairs = (edges: number[]) => {
+    const pairs = new Uint32Array(edges.length * 2);
+    edges.forEach((e, i) => {
+      pairs[i * 2] = representatives[edgeLow[e]];
+      pairs[i * 2 + 1] = representatives[edgeHigh[e]];
+    });
+    return pairs;
+  };
+
+  return {
+    vertices: usedVertexCount,
+    edges: edgeCount,
+    faces: faceCount,
+    boundaryEdges: boundaryEdges.length,
+    holes,
+    nonManifoldEdges: nonManifoldEdges.length,
+    nonManifoldVertices: nonManifoldVertices.length,
+    inconsistentEdges: inconsistentEdges.length,
+    degenerateFaces: degenerateFaces.length,
+    duplicateFaces: duplicateFaces.length,
+    isolatedVertices: isolatedVertices.length,
+    components: componentCount,
+    eulerCharacteristic,
+    genus:
+      isClosed && isManifold && isConsistentlyOriented && faceCount > 0
+        ? (2 * componentCount - eulerCharacteristic) / 2
+        : null,
+    isClosed,
+    isManifold,
+    isConsistentlyOriented,
+    isWatertight,
+    problems: {
+      boundaryEdges: edgePairs(boundaryEdges),
+      nonManifoldEdges: edgePairs(nonManifoldEdges),
+      inconsistentEdges: edgePairs(inconsistentEdges),
+      nonManifoldVertices: Uint32Array.from(nonManifoldVertices),
+      isolatedVertices: Uint32Array.from(isolatedVertices),
+      degenerateFaces: Uint32Array.from(degenerateFaces),
+      duplicateFaces: Uint32Array.from(duplicateFaces)
+    }
+  };
+}
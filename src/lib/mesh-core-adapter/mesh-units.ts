@@ -0,0 +1,153 @@
+/**
+ * @file mesh-units.ts
+ * @description Length units and up axis of mesh coordinates
+ *
+ * - STL/OBJ/PLY/OFF carry neither units nor an up axis; they are declared on
+ *   import or guessed (glTF is meters and Y-up by specification, 3MF
+ *   declares its unit and is Z-up)
+ * - Units are guessed from the bbox magnitude: parts a few units across are
+ *   taken as meters, anything larger as millimeters (inches, centimeters and
+ *   feet must be declared)
+ * - Coordinates are never rewritten; measurements are converted for display
+ */
+
+import type { LengthUnit, MeshFormat, MeshStats, UpAxis } from './types';
+
+/** All length units, smallest first */
+export const LENGTH_UNITS: readonly LengthUnit[] = ['mm', 'cm', 'in', 'ft', 'm'];
+
+/** Size of one unit in meters */
+export const METERS_PER_UNIT: Record<LengthUnit, number> = {
+  mm: 0.001,
+  cm: 0.01,
+  m: 1,
+  in: 0.0254,
+  ft: 0.3048
+};
+
+/** Largest bbox extent up to which coordinates are guessed to be meters */
+export const METER_GUESS_MAX_EXTENT = 3;
+
+/**
+ * Declared units/up axis of an import; `'auto'` (or omitted) guesses them
+ */
+export interface MeshUnitOptions {
+  units?: LengthUnit | 'auto';
+  upAxis?: UpAxis | 'auto';
+}
+
+/**
+ * Factor converting lengths from one unit to another.
+ */
+export function unitScale(from: LengthUnit, to: LengthUnit): number {
+  return from === to ? 1 : METERS_PER_UNIT[from] / METERS_PER_UNIT[to];
+}
+
+/**
+ * Converts a length (or an area/volume with `power` 2/3) between units.
+ */
+export function convertLength(value: number, from: LengthUnit, to: LengthUnit, power = 1): number {
+  return value * unitScale(from, to) ** power;
+}
+
+/**
+ * Factor and unit label for showing lengths measured in `units` in the display unit
+ *
+ * @param units - Unit of the measured mesh (no label and no conversion when unknown)
+ * @param displayUnits - Display unit, or 'source' to keep the mesh's own unit
+ */
+export function displayUnitConversion(
+  units: LengthUnit | undefined,
+  displayUnits: LengthUnit | 'source'
+): { factor: number; unit: LengthUnit | undefined } {
+  if (!units) {
+    return { factor: 1, unit: undefined };
+  }
+  if (displayUnits === 'source') {
+    return { factor: 1, unit: units };
+  }
+  return { factor: unitScale(units, displayUnits), unit: displayUnits };
+}
+
+/** Largest axis extent of the coordinates (0 when empty) */
+function largestExtent(vertices: Float64Array): number {
+  let largest = 0;
+  for (let axis = 0; axis < 3; axis++) {
+    let min = Infinity;
+    let max = -Infinity;
+    for (let i = axis; i < vertices.length; i += 3) {
+      const value = vertices[i];
+      if (value < min) min = value;
+      if (value > max) max = value;
+    }
+    if (max > min) largest = Math.max(largest, max - min);
+  }
+  return largest;
+}
+
+/**
+ * Guesses the length unit of mesh coordinates.
+ *
+ * @param format - Detected file format (glTF and 3MF have a defined unit)
+ * @param vertices - Vertex coordinates (x, y, z sequential)
+ * @param declaredUnits - Unit the file declares (3MF `<model unit>`), used when present
+ */
+export function guessLengthUnit(format: MeshFormat, vertices: Float64Array, declaredUnits?: LengthUnit): LengthUnit {
+  if (declaredUnits) return declaredUnits;
+  if (format === 'gltf' || format === 'glb') return 'm';
+  if (format === '3mf') return 'mm';
+  const extent = largestExtent(vertices);
+  return extent > 0 && extent <= METER_GUESS_MAX_EXTENT ? 'm' : 'mm';
+}
+
+/**
+ * Guesses the up axis from the format's conventions (STL and 3MF come from
+ * CAD and printing tools, which are Z-up).
+ */
+export function guessUpAxis(format: MeshFormat): UpAxis {
+  return format === 'stl' || format === 'stl_binary' || format === '3mf' ? 'z' : 'y';
+}
+
+/**
+ * Resolves the declared units/up axis of an import, guessing the `'auto'` ones.
+ */
+export function resolveMeshUnits(
+  format: MeshFormat,
+  vertices: Float64Array,
+  options: MeshUnitOptions = {},
+  declaredUnits?: LengthUnit
+): { units: LengthUnit; upAxis: UpAxis } {
+  return {
+    units: options.units && options.units !== 'auto' ? options.units : guessLengthUnit(format, vertices, declaredUnits),
+    upAxis: options.upAxis && options.upAxis !== 'auto' ? options.upAxis : guessUpAxis(format)
+  };
+}
+
+/**
+ * Scales mesh statistics by a length factor (e.g. `unitScale(asset.units, 'in')`).
+ *
+ * Areas scale with the factor squared, volumes cubed and inertia (unit
+ * density) to the fifth power; counts and directions are unchanged.
+ */
+export function scaleMeshStats(stats: MeshStats, factor: number): MeshStats {
+  if (factor === 1) return stats;
+  const scale = (v: [number, number, number]): [number, number, number] => [v[0] * factor, v[1] * factor, v[2] * factor];
+  const factor5 = factor ** 5;
+  return {
+    ...stats,
+    bbox: { min: scale(stats.bbox.min), max: scale(stats.bbox.max) },
+    diagonalLength: stats.diagonalLength * factor,
+    ...(stats.surfaceArea !== undefined ? { surfaceArea: stats.surfaceArea * factor ** 2 } : {}),
+    ...(stats.volume !== undefined ? { volume: stats.volume * factor ** 3 } : {}),
+    ...(stats.surfaceCentroid ? { surfaceCentroid: scale(stats.surfaceCentroid) } : {}),
+    ...(stats.centerOfMass ? { centerOfMass: scale(stats.centerOfMass) } : {}),
+    ...(stats.inertiaTensor
+      ? {
+          inertiaTensor: stats.inertiaTensor.map((row) => row.map((value) => value * factor5)) as MeshStats['inertiaTensor']
+        }
+      : {}),
+    ...(stats.principalMoments
+      ? { principalMoments: stats.principalMoments.map((value) => value * factor5) as [number, number, number] }
+      : {})
+  };
+}
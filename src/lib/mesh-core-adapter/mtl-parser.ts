@@ -0,0 +1,241 @@
+/**
+ * MTL parser (Wavefront material library)
+ *
+ * Reads the subset of MTL used for display:
+ * - `newmtl` material names
+ * - `Kd` diffuse color, `d` / `Tr` opacity
+ * - `map_Kd` diffuse texture (option flags such as `-s 1 1 1` are skipped)
+ *
+ * `resolveObjMaterials` joins an OBJ's `usemtl` groups with the libraries
+ * and images dropped alongside it.
+ *
+ * @module mtl-parser
+ */
+
+import type { JsParseResult } from './js-parsers';
+import type { MeshGroup, MeshMaterial, MeshTexture } from './types';
+
+/**
+ * Material definition as written in the library
+ */
+export interface MtlMaterial {
+  name: string;
+  diffuseColor: [number, number, number];
+  opacity: number;
+  /** `map_Kd` file reference (as written, may contain directories) */
+  diffuseMap?: string;
+}
+
+/**
+ * Result of joining OBJ material groups with their libraries
+ */
+export interface ResolvedObjMaterials {
+  groups: MeshGroup[];
+  materials: MeshMaterial[];
+  /** Referenced files (libraries, textures) that were not provided */
+  missing: string[];
+}
+
+/** Used for faces without `usemtl` or with an undefined material (viewer mesh color) */
+export const DEFAULT_MATERIAL_NAME = 'default';
+const DEFAULT_DIFFUSE: [number, number, number] = [0.4, 0.6, 0.8];
+
+/** `map_*` options and the number of arguments each takes */
+const MAP_OPTION_ARITY: Record<string, number> = {
+  '-blendu': 1,
+  '-blendv': 1,
+  '-bm': 1,
+  '-boost': 1,
+  '-cc': 1,
+  '-clamp': 1,
+  '-imfchan': 1,
+  '-mm': 2,
+  '-o': 3,
+  '-s': 3,
+  '-t': 3,
+  '-texres': 1
+};
+
+const IMAGE_MIME_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  webp: 'image/webp',
+  gif: 'image/gif',
+  bmp: 'image/bmp'
+};
+
+function parseColor(parts: string[]): [number, number, number] | null {
+  // 'Kd spectral ...' and 'Kd xyz ...' are not supported
+  const values = parts.slice(1, 4).map(Number);
+  if (values.length === 0 || values.some((v) => !Number.isFinite(v))) {
+    return null;
+  }
+  // A single value means grey
+  const [r, g = r, b = r] = values;
+  return [r, g, b];
+}
+
+/** Extracts the file name of a `map_Kd` statement, skipping option flags */
+function parseMapFile(parts: string[]): string | undefined {
+  let i = 1;
+  while (i < parts.length && parts[i].startsWith('-') && parts[i] in MAP_OPTION_ARITY) {
+    const arity = MAP_OPTION_ARITY[parts[i]];
+    i++;
+    // Single-argument options always take one token ('-clamp on');
+    // vector options take up to `arity` numbers ('-s u [v [w]]')
+    for (let taken = 0; taken < arity && i < parts.length - 1; taken++) {
+      if (taken > 0 && !Number.isFinite(Number(parts[i]))) break;
+      i++;
+    }
+  }
+  // File names may contain spaces
+  const file = parts.slice(i).join(' ');
+  return file || undefined;
+}
+
+/**
+ * Parses an MTL file.
+ *
+ * Unknown statements are ignored. Later definitions of the same name
+ * replace earlier ones.
+ *
+ * @param text MTL file contents
+ * @returns Materials keyed by name
+ */
+export function parseMtl(text: string): Map<string, MtlMaterial> {
+  const materials = new Map<string, MtlMaterial>();
+  let current: MtlMaterial | null = null;
+
+  for (const line of text.split('\n')) {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith('#')) continue;
+
+    const parts = trimmed.split(/\s+/);
+    const keyword = parts[0].toLowerCase();
+
+    if (keyword === 'newmtl') {
+      const name = trimmed.slice(parts[0].length).trim();
+      current = { name, diffuseColor: [...DEFAULT_DIFFUSE], opacity: 1 };
+      materials.set(name, current);
+      continue;
+    }
+    if (!current) continue;
+
+    switch (keyword) {
+      case 'kd': {
+        const color = parseColor(parts);
+        if (color) current.diffuseColor = color;
+        break;
+      }
+      case 'd': {
+        // 'd -halo 0.5' is treated as plain 'd 0.5'
+        const value = Number(parts[parts.length - 1]);
+        if (Number.isFinite(value)) current.opacity = Math.min(Math.max(value, 0), 1);
+        break;
+      }
+      case 'tr': {
+        const value = Number(parts[1]);
+        if (Number.isFinite(value)) current.opacity = Math.min(Math.max(1 - value, 0), 1);
+        break;
+      }
+      case 'map_kd':
+        current.diffuseMap = parseMapFile(parts);
+        break;
+    }
+  }
+
+  return materials;
+}
+
+/**
+ * Looks up a referenced file by path, then by base name (case-insensitive).
+ *
+ * Exporters often write absolute or Windows paths, while dropped files only
+ * carry their base name.
+ */
+function findResource(resources: Map<string, ArrayBuffer>, reference: string): ArrayBuffer | undefined {
+  const direct = resources.get(reference);
+  if (direct) {
+    return direct;
+  }
+  const baseName = (reference.split(/[\\/]/).pop() ?? reference).toLowerCase();
+  for (const [name, data] of resources) {
+    if ((name.split(/[\\/]/).pop() ?? name).toLowerCase() === baseName) {
+      return data;
+    }
+  }
+  return undefined;
+}
+
+function toTexture(reference: string, data: ArrayBuffer): MeshTexture {
+  const fileName = reference.split(/[\\/]/).pop() ?? reference;
+  const extension = fileName.split('.').pop()?.toLowerCase() ?? '';
+  return {
+    fileName,
+    mimeType: IMAGE_MIME_TYPES[extension] ?? 'application/octet-stream',
+    data
+  };
+}
+
+/**
+ * Resolves OBJ `usemtl` groups against the provided material libraries.
+ *
+ * Materials are numbered in order of first use. Faces without `usemtl`, or
+ * whose material is not defined in any library, use the default material.
+ *
+ * @param result OBJ parse result (with `groups` / `materialLibraries`)
+ * @param resources Companion files keyed by file name
+ */
+export function resolveObjMaterials(result: JsParseResult, resources: Map<string, ArrayBuffer>): ResolvedObjMaterials {
+  const missing: string[] = [];
+  const definitions = new Map<string, MtlMaterial>();
+  const decoder = new TextDecoder('utf-8');
+
+  for (const library of result.materialLibraries ?? []) {
+    const data = findResource(resources, library);
+    if (!data) {
+      missing.push(library);
+      continue;
+    }
+    for (const [name, material] of parseMtl(decoder.decode(data))) {
+      definitions.set(name, material);
+    }
+  }
+
+  const materials: MeshMaterial[] = [];
+  const indexByName = new Map<string, number>();
+
+  const materialIndex = (name: string | null): number => {
+    const definition = name !== null ? definitions.get(name) : undefined;
+    const key = definition ? definition.name : DEFAULT_MATERIAL_NAME;
+    const existing = indexByName.get(key);
+    if (existing !== undefined) {
+      return existing;
+    }
+
+    const material: MeshMaterial = definition
+      ? { name: definition.name, diffuseColor: definition.diffuseColor, opacity: definition.opacity }
+      : { name: DEFAULT_MATERIAL_NAME, diffuseColor: [...DEFAULT_DIFFUSE], opacity: 1 };
+    if (definition?.diffuseMap) {
+      const image = findResource(resources, definition.diffuseMap);
+      if (image) {
+        material.diffuseTexture = toTexture(definition.diffuseMap, image);
+      } else if (!missing.includes(definition.diffuseMap)) {
+        missing.push(definition.diffuseMap);
+      }
+    }
+
+    indexByName.set(key, materials.length);
+    materials.push(material);
+    return materials.length - 1;
+  };
+
+  const groups = (result.groups ?? []).map((group) => ({
+    start: group.start,
+    count: group.count,
+    materialIndex: materialIndex(group.material)
+  }));
+
+  return { groups, materials, missing };
+}
@@ -0,0 +1,93 @@
+/**
+ * Parse worker client
+ *
+ * Runs chunked stream parsing in a dedicated Web Worker so large ASCII
+ * meshes do not block the UI. Result buffers arrive by transfer (zero-copy).
+ * Where workers are unavailable (tests, older runtimes) the same stream
+ * parser runs on the calling thread.
+ *
+ * Aborting terminates the worker, which stops reading immediately.
+ *
+ * @module parse-worker-client
+ */
+
+import type { JsParseResult, LineParsedFormat } from './js-parsers';
+import {
+  parseMeshStream,
+  type ParseWorkerRequest,
+  type ParseWorkerResponse,
+  type StreamProgressCallback
+} from './mesh-stream-parser';
+
+export interface StreamingParseOptions {
+  onProgress?: StreamProgressCallback;
+  signal?: AbortSignal;
+}
+
+/**
+ * Parses a file in chunks, in a worker when available.
+ *
+ * @param file File to stream (must support `Blob.stream()`)
+ * @param format Line-parsed format (OBJ, ASCII STL, ASCII PLY)
+ * @throws Error When parsing fails or the worker crashes
+ * @throws The signal's abort reason when aborted
+ */
+export function parseFileStreaming(
+  file: Blob,
+  format: LineParsedFormat,
+  options: StreamingParseOptions = {}
+): Promise<JsParseResult> {
+  const { onProgress, signal } = options;
+  if (typeof Worker === 'undefined') {
+    return parseMeshStream(file.stream(), format, { totalBytes: file.size, onProgress, signal });
+  }
+
+  return new Promise<JsParseResult>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const worker = new Worker(new URL('./parse-worker.ts', import.meta.url), { type: 'module' });
+    const onAbort = () => {
+      worker.terminate();
+      reject(signal?.reason);
+    };
+    const settle = () => {
+      worker.terminate();
+      signal?.removeEventListener('abort', onAbort);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    worker.onmessage = (event: MessageEvent<ParseWorkerResponse>) => {
+      const message = event.data;
+      switch (message.type) {
+        case 'progress':
+          onProgress?.(message.bytesRead, message.totalBytes);
+          break;
+        case 'result':
+          settle();
+          resolve(message.result);
+          break;
+        case 'error':
+          settle();
+          reject(new Error(message.message));
+          break;
+      }
+    };
+    worker.onerror = (event) => {
+      settle();
+      reject(new Error(`Parse worker failed: ${event.message}`));
+    };
+
+    const request: ParseWorkerRequest = { file, format };
+    worker.postMessage(request);
+  });
+}
+
+/**
+ * Whether a file can be streamed (real `File`/`Blob`, not an in-memory stand-in).
+ */
+export function canStreamFile(file: Blob): boolean {
+  return typeof file.stream === 'function' && typeof file.slice === 'function';
+}
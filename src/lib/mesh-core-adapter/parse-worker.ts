@@ -0,0 +1,27 @@
+/**
+ * Parse worker entry
+ *
+ * Streams the posted `File` through `parseMeshStream` off the main thread,
+ * posts progress while reading and transfers the result buffers back.
+ *
+ * @module parse-worker
+ */
+
+import { collectTransferables, parseMeshStream, type ParseWorkerRequest, type ParseWorkerResponse } from './mesh-stream-parser';
+
+function post(message: ParseWorkerResponse, transfer: Transferable[] = []): void {
+  self.postMessage(message, { transfer });
+}
+
+self.onmessage = async (event: MessageEvent<ParseWorkerRequest>) => {
+  const { file, format } = event.data;
+  try {
+    const result = await parseMeshStream(file.stream(), format, {
+      totalBytes: file.size,
+      onProgress: (bytesRead, totalBytes) => post({ type: 'progress', bytesRead, totalBytes })
+    });
+    post({ type: 'result', result }, collectTransferables(result));
+  } catch (error) {
+    post({ type: 'error', message: (error as Error).message ?? String(error) });
+  }
+};
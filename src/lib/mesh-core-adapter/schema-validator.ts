@@ -50,6 +50,7 @@ const AdapterErrorCodeSchema = z.enum([
   'E_EMPTY_FILE',
   'E_FILE_TOO_LARGE',
   'E_FILE_READ_FAILED',
+  'E_ABORTED',
   'E_PARSE_FAILED',
   'E_UNSUPPORTED_FORMAT',
   'E_MEMORY_LIMIT',
@@ -73,6 +74,9 @@ export const ErrorContextSchema = z.object({
   availableBytes: z.number().min(0).optional(),
   triangleCount: z.number().min(0).optional(),
   maxTriangles: z.number().min(0).optional(),
+  compressedBytes: z.number().min(0).optional(),
+  decompressedBytes: z.number().min(0).optional(),
+  maxBytes: z.number().min(0).optional(),
   format: z.string().optional(),
 }).passthrough(); // Allow extension fields
 
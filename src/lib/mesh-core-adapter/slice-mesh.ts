@@ -3,9 +3,13 @@
  * @description sliceMesh TypeScript wrapper for WASM C++ function
  * 
  * Wraps the WASM sliceMeshFromPointer function to provide an easy-to-use API in TypeScript.
+ * Falls back to the pure TypeScript slicer when the module lacks that export.
  */
 
-import type { ClippingAxis } from './types';
+import type { ClippingAxis, MeshAsset, MeshBuffers } from './types';
+import { computeMeshStats } from './mesh-stats';
+import { sliceMeshJs } from './js-slicer';
+import { capSliceMesh } from './cap-cut';
 
 /** Mesh data interface */
 export interface SliceMeshData {
@@ -15,7 +19,13 @@ export interface SliceMeshData {
   faceCount?: number;
 }
 
-/** Plane definition */
+/**
+ * Plane definition
+ * 
+ * The plane is `dot(normal, p) = distance`. Slicing keeps the half-space
+ * `dot(normal, p) >= distance`, which is the same side Three.js keeps for a
+ * clipping plane with `normal` and `constant = -distance`.
+ */
 export interface SlicePlane {
   /** Normal vector (normalized) */
   normal: { x: number; y: number; z: number };
@@ -35,10 +45,18 @@ export interface SliceMeshResult {
   exactFallbackCount: number;
   /** Exact fallback ratio (0-1) */
   exactFallbackRatio: number;
+  /** Number of cap triangles added (only when capCut is requested) */
+  capFaceCount?: number;
+}
+
+/** Slice options */
+export interface SliceMeshOptions {
+  /** Close the cut with triangulated cap polygons (watertight result) */
+  capCut?: boolean;
 }
 
 /** WASM module interface (sliceMesh related) */
-interface SliceMeshModule {
+export interface SliceMeshModule {
   sliceMeshFromPointer(
     verticesPtr: number,
     verticesLen: number,
@@ -65,6 +83,15 @@ interface SliceMeshModule {
   _free(ptr: number): void;
 }
 
+/**
+ * Checks whether a WASM module exposes the sliceMesh entry point.
+ * 
+ * The prebuilt mesh_core module may be built without it.
+ */
+export function hasSliceCapability(module: Partial<SliceMeshModule> | null | undefined): module is SliceMeshModule {
+  return !!module && typeof module.sliceMeshFromPointer === 'function';
+}
+
 /**
  * Create a plane from axis and position
  */
@@ -77,7 +104,7 @@ export function createAxisPlane(axis: ClippingAxis, position: number, flip: bool
   
   const normal = normals[axis];
   
-  // Invert normal if flip is true
+  // Invert normal (and distance, so the plane stays in place) if flip is true
   if (flip) {
     normal.x = -normal.x;
     normal.y = -normal.y;
@@ -86,20 +113,92 @@ export function createAxisPlane(axis: ClippingAxis, position: number, flip: bool
   
   return {
     normal,
-    distance: position
+    distance: flip ? -position : position
   };
 }
 
 /**
  * Slices a mesh with a plane.
  * 
- * @param module WASM module instance
+ * @param module WASM module instance (null or lacking sliceMeshFromPointer selects the TS slicer)
  * @param mesh Input mesh data
  * @param plane Slice plane
+ * @param options Slice options (cut capping)
  * @returns Slice result
  */
 export async function sliceMesh(
-  module: SliceMeshModule,
+  module: Partial<SliceMeshModule> | null,
+  mesh: SliceMeshData,
+  plane: SlicePlane,
+  options: SliceMeshOptions = {}
+): Promise<SliceMeshResult> {
+  const result = await sliceMeshOpen(module, mesh, plane);
+
+  if (!options.capCut || !result.success || !result.mesh) {
+    return result;
+  }
+
+  const capped = capSliceMesh(result.mesh, plane);
+  return {
+    ...result,
+    mesh: capped.mesh,
+    capFaceCount: capped.capFaceCount
+  };
+}
+
+/**
+ * Slices a mesh with several planes, keeping the intersection of their kept half-spaces.
+ * 
+ * Planes are applied one after another (a clip box is six planes).
+ * Exact fallback counts and cap faces are accumulated over all passes.
+ * 
+ * @param module WASM module instance (null or lacking sliceMeshFromPointer selects the TS slicer)
+ * @param mesh Input mesh data
+ * @param planes Slice planes
+ * @param options Slice options (cut capping)
+ * @returns Slice result
+ */
+export async function sliceMeshByPlanes(
+  module: Partial<SliceMeshModule> | null,
+  mesh: SliceMeshData,
+  planes: SlicePlane[],
+  options: SliceMeshOptions = {}
+): Promise<SliceMeshResult> {
+  let current = mesh;
+  let exactFallbackCount = 0;
+  let classifiedVertices = 0;
+  let capFaceCount = 0;
+
+  for (const plane of planes) {
+    const vertexCount = Math.floor(current.vertices.length / 3);
+    const result = await sliceMesh(module, current, plane, options);
+
+    exactFallbackCount += result.exactFallbackCount;
+    classifiedVertices += vertexCount;
+    const exactFallbackRatio = classifiedVertices > 0 ? exactFallbackCount / classifiedVertices : 0;
+
+    if (!result.success || !result.mesh) {
+      return { ...result, exactFallbackCount, exactFallbackRatio };
+    }
+
+    capFaceCount += result.capFaceCount ?? 0;
+    current = result.mesh;
+  }
+
+  return {
+    success: true,
+    mesh: current,
+    exactFallbackCount,
+    exactFallbackRatio: classifiedVertices > 0 ? exactFallbackCount / classifiedVertices : 0,
+    ...(options.capCut ? { capFaceCount } : {})
+  };
+}
+
+/**
+ * Slices a mesh with a plane, leaving the cut open.
+ */
+async function sliceMeshOpen(
+  module: Partial<SliceMeshModule> | null,
   mesh: SliceMeshData,
   plane: SlicePlane
 ): Promise<SliceMeshResult> {
@@ -130,6 +229,10 @@ export async function sliceMesh(
   const indices = mesh.indices instanceof Uint32Array
     ? mesh.indices
     : new Uint32Array(mesh.indices);
+
+  if (!hasSliceCapability(module)) {
+    return sliceMeshJs({ vertices, indices }, plane);
+  }
   
   // Copy data to WASM heap
   const verticesBytes = vertices.byteLength;
@@ -221,3 +324,31 @@ export function computeSlicePlane(
   
   return createAxisPlane(axis, distance, flip);
 }
+
+/**
+ * Builds the asset that replaces `asset` after a successful slice.
+ * 
+ * Keeps the asset identity (id, file info) but bumps the buffer generation
+ * so the renderer and statistics detect the new geometry. The previous
+ * buffers are not released here; the store does that when swapping assets.
+ */
+export function applySliceResult(asset: MeshAsset, mesh: SliceMeshData): MeshAsset {
+  const vertexView = mesh.vertices instanceof Float64Array ? mesh.vertices : new Float64Array(mesh.vertices);
+  const indexView = mesh.indices instanceof Uint32Array ? mesh.indices : new Uint32Array(mesh.indices);
+
+  const buffers: MeshBuffers = {
+    vertexView,
+    indexView,
+    normalView: undefined, // Normals are recomputed by Three.js for the cut geometry
+    generation: Math.max(asset.buffers.generation, 0) + 1,
+    release: () => {
+      // Sliced buffers are JS-owned and cleaned up by GC
+    }
+  };
+
+  return {
+    ...asset,
+    buffers,
+    stats: computeMeshStats(buffers)
+  };
+}
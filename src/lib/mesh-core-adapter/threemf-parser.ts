@@ -0,0 +1,350 @@
+/**
+ * 3MF parser (3D Manufacturing Format)
+ *
+ * Unzips the package, locates the root model part (`_rels/.rels`, falling
+ * back to `3D/3dmodel.model`) and merges every build item into one mesh:
+ * - Mesh objects and component assemblies are both supported
+ * - Item and component transforms are composed and applied to positions
+ * - Winding is flipped for mirroring transforms (negative determinant)
+ * - The model's `unit` is returned with the mesh; micron models are scaled
+ *   to millimeters (the smallest length unit the viewer knows)
+ *
+ * The model XML is scanned with a lightweight tag tokenizer rather than
+ * DOMParser, so parsing also works off the main thread.
+ *
+ * @module threemf-parser
+ */
+
+import type { JsParseResult } from './js-parsers';
+import type { LengthUnit } from './types';
+import { ArchiveError, extractZipEntry, findZipEntry, readZipDirectory } from './zip-reader';
+
+const ROOT_RELS_PATH = '_rels/.rels';
+const DEFAULT_MODEL_PATH = '3D/3dmodel.model';
+const MODEL_RELATIONSHIP_SUFFIX = '/3dmodel';
+
+/**
+ * 3MF affine transform, row-vector convention:
+ * `[m00 m01 m02 m10 m11 m12 m20 m21 m22 m30 m31 m32]`
+ */
+type Transform3mf = number[];
+
+const IDENTITY: Transform3mf = [1, 0, 0, 0, 1, 0, 0, 0, 1, 0, 0, 0];
+
+/** 3MF `<model unit>` values as a viewer unit and the coordinate scale into it */
+const MODEL_UNITS: Record<string, { units: LengthUnit; scale: number }> = {
+  micron: { units: 'mm', scale: 0.001 },
+  millimeter: { units: 'mm', scale: 1 },
+  centimeter: { units: 'cm', scale: 1 },
+  inch: { units: 'in', scale: 1 },
+  foot: { units: 'ft', scale: 1 },
+  meter: { units: 'm', scale: 1 }
+};
+
+interface ObjectReference {
+  objectId: string;
+  transform: Transform3mf;
+}
+
+interface ModelObject {
+  vertices: number[];
+  triangles: number[];
+  components: ObjectReference[];
+}
+
+interface XmlTag {
+  name: string;
+  closing: boolean;
+  selfClosing: boolean;
+  attributes: Record<string, string>;
+}
+
+// ============================================================================
+// XML tokenizer
+// ============================================================================
+
+const TAG_PATTERN = /<!--[\s\S]*?-->|<\?[\s\S]*?\?>|<!\[CDATA\[[\s\S]*?\]\]>|<!DOCTYPE[^>]*>|<(\/?)([A-Za-z_][\w.:-]*)((?:\s+[^\s=/>]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/g;
+const ATTRIBUTE_PATTERN = /([^\s=/>]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+/** Drops the namespace prefix (`m:vertex` → `vertex`) */
+function localName(name: string): string {
+  const colon = name.indexOf(':');
+  return colon >= 0 ? name.slice(colon + 1) : name;
+}
+
+function* scanTags(xml: string): Generator<XmlTag> {
+  TAG_PATTERN.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = TAG_PATTERN.exec(xml)) !== null) {
+    if (match[2] === undefined) {
+      continue; // comment, declaration, CDATA
+    }
+
+    const attributes: Record<string, string> = {};
+    if (match[3]) {
+      ATTRIBUTE_PATTERN.lastIndex = 0;
+      let attribute: RegExpExecArray | null;
+      while ((attribute = ATTRIBUTE_PATTERN.exec(match[3])) !== null) {
+        attributes[attribute[1]] = attribute[2] ?? attribute[3];
+      }
+    }
+
+    yield {
+      name: localName(match[2]),
+      closing: match[1] === '/',
+      selfClosing: match[4] === '/',
+      attributes
+    };
+  }
+}
+
+// ============================================================================
+// Transforms
+// ============================================================================
+
+function parseTransform(value: string | undefined, entryName: string): Transform3mf {
+  if (value === undefined) {
+    return IDENTITY;
+  }
+  const parts = value.trim().split(/\s+/).map(Number);
+  if (parts.length !== 12 || parts.some((n) => !Number.isFinite(n))) {
+    throw new ArchiveError(`3MF transform is invalid: "${value}"`, 'invalid_model', entryName);
+  }
+  return parts;
+}
+
+/** Applies `a` first, then `b` */
+function compose(a: Transform3mf, b: Transform3mf): Transform3mf {
+  const out = new Array<number>(12);
+  for (let row = 0; row < 4; row++) {
+    for (let col = 0; col < 3; col++) {
+      let sum = row === 3 ? b[9 + col] : 0;
+      for (let k = 0; k < 3; k++) {
+        sum += a[row * 3 + k] * b[k * 3 + col];
+      }
+      out[row * 3 + col] = sum;
+    }
+  }
+  return out;
+}
+
+function determinant(m: Transform3mf): number {
+  return (
+    m[0] * (m[4] * m[8] - m[5] * m[7]) -
+    m[1] * (m[3] * m[8] - m[5] * m[6]) +
+    m[2] * (m[3] * m[7] - m[4] * m[6])
+  );
+}
+
+// ============================================================================
+// Model part
+// ============================================================================
+
+function decodeEntry(bytes: Uint8Array): string {
+  return new TextDecoder('utf-8').decode(bytes);
+}
+
+function readNumber(attributes: Record<string, string>, key: string, entryName: string): number {
+  const value = Number(attributes[key]);
+  if (attributes[key] === undefined || !Number.isFinite(value)) {
+    throw new ArchiveError(`3MF attribute "${key}" is missing or invalid`, 'invalid_model', entryName);
+  }
+  return value;
+}
+
+/**
+ * Resolves the root model part path from `_rels/.rels`.
+ */
+function findModelPath(relsXml: string | null): string {
+  if (relsXml) {
+    for (const tag of scanTags(relsXml)) {
+      if (tag.name === 'Relationship' && tag.attributes.Type?.endsWith(MODEL_RELATIONSHIP_SUFFIX) && tag.attributes.Target) {
+        return tag.attributes.Target;
+      }
+    }
+  }
+  return DEFAULT_MODEL_PATH;
+}
+
+function parseModelXml(
+  xml: string,
+  entryName: string
+): { objects: Map<string, ModelObject>; items: ObjectReference[]; unit: string } {
+  const objects = new Map<string, ModelObject>();
+  const items: ObjectReference[] = [];
+  const stack: string[] = [];
+  let current: ModelObject | null = null;
+  let sawModel = false;
+  let unit = 'millimeter';
+
+  for (const tag of scanTags(xml)) {
+    if (tag.closing) {
+      if (stack.pop() !== tag.name) {
+        throw new ArchiveError(`3MF model XML is malformed near </${tag.name}>`, 'invalid_model', entryName);
+      }
+      if (tag.name === 'object') {
+        current = null;
+      }
+      continue;
+    }
+
+    const parent = stack[stack.length - 1];
+    switch (tag.name) {
+      case 'model':
+        sawModel = true;
+        // The specification's default unit
+        unit = tag.attributes.unit ?? 'millimeter';
+        break;
+      case 'object': {
+        const id = tag.attributes.id;
+        if (!id) {
+          throw new ArchiveError('3MF object has no id', 'invalid_model', entryName);
+        }
+        current = { vertices: [], triangles: [], components: [] };
+        objects.set(id, current);
+        break;
+      }
+      case 'vertex':
+        if (current && parent === 'vertices') {
+          current.vertices.push(
+            readNumber(tag.attributes, 'x', entryName),
+            readNumber(tag.attributes, 'y', entryName),
+            readNumber(tag.attributes, 'z', entryName)
+          );
+        }
+        break;
+      case 'triangle':
+        if (current && parent === 'triangles') {
+          current.triangles.push(
+            readNumber(tag.attributes, 'v1', entryName),
+            readNumber(tag.attributes, 'v2', entryName),
+            readNumber(tag.attributes, 'v3', entryName)
+          );
+        }
+        break;
+      case 'component':
+        if (current && parent === 'components') {
+          if (tag.attributes['p:path']) {
+            throw new ArchiveError('3MF components referencing other model parts are not supported', 'unsupported_archive', entryName);
+          }
+          current.components.push({
+            objectId: tag.attributes.objectid,
+            transform: parseTransform(tag.attributes.transform, entryName)
+          });
+        }
+        break;
+      case 'item':
+        if (parent === 'build') {
+          items.push({
+            objectId: tag.attributes.objectid,
+            transform: parseTransform(tag.attributes.transform, entryName)
+          });
+        }
+        break;
+    }
+
+    if (!tag.selfClosing) {
+      stack.push(tag.name);
+    }
+  }
+
+  if (!sawModel) {
+    throw new ArchiveError('3MF model part has no <model> element', 'invalid_model', entryName);
+  }
+  if (stack.length > 0) {
+    throw new ArchiveError(`3MF model XML is truncated (unclosed <${stack[stack.length - 1]}>)`, 'invalid_model', entryName);
+  }
+
+  return { objects, items, unit };
+}
+
+// ============================================================================
+// Parser
+// ============================================================================
+
+/**
+ * Parses a 3MF package into a single mesh with all build items merged.
+ *
+ * @param data File contents (ZIP archive)
+ * @returns Flattened mesh (vertices, indices) and its declared unit (none for unknown units)
+ * @throws ArchiveError When the archive or model part is malformed
+ */
+export async function parse3mf(data: ArrayBuffer): Promise<JsParseResult> {
+  const entries = readZipDirectory(data);
+
+  const relsEntry = findZipEntry(entries, ROOT_RELS_PATH);
+  const relsXml = relsEntry ? decodeEntry(await extractZipEntry(data, relsEntry)) : null;
+  const modelPath = findModelPath(relsXml);
+
+  const modelEntry = findZipEntry(entries, modelPath) ?? findZipEntry(entries, DEFAULT_MODEL_PATH);
+  if (!modelEntry) {
+    throw new ArchiveError(`3MF model part not found: ${modelPath}`, 'missing_entry', modelPath);
+  }
+
+  const entryName = modelEntry.name;
+  const { objects, items, unit } = parseModelXml(decodeEntry(await extractZipEntry(data, modelEntry)), entryName);
+  if (items.length === 0) {
+    throw new ArchiveError('3MF build has no items', 'invalid_model', entryName);
+  }
+
+  const modelUnit = MODEL_UNITS[unit];
+  const scale = modelUnit?.scale ?? 1;
+  const vertices: number[] = [];
+  const indices: number[] = [];
+
+  const emit = (reference: ObjectReference, parent: Transform3mf, depth: number) => {
+    const object = objects.get(reference.objectId);
+    if (!object) {
+      throw new ArchiveError(`3MF object not found: ${reference.objectId}`, 'invalid_model', entryName);
+    }
+    if (depth > objects.size) {
+      throw new ArchiveError(`3MF component cycle at object ${reference.objectId}`, 'invalid_model', entryName);
+    }
+
+    const m = compose(reference.transform, parent);
+    const base = vertices.length / 3;
+    const count = object.vertices.length / 3;
+
+    for (let i = 0; i < object.vertices.length; i += 3) {
+      const x = object.vertices[i];
+      const y = object.vertices[i + 1];
+      const z = object.vertices[i + 2];
+      vertices.push(
+        (x * m[0] + y * m[3] + z * m[6] + m[9]) * scale,
+        (x * m[1] + y * m[4] + z * m[7] + m[10]) * scale,
+        (x * m[2] + y * m[5] + z * m[8] + m[11]) * scale
+      );
+    }
+
+    const mirrored = determinant(m) < 0;
+    for (let i = 0; i < object.triangles.length; i += 3) {
+      const a = object.triangles[i], b = object.triangles[i + 1], c = object.triangles[i + 2];
+      if ([a, b, c].some((v) => !Number.isInteger(v) || v < 0 || v >= count)) {
+        throw new ArchiveError(`3MF triangle index out of range in object ${reference.objectId}`, 'invalid_model', entryName);
+      }
+      if (mirrored) {
+        indices.push(base + a, base + c, base + b);
+      } else {
+        indices.push(base + a, base + b, base + c);
+      }
+    }
+
+    for (const component of object.components) {
+      emit(component, m, depth + 1);
+    }
+  };
+
+  items.forEach((item) => emit(item, IDENTITY, 0));
+
+  if (indices.length === 0) {
+    throw new ArchiveError('3MF build contains no triangles', 'invalid_model', entryName);
+  }
+
+  return {
+    vertices: new Float64Array(vertices),
+    indices: new Uint32Array(indices),
+    vertexCount: vertices.length / 3,
+    faceCount: indices.length / 3,
+    ...(modelUnit ? { units: modelUnit.units } : {})
+  };
+}
@@ -0,0 +1,25 @@
+/**
+ * Topology worker entry
+ *
+ * Analyzes the topology of the posted mesh views off the main thread and
+ * transfers the problem arrays back.
+ *
+ * @module topology-worker
+ */
+
+import { analyzeMeshTopology } from './mesh-topology';
+import type { TopologyWorkerRequest, TopologyWorkerResponse } from './mesh-topology-cache';
+
+function post(message: TopologyWorkerResponse, transfer: Transferable[] = []): void {
+  self.postMessage(message, { transfer });
+}
+
+self.onmessage = (event: MessageEvent<TopologyWorkerRequest>) => {
+  const { vertices, indices } = event.data;
+  try {
+    const report = analyzeMeshTopology({ vertexView: vertices, indexView: indices });
+    post({ type: 'result', report }, Object.values(report.problems).map((elements: Uint32Array) => elements.buffer));
+  } catch (error) {
+    post({ type: 'error', message: (error as Error).message ?? String(error) });
+  }
+};
@@ -25,10 +25,14 @@ export const MAX_TRIANGLE_COUNT = 30_000_000;  // 30 million
  * - `ply_ascii`: ASCII PLY
  * - `ply_binary_le`: Binary PLY (Little Endian)
  * - `ply_binary_be`: Binary PLY (Big Endian)
+ * - `gltf`: glTF 2.0 JSON (embedded or external `.bin` buffers)
+ * - `glb`: glTF 2.0 binary container
+ * - `3mf`: 3D Manufacturing Format (ZIP package)
+ * - `off`: Object File Format (OFF / COFF / NOFF, ASCII)
  * 
  * @see MeshAsset.format
  */
-export type MeshFormat = 'obj' | 'stl' | 'stl_binary' | 'ply_ascii' | 'ply_binary_le' | 'ply_binary_be';
+export type MeshFormat = 'obj' | 'stl' | 'stl_binary' | 'ply_ascii' | 'ply_binary_le' | 'ply_binary_be' | 'gltf' | 'glb' | '3mf' | 'off';
 
 /**
  * Mesh vertex/index/normal buffers
@@ -68,6 +72,29 @@ export interface MeshBuffers {
    */
   normalView?: Float32Array;
   
+  /**
+   * Vertex color array (r, g, b sequential in 0~1, optional)
+   * 
+   * Undefined if file does not contain per-vertex colors.
+   */
+  colorView?: Float32Array;
+  
+  /**
+   * Texture coordinate array (u, v sequential, optional)
+   * 
+   * Undefined if file does not contain texture coordinates.
+   * OBJ vertices used with several `vt` are split, so this always
+   * matches the vertex count.
+   */
+  uvView?: Float32Array;
+  
+  /**
+   * Material groups (ranges of `indexView`, optional)
+   * 
+   * Undefined when the whole mesh uses a single default material.
+   */
+  groups?: MeshGroup[];
+  
   /**
    * WASM buffer generation number
    * 
@@ -85,6 +112,63 @@ export interface MeshBuffers {
   release: () => void;
 }
 
+/**
+ * Range of `MeshBuffers.indexView` drawn with one material
+ */
+export interface MeshGroup {
+  /** First index element (multiple of 3) */
+  start: number;
+  
+  /** Number of index elements (triangle count × 3) */
+  count: number;
+  
+  /** Index into `MeshAsset.materials` */
+  materialIndex: number;
+}
+
+/**
+ * Image file referenced by a material (e.g. MTL `map_Kd`)
+ */
+export interface MeshTexture {
+  /** Companion file name the texture was read from */
+  fileName: string;
+  
+  /** Image MIME type (inferred from the extension) */
+  mimeType: string;
+  
+  /** Encoded image bytes */
+  data: ArrayBuffer;
+}
+
+/**
+ * Surface material (diffuse color and optional diffuse texture)
+ */
+export interface MeshMaterial {
+  /** Material name (MTL `newmtl`) */
+  name: string;
+  
+  /** Diffuse color [r, g, b] in 0~1 (MTL `Kd`) */
+  diffuseColor: [number, number, number];
+  
+  /** Opacity in 0~1 (MTL `d`, or 1 - `Tr`) */
+  opacity: number;
+  
+  /** Diffuse texture (MTL `map_Kd`), when the image file was provided */
+  diffuseTexture?: MeshTexture;
+}
+
+/**
+ * Length unit of mesh coordinates
+ * 
+ * STL/OBJ/PLY carry no units, so the unit is declared on import or guessed.
+ */
+export type LengthUnit = 'mm' | 'cm' | 'm' | 'in' | 'ft';
+
+/**
+ * Axis pointing up in mesh coordinates (Y-up for glTF and most DCC tools, Z-up for CAD)
+ */
+export type UpAxis = 'y' | 'z';
+
 /**
  * Mesh statistics information
  * 
@@ -114,6 +198,41 @@ export interface MeshStats {
    * Used for camera placement and Fit-to-View calculations.
    */
   diagonalLength: number;
+
+  /** Total surface area (sum of triangle areas) */
+  surfaceArea?: number;
+
+  /**
+   * Signed enclosed volume (positive when faces wind counter-clockwise seen from outside)
+   *
+   * Only meaningful when `isClosed`; for an open surface it depends on the missing parts.
+   */
+  volume?: number;
+
+  /**
+   * Whether every edge is traversed equally often in both directions
+   * (watertight, consistently oriented surface). When false, `volume`,
+   * `centerOfMass` and the inertia values are unreliable.
+   *
+   * Not set by `computeMeshStats`: it comes from the topology analysis
+   * (`MeshTopologyReport.isWatertight`) once that lands.
+   */
+  isClosed?: boolean;
+
+  /** Area-weighted centroid of the surface */
+  surfaceCentroid?: [number, number, number];
+
+  /** Center of mass of the enclosed solid at uniform density (the surface centroid when the volume is zero) */
+  centerOfMass?: [number, number, number];
+
+  /** Inertia tensor about the center of mass at unit density (rows) */
+  inertiaTensor?: [[number, number, number], [number, number, number], [number, number, number]];
+
+  /** Principal moments of inertia, ascending */
+  principalMoments?: [number, number, number];
+
+  /** Principal axes (unit vectors), in the order of `principalMoments` */
+  principalAxes?: [[number, number, number], [number, number, number], [number, number, number]];
 }
 
 /**
@@ -168,6 +287,15 @@ export interface MeshAsset {
   
   /** Mesh statistics (bbox, vertex/face count, etc.) */
   stats?: MeshStats;
+  
+  /** Materials referenced by `buffers.groups` (OBJ + MTL) */
+  materials?: MeshMaterial[];
+  
+  /** Length unit of the coordinates (declared on import or guessed) */
+  units?: LengthUnit;
+  
+  /** Axis pointing up in the coordinates (declared on import or guessed) */
+  upAxis?: UpAxis;
 }
 
 export type ViewerStateStatus = 'Idle' | 'Loading' | 'Ready' | 'Error';
@@ -186,6 +314,32 @@ export interface OverlayToggles {
   vertices: boolean;
   normals: boolean;
   bbox: boolean;
+  vertexColors: boolean;
+  uvChecker: boolean;
+}
+
+/**
+ * Placement of an asset in a multi-mesh scene (applied on top of its own coordinates)
+ */
+export interface SceneTransform {
+  position: [number, number, number];
+  /** XYZ Euler angles in degrees */
+  rotation: [number, number, number];
+  /** Uniform scale factor */
+  scale: number;
+}
+
+/**
+ * A loaded asset and its display state in the scene
+ */
+export interface SceneAsset {
+  asset: MeshAsset;
+  visible: boolean;
+  /** Base color (CSS hex), used where the mesh has no materials, vertex colors or texture */
+  color: string;
+  transform: SceneTransform;
+  /** Image dropped onto the viewer while this asset was selected */
+  diffuseTexture: MeshTexture | null;
 }
 
 export interface ViewerError {
@@ -336,8 +490,9 @@ export interface LogEvent {
  * 
  * **File I/O**:
  * - `E_EMPTY_FILE`: 0-byte empty file
- * - `E_FILE_TOO_LARGE`: Exceeds 600MB
+ * - `E_FILE_TOO_LARGE`: Exceeds 600MB (decompressed size for .gz/.zip)
  * - `E_FILE_READ_FAILED`: File read failure
+ * - `E_ABORTED`: Load cancelled through its `AbortSignal`
  * 
  * **Parse**:
  * - `E_PARSE_FAILED`: Parse failure (both Fast/Exact)
@@ -362,6 +517,7 @@ export type AdapterErrorCode =
   | 'E_EMPTY_FILE'
   | 'E_FILE_TOO_LARGE'
   | 'E_FILE_READ_FAILED'
+  | 'E_ABORTED'
   // Parse
   | 'E_PARSE_FAILED'
   | 'E_UNSUPPORTED_FORMAT'
@@ -384,7 +540,8 @@ export type AdapterErrorCode =
  * | Error Code | Context Fields |
  * |------------|----------------|
  * | E_EMPTY_FILE | fileName |
- * | E_FILE_TOO_LARGE | fileName |
+ * | E_FILE_TOO_LARGE | fileName (+ compressedBytes, decompressedBytes, maxBytes for .gz/.zip) |
+ * | E_ABORTED | fileName, reason (phase at cancellation) |
  * | E_MEMORY_LIMIT | requiredBytes, availableBytes |
  * | E_TOO_MANY_TRIANGLES | triangleCount, maxTriangles, fileName |
  * | E_UNSUPPORTED_FORMAT | format, fileName |
@@ -430,11 +587,33 @@ export interface ErrorContext {
    */
   maxTriangles?: number;
   
+  /**
+   * Compressed file size in bytes (E_FILE_TOO_LARGE for .gz/.zip input)
+   */
+  compressedBytes?: number;
+  
+  /**
+   * Decompressed size in bytes (E_FILE_TOO_LARGE for .gz/.zip input)
+   * 
+   * Declared by the container, or counted while inflating.
+   */
+  decompressedBytes?: number;
+  
+  /**
+   * Maximum allowed size in bytes (E_FILE_TOO_LARGE for .gz/.zip input)
+   * 
+   * Value of the MAX_MESH_FILE_BYTES constant (or the loader override).
+   */
+  maxBytes?: number;
+  
   /** Error reason (detailed) */
   reason?: string;
   
   /** Format information (E_UNSUPPORTED_FORMAT) */
   format?: string;
+  
+  /** Archive entry path (E_PARSE_FAILED for archive formats such as 3MF) */
+  entry?: string;
 }
 
 /**
@@ -463,7 +642,7 @@ export interface AdapterError {
   /**
    * Error code (E_ prefix)
    * 
-   * One of 10 error codes.
+   * One of 11 error codes.
    */
   code: AdapterErrorCode;
   
@@ -635,6 +814,31 @@ export interface MeshLoadResult {
   logs: LogEvent[];
 }
 
+/**
+ * Load phase
+ * 
+ * - `read`: reading file bytes
+ * - `detect`: format detection and parser selection
+ * - `parse`: parsing (byte progress for stream-parsed files)
+ * - `stats`: mesh statistics
+ * - `upload`: handing buffers to the renderer (reported by the viewer)
+ */
+export type LoadPhase = 'read' | 'detect' | 'parse' | 'stats' | 'upload';
+
+/**
+ * Load progress event
+ * 
+ * `bytesRead` only advances during `read` and stream-parsed `parse`;
+ * other phases repeat the last value.
+ */
+export interface LoadProgress {
+  phase: LoadPhase;
+  bytesRead: number;
+  totalBytes: number;
+}
+
+export type LoadProgressCallback = (progress: LoadProgress) => void;
+
 // ============================================================================
 // Legacy Types (Deprecated - will be removed in v1.0)
 // ============================================================================
@@ -816,8 +1020,42 @@ export type ClippingAxis = 'x' | 'y' | 'z';
  * Clipping Mode
  * - 'axis': Axis-aligned mode (X/Y/Z)
  * - 'free': Free plane mode (arbitrary angle)
+ * - 'box': Clip box aligned to the bounding box (keeps the inside)
+ */
+export type ClippingMode = 'axis' | 'free' | 'box';
+
+/**
+ * How multiple clipping planes combine
+ * - 'intersection': Keep points on the kept side of every plane (section box)
+ * - 'union': Keep points on the kept side of any plane
+ */
+export type ClipCombineMode = 'intersection' | 'union';
+
+/**
+ * Additional axis-aligned clipping plane
+ */
+export interface ClippingPlaneEntry {
+  /** Stable identifier (list key) */
+  id: string;
+  /** Whether this plane clips */
+  enabled: boolean;
+  /** Plane axis */
+  axis: ClippingAxis;
+  /** Slider position (0~100%) - relative to bounding box */
+  position: number;
+  /** Direction flip flag (default false: keep positive direction) */
+  flipped: boolean;
+}
+
+/**
+ * Clip box extents (0~100% per axis, relative to bounding box)
  */
-export type ClippingMode = 'axis' | 'free';
+export interface ClipBoxState {
+  /** Lower face positions [x, y, z] */
+  min: [number, number, number];
+  /** Upper face positions [x, y, z] */
+  max: [number, number, number];
+}
 
 /**
  * Gizmo Manipulation Mode
@@ -860,7 +1098,7 @@ export interface ClippingState {
   /** Whether clipping is enabled */
   enabled: boolean;
 
-  /** Clipping mode (axis: axis-aligned, free: free plane) */
+  /** Clipping mode (axis: axis-aligned, free: free plane, box: clip box) */
   mode: ClippingMode;
   
   /** Clipping axis (for axis mode) */
@@ -877,8 +1115,26 @@ export interface ClippingState {
 
   /** Last free plane quaternion - for restoration when switching modes */
   lastFreeQuaternion?: [number, number, number, number];
+
+  /** Close the cut with a cap polygon when applying (default false) */
+  capCut?: boolean;
+
+  /** Additional planes combined with the primary plane (or the clip box) */
+  planes?: ClippingPlaneEntry[];
+
+  /** Clip box extents (box mode) */
+  box?: ClipBoxState;
+
+  /** How planes combine for GPU clipping (default 'intersection') */
+  combine?: ClipCombineMode;
 }
 
+/** Maximum number of clipping planes (primary + additional) */
+export const MAX_CLIPPING_PLANES = 6;
+
+/** Clipping planes of the clip box (one per face), so box mode takes no additional planes */
+export const CLIP_BOX_PLANE_COUNT = 6;
+
 /**
  * Default Clipping State
  * 
@@ -892,4 +1148,83 @@ export const DEFAULT_CLIPPING_STATE: ClippingState = {
   quaternion: [0, 0, 0, 1],  // Identity quaternion
   position: 50,
   flipped: false,
+  capCut: false,
+  planes: [],
+  box: { min: [0, 0, 0], max: [100, 100, 100] },
+  combine: 'intersection',
 };
+
+// ============================================================================
+// Measurement Types
+// ============================================================================
+
+/**
+ * Measurement tool
+ * 
+ * - 'distance': two points, with the per-axis deltas
+ * - 'angle': three points, the angle at the second one
+ * - 'radius': three points on a circle (radius and diameter)
+ */
+export type MeasurementKind = 'distance' | 'angle' | 'radius';
+
+/** What a picked point snapped to */
+export type MeasurementSnap = 'vertex' | 'edge' | 'face';
+
+/**
+ * Snap mode for picking
+ * 
+ * 'auto' prefers a vertex, then an edge within the pick tolerance, else the face point.
+ */
+export type MeasurementSnapMode = 'auto' | MeasurementSnap;
+
+/**
+ * Point picked on a mesh (scene coordinates)
+ */
+export interface MeasurementPoint {
+  position: [number, number, number];
+  /** Asset the point was picked on */
+  assetId: string;
+  snap: MeasurementSnap;
+}
+
+/**
+ * Completed measurement
+ */
+export interface Measurement {
+  id: string;
+  kind: MeasurementKind;
+  /** Display label (e.g. "Distance 1") */
+  label: string;
+  /** 2 points for 'distance', 3 for 'angle' and 'radius' */
+  points: MeasurementPoint[];
+}
+
+/**
+ * Measurement mode state
+ */
+export interface MeasurementToolState {
+  /** Whether clicks on the mesh pick measurement points */
+  enabled: boolean;
+  kind: MeasurementKind;
+  snap: MeasurementSnapMode;
+  /** Points picked for the measurement in progress */
+  pending: MeasurementPoint[];
+}
+
+// ============================================================================
+// Picking Types
+// ============================================================================
+
+/** Mesh element picked by clicking */
+export type PickTarget = 'face' | 'vertex';
+
+/**
+ * Picked mesh element
+ */
+export interface MeshPick {
+  /** Asset the element belongs to */
+  assetId: string;
+  target: PickTarget;
+  /** Triangle index ('face') or vertex index ('vertex') in the asset's buffers */
+  index: number;
+}
@@ -0,0 +1,262 @@
+/**
+ * URL Mesh Loader
+ *
+ * Downloads a mesh with `fetch` and hands it to `loadMeshAsset`:
+ * - The body is streamed, reporting `read` progress per chunk
+ * - A stalled request (no headers or data for `timeoutMs`) fails with `E_FETCH_TIMEOUT`
+ * - HTTP and network failures return `E_FETCH_FAILED`
+ * - The file name comes from `Content-Disposition` or the URL path; when it
+ *   has no known extension, one is derived from the `Content-Type`
+ *
+ * @module url-loader
+ */
+
+import type { AdapterError, AdapterMetrics, LogEvent, MeshFormat, MeshLoadResult } from './types';
+import { MAX_MESH_FILE_BYTES } from './types';
+import { loadMeshAsset, type MeshLoaderOptions } from './mesh-loader';
+import { createAbortedError, createFetchFailedError, createFetchTimeoutError, createFileTooLargeError } from './error-factory';
+import { detectByExtension, detectByMime } from './format-detector';
+import { generateFileId } from './file-id';
+import { nowISO8601 } from './log-emitter';
+
+/** Default time without response data before a fetch is abandoned (30 seconds) */
+export const FETCH_TIMEOUT_MS = 30_000;
+
+export interface UrlLoadOptions extends MeshLoaderOptions {
+  /** Abort when no headers or body data arrive for this long (default: FETCH_TIMEOUT_MS) */
+  timeoutMs?: number;
+  /** `fetch` implementation (default: global `fetch`) */
+  fetchImpl?: typeof fetch;
+}
+
+/** File extension appended for formats detected from the Content-Type */
+const FORMAT_EXTENSIONS: Record<MeshFormat, string> = {
+  stl: 'stl',
+  stl_binary: 'stl',
+  obj: 'obj',
+  ply_ascii: 'ply',
+  ply_binary_le: 'ply',
+  ply_binary_be: 'ply',
+  gltf: 'gltf',
+  glb: 'glb',
+  '3mf': '3mf',
+  off: 'off'
+};
+
+/** Initial buffer size when the response has no Content-Length */
+const UNKNOWN_LENGTH_CAPACITY = 1024 * 1024;
+
+function decodeComponent(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * Resolves the file name of a download.
+ *
+ * `Content-Disposition` wins over the last URL path segment; query strings
+ * and fragments are ignored.
+ */
+export function resolveDownloadFileName(url: string, contentDisposition?: string | null): string {
+  const disposition = contentDisposition?.match(/filename\*?\s*=\s*(?:UTF-8'')?"?([^";]+)"?/i);
+  if (disposition) {
+    return decodeComponent(disposition[1].trim());
+  }
+  try {
+    const base = typeof location !== 'undefined' ? location.href : 'http://localhost/';
+    const segment = new URL(url, base).pathname.split('/').pop();
+    if (segment) {
+      return decodeComponent(segment);
+    }
+  } catch {
+    // Not a URL: fall through to the default name
+  }
+  return 'download';
+}
+
+/**
+ * Appends an extension derived from the Content-Type when the name has no
+ * known mesh extension (e.g. `/api/models/42` served as `model/stl`).
+ */
+export function withFormatExtension(fileName: string, contentType?: string | null): string {
+  if (detectByExtension(fileName) || !contentType) {
+    return fileName;
+  }
+  const format = detectByMime(contentType.split(';')[0].trim());
+  return format ? `${fileName}.${FORMAT_EXTENSIONS[format]}` : fileName;
+}
+
+/**
+ * Reads a response body chunk by chunk.
+ *
+ * @returns The body, or null when it exceeds `maxBytes`
+ */
+async function readResponseBody(
+  response: Response,
+  totalBytes: number,
+  maxBytes: number,
+  onChunk: (bytesRead: number) => void
+): Promise<Uint8Array | null> {
+  if (!response.body) {
+    const data = new Uint8Array(await response.arrayBuffer());
+    onChunk(data.byteLength);
+    return data.byteLength > maxBytes ? null : data;
+  }
+
+  // Content-Length is the encoded size; decompressed bodies may be larger
+  let buffer = new Uint8Array(totalBytes || UNKNOWN_LENGTH_CAPACITY);
+  let length = 0;
+  const reader = response.body.getReader();
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      if (length + value.byteLength > maxBytes) {
+        await reader.cancel();
+        return null;
+      }
+      if (length + value.byteLength > buffer.length) {
+        const grown = new Uint8Array(Math.max(buffer.length * 2, length + value.byteLength));
+        grown.set(buffer.subarray(0, length));
+        buffer = grown;
+      }
+      buffer.set(value, length);
+      length += value.byteLength;
+      onChunk(length);
+    }
+  } finally {
+    reader.releaseLock();
+  }
+
+  return length === buffer.length ? buffer : buffer.slice(0, length);
+}
+
+/**
+ * Loads a mesh from a URL.
+ *
+ * Accepts the same options as `loadMeshAsset`; `onProgress` receives the
+ * download as the `read` phase. Cross-origin URLs must allow CORS.
+ *
+ * @param url Absolute or page-relative URL
+ * @param options Loader options plus fetch timeout
+ * @returns Load result (never throws)
+ *
+ * @example
+ * ```typescript
+ * const result = await loadMeshFromUrl('/samples/bunny.ply', { bridge, capabilities, timeoutMs: 10_000 });
+ * ```
+ */
+export async function loadMeshFromUrl(url: string, options: UrlLoadOptions): Promise<MeshLoadResult> {
+  const now = options.now ?? (() => Date.now());
+  const fetchImpl = options.fetchImpl ?? fetch;
+  const timeoutMs = options.timeoutMs ?? FETCH_TIMEOUT_MS;
+  const guardBytes = options.maxFileBytes ?? MAX_MESH_FILE_BYTES;
+  const fileId = generateFileId(url);
+  const startTime = now();
+  const logs: LogEvent[] = [];
+  let bytesRead = 0;
+
+  const emitLog = (level: LogEvent['level'], message: string, context?: LogEvent['context']) => {
+    logs.push({
+      level,
+      message,
+      timestamp: nowISO8601(),
+      context: { fileId, category: 'io', ...context }
+    });
+  };
+
+  const fail = (error: AdapterError): MeshLoadResult => {
+    emitLog(error.code === 'E_ABORTED' ? 'WARN' : 'ERROR', error.message, { op: 'fetch_mesh', code: error.code });
+    const metrics: AdapterMetrics = {
+      fileId,
+      parseTimeMs: 0,
+      totalTimeMs: now() - startTime,
+      vertexCount: 0,
+      triangleCount: 0,
+      parserMode: 'fast',
+      fallbackCount: 0,
+      bytesRead
+    };
+    return { status: 'error', error, metrics, logs };
+  };
+
+  if (options.signal?.aborted) {
+    return fail(createAbortedError(url, 'read'));
+  }
+
+  // One controller for both the caller's signal and the inactivity timeout
+  const controller = new AbortController();
+  let timedOut = false;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const armTimeout = () => {
+    clearTimeout(timer);
+    timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeoutMs);
+  };
+  const forwardAbort = () => controller.abort();
+  options.signal?.addEventListener('abort', forwardAbort, { once: true });
+
+  emitLog('DEBUG', `Fetching mesh: ${url}`, { op: 'fetch_start' });
+
+  let fileName: string;
+  let mimeType: string;
+  let data: Uint8Array | null;
+  try {
+    armTimeout();
+    const response = await fetchImpl(url, { signal: controller.signal });
+    if (!response.ok) {
+      return fail(createFetchFailedError(url, `HTTP ${response.status} ${response.statusText}`.trim()));
+    }
+
+    const totalBytes = Number(response.headers.get('content-length')) || 0;
+    mimeType = response.headers.get('content-type')?.split(';')[0].trim() ?? '';
+    fileName = withFormatExtension(resolveDownloadFileName(url, response.headers.get('content-disposition')), mimeType);
+    if (totalBytes > guardBytes) {
+      return fail(createFileTooLargeError(fileName, totalBytes, guardBytes));
+    }
+
+    options.onProgress?.({ phase: 'read', bytesRead: 0, totalBytes });
+    data = await readResponseBody(response, totalBytes, guardBytes, (bytes) => {
+      armTimeout();
+      bytesRead = bytes;
+      options.onProgress?.({ phase: 'read', bytesRead, totalBytes: bytesRead <= totalBytes ? totalBytes : 0 });
+    });
+    if (!data) {
+      return fail(createFileTooLargeError(fileName, bytesRead, guardBytes));
+    }
+  } catch (error) {
+    if (timedOut) {
+      return fail(createFetchTimeoutError(url, timeoutMs));
+    }
+    if (options.signal?.aborted) {
+      return fail(createAbortedError(url, 'read'));
+    }
+    return fail(createFetchFailedError(url, (error as Error).message));
+  } finally {
+    clearTimeout(timer);
+    options.signal?.removeEventListener('abort', forwardAbort);
+  }
+
+  emitLog('DEBUG', `Fetched ${data.byteLength} bytes as ${fileName}`, {
+    op: 'fetch_complete',
+    elapsed_ms: now() - startTime
+  });
+
+  const file = new File([data], fileName, { type: mimeType });
+  const result = await loadMeshAsset(file, {
+    ...options,
+    // The download was the read phase; re-reading the in-memory file is not reported
+    onProgress: (progress) => {
+      if (progress.phase !== 'read') {
+        options.onProgress?.(progress);
+      }
+    }
+  });
+  return { ...result, logs: [...logs, ...result.logs] };
+}
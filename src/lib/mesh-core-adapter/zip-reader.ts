@@ -0,0 +1,228 @@
+/**
+ * ZIP container reader
+ *
+ * Minimal in-browser unzip for archive-based formats (3MF) and zipped mesh bundles:
+ * - Entries are listed from the central directory
+ * - Stored (0) and deflated (8) entries are supported; inflation uses the
+ *   native `DecompressionStream('deflate-raw')`, or the JavaScript decoder
+ *   where it is unavailable
+ * - ZIP64 and encrypted entries are rejected
+ *
+ * @module zip-reader
+ */
+
+import { inflateRawJs } from './js-inflate';
+
+/** Local file header signature 'PK\x03\x04' */
+export const ZIP_LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const ZIP_CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const ZIP_END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+
+/** EOCD record size without the trailing comment */
+const EOCD_SIZE = 22;
+const MAX_COMMENT_LENGTH = 0xffff;
+
+const METHOD_STORED = 0;
+const METHOD_DEFLATED = 8;
+
+/**
+ * Archive failure reason (reported as `E_PARSE_FAILED` context `reason`)
+ *
+ * - `malformed_archive`: Broken or truncated ZIP structure
+ * - `unsupported_archive`: ZIP64, encryption or unknown compression
+ * - `missing_entry`: Required archive part not found
+ * - `invalid_model`: Archive part content is invalid
+ */
+export type ArchiveErrorReason = 'malformed_archive' | 'unsupported_archive' | 'missing_entry' | 'invalid_model';
+
+/**
+ * Error thrown for malformed or unsupported archives
+ */
+export class ArchiveError extends Error {
+  constructor(
+    message: string,
+    public readonly reason: ArchiveErrorReason,
+    public readonly entryName?: string
+  ) {
+    super(message);
+    this.name = 'ArchiveError';
+  }
+}
+
+/**
+ * Central directory entry
+ */
+export interface ZipEntry {
+  name: string;
+  compressionMethod: number;
+  compressedSize: number;
+  uncompressedSize: number;
+  localHeaderOffset: number;
+  encrypted: boolean;
+}
+
+/**
+ * Checks for the ZIP local file header magic ('PK\x03\x04').
+ */
+export function isZip(data: ArrayBuffer): boolean {
+  return data.byteLength >= 4 && new DataView(data).getUint32(0, true) === ZIP_LOCAL_HEADER_SIGNATURE;
+}
+
+function findEndOfCentralDirectory(view: DataView): number {
+  const minOffset = Math.max(0, view.byteLength - EOCD_SIZE - MAX_COMMENT_LENGTH);
+  for (let offset = view.byteLength - EOCD_SIZE; offset >= minOffset; offset--) {
+    if (view.getUint32(offset, true) === ZIP_END_OF_CENTRAL_DIRECTORY_SIGNATURE) {
+      return offset;
+    }
+  }
+  throw new ArchiveError('ZIP end of central directory not found', 'malformed_archive');
+}
+
+/**
+ * Lists archive entries from the central directory.
+ *
+ * @throws ArchiveError When the directory is missing, truncated or ZIP64
+ */
+export function readZipDirectory(data: ArrayBuffer): ZipEntry[] {
+  const view = new DataView(data);
+  if (data.byteLength < EOCD_SIZE) {
+    throw new ArchiveError('ZIP archive is truncated', 'malformed_archive');
+  }
+
+  const eocd = findEndOfCentralDirectory(view);
+  const entryCount = view.getUint16(eocd + 10, true);
+  const directorySize = view.getUint32(eocd + 12, true);
+  const directoryOffset = view.getUint32(eocd + 16, true);
+
+  if (entryCount === 0xffff || directoryOffset === 0xffffffff) {
+    throw new ArchiveError('ZIP64 archives are not supported', 'unsupported_archive');
+  }
+  if (directoryOffset + directorySize > eocd) {
+    throw new ArchiveError('ZIP central directory exceeds archive length', 'malformed_archive');
+  }
+
+  const decoder = new TextDecoder('utf-8');
+  const entries: ZipEntry[] = [];
+  let offset = directoryOffset;
+
+  for (let i = 0; i < entryCount; i++) {
+    if (offset + 46 > eocd || view.getUint32(offset, true) !== ZIP_CENTRAL_HEADER_SIGNATURE) {
+      throw new ArchiveError(`ZIP central directory entry ${i} is corrupt`, 'malformed_archive');
+    }
+
+    const flags = view.getUint16(offset + 8, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const name = decoder.decode(new Uint8Array(data, offset + 46, nameLength));
+
+    entries.push({
+      name,
+      compressionMethod: view.getUint16(offset + 10, true),
+      compressedSize: view.getUint32(offset + 20, true),
+      uncompressedSize: view.getUint32(offset + 24, true),
+      localHeaderOffset: view.getUint32(offset + 42, true),
+      encrypted: (flags & 0x1) !== 0
+    });
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+/**
+ * Finds an entry by path (case-insensitive, leading '/' ignored).
+ */
+export function findZipEntry(entries: ZipEntry[], path: string): ZipEntry | undefined {
+  const target = path.replace(/^\/+/, '').toLowerCase();
+  return entries.find((entry) => entry.name.replace(/^\/+/, '').toLowerCase() === target);
+}
+
+/**
+ * Inflates raw DEFLATE data.
+ *
+ * @param limit Maximum number of output bytes; inflation stops once reached
+ */
+export async function inflateRaw(compressed: Uint8Array, limit = Infinity): Promise<Uint8Array> {
+  if (typeof DecompressionStream === 'undefined') {
+    return inflateRawJs(compressed, limit);
+  }
+
+  const reader = new Response(compressed).body!.pipeThrough(new DecompressionStream('deflate-raw')).getReader();
+  const chunks: Uint8Array[] = [];
+  let length = 0;
+  while (length < limit) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    length += value.byteLength;
+  }
+  if (length >= limit) {
+    await reader.cancel();
+  }
+
+  const output = new Uint8Array(Math.min(length, limit));
+  let offset = 0;
+  for (const chunk of chunks) {
+    const part = chunk.subarray(0, output.length - offset);
+    output.set(part, offset);
+    offset += part.length;
+  }
+  return output;
+}
+
+/**
+ * Extracts one entry's contents.
+ *
+ * @throws ArchiveError When the entry is corrupt, encrypted or uses an
+ *   unsupported compression method
+ */
+export async function extractZipEntry(data: ArrayBuffer, entry: ZipEntry): Promise<Uint8Array> {
+  const view = new DataView(data);
+  const offset = entry.localHeaderOffset;
+
+  if (entry.encrypted) {
+    throw new ArchiveError(`ZIP entry is encrypted: ${entry.name}`, 'unsupported_archive', entry.name);
+  }
+  if (entry.compressedSize === 0xffffffff || entry.uncompressedSize === 0xffffffff) {
+    throw new ArchiveError(`ZIP64 entry is not supported: ${entry.name}`, 'unsupported_archive', entry.name);
+  }
+  if (offset + 30 > data.byteLength || view.getUint32(offset, true) !== ZIP_LOCAL_HEADER_SIGNATURE) {
+    throw new ArchiveError(`ZIP local header is corrupt: ${entry.name}`, 'malformed_archive', entry.name);
+  }
+
+  // Sizes come from the central directory (local ones may be deferred to a data descriptor)
+  const start = offset + 30 + view.getUint16(offset + 26, true) + view.getUint16(offset + 28, true);
+  if (start + entry.compressedSize > data.byteLength) {
+    throw new ArchiveError(`ZIP entry exceeds archive length: ${entry.name}`, 'malformed_archive', entry.name);
+  }
+  const compressed = new Uint8Array(data, start, entry.compressedSize);
+
+  let contents: Uint8Array;
+  if (entry.compressionMethod === METHOD_STORED) {
+    contents = compressed.slice();
+  } else if (entry.compressionMethod === METHOD_DEFLATED) {
+    // Inflating one byte past the declared size is enough to detect a mismatch
+    try {
+      contents = await inflateRaw(compressed, entry.uncompressedSize + 1);
+    } catch (error) {
+      throw new ArchiveError(
+        `ZIP entry failed to inflate: ${entry.name} (${(error as Error).message})`,
+        'malformed_archive',
+        entry.name
+      );
+    }
+  } else {
+    throw new ArchiveError(
+      `ZIP compression method ${entry.compressionMethod} is not supported: ${entry.name}`,
+      'unsupported_archive',
+      entry.name
+    );
+  }
+
+  if (contents.byteLength !== entry.uncompressedSize) {
+    throw new ArchiveError(`ZIP entry size mismatch: ${entry.name}`, 'malformed_archive', entry.name);
+  }
+  return contents;
+}
@@ -17,13 +17,42 @@ export type ClippingAxis = 'x' | 'y' | 'z';
 /**
  * Clipping mode
  */
-export type ClippingMode = 'axis' | 'free';
+export type ClippingMode = 'axis' | 'free' | 'box';
+
+/**
+ * How multiple clipping planes combine
+ */
+export type ClipCombineMode = 'intersection' | 'union';
+
+/**
+ * Additional clipping plane (viewer-ui internal type)
+ */
+export interface ClippingPlaneEntry {
+  id: string;
+  enabled: boolean;
+  axis: ClippingAxis;
+  position: number;
+  flipped: boolean;
+}
+
+/**
+ * Clip box extents (viewer-ui internal type)
+ */
+export interface ClipBoxState {
+  min: [number, number, number];
+  max: [number, number, number];
+}
 
 /**
  * Gizmo manipulation mode
  */
 export type GizmoMode = 'translate' | 'rotate';
 
+/**
+ * Cross-section export format
+ */
+export type SectionExportFormat = 'svg' | 'dxf';
+
 /**
  * Clipping state (viewer-ui internal type)
  */
@@ -35,6 +64,10 @@ export interface ClippingState {
   position: number;
   flipped: boolean;
   lastFreeQuaternion?: [number, number, number, number];
+  capCut?: boolean;
+  planes?: ClippingPlaneEntry[];
+  box?: ClipBoxState;
+  combine?: ClipCombineMode;
 }
 
 /**
@@ -65,6 +98,16 @@ export interface ClippingPanelProps {
   onGizmoModeChange?: (mode: GizmoMode) => void;
   /** Euler angle display (read-only) */
   eulerDegrees?: { x: number; y: number; z: number };
+  /** Cross-section export handler (contour at the current plane) */
+  onExportSection?: (format: SectionExportFormat) => void;
+  /** Add additional plane handler (enables the plane list) */
+  onAddPlane?: () => void;
+  /** Additional plane change handler */
+  onUpdatePlane?: (id: string, partial: Partial<Omit<ClippingPlaneEntry, 'id'>>) => void;
+  /** Additional plane remove handler */
+  onRemovePlane?: (id: string) => void;
+  /** Maximum number of planes including the primary plane (default 6) */
+  maxPlanes?: number;
 }
 
 const AXIS_OPTIONS: { value: ClippingAxis; label: string }[] = [
@@ -75,9 +118,17 @@ const AXIS_OPTIONS: { value: ClippingAxis; label: string }[] = [
 
 const MODE_OPTIONS: { value: ClippingMode; label: string }[] = [
   { value: 'axis', label: 'Axis' },
-  { value: 'free', label: 'Free' }
+  { value: 'free', label: 'Free' },
+  { value: 'box', label: 'Box' }
 ];
 
+const COMBINE_OPTIONS: { value: ClipCombineMode; label: string }[] = [
+  { value: 'intersection', label: 'Intersection' },
+  { value: 'union', label: 'Union' }
+];
+
+const DEFAULT_BOX: ClipBoxState = { min: [0, 0, 0], max: [100, 100, 100] };
+
 /**
  * Clipping Panel Component
  * 
@@ -105,28 +156,49 @@ export const ClippingPanel: FC<ClippingPanelProps> = ({
   className = '',
   gizmoMode = 'rotate',
   onGizmoModeChange,
-  eulerDegrees
+  eulerDegrees,
+  onExportSection,
+  onAddPlane,
+  onUpdatePlane,
+  onRemovePlane,
+  maxPlanes = 6
 }) => {
   const isDisabled = !hasMesh;
   const isControlsDisabled = isDisabled || !clipping.enabled;
   const isFreeMode = clipping.mode === 'free';
+  const isBoxMode = clipping.mode === 'box';
+  const planes = clipping.planes ?? [];
+  const box = clipping.box ?? DEFAULT_BOX;
+  const hasMultiplePlanes = isBoxMode || planes.some((entry) => entry.enabled);
 
   const handleModeChange = (mode: ClippingMode) => {
-    if (mode === 'free' && clipping.mode === 'axis') {
-      // axis → free: restore lastFreeQuaternion if available
+    if (mode === 'free' && clipping.mode !== 'free') {
+      // → free: restore lastFreeQuaternion if available
       if (clipping.lastFreeQuaternion) {
         onChange({ mode, quaternion: clipping.lastFreeQuaternion });
       } else {
         onChange({ mode });
       }
-    } else if (mode === 'axis' && clipping.mode === 'free') {
-      // free → axis: save current quaternion to lastFreeQuaternion
+    } else if (mode !== 'free' && clipping.mode === 'free') {
+      // free →: save current quaternion to lastFreeQuaternion
       onChange({ mode, lastFreeQuaternion: clipping.quaternion });
     } else {
       onChange({ mode });
     }
   };
 
+  const handleBoxChange = (axisIndex: number, bound: 'min' | 'max', value: number) => {
+    const min = [...box.min] as [number, number, number];
+    const max = [...box.max] as [number, number, number];
+    // Faces may meet but never cross
+    if (bound === 'min') {
+      min[axisIndex] = Math.min(value, max[axisIndex]);
+    } else {
+      max[axisIndex] = Math.max(value, min[axisIndex]);
+    }
+    onChange({ box: { min, max } });
+  };
+
   const handleAxisChange = (axis: ClippingAxis) => {
     onChange({ axis });
   };
@@ -159,6 +231,10 @@ export const ClippingPanel: FC<ClippingPanelProps> = ({
     onChange({ flipped: !clipping.flipped });
   };
 
+  const handleCapCutToggle = () => {
+    onChange({ capCut: !clipping.capCut });
+  };
+
   // Display when no mesh is loaded
   if (!hasMesh) {
     return (
@@ -257,7 +333,7 @@ export const ClippingPanel: FC<ClippingPanelProps> = ({
           </div>
 
           {/* Axis selection (axis mode only) */}
-          {!isFreeMode && (
+          {clipping.mode === 'axis' && (
             <div className="clipping-panel__row">
               <span className="clipping-panel__label">Axis:</span>
               <div
@@ -333,45 +409,244 @@ export const ClippingPanel: FC<ClippingPanelProps> = ({
             </div>
           )}
 
+          {/* Clip box extents (box mode only) */}
+          {isBoxMode && (
+            <div className="clipping-panel__box" role="group" aria-label="Clip box extents">
+              {AXIS_OPTIONS.map((opt, axisIndex) => (
+                <div key={opt.value} className="clipping-panel__row clipping-panel__box-row">
+                  <span className="clipping-panel__label">{opt.label}:</span>
+                  <input
+                    type="range"
+                    min={0}
+                    max={100}
+                    step={1}
+                    value={box.min[axisIndex]}
+                    onChange={(e) => handleBoxChange(axisIndex, 'min', Number(e.target.value))}
+                    disabled={isControlsDisabled}
+                    className="clipping-panel__slider"
+                    aria-label={`Clip box ${opt.label} min`}
+                  />
+                  <input
+                    type="range"
+                    min={0}
+                    max={100}
+                    step={1}
+                    value={box.max[axisIndex]}
+                    onChange={(e) => handleBoxChange(axisIndex, 'max', Number(e.target.value))}
+                    disabled={isControlsDisabled}
+                    className="clipping-panel__slider"
+                    aria-label={`Clip box ${opt.label} max`}
+                  />
+                  <span className="clipping-panel__value">
+                    {box.min[axisIndex]}–{box.max[axisIndex]}%
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+
           {/* Position slider */}
-          <div className="clipping-panel__row clipping-panel__slider-row">
-            <label className="clipping-panel__label" htmlFor="clipping-position">
-              Position:
-            </label>
-            <input
-              id="clipping-position"
-              type="range"
-              min={0}
-              max={100}
-              step={1}
-              value={clipping.position}
-              onChange={handlePositionChange}
-              onKeyDown={handleSliderKeyDown}
-              disabled={isControlsDisabled}
-              className="clipping-panel__slider"
-              aria-label="Clipping position"
-              aria-valuemin={0}
-              aria-valuemax={100}
-              aria-valuenow={clipping.position}
-            />
-            <span className="clipping-panel__value">{clipping.position}%</span>
-          </div>
+          {!isBoxMode && (
+            <div className="clipping-panel__row clipping-panel__slider-row">
+              <label className="clipping-panel__label" htmlFor="clipping-position">
+                Position:
+              </label>
+              <input
+                id="clipping-position"
+                type="range"
+                min={0}
+                max={100}
+                step={1}
+                value={clipping.position}
+                onChange={handlePositionChange}
+                onKeyDown={handleSliderKeyDown}
+                disabled={isControlsDisabled}
+                className="clipping-panel__slider"
+                aria-label="Clipping position"
+                aria-valuemin={0}
+                aria-valuemax={100}
+                aria-valuenow={clipping.position}
+              />
+              <span className="clipping-panel__value">{clipping.position}%</span>
+            </div>
+          )}
 
           {/* Flip button */}
-          <div className="clipping-panel__row">
-            <button
-              type="button"
-              className={`clipping-panel__flip-btn ${
-                clipping.flipped ? 'clipping-panel__flip-btn--active' : ''
-              }`}
-              onClick={handleFlipToggle}
-              disabled={isControlsDisabled}
-              aria-pressed={clipping.flipped}
-              aria-label="Flip direction"
-            >
-              ↔ Flip
-            </button>
-          </div>
+          {!isBoxMode && (
+            <div className="clipping-panel__row">
+              <button
+                type="button"
+                className={`clipping-panel__flip-btn ${
+                  clipping.flipped ? 'clipping-panel__flip-btn--active' : ''
+                }`}
+                onClick={handleFlipToggle}
+                disabled={isControlsDisabled}
+                aria-pressed={clipping.flipped}
+                aria-label="Flip direction"
+              >
+                ↔ Flip
+              </button>
+            </div>
+          )}
+
+          {/* Additional planes (the clip box already uses every plane) */}
+          {!isBoxMode && onAddPlane && onUpdatePlane && onRemovePlane && (
+            <div className="clipping-panel__planes" role="group" aria-label="Additional clipping planes">
+              <div className="clipping-panel__row clipping-panel__planes-header">
+                <span className="clipping-panel__label">Planes:</span>
+                <button
+                  type="button"
+                  className="clipping-panel__add-btn"
+                  onClick={onAddPlane}
+                  disabled={isControlsDisabled || planes.length >= maxPlanes - 1}
+                  aria-label="Add clipping plane"
+                >
+                  + Add
+                </button>
+              </div>
+              {planes.map((entry, index) => (
+                <div key={entry.id} className="clipping-panel__row clipping-panel__plane-row">
+                  <button
+                    type="button"
+                    role="switch"
+                    aria-checked={entry.enabled}
+                    aria-label={`Enable plane ${index + 2}`}
+                    className={`clipping-panel__switch ${entry.enabled ? 'clipping-panel__switch--on' : ''}`}
+                    onClick={() => onUpdatePlane(entry.id, { enabled: !entry.enabled })}
+                    disabled={isControlsDisabled}
+                  >
+                    <span className="clipping-panel__switch-thumb" />
+                  </button>
+                  <div
+                    className="clipping-panel__axis-group"
+                    role="radiogroup"
+                    aria-label={`Plane ${index + 2} axis`}
+                  >
+                    {AXIS_OPTIONS.map((opt) => (
+                      <button
+                        key={opt.value}
+                        type="button"
+                        role="radio"
+                        aria-checked={entry.axis === opt.value}
+                        className={`clipping-panel__axis-btn ${
+                          entry.axis === opt.value ? 'clipping-panel__axis-btn--selected' : ''
+                        }`}
+                        onClick={() => onUpdatePlane(entry.id, { axis: opt.value })}
+                        disabled={isControlsDisabled || !entry.enabled}
+                      >
+                        {opt.label}
+                      </button>
+                    ))}
+                  </div>
+                  <input
+                    type="range"
+                    min={0}
+                    max={100}
+                    step={1}
+                    value={entry.position}
+                    onChange={(e) => onUpdatePlane(entry.id, { position: Number(e.target.value) })}
+                    disabled={isControlsDisabled || !entry.enabled}
+                    className="clipping-panel__slider"
+                    aria-label={`Plane ${index + 2} position`}
+                  />
+                  <button
+                    type="button"
+                    className={`clipping-panel__plane-flip-btn ${
+                      entry.flipped ? 'clipping-panel__plane-flip-btn--active' : ''
+                    }`}
+                    onClick={() => onUpdatePlane(entry.id, { flipped: !entry.flipped })}
+                    disabled={isControlsDisabled || !entry.enabled}
+                    aria-pressed={entry.flipped}
+                    aria-label={`Flip plane ${index + 2}`}
+                  >
+                    ↔
+                  </button>
+                  <button
+                    type="button"
+                    className="clipping-panel__remove-btn"
+                    onClick={() => onRemovePlane(entry.id)}
+                    disabled={isControlsDisabled}
+                    aria-label={`Remove plane ${index + 2}`}
+                  >
+                    ✕
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {/* Combine mode (multiple planes only) */}
+          {hasMultiplePlanes && (
+            <div className="clipping-panel__row">
+              <span className="clipping-panel__label">Keep:</span>
+              <div
+                className="clipping-panel__mode-group"
+                role="radiogroup"
+                aria-label="Plane combination"
+              >
+                {COMBINE_OPTIONS.map((opt) => (
+                  <button
+                    key={opt.value}
+                    type="button"
+                    role="radio"
+                    aria-checked={(clipping.combine ?? 'intersection') === opt.value}
+                    className={`clipping-panel__mode-btn ${
+                      (clipping.combine ?? 'intersection') === opt.value ? 'clipping-panel__mode-btn--selected' : ''
+                    }`}
+                    onClick={() => onChange({ combine: opt.value })}
+                    disabled={isControlsDisabled}
+                  >
+                    {opt.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Cap cut toggle (applied with the clip) */}
+          {onApply && (
+            <div className="clipping-panel__row">
+              <label className="clipping-panel__toggle">
+                <span className="clipping-panel__toggle-label">Cap cut</span>
+                <button
+                  type="button"
+                  role="switch"
+                  aria-checked={!!clipping.capCut}
+                  aria-label="Cap cut surface"
+                  className={`clipping-panel__switch ${clipping.capCut ? 'clipping-panel__switch--on' : ''}`}
+                  onClick={handleCapCutToggle}
+                  disabled={isControlsDisabled}
+                >
+                  <span className="clipping-panel__switch-thumb" />
+                </button>
+              </label>
+            </div>
+          )}
+
+          {/* Cross-section export (primary plane) */}
+          {onExportSection && !isBoxMode && (
+            <div className="clipping-panel__row clipping-panel__export-row">
+              <span className="clipping-panel__label">Section:</span>
+              <button
+                type="button"
+                className="clipping-panel__export-btn"
+                onClick={() => onExportSection('svg')}
+                disabled={isControlsDisabled}
+                aria-label="Export cross-section as SVG"
+              >
+                SVG
+              </button>
+              <button
+                type="button"
+                className="clipping-panel__export-btn"
+                onClick={() => onExportSection('dxf')}
+                disabled={isControlsDisabled}
+                aria-label="Export cross-section as DXF"
+              >
+                DXF
+              </button>
+            </div>
+          )}
 
           {/* Apply button */}
           {onApply && (
@@ -0,0 +1,224 @@
+/**
+ * Deviation Panel Component
+ *
+ * Compares two loaded meshes: picks the compared and reference mesh, shows
+ * the distance statistics and Hausdorff distances, and the heatmap legend.
+ *
+ * @module viewer-ui/DeviationPanel
+ */
+
+import { useEffect, useState } from 'react';
+import type { FC } from 'react';
+import './deviation-panel.css';
+
+/**
+ * Mesh that can be compared (viewer-ui internal type)
+ */
+export interface DeviationMeshOption {
+  id: string;
+  name: string;
+}
+
+/**
+ * Distance statistics of one direction (viewer-ui internal type)
+ */
+export interface DeviationSummary {
+  min: number;
+  max: number;
+  mean: number;
+  rms: number;
+}
+
+/**
+ * Comparison result (viewer-ui internal type)
+ */
+export interface DeviationReport {
+  /** Compared mesh (A, colored by the heatmap) */
+  sourceId: string;
+  /** Reference mesh (B) */
+  targetId: string;
+  aToB: DeviationSummary;
+  bToA: DeviationSummary;
+  hausdorff: {
+    aToB: number;
+    bToA: number;
+    symmetric: number;
+  };
+}
+
+export interface DeviationPanelProps {
+  meshes: DeviationMeshOption[];
+  /** Mesh preselected as A (e.g. the selected one) */
+  defaultSourceId?: string | null;
+  /** Result of the last comparison (null when none is shown) */
+  report: DeviationReport | null;
+  /** Heatmap colors from zero deviation to `legendMax` (CSS colors, evenly spaced) */
+  colorStops: readonly string[];
+  /** Deviation shown with the last color */
+  legendMax: number;
+  onLegendMaxChange: (value: number) => void;
+  onCompare: (sourceId: string, targetId: string) => void;
+  onClear: () => void;
+  isComputing?: boolean;
+  /** Unit of all distances (e.g. 'mm'); bare numbers when omitted */
+  unit?: string;
+}
+
+function formatDistance(value: number): string {
+  return Number.isFinite(value) ? value.toFixed(4) : '∞';
+}
+
+const SummaryRow: FC<{ label: string; summary: DeviationSummary }> = ({ label, summary }) => (
+  <tr>
+    <th scope="row">{label}</th>
+    <td>{formatDistance(summary.min)}</td>
+    <td>{formatDistance(summary.max)}</td>
+    <td>{formatDistance(summary.mean)}</td>
+    <td>{formatDistance(summary.rms)}</td>
+  </tr>
+);
+
+export const DeviationPanel: FC<DeviationPanelProps> = ({
+  meshes,
+  defaultSourceId = null,
+  report,
+  colorStops,
+  legendMax,
+  onLegendMaxChange,
+  onCompare,
+  onClear,
+  isComputing = false,
+  unit
+}) => {
+  const [sourceId, setSourceId] = useState<string>('');
+  const [targetId, setTargetId] = useState<string>('');
+
+  // Keep both picks pointing at loaded meshes (A defaults to the selection, B to another mesh)
+  useEffect(() => {
+    const ids = meshes.map((mesh) => mesh.id);
+    const source = ids.includes(sourceId) ? sourceId : defaultSourceId && ids.includes(defaultSourceId) ? defaultSourceId : ids[0] ?? '';
+    const target = ids.includes(targetId) && targetId !== source ? targetId : ids.find((id) => id !== source) ?? '';
+    setSourceId(source);
+    setTargetId(target);
+  }, [meshes, defaultSourceId]); // Only when the mesh list changes; user picks are kept otherwise
+
+  const nameOf = (id: string) => meshes.find((mesh) => mesh.id === id)?.name ?? id;
+  const withUnit = (value: number) => (unit ? `${formatDistance(value)} ${unit}` : formatDistance(value));
+
+  return (
+    <section className="deviation-panel" aria-label="Mesh deviation">
+      <header className="deviation-panel__header">
+        <h3>Deviation</h3>
+      </header>
+
+      {meshes.length < 2 ? (
+        <p className="deviation-panel__placeholder">Load two meshes to compare them</p>
+      ) : (
+        <div className="deviation-panel__content">
+          <label className="deviation-panel__field">
+            <span>Compared (A)</span>
+            <select value={sourceId} onChange={(e) => setSourceId(e.target.value)} disabled={isComputing}>
+              {meshes.map((mesh) => (
+                <option key={mesh.id} value={mesh.id}>
+                  {mesh.name}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="deviation-panel__field">
+            <span>Reference (B)</span>
+            <select value={targetId} onChange={(e) => setTargetId(e.target.value)} disabled={isComputing}>
+              {meshes.map((mesh) => (
+                <option key={mesh.id} value={mesh.id}>
+                  {mesh.name}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          <div className="deviation-panel__actions">
+            <button
+              type="button"
+              className="deviation-panel__btn deviation-panel__btn--primary"
+              onClick={() => onCompare(sourceId, targetId)}
+              disabled={isComputing || !sourceId || !targetId || sourceId === targetId}
+            >
+              {isComputing ? 'Comparing...' : 'Compare'}
+            </button>
+            {report && (
+              <button type="button" className="deviation-panel__btn" onClick={onClear} disabled={isComputing}>
+                Clear heatmap
+              </button>
+            )}
+          </div>
+
+          {report && (
+            <>
+              <table className="deviation-panel__table" data-testid="deviation-stats">
+                <caption>
+                  A = {nameOf(report.sourceId)}, B = {nameOf(report.targetId)}
+                  {unit && ` (${unit})`}
+                </caption>
+                <thead>
+                  <tr>
+                    <th scope="col" />
+                    <th scope="col">Min</th>
+                    <th scope="col">Max</th>
+                    <th scope="col">Mean</th>
+                    <th scope="col">RMS</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  <SummaryRow label="A → B" summary={report.aToB} />
+                  <SummaryRow label="B → A" summary={report.bToA} />
+                </tbody>
+              </table>
+
+              <dl className="deviation-panel__hausdorff">
+                <div>
+                  <dt>Hausdorff A → B</dt>
+                  <dd>{withUnit(report.hausdorff.aToB)}</dd>
+                </div>
+                <div>
+                  <dt>Hausdorff B → A</dt>
+                  <dd>{withUnit(report.hausdorff.bToA)}</dd>
+                </div>
+                <div>
+                  <dt>Hausdorff (symmetric)</dt>
+                  <dd data-testid="deviation-hausdorff">{withUnit(report.hausdorff.symmetric)}</dd>
+                </div>
+              </dl>
+
+              <div className="deviation-panel__legend" aria-label="Heatmap legend">
+                <div
+                  className="deviation-panel__ramp"
+                  style={{ background: `linear-gradient(to right, ${colorStops.join(', ')})` }}
+                />
+                <div className="deviation-panel__ticks">
+                  <span>0</span>
+                  <span>{withUnit(legendMax / 2)}</span>
+                  <span>≥ {withUnit(legendMax)}</span>
+                </div>
+                <label className="deviation-panel__field">
+                  <span>Range max{unit && ` (${unit})`}</span>
+                  <input
+                    type="number"
+                    min={0}
+                    step="any"
+                    value={legendMax}
+                    onChange={(e) => {
+                      const value = Number(e.target.value);
+                      if (value >= 0) {
+                        onLegendMaxChange(value);
+                      }
+                    }}
+                  />
+                </label>
+              </div>
+            </>
+          )}
+        </div>
+      )}
+    </section>
+  );
+};
@@ -0,0 +1,90 @@
+/**
+ * Export Menu Component
+ *
+ * Header button opening the list of file formats the selected mesh can be
+ * downloaded as.
+ *
+ * @module viewer-ui/ExportMenu
+ */
+
+import { useEffect, useRef, useState, type FC } from 'react';
+import './export-menu.css';
+
+/**
+ * Mesh download format (viewer-ui internal type)
+ */
+export type MeshExportOption = 'stl_binary' | 'stl_ascii' | 'obj' | 'ply_binary' | 'ply_ascii' | 'glb';
+
+export interface ExportMenuProps {
+  /** Name of the mesh that gets exported (the menu is disabled without one) */
+  meshName?: string;
+  onExport: (format: MeshExportOption) => void;
+}
+
+const FORMAT_LABELS: Record<MeshExportOption, string> = {
+  stl_binary: 'STL (binary)',
+  stl_ascii: 'STL (ASCII)',
+  obj: 'OBJ',
+  ply_binary: 'PLY (binary)',
+  ply_ascii: 'PLY (ASCII)',
+  glb: 'GLB (glTF binary)'
+};
+
+const FORMATS = Object.keys(FORMAT_LABELS) as MeshExportOption[];
+
+export const ExportMenu: FC<ExportMenuProps> = ({ meshName, onExport }) => {
+  const [open, setOpen] = useState(false);
+  const rootRef = useRef<HTMLDivElement>(null);
+
+  // Close on clicks outside the menu and on Escape
+  useEffect(() => {
+    if (!open) return;
+    const onPointerDown = (event: PointerEvent) => {
+      if (!rootRef.current?.contains(event.target as Node)) setOpen(false);
+    };
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') setOpen(false);
+    };
+    document.addEventListener('pointerdown', onPointerDown);
+    document.addEventListener('keydown', onKeyDown);
+    return () => {
+      document.removeEventListener('pointerdown', onPointerDown);
+      document.removeEventListener('keydown', onKeyDown);
+    };
+  }, [open]);
+
+  return (
+    <div className="export-menu" ref={rootRef}>
+      <button
+        type="button"
+        className="export-menu__toggle"
+        aria-haspopup="menu"
+        aria-expanded={open}
+        onClick={() => setOpen(!open)}
+        disabled={!meshName}
+        title={meshName && `Download ${meshName}`}
+      >
+        Download ▾
+      </button>
+      {open && meshName && (
+        <ul className="export-menu__list" role="menu" aria-label={`Download ${meshName} as`}>
+          {FORMATS.map((format) => (
+            <li key={format} role="none">
+              <button
+                type="button"
+                role="menuitem"
+                className="export-menu__item"
+                onClick={() => {
+                  setOpen(false);
+                  onExport(format);
+                }}
+              >
+                {FORMAT_LABELS[format]}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
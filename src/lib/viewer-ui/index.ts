@@ -1,4 +1,10 @@
 export * from './clipping-panel';
+export * from './deviation-panel';
 export * from './diagnostics-panel';
+export * from './export-menu';
+export * from './inspector-panel';
+export * from './measurement-panel';
 export * from './overlay-panel';
 export * from './statistics-panel';
+export * from './scene-outliner';
+export * from './units-panel';
@@ -0,0 +1,204 @@
+/**
+ * Inspector Panel Component
+ *
+ * Shows the face or vertex picked in the scene: indices, coordinates,
+ * normal, area and neighboring elements (clicking a neighbor picks it).
+ *
+ * @module viewer-ui/InspectorPanel
+ */
+
+import { Fragment, type FC } from 'react';
+import './inspector-panel.css';
+
+/**
+ * Element kind picked by clicking (viewer-ui internal type)
+ */
+export type InspectorTarget = 'face' | 'vertex';
+
+type Vector3Tuple = [number, number, number];
+
+/**
+ * Picked triangle (viewer-ui internal type)
+ */
+export interface InspectedFace {
+  face: number;
+  vertices: [number, number, number];
+  positions: [Vector3Tuple, Vector3Tuple, Vector3Tuple];
+  normal: Vector3Tuple;
+  area: number;
+  adjacentFaces: number[];
+}
+
+/**
+ * Picked vertex (viewer-ui internal type)
+ */
+export interface InspectedVertex {
+  vertex: number;
+  position: Vector3Tuple;
+  normal: Vector3Tuple;
+  normalSource: 'stored' | 'computed';
+  uv?: [number, number];
+  color?: Vector3Tuple;
+  faces: number[];
+  coincidentVertices: number[];
+}
+
+export interface InspectorPanelProps {
+  /** Element kind clicks pick */
+  target: InspectorTarget;
+  onTargetChange: (target: InspectorTarget) => void;
+  /** Name of the mesh the element belongs to */
+  meshName?: string;
+  /** Picked face (null when none) */
+  face: InspectedFace | null;
+  /** Picked vertex (null when none) */
+  vertex: InspectedVertex | null;
+  /** Length unit of the mesh coordinates (none when unknown) */
+  unit?: string;
+  onPickFace: (face: number) => void;
+  onPickVertex: (vertex: number) => void;
+  onClear: () => void;
+}
+
+/** Neighbor indices listed before the rest is summarized */
+const MAX_LISTED = 24;
+
+const formatNumber = (n: number): string => (Number.isFinite(n) ? n.toFixed(6) : String(n));
+const formatVector = (v: readonly number[]): string => `(${v.map(formatNumber).join(', ')})`;
+
+interface IndexListProps {
+  indices: number[];
+  onPick: (index: number) => void;
+  kind: string;
+}
+
+const IndexList: FC<IndexListProps> = ({ indices, onPick, kind }) =>
+  indices.length === 0 ? (
+    <span className="inspector-panel__none">none</span>
+  ) : (
+    <span className="inspector-panel__indices">
+      {indices.slice(0, MAX_LISTED).map((index, position) => (
+        <button
+          key={position}
+          type="button"
+          className="inspector-panel__index"
+          onClick={() => onPick(index)}
+          aria-label={`Pick ${kind} ${index}`}
+        >
+          {index}
+        </button>
+      ))}
+      {indices.length > MAX_LISTED && <span className="inspector-panel__none">+{indices.length - MAX_LISTED} more</span>}
+    </span>
+  );
+
+export const InspectorPanel: FC<InspectorPanelProps> = ({
+  target,
+  onTargetChange,
+  meshName,
+  face,
+  vertex,
+  unit,
+  onPickFace,
+  onPickVertex,
+  onClear
+}) => {
+  const withUnit = (text: string, power = ''): string => (unit ? `${text} ${unit}${power}` : text);
+
+  return (
+    <section className="inspector-panel" aria-label="Inspector">
+      <header className="inspector-panel__header">
+        <h3>Inspector</h3>
+        <div className="inspector-panel__targets" role="radiogroup" aria-label="Pick">
+          {(['face', 'vertex'] as const).map((option) => (
+            <button
+              key={option}
+              type="button"
+              role="radio"
+              aria-checked={target === option}
+              className={`inspector-panel__btn ${target === option ? 'inspector-panel__btn--active' : ''}`}
+              onClick={() => onTargetChange(option)}
+            >
+              {option === 'face' ? 'Faces' : 'Vertices'}
+            </button>
+          ))}
+        </div>
+      </header>
+
+      {!face && !vertex ? (
+        <p className="inspector-panel__placeholder">Click the mesh to pick a {target}</p>
+      ) : (
+        <div className="inspector-panel__content">
+          {meshName && (
+            <div className="inspector-panel__mesh" title={meshName}>
+              {meshName}
+            </div>
+          )}
+          <dl className="inspector-panel__list">
+            {face && (
+              <>
+                <dt>Face</dt>
+                <dd data-testid="inspector-face">#{face.face}</dd>
+                <dt>Vertices</dt>
+                <dd>
+                  <IndexList indices={face.vertices} onPick={onPickVertex} kind="vertex" />
+                </dd>
+                {face.positions.map((position, corner) => (
+                  <Fragment key={corner}>
+                    <dt>v{corner}</dt>
+                    <dd>{withUnit(formatVector(position))}</dd>
+                  </Fragment>
+                ))}
+                <dt>Normal</dt>
+                <dd>{formatVector(face.normal)}</dd>
+                <dt>Area</dt>
+                <dd data-testid="inspector-area">{withUnit(formatNumber(face.area), '²')}</dd>
+                <dt>Adjacent ({face.adjacentFaces.length})</dt>
+                <dd>
+                  <IndexList indices={face.adjacentFaces} onPick={onPickFace} kind="face" />
+                </dd>
+              </>
+            )}
+            {vertex && (
+              <>
+                <dt>Vertex</dt>
+                <dd data-testid="inspector-vertex">#{vertex.vertex}</dd>
+                <dt>Position</dt>
+                <dd>{withUnit(formatVector(vertex.position))}</dd>
+                <dt>Normal</dt>
+                <dd>
+                  {formatVector(vertex.normal)} <span className="inspector-panel__none">({vertex.normalSource})</span>
+                </dd>
+                {vertex.uv && (
+                  <>
+                    <dt>UV</dt>
+                    <dd>{formatVector(vertex.uv)}</dd>
+                  </>
+                )}
+                {vertex.color && (
+                  <>
+                    <dt>Color</dt>
+                    <dd>{formatVector(vertex.color)}</dd>
+                  </>
+                )}
+                <dt>Faces ({vertex.faces.length})</dt>
+                <dd>
+                  <IndexList indices={vertex.faces} onPick={onPickFace} kind="face" />
+                </dd>
+                <dt>Coincident ({vertex.coincidentVertices.length})</dt>
+                <dd>
+                  <IndexList indices={vertex.coincidentVertices} onPick={onPickVertex} kind="vertex" />
+                </dd>
+              </>
+            )}
+          </dl>
+          <div className="inspector-panel__actions">
+            <button type="button" className="inspector-panel__btn" onClick={onClear}>
+              Clear
+            </button>
+          </div>
+        </div>
+      )}
+    </section>
+  );
+};
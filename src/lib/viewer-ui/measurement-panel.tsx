@@ -0,0 +1,182 @@
+/**
+ * Measurement Panel Component
+ *
+ * Switches the measurement mode (tool and snapping) and lists the
+ * measurements taken in the scene, with rename and delete actions.
+ *
+ * @module viewer-ui/MeasurementPanel
+ */
+
+import type { FC } from 'react';
+import './measurement-panel.css';
+
+/**
+ * Measurement tool (viewer-ui internal type)
+ */
+export type MeasurementToolOption = 'distance' | 'angle' | 'radius';
+
+/**
+ * Point snapping (viewer-ui internal type)
+ */
+export type MeasurementSnapOption = 'auto' | 'vertex' | 'edge' | 'face';
+
+/**
+ * Measurement row with its formatted values (viewer-ui internal type)
+ */
+export interface MeasurementEntry {
+  id: string;
+  kind: MeasurementToolOption;
+  label: string;
+  /** Main value (e.g. "12.500 mm", "90.00°") */
+  value: string;
+  /** Secondary values (axis deltas, diameter), may be empty */
+  detail: string;
+}
+
+export interface MeasurementPanelProps {
+  /** Measurement mode: clicks on the mesh pick points */
+  enabled: boolean;
+  onEnabledChange: (enabled: boolean) => void;
+  tool: MeasurementToolOption;
+  onToolChange: (tool: MeasurementToolOption) => void;
+  snap: MeasurementSnapOption;
+  onSnapChange: (snap: MeasurementSnapOption) => void;
+  /** Points picked for the measurement in progress */
+  pendingCount: number;
+  /** Points the current tool needs */
+  requiredCount: number;
+  entries: MeasurementEntry[];
+  onRename: (id: string, label: string) => void;
+  onRemove: (id: string) => void;
+  onClear: () => void;
+  /** Mesh available to measure on */
+  hasMesh: boolean;
+}
+
+const TOOL_LABELS: Record<MeasurementToolOption, string> = {
+  distance: 'Distance',
+  angle: 'Angle',
+  radius: 'Radius'
+};
+
+const TOOLS = Object.keys(TOOL_LABELS) as MeasurementToolOption[];
+
+/** What the points of each tool are */
+const TOOL_HINTS: Record<MeasurementToolOption, string[]> = {
+  distance: ['start point', 'end point'],
+  angle: ['first leg point', 'vertex', 'second leg point'],
+  radius: ['first point on the arc', 'second point on the arc', 'third point on the arc']
+};
+
+const SNAP_LABELS: Record<MeasurementSnapOption, string> = {
+  auto: 'Auto',
+  vertex: 'Vertex',
+  edge: 'Edge',
+  face: 'Face'
+};
+
+const SNAPS = Object.keys(SNAP_LABELS) as MeasurementSnapOption[];
+
+export const MeasurementPanel: FC<MeasurementPanelProps> = ({
+  enabled,
+  onEnabledChange,
+  tool,
+  onToolChange,
+  snap,
+  onSnapChange,
+  pendingCount,
+  requiredCount,
+  entries,
+  onRename,
+  onRemove,
+  onClear,
+  hasMesh
+}) => (
+  <section className="measurement-panel" aria-label="Measurements">
+    <header className="measurement-panel__header">
+      <h3>Measure</h3>
+      <button
+        type="button"
+        role="switch"
+        aria-checked={enabled}
+        className={`measurement-panel__btn ${enabled ? 'measurement-panel__btn--active' : ''}`}
+        onClick={() => onEnabledChange(!enabled)}
+        disabled={!hasMesh && !enabled}
+        data-testid="measure-toggle"
+      >
+        {enabled ? 'Measuring' : 'Measure'}
+      </button>
+    </header>
+
+    <div className="measurement-panel__content">
+      <div className="measurement-panel__tools" role="radiogroup" aria-label="Measurement tool">
+        {TOOLS.map((option) => (
+          <button
+            key={option}
+            type="button"
+            role="radio"
+            aria-checked={tool === option}
+            className={`measurement-panel__btn ${tool === option ? 'measurement-panel__btn--active' : ''}`}
+            onClick={() => onToolChange(option)}
+          >
+            {TOOL_LABELS[option]}
+          </button>
+        ))}
+      </div>
+
+      <label className="measurement-panel__field">
+        <span>Snap to</span>
+        <select value={snap} onChange={(e) => onSnapChange(e.target.value as MeasurementSnapOption)}>
+          {SNAPS.map((option) => (
+            <option key={option} value={option}>
+              {SNAP_LABELS[option]}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      {enabled && (
+        <p className="measurement-panel__hint" data-testid="measure-hint">
+          Click the {TOOL_HINTS[tool][pendingCount] ?? 'mesh'} ({pendingCount + 1} of {requiredCount})
+        </p>
+      )}
+
+      {entries.length === 0 ? (
+        <p className="measurement-panel__placeholder">No measurements</p>
+      ) : (
+        <>
+          <ul className="measurement-panel__list" aria-label="Measurement list">
+            {entries.map((entry) => (
+              <li key={entry.id} className="measurement-panel__row" data-testid={`measurement-${entry.id}`}>
+                <div className="measurement-panel__row-main">
+                  <input
+                    type="text"
+                    className="measurement-panel__label"
+                    value={entry.label}
+                    onChange={(e) => onRename(entry.id, e.target.value)}
+                    aria-label={`Name of ${TOOL_LABELS[entry.kind].toLowerCase()} measurement`}
+                  />
+                  <span className="measurement-panel__value">{entry.value}</span>
+                  <button
+                    type="button"
+                    className="measurement-panel__btn"
+                    onClick={() => onRemove(entry.id)}
+                    aria-label={`Delete ${entry.label}`}
+                  >
+                    ✕
+                  </button>
+                </div>
+                {entry.detail && <div className="measurement-panel__detail">{entry.detail}</div>}
+              </li>
+            ))}
+          </ul>
+          <div className="measurement-panel__actions">
+            <button type="button" className="measurement-panel__btn" onClick={onClear}>
+              Clear all
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  </section>
+);
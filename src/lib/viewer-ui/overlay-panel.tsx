@@ -7,12 +7,16 @@ export interface OverlayToggles {
   vertices: boolean;
   normals: boolean;
   bbox: boolean;
+  vertexColors: boolean;
+  uvChecker: boolean;
 }
 
 export interface OverlayPanelProps {
   overlays: OverlayToggles;
   onToggle: (key: keyof OverlayToggles) => void;
   disabled?: boolean;
+  /** Options that do not apply to the current mesh (e.g. no vertex colors) */
+  unavailable?: Array<keyof OverlayToggles>;
 }
 
 interface OverlayOption {
@@ -27,13 +31,16 @@ const OVERLAY_OPTIONS: OverlayOption[] = [
   { key: 'wireframe', label: 'Wireframe', description: 'Display edges' },
   { key: 'vertices', label: 'Vertices', description: 'Display vertex points' },
   { key: 'normals', label: 'Normals', description: 'Display normal vectors' },
-  { key: 'bbox', label: 'Bounding Box', description: 'Display AABB' }
+  { key: 'bbox', label: 'Bounding Box', description: 'Display AABB' },
+  { key: 'vertexColors', label: 'Vertex colors', description: 'Display per-vertex colors from the file' },
+  { key: 'uvChecker', label: 'UV checker', description: 'Map a checker texture to reveal UV distortion and seams' }
 ];
 
 export const OverlayPanel: FC<OverlayPanelProps> = ({
   overlays,
   onToggle,
-  disabled = false
+  disabled = false,
+  unavailable = []
 }) => {
   return (
     <section className="overlay-panel" aria-label="Overlay settings">
@@ -41,21 +48,24 @@ export const OverlayPanel: FC<OverlayPanelProps> = ({
         <h3>Overlays</h3>
       </header>
       <div className="overlay-options">
-        {OVERLAY_OPTIONS.map((option) => (
-          <label
-            key={String(option.key)}
-            className={`overlay-option ${overlays[option.key] ? 'active' : ''}`}
-            title={option.description}
-          >
-            <input
-              type="checkbox"
-              checked={overlays[option.key]}
-              onChange={() => onToggle(option.key)}
-              disabled={disabled}
-            />
-            <span className="overlay-label">{option.label}</span>
-          </label>
-        ))}
+        {OVERLAY_OPTIONS.map((option) => {
+          const isUnavailable = unavailable.includes(option.key);
+          return (
+            <label
+              key={String(option.key)}
+              className={`overlay-option ${overlays[option.key] ? 'active' : ''}`}
+              title={isUnavailable ? `${option.description} (not available for this mesh)` : option.description}
+            >
+              <input
+                type="checkbox"
+                checked={overlays[option.key]}
+                onChange={() => onToggle(option.key)}
+                disabled={disabled || isUnavailable}
+              />
+              <span className="overlay-label">{option.label}</span>
+            </label>
+          );
+        })}
       </div>
     </section>
   );
@@ -0,0 +1,196 @@
+/**
+ * Scene Outliner Component
+ *
+ * Lists the loaded meshes with visibility, color and removal controls, and
+ * the placement (position, rotation, scale) of the selected one.
+ *
+ * @module viewer-ui/SceneOutliner
+ */
+
+import type { FC, ChangeEvent } from 'react';
+import './scene-outliner.css';
+
+type Vector3Tuple = [number, number, number];
+
+/**
+ * Placement of an entry (viewer-ui internal type)
+ */
+export interface OutlinerTransform {
+  position: Vector3Tuple;
+  /** XYZ Euler angles in degrees */
+  rotation: Vector3Tuple;
+  scale: number;
+}
+
+/**
+ * Outliner row (viewer-ui internal type)
+ */
+export interface OutlinerEntry {
+  id: string;
+  name: string;
+  visible: boolean;
+  /** CSS hex color */
+  color: string;
+  transform: OutlinerTransform;
+  triangleCount?: number;
+}
+
+export interface SceneOutlinerProps {
+  entries: OutlinerEntry[];
+  selectedId: string | null;
+  onSelect: (id: string) => void;
+  onVisibleChange: (id: string, visible: boolean) => void;
+  onColorChange: (id: string, color: string) => void;
+  onTransformChange: (id: string, partial: Partial<OutlinerTransform>) => void;
+  onRemove: (id: string) => void;
+  /** Opens a file picker for another mesh (button hidden when omitted) */
+  onAdd?: () => void;
+  disabled?: boolean;
+}
+
+const AXES = ['X', 'Y', 'Z'] as const;
+
+interface VectorFieldProps {
+  label: string;
+  value: Vector3Tuple;
+  step: number;
+  disabled: boolean;
+  onChange: (value: Vector3Tuple) => void;
+}
+
+const VectorField: FC<VectorFieldProps> = ({ label, value, step, disabled, onChange }) => (
+  <div className="scene-outliner__field">
+    <span className="scene-outliner__field-label">{label}</span>
+    {AXES.map((axis, index) => (
+      <input
+        key={axis}
+        type="number"
+        className="scene-outliner__number"
+        value={value[index]}
+        step={step}
+        disabled={disabled}
+        aria-label={`${label} ${axis}`}
+        onChange={(e: ChangeEvent<HTMLInputElement>) => {
+          const next = [...value] as Vector3Tuple;
+          next[index] = Number(e.target.value) || 0;
+          onChange(next);
+        }}
+      />
+    ))}
+  </div>
+);
+
+export const SceneOutliner: FC<SceneOutlinerProps> = ({
+  entries,
+  selectedId,
+  onSelect,
+  onVisibleChange,
+  onColorChange,
+  onTransformChange,
+  onRemove,
+  onAdd,
+  disabled = false
+}) => {
+  const selected = entries.find((entry) => entry.id === selectedId);
+
+  return (
+    <section className="scene-outliner" aria-label="Scene outliner">
+      <header className="scene-outliner__header">
+        <h3>Scene</h3>
+        {onAdd && (
+          <button type="button" className="scene-outliner__btn" onClick={onAdd} disabled={disabled}>
+            + Add mesh
+          </button>
+        )}
+      </header>
+
+      {entries.length === 0 ? (
+        <p className="scene-outliner__placeholder">No meshes loaded</p>
+      ) : (
+        <ul className="scene-outliner__list" role="listbox" aria-label="Loaded meshes">
+          {entries.map((entry) => (
+            <li
+              key={entry.id}
+              role="option"
+              aria-selected={entry.id === selectedId}
+              className={`scene-outliner__row ${entry.id === selectedId ? 'scene-outliner__row--selected' : ''} ${
+                entry.visible ? '' : 'scene-outliner__row--hidden'
+              }`}
+            >
+              <input
+                type="checkbox"
+                checked={entry.visible}
+                disabled={disabled}
+                onChange={(e) => onVisibleChange(entry.id, e.target.checked)}
+                aria-label={`Show ${entry.name}`}
+              />
+              <input
+                type="color"
+                className="scene-outliner__color"
+                value={entry.color}
+                disabled={disabled}
+                onChange={(e) => onColorChange(entry.id, e.target.value)}
+                aria-label={`Color of ${entry.name}`}
+              />
+              <button
+                type="button"
+                className="scene-outliner__name"
+                onClick={() => onSelect(entry.id)}
+                disabled={disabled}
+                title={entry.triangleCount !== undefined ? `${entry.triangleCount.toLocaleString()} triangles` : undefined}
+              >
+                {entry.name}
+              </button>
+              <button
+                type="button"
+                className="scene-outliner__btn"
+                onClick={() => onRemove(entry.id)}
+                disabled={disabled}
+                aria-label={`Remove ${entry.name}`}
+              >
+                ✕
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {selected && (
+        <div className="scene-outliner__transform" aria-label={`Placement of ${selected.name}`}>
+          <VectorField
+            label="Position"
+            value={selected.transform.position}
+            step={0.1}
+            disabled={disabled}
+            onChange={(position) => onTransformChange(selected.id, { position })}
+          />
+          <VectorField
+            label="Rotation°"
+            value={selected.transform.rotation}
+            step={15}
+            disabled={disabled}
+            onChange={(rotation) => onTransformChange(selected.id, { rotation })}
+          />
+          <div className="scene-outliner__field">
+            <span className="scene-outliner__field-label">Scale</span>
+            <input
+              type="number"
+              className="scene-outliner__number"
+              value={selected.transform.scale}
+              min={0.001}
+              step={0.1}
+              disabled={disabled}
+              aria-label="Scale"
+              onChange={(e) => {
+                const scale = Number(e.target.value);
+                if (scale > 0) {
+                  onTransformChange(selected.id, { scale });
+                }
+              }}
+            />
+          </div>
+        </div>
+      )}
+    </section>
+  );
+};
@@ -8,14 +8,76 @@ export interface MeshStats {
     max: [number, number, number];
   };
   diagonalLength: number;
+  surfaceArea?: number;
+  volume?: number;
+  isClosed?: boolean;
+  surfaceCentroid?: [number, number, number];
+  centerOfMass?: [number, number, number];
+  principalMoments?: [number, number, number];
+  principalAxes?: [[number, number, number], [number, number, number], [number, number, number]];
+}
+
+/**
+ * Robustness metrics of the last applied slice
+ */
+export interface SliceMetrics {
+  /** Number of intersections that needed exact arithmetic */
+  exactFallbackCount: number;
+  /** Exact fallback ratio (0-1) */
+  exactFallbackRatio: number;
+}
+
+/**
+ * Topology problem class (viewer-ui internal type)
+ */
+export type TopologyIssueKind =
+  | 'boundaryEdges'
+  | 'nonManifoldEdges'
+  | 'inconsistentEdges'
+  | 'nonManifoldVertices'
+  | 'isolatedVertices'
+  | 'degenerateFaces'
+  | 'duplicateFaces';
+
+/**
+ * Mesh topology summary (viewer-ui internal type)
+ */
+export interface MeshTopology extends Record<TopologyIssueKind, number> {
+  holes: number;
+  components: number;
+  eulerCharacteristic: number;
+  genus: number | null;
+  isClosed: boolean;
+  isManifold: boolean;
+  isConsistentlyOriented: boolean;
 }
 
 export interface StatisticsPanelProps {
   stats: MeshStats | null;
   updatedAt: number | null;
+  /** Metrics of the last applied slice (hidden when null) */
+  sliceMetrics?: SliceMetrics | null;
+  /** Topology report of the mesh (hidden when null) */
+  topology?: MeshTopology | null;
+  /** Problem class highlighted in the scene */
+  topologyHighlight?: TopologyIssueKind | null;
+  /** Highlight toggle (Show buttons hidden when omitted) */
+  onTopologyHighlight?: (issue: TopologyIssueKind | null) => void;
+  /** Length unit appended to measurements (e.g. 'mm'); bare numbers when omitted */
+  unit?: string;
   className?: string;
 }
 
+const TOPOLOGY_ISSUES: Array<{ key: TopologyIssueKind; label: string }> = [
+  { key: 'boundaryEdges', label: 'Boundary Edges' },
+  { key: 'nonManifoldEdges', label: 'Non-Manifold Edges' },
+  { key: 'nonManifoldVertices', label: 'Non-Manifold Vertices' },
+  { key: 'inconsistentEdges', label: 'Inconsistent Winding' },
+  { key: 'degenerateFaces', label: 'Degenerate Faces' },
+  { key: 'duplicateFaces', label: 'Duplicate Faces' },
+  { key: 'isolatedVertices', label: 'Isolated Vertices' }
+];
+
 function formatNumber(n: number): string {
   return n.toLocaleString();
 }
@@ -24,6 +86,23 @@ function formatCoord(coords: [number, number, number]): string {
   return `(${coords.map((c) => c.toFixed(3)).join(', ')})`;
 }
 
+const SUPERSCRIPTS = { 1: '', 2: '²', 3: '³', 5: '⁵' } as const;
+
+/** Value with its unit raised to a power (exponent notation for very large or small values) */
+function formatMeasure(value: number, unit: string | undefined, power: keyof typeof SUPERSCRIPTS = 1): string {
+  const formatted =
+    Math.abs(value) >= 1e6 || (value !== 0 && Math.abs(value) < 1e-3) ? value.toExponential(3) : value.toFixed(3);
+  return unit ? `${formatted} ${unit}${SUPERSCRIPTS[power]}` : formatted;
+}
+
+function withUnit(text: string, unit: string | undefined): string {
+  return unit ? `${text} ${unit}` : text;
+}
+
+function formatRatio(ratio: number): string {
+  return `${(ratio * 100).toFixed(2)}%`;
+}
+
 function formatTimestamp(ts: number): string {
   const date = new Date(ts);
   return date.toLocaleTimeString();
@@ -32,6 +111,11 @@ function formatTimestamp(ts: number): string {
 export function StatisticsPanel({
   stats,
   updatedAt,
+  sliceMetrics = null,
+  topology = null,
+  topologyHighlight = null,
+  onTopologyHighlight,
+  unit,
   className = ''
 }: StatisticsPanelProps) {
   const formattedStats = useMemo(() => {
@@ -39,11 +123,11 @@ export function StatisticsPanel({
     return {
       vertices: formatNumber(stats.vertices),
       triangles: formatNumber(stats.triangles),
-      bboxMin: formatCoord(stats.bbox.min),
-      bboxMax: formatCoord(stats.bbox.max),
-      diagonal: stats.diagonalLength.toFixed(3)
+      bboxMin: withUnit(formatCoord(stats.bbox.min), unit),
+      bboxMax: withUnit(formatCoord(stats.bbox.max), unit),
+      diagonal: withUnit(stats.diagonalLength.toFixed(3), unit)
     };
-  }, [stats]);
+  }, [stats, unit]);
 
   if (!stats || !formattedStats) {
     return (
@@ -98,7 +182,127 @@ export function StatisticsPanel({
             <dt>Diagonal Length</dt>
             <dd data-testid="stat-diagonal">{formattedStats.diagonal}</dd>
           </div>
+          {sliceMetrics && (
+            <>
+              <div className="statistics-panel__item">
+                <dt>Slice Exact Fallbacks</dt>
+                <dd data-testid="stat-slice-fallback-count">
+                  {formatNumber(sliceMetrics.exactFallbackCount)}
+                </dd>
+              </div>
+              <div className="statistics-panel__item">
+                <dt>Slice Fallback Ratio</dt>
+                <dd data-testid="stat-slice-fallback-ratio">
+                  {formatRatio(sliceMetrics.exactFallbackRatio)}
+                </dd>
+              </div>
+            </>
+          )}
         </dl>
+        {stats.surfaceArea !== undefined && (
+          <>
+            <h4 className="statistics-panel__subheading">Mass Properties</h4>
+            <dl className="statistics-panel__list" data-testid="stat-mass">
+              <div className="statistics-panel__item">
+                <dt>Surface Area</dt>
+                <dd data-testid="stat-surface-area">{formatMeasure(stats.surfaceArea, unit, 2)}</dd>
+              </div>
+              {stats.volume !== undefined && (
+                <div className="statistics-panel__item">
+                  <dt>Volume</dt>
+                  <dd data-testid="stat-volume">
+                    {formatMeasure(stats.volume, unit, 3)}
+                    {stats.isClosed === false && (
+                      <span
+                        className="statistics-panel__warning"
+                        title="The mesh is not closed; volume, center of mass and inertia are unreliable"
+                      >
+                        {' '}(open mesh, unreliable)
+                      </span>
+                    )}
+                  </dd>
+                </div>
+              )}
+              {stats.surfaceCentroid && (
+                <div className="statistics-panel__item">
+                  <dt>Surface Centroid</dt>
+                  <dd data-testid="stat-surface-centroid">{withUnit(formatCoord(stats.surfaceCentroid), unit)}</dd>
+                </div>
+              )}
+              {stats.centerOfMass && (
+                <div className="statistics-panel__item">
+                  <dt>Center of Mass</dt>
+                  <dd data-testid="stat-center-of-mass">{withUnit(formatCoord(stats.centerOfMass), unit)}</dd>
+                </div>
+              )}
+              {stats.principalMoments && (
+                <div className="statistics-panel__item">
+                  <dt>Principal Moments</dt>
+                  <dd data-testid="stat-principal-moments" title="Unit density, about the center of mass">
+                    {stats.principalMoments.map((m) => formatMeasure(m, unit, 5)).join(', ')}
+                  </dd>
+                </div>
+              )}
+              {stats.principalAxes?.map((axis, i) => (
+                <div key={i} className="statistics-panel__item">
+                  <dt>Principal Axis {i + 1}</dt>
+                  <dd data-testid={`stat-principal-axis-${i + 1}`}>{formatCoord(axis)}</dd>
+                </div>
+              ))}
+            </dl>
+          </>
+        )}
+        {topology && (
+          <>
+            <h4 className="statistics-panel__subheading">Topology</h4>
+            <dl className="statistics-panel__list" data-testid="stat-topology">
+              <div className="statistics-panel__item">
+                <dt>Status</dt>
+                <dd data-testid="stat-topology-status">
+                  {[
+                    topology.isClosed ? 'Closed' : 'Open',
+                    topology.isManifold ? 'Manifold' : 'Non-manifold',
+                    topology.isConsistentlyOriented ? 'Oriented' : 'Inconsistent winding'
+                  ].join(' · ')}
+                </dd>
+              </div>
+              <div className="statistics-panel__item">
+                <dt>Components</dt>
+                <dd data-testid="stat-topology-components">{formatNumber(topology.components)}</dd>
+              </div>
+              <div className="statistics-panel__item">
+                <dt>Euler Characteristic</dt>
+                <dd data-testid="stat-topology-euler">{topology.eulerCharacteristic}</dd>
+              </div>
+              <div className="statistics-panel__item">
+                <dt>Genus</dt>
+                <dd data-testid="stat-topology-genus">{topology.genus ?? '—'}</dd>
+              </div>
+              <div className="statistics-panel__item">
+                <dt>Holes</dt>
+                <dd data-testid="stat-topology-holes">{formatNumber(topology.holes)}</dd>
+              </div>
+              {TOPOLOGY_ISSUES.map(({ key, label }) => (
+                <div key={key} className="statistics-panel__item">
+                  <dt>{label}</dt>
+                  <dd data-testid={`stat-topology-${key}`}>
+                    {formatNumber(topology[key])}
+                    {onTopologyHighlight && topology[key] > 0 && (
+                      <button
+                        type="button"
+                        className="statistics-panel__highlight-btn"
+                        aria-pressed={topologyHighlight === key}
+                        onClick={() => onTopologyHighlight(topologyHighlight === key ? null : key)}
+                      >
+                        {topologyHighlight === key ? 'Hide' : 'Show'}
+                      </button>
+                    )}
+                  </dd>
+                </div>
+              ))}
+            </dl>
+          </>
+        )}
       </div>
     </div>
   );
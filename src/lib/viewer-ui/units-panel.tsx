@@ -0,0 +1,160 @@
+/**
+ * Units Panel Component
+ *
+ * Declares how mesh coordinates are interpreted: the length unit and up axis
+ * assumed on import, the ones of the selected mesh, and the unit
+ * measurements are displayed in.
+ *
+ * @module viewer-ui/UnitsPanel
+ */
+
+import type { FC } from 'react';
+import './units-panel.css';
+
+/**
+ * Length unit (viewer-ui internal type)
+ */
+export type LengthUnitOption = 'mm' | 'cm' | 'm' | 'in' | 'ft';
+
+/**
+ * Up axis (viewer-ui internal type)
+ */
+export type UpAxisOption = 'y' | 'z';
+
+/**
+ * Units of the selected mesh (viewer-ui internal type)
+ */
+export interface MeshUnitsInfo {
+  name: string;
+  units: LengthUnitOption;
+  upAxis: UpAxisOption;
+}
+
+export interface UnitsPanelProps {
+  /** Unit assumed for the next imports ('auto' guesses it) */
+  importUnits: LengthUnitOption | 'auto';
+  /** Up axis assumed for the next imports ('auto' guesses it) */
+  importUpAxis: UpAxisOption | 'auto';
+  onImportUnitsChange: (units: LengthUnitOption | 'auto') => void;
+  onImportUpAxisChange: (upAxis: UpAxisOption | 'auto') => void;
+  /** Unit measurements are shown in ('source' keeps the mesh's own unit) */
+  displayUnits: LengthUnitOption | 'source';
+  onDisplayUnitsChange: (units: LengthUnitOption | 'source') => void;
+  /** Selected mesh (its section is hidden when null) */
+  mesh: MeshUnitsInfo | null;
+  onMeshUnitsChange: (units: LengthUnitOption) => void;
+  onMeshUpAxisChange: (upAxis: UpAxisOption) => void;
+}
+
+const UNIT_LABELS: Record<LengthUnitOption, string> = {
+  mm: 'Millimeters (mm)',
+  cm: 'Centimeters (cm)',
+  m: 'Meters (m)',
+  in: 'Inches (in)',
+  ft: 'Feet (ft)'
+};
+
+const UNITS = Object.keys(UNIT_LABELS) as LengthUnitOption[];
+
+const AXIS_LABELS: Record<UpAxisOption, string> = {
+  y: 'Y-up',
+  z: 'Z-up'
+};
+
+const AXES = Object.keys(AXIS_LABELS) as UpAxisOption[];
+
+export const UnitsPanel: FC<UnitsPanelProps> = ({
+  importUnits,
+  importUpAxis,
+  onImportUnitsChange,
+  onImportUpAxisChange,
+  displayUnits,
+  onDisplayUnitsChange,
+  mesh,
+  onMeshUnitsChange,
+  onMeshUpAxisChange
+}) => (
+  <section className="units-panel" aria-label="Units and orientation">
+    <header className="units-panel__header">
+      <h3>Units</h3>
+    </header>
+
+    <div className="units-panel__content">
+      {mesh && (
+        <fieldset className="units-panel__group">
+          <legend title={mesh.name}>Selected: {mesh.name}</legend>
+          <label className="units-panel__field">
+            <span>Units</span>
+            <select
+              value={mesh.units}
+              onChange={(e) => onMeshUnitsChange(e.target.value as LengthUnitOption)}
+              data-testid="units-mesh-units"
+            >
+              {UNITS.map((unit) => (
+                <option key={unit} value={unit}>
+                  {UNIT_LABELS[unit]}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="units-panel__field">
+            <span>Up axis</span>
+            <select
+              value={mesh.upAxis}
+              onChange={(e) => onMeshUpAxisChange(e.target.value as UpAxisOption)}
+              data-testid="units-mesh-up-axis"
+            >
+              {AXES.map((axis) => (
+                <option key={axis} value={axis}>
+                  {AXIS_LABELS[axis]}
+                </option>
+              ))}
+            </select>
+          </label>
+        </fieldset>
+      )}
+
+      <fieldset className="units-panel__group">
+        <legend>On import</legend>
+        <label className="units-panel__field">
+          <span>Units</span>
+          <select value={importUnits} onChange={(e) => onImportUnitsChange(e.target.value as LengthUnitOption | 'auto')}>
+            <option value="auto">Auto (from size)</option>
+            {UNITS.map((unit) => (
+              <option key={unit} value={unit}>
+                {UNIT_LABELS[unit]}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="units-panel__field">
+          <span>Up axis</span>
+          <select value={importUpAxis} onChange={(e) => onImportUpAxisChange(e.target.value as UpAxisOption | 'auto')}>
+            <option value="auto">Auto (from format)</option>
+            {AXES.map((axis) => (
+              <option key={axis} value={axis}>
+                {AXIS_LABELS[axis]}
+              </option>
+            ))}
+          </select>
+        </label>
+      </fieldset>
+
+      <label className="units-panel__field">
+        <span>Display in</span>
+        <select
+          value={displayUnits}
+          onChange={(e) => onDisplayUnitsChange(e.target.value as LengthUnitOption | 'source')}
+          data-testid="units-display"
+        >
+          <option value="source">Mesh units</option>
+          {UNITS.map((unit) => (
+            <option key={unit} value={unit}>
+              {UNIT_LABELS[unit]}
+            </option>
+          ))}
+        </select>
+      </label>
+    </div>
+  </section>
+);
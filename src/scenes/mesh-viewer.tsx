@@ -1,26 +1,248 @@
-import { useRef, useMemo, useEffect, useState, useCallback } from 'react';
-import { Canvas, useThree } from '@react-three/fiber';
+import { useRef, useMemo, useEffect, useLayoutEffect, useState, useCallback } from 'react';
+import { Canvas, useThree, type ThreeEvent } from '@react-three/fiber';
 import { OrbitControls } from '@react-three/drei';
 import * as THREE from 'three';
-import { useViewerState } from '../hooks/use-viewer-state';
-import type { MeshBuffers, OverlayToggles, GizmoMode } from '@/lib/mesh-core-adapter';
+import { isIdentityTransform, useViewerState, type DeviationOverlay } from '../hooks/use-viewer-state';
+import { useMeshTopology } from '../hooks/use-mesh-topology';
+import { usePreferences } from '../hooks/use-preferences';
+import type {
+  ClipBoxState,
+  ClippingState,
+  MeshBuffers,
+  MeshMaterial,
+  MeshTexture,
+  OverlayToggles,
+  GizmoMode,
+  Measurement,
+  MeshPick,
+  SceneAsset,
+  TopologyIssue,
+  UpAxis
+} from '@/lib/mesh-core-adapter';
+import {
+  deviationColor,
+  displayUnitConversion,
+  loadMeshBvh,
+  nearestFaceVertex,
+  peekMeshBvh,
+  raycastMesh
+} from '@/lib/mesh-core-adapter';
 import { 
-  computeClippingPlaneExtended,
+  computeClippingPlanes,
   computePlanePosition, 
   computeGizmoSize,
   computeCameraRange,
+  isPointClipped,
   quaternionToNormal
 } from '../utils/clipping';
+import { formatMeasurementValue, snapToTriangle, type MeasurementValue } from '../utils/measurement';
+import { sceneTransformMatrix, toEulerRadians } from '../utils/scene-transform';
 import { ClippingPlaneHelper } from '../components/clipping-plane-helper';
+import { ClipBoxHelper } from '../components/clip-box-helper';
+import { CrossSectionOutline } from '../components/cross-section-outline';
+import { TopologyHighlight } from '../components/topology-highlight';
 import { PlaneGizmo } from '../components/plane-gizmo';
+import { MeasurementOverlay } from '../components/measurement-overlay';
+import { PickHighlight, type PickElement } from '../components/pick-highlight';
+
+/**
+ * Axis-aligned bounds of a mesh in its own coordinates
+ */
+function computeLocalBox(buffers: MeshBuffers): THREE.Box3 {
+  const min = new THREE.Vector3(Infinity, Infinity, Infinity);
+  const max = new THREE.Vector3(-Infinity, -Infinity, -Infinity);
+  const v = buffers.vertexView;
+  for (let i = 0; i < v.length; i += 3) {
+    min.x = Math.min(min.x, v[i]);
+    min.y = Math.min(min.y, v[i + 1]);
+    min.z = Math.min(min.z, v[i + 2]);
+    max.x = Math.max(max.x, v[i]);
+    max.y = Math.max(max.y, v[i + 1]);
+    max.z = Math.max(max.z, v[i + 2]);
+  }
+  return new THREE.Box3(min, max);
+}
+
+/**
+ * Axis-aligned bounds of an asset in its scene placement
+ */
+function computeWorldBox(entry: SceneAsset): THREE.Box3 {
+  return computeLocalBox(entry.asset.buffers).applyMatrix4(sceneTransformMatrix(entry.transform));
+}
+
+/** Raycast stub for helper objects that are never picked (three.js would test every segment/point) */
+function skipRaycast(): void {}
+
+/**
+ * Raycast of the solid mesh through its triangle BVH (three.js tests every
+ * triangle otherwise), skipping hits the clipping planes cut away.
+ * No hits until the worker build of the tree lands.
+ */
+function createBvhRaycast(buffers: MeshBuffers, clippingPlanes: THREE.Plane[], clipIntersection: boolean) {
+  const inverse = new THREE.Matrix4();
+  const localRay = new THREE.Ray();
+  const worldPoint = new THREE.Vector3();
+  const triangle = new THREE.Triangle();
+
+  return function raycast(this: THREE.Mesh, raycaster: THREE.Raycaster, intersects: THREE.Intersection[]): void {
+    // Building here would block the main thread while the worker is still at it
+    const bvh = peekMeshBvh(buffers);
+    if (!bvh || buffers.indexView.length === 0) return;
+    inverse.copy(this.matrixWorld).invert();
+    localRay.copy(raycaster.ray).applyMatrix4(inverse);
+    const toWorld = (point: [number, number, number]) => worldPoint.set(...point).applyMatrix4(this.matrixWorld);
+
+    const hit = raycastMesh(bvh, localRay.origin.toArray(), localRay.direction.toArray(), {
+      accept: (candidate) => !isPointClipped(toWorld(candidate.point), clippingPlanes, clipIntersection)
+    });
+    if (!hit) return;
+    const point = toWorld(hit.point).clone();
+    const distance = raycaster.ray.origin.distanceTo(point);
+    if (distance < raycaster.near || distance > raycaster.far) return;
+
+    const { vertexView, indexView } = buffers;
+    const [a, b, c] = [0, 1, 2].map((corner) => indexView[hit.triangle * 3 + corner]);
+    triangle.a.fromArray(vertexView, a * 3);
+    triangle.b.fromArray(vertexView, b * 3);
+    triangle.c.fromArray(vertexView, c * 3);
+    intersects.push({
+      distance,
+      point,
+      object: this,
+      face: { a, b, c, normal: triangle.getNormal(new THREE.Vector3()), materialIndex: 0 },
+      faceIndex: hit.triangle
+    });
+  };
+}
+
+const HEATMAP_LEVELS = 256;
+
+/**
+ * Per-vertex heatmap colors (linear RGB) of a deviation overlay
+ */
+function computeHeatmapColors({ result, maxDistance }: DeviationOverlay): Float32Array {
+  // Color ramp converted to linear space once
+  const ramp = new Float32Array(HEATMAP_LEVELS * 3);
+  const color = new THREE.Color();
+  for (let level = 0; level < HEATMAP_LEVELS; level++) {
+    color.setRGB(...deviationColor(level / (HEATMAP_LEVELS - 1), 1), THREE.SRGBColorSpace);
+    color.toArray(ramp, level * 3);
+  }
+
+  const { distances } = result;
+  const colors = new Float32Array(distances.length * 3);
+  for (let v = 0; v < distances.length; v++) {
+    const t = maxDistance > 0 ? distances[v] / maxDistance : 0;
+    const level = Math.min(HEATMAP_LEVELS - 1, Math.round(t * (HEATMAP_LEVELS - 1)));
+    colors[v * 3] = ramp[level * 3];
+    colors[v * 3 + 1] = ramp[level * 3 + 1];
+    colors[v * 3 + 2] = ramp[level * 3 + 2];
+  }
+  return colors;
+}
 
 interface MeshObjectProps {
   buffers: MeshBuffers;
+  /** Base color where no material, texture or vertex colors apply */
+  color: string;
+  /** Materials referenced by `buffers.groups` */
+  materials?: MeshMaterial[];
+  /** Image dropped onto the viewer, overriding material textures */
+  diffuseTexture?: MeshTexture | null;
+  /** Deviation heatmap colors (linear RGB per vertex), replacing all other coloring */
+  heatmapColors?: Float32Array | null;
   overlays: OverlayToggles;
-  clippingPlane: THREE.Plane | null;
+  clippingPlanes: THREE.Plane[];
+  /** Union semantics: clip only where every plane clips */
+  clipIntersection: boolean;
+  /** Asset id tagged on the solid mesh for picking */
+  pickId?: string;
+}
+
+/**
+ * Decodes encoded images into textures (keyed by position in `sources`).
+ * 
+ * Images load asynchronously; materials are rebuilt once they arrive.
+ */
+function useDecodedTextures(sources: Array<MeshTexture | null | undefined>): Map<number, THREE.Texture> {
+  const [textures, setTextures] = useState<Map<number, THREE.Texture>>(() => new Map());
+
+  useEffect(() => {
+    const loaded = new Map<number, THREE.Texture>();
+    const urls: string[] = [];
+    let cancelled = false;
+
+    sources.forEach((source, index) => {
+      if (!source) return;
+      const url = URL.createObjectURL(new Blob([source.data], { type: source.mimeType }));
+      urls.push(url);
+      new THREE.TextureLoader().load(url, (map) => {
+        map.colorSpace = THREE.SRGBColorSpace;
+        if (cancelled) {
+          map.dispose();
+          return;
+        }
+        loaded.set(index, map);
+        setTextures(new Map(loaded));
+      });
+    });
+
+    return () => {
+      cancelled = true;
+      urls.forEach((url) => URL.revokeObjectURL(url));
+      loaded.forEach((map) => map.dispose());
+      setTextures(new Map());
+    };
+  }, [sources]);
+
+  return textures;
 }
 
-function MeshObject({ buffers, overlays, clippingPlane }: MeshObjectProps) {
+const UV_CHECKER_SIZE = 256;
+const UV_CHECKER_CELLS = 16;
+
+/**
+ * Checker texture for the UV checker overlay.
+ * 
+ * Cells are tinted by their (u, v) position (red grows with u, green with v),
+ * so flipped or rotated islands stand out as well as stretching and seams.
+ */
+function createUvCheckerTexture(): THREE.DataTexture {
+  const data = new Uint8Array(UV_CHECKER_SIZE * UV_CHECKER_SIZE * 4);
+  const cellSize = UV_CHECKER_SIZE / UV_CHECKER_CELLS;
+  for (let y = 0; y < UV_CHECKER_SIZE; y++) {
+    for (let x = 0; x < UV_CHECKER_SIZE; x++) {
+      const cx = Math.floor(x / cellSize);
+      const cy = Math.floor(y / cellSize);
+      const light = (cx + cy) % 2 === 0;
+      const base = light ? 0.85 : 0.35;
+      const offset = (y * UV_CHECKER_SIZE + x) * 4;
+      data[offset] = Math.round(255 * base * (0.5 + 0.5 * cx / (UV_CHECKER_CELLS - 1)));
+      data[offset + 1] = Math.round(255 * base * (0.5 + 0.5 * cy / (UV_CHECKER_CELLS - 1)));
+      data[offset + 2] = Math.round(255 * base * 0.6);
+      data[offset + 3] = 255;
+    }
+  }
+  const texture = new THREE.DataTexture(data, UV_CHECKER_SIZE, UV_CHECKER_SIZE, THREE.RGBAFormat);
+  texture.magFilter = THREE.NearestFilter;
+  texture.wrapS = THREE.RepeatWrapping;
+  texture.wrapT = THREE.RepeatWrapping;
+  texture.colorSpace = THREE.SRGBColorSpace;
+  texture.needsUpdate = true;
+  return texture;
+}
+
+function MeshObject({
+  buffers,
+  color,
+  materials,
+  diffuseTexture,
+  heatmapColors = null,
+  overlays,
+  clippingPlanes,
+  clipIntersection,
+  pickId
+}: MeshObjectProps) {
   const meshRef = useRef<THREE.Mesh>(null);
 
   // zero-copy: Float64Array → Float32Array (three.js compatible)
@@ -41,6 +263,21 @@ function MeshObject({ buffers, overlays, clippingPlane }: MeshObjectProps) {
     // Index buffer
     geo.setIndex(new THREE.BufferAttribute(buffers.indexView, 1));
 
+    // Material groups (index ranges drawn with one material each)
+    for (const group of buffers.groups ?? []) {
+      geo.addGroup(group.start, group.count, group.materialIndex);
+    }
+
+    // Texture coordinates (material textures, dropped image, UV checker)
+    if (buffers.uvView) {
+      geo.setAttribute('uv', new THREE.BufferAttribute(buffers.uvView, 2));
+    }
+
+    // Per-vertex colors (shown when the vertexColors overlay is on)
+    if (buffers.colorView) {
+      geo.setAttribute('color', new THREE.BufferAttribute(buffers.colorView, 3));
+    }
+
     // Use normals if available, otherwise compute
     if (buffers.normalView) {
       geo.setAttribute('normal', new THREE.BufferAttribute(buffers.normalView, 3));
@@ -60,6 +297,11 @@ function MeshObject({ buffers, overlays, clippingPlane }: MeshObjectProps) {
     return geo;
   }, [buffers]);
 
+  // Build the picking BVH in the background so the first hover does not stall
+  useEffect(() => {
+    loadMeshBvh(buffers).catch((error) => console.warn('BVH build failed:', error));
+  }, [buffers, buffers.generation]);
+
   // vertex points geometry - lazy creation
   const pointsGeo = useMemo(() => {
     if (!overlays.vertices) {
@@ -76,47 +318,97 @@ function MeshObject({ buffers, overlays, clippingPlane }: MeshObjectProps) {
     return geo;
   }, [buffers, overlays.vertices]);
 
-  // Shading material
+  // The heatmap takes over the color attribute while it is shown (before the next frame renders)
+  useLayoutEffect(() => {
+    const colors = heatmapColors ?? buffers.colorView;
+    if (colors) {
+      geometry.setAttribute('color', new THREE.BufferAttribute(colors, 3));
+    } else {
+      geometry.deleteAttribute('color');
+    }
+  }, [geometry, heatmapColors, buffers.colorView]);
+
+  const showVertexColors = !!heatmapColors || (overlays.vertexColors && !!buffers.colorView);
+  const materialTextures = useDecodedTextures(
+    useMemo(() => materials?.map((entry) => entry.diffuseTexture) ?? [], [materials])
+  );
+  const droppedTextures = useDecodedTextures(useMemo(() => [diffuseTexture], [diffuseTexture]));
+  const checkerTexture = useMemo(
+    () => (overlays.uvChecker && buffers.uvView ? createUvCheckerTexture() : null),
+    [overlays.uvChecker, buffers.uvView]
+  );
+  useEffect(() => () => checkerTexture?.dispose(), [checkerTexture]);
+
+  // Shading material (one per material group when the mesh has groups)
   const material = useMemo(() => {
-    const clippingPlanes = clippingPlane ? [clippingPlane] : [];
-    if (overlays.smooth) {
-      return new THREE.MeshStandardMaterial({
-        color: 0x6699cc,
-        flatShading: false,
+    const createMaterial = (color: THREE.ColorRepresentation, opacity = 1, map: THREE.Texture | null = null) =>
+      new THREE.MeshStandardMaterial({
+        color,
+        map,
+        opacity,
+        transparent: opacity < 1,
+        vertexColors: showVertexColors,
+        flatShading: !overlays.smooth,
         side: THREE.DoubleSide,
         clippingPlanes,
+        clipIntersection,
         // Prevent Z-fighting: depth offset at clipping boundary
         polygonOffset: true,
         polygonOffsetFactor: 1,
         polygonOffsetUnits: 1
       });
+
+    // Textures need UVs; without them the diffuse color is used alone. The heatmap hides them.
+    const hasUvs = !heatmapColors && !!geometry.getAttribute('uv');
+    // The checker overlay wins over the dropped image, which wins over material textures
+    const override = hasUvs ? checkerTexture ?? droppedTextures.get(0) ?? null : null;
+
+    if (buffers.groups?.length && materials?.length) {
+      return materials.map((entry, index) => {
+        const map = override ?? (hasUvs ? materialTextures.get(index) ?? null : null);
+        // Textures and vertex colors multiply the base color, so use white under them
+        const color = showVertexColors || map ? 0xffffff : new THREE.Color(...entry.diffuseColor);
+        return createMaterial(color, entry.opacity, map);
+      });
     }
-    return new THREE.MeshStandardMaterial({
-      color: 0x6699cc,
-      flatShading: true,
-      side: THREE.DoubleSide,
-      clippingPlanes,
-      // Prevent Z-fighting: depth offset at clipping boundary
-      polygonOffset: true,
-      polygonOffsetFactor: 1,
-      polygonOffsetUnits: 1
-    });
-  }, [overlays.smooth, clippingPlane]);
+
+    // Vertex colors multiply the base color, so use white to show them as-is
+    return createMaterial(showVertexColors || override ? 0xffffff : color, 1, override);
+  }, [
+    color,
+    overlays.smooth,
+    showVertexColors,
+    clippingPlanes,
+    clipIntersection,
+    buffers.groups,
+    materials,
+    materialTextures,
+    droppedTextures,
+    checkerTexture,
+    heatmapColors,
+    geometry
+  ]);
+
+  // Picking through the BVH (rebuilt lazily when the buffers change)
+  const bvhRaycast = useMemo(
+    () => createBvhRaycast(buffers, clippingPlanes, clipIntersection),
+    [buffers, clippingPlanes, clipIntersection]
+  );
 
   // GPU-accelerated wireframe material (shader-based - immediate rendering)
   const wireframeMaterial = useMemo(() => {
-    const clippingPlanes = clippingPlane ? [clippingPlane] : [];
     return new THREE.MeshBasicMaterial({
       color: 0x333333,
       wireframe: true,  // Direct GPU rendering
       side: THREE.DoubleSide,
       clippingPlanes,
+      clipIntersection,
       // Wireframe draws over solid, so use larger offset
       polygonOffset: true,
       polygonOffsetFactor: -1,
       polygonOffsetUnits: -1
     });
-  }, [clippingPlane]);
+  }, [clippingPlanes, clipIntersection]);
 
   const pointsMaterial = useMemo(
     () =>
@@ -131,13 +423,19 @@ function MeshObject({ buffers, overlays, clippingPlane }: MeshObjectProps) {
   return (
     <group>
       {overlays.solid && (
-        <mesh ref={meshRef} geometry={geometry} material={material} />
+        <mesh
+          ref={meshRef}
+          geometry={geometry}
+          material={material}
+          raycast={bvhRaycast}
+          userData={{ pickAssetId: pickId }}
+        />
       )}
       {overlays.wireframe && (
-        <mesh geometry={geometry} material={wireframeMaterial} />
+        <mesh geometry={geometry} material={wireframeMaterial} raycast={skipRaycast} />
       )}
       {overlays.vertices && pointsGeo && (
-        <points geometry={pointsGeo} material={pointsMaterial} />
+        <points geometry={pointsGeo} material={pointsMaterial} raycast={skipRaycast} />
       )}
     </group>
   );
@@ -150,24 +448,9 @@ interface BoundingBoxHelperProps {
 function BoundingBoxHelper({ buffers }: BoundingBoxHelperProps) {
   const boxRef = useRef<THREE.Box3Helper>(null);
 
-  const box = useMemo(() => {
-    const min = new THREE.Vector3(Infinity, Infinity, Infinity);
-    const max = new THREE.Vector3(-Infinity, -Infinity, -Infinity);
+  const box = useMemo(() => computeLocalBox(buffers), [buffers]);
 
-    const v = buffers.vertexView;
-    for (let i = 0; i < v.length; i += 3) {
-      min.x = Math.min(min.x, v[i]);
-      min.y = Math.min(min.y, v[i + 1]);
-      min.z = Math.min(min.z, v[i + 2]);
-      max.x = Math.max(max.x, v[i]);
-      max.y = Math.max(max.y, v[i + 1]);
-      max.z = Math.max(max.z, v[i + 2]);
-    }
-
-    return new THREE.Box3(min, max);
-  }, [buffers]);
-
-  return <box3Helper ref={boxRef} args={[box, 0xff6600]} />;
+  return <box3Helper ref={boxRef} args={[box, 0xff6600]} raycast={skipRaycast} />;
 }
 
 interface NormalsHelperProps {
@@ -234,37 +517,49 @@ function NormalsHelper({ buffers, size = 0.1 }: NormalsHelperProps) {
     []
   );
 
-  return <lineSegments ref={linesRef} geometry={geometry} material={material} />;
+  return <lineSegments ref={linesRef} geometry={geometry} material={material} raycast={skipRaycast} />;
+}
+
+/**
+ * Keeps the camera's up vector on the mesh's up axis (orbiting stays upright around it)
+ */
+function UpAxisController({ upAxis }: { upAxis: UpAxis }) {
+  const { camera, controls } = useThree();
+
+  useEffect(() => {
+    camera.up.set(0, upAxis === 'y' ? 1 : 0, upAxis === 'z' ? 1 : 0);
+    const target = controls && 'target' in controls ? ((controls as any).target as THREE.Vector3) : new THREE.Vector3();
+    camera.lookAt(target);
+    if (controls && 'update' in controls) {
+      (controls as any).update();
+    }
+  }, [upAxis, camera, controls]);
+
+  return null;
 }
 
 function CameraController() {
   const { camera, controls } = useThree();
   const fitToView = useViewerState((s) => s.fitToView);
-  const asset = useViewerState((s) => s.asset);
+  // The selected asset's up axis decides the viewing direction
+  const upAxis = useViewerState((s) => s.asset?.upAxis ?? 'y');
   const setCamera = useViewerState((s) => s.setCamera);
+  // Refit when assets are added, removed or re-cut (not on selection or visibility changes)
+  const sceneKey = useViewerState((s) => s.assets.map((entry) => `${entry.asset.id}@${entry.asset.buffers.generation}`).join('|'));
 
   useEffect(() => {
-    if (!asset || !fitToView) return;
+    const { assets } = useViewerState.getState();
+    if (assets.length === 0 || !fitToView) return;
 
-    const buffers = asset.buffers;
-    const v = buffers.vertexView;
+    // Calculate bbox of the visible assets (all of them when none is visible)
+    const framed = assets.some((entry) => entry.visible) ? assets.filter((entry) => entry.visible) : assets;
+    const box = new THREE.Box3();
+    framed.forEach((entry) => box.union(computeWorldBox(entry)));
+    const { min, max } = box;
 
-    // Calculate bbox
     const center = new THREE.Vector3(0, 0, 0);
     let maxDist = 0;
 
-    const min = new THREE.Vector3(Infinity, Infinity, Infinity);
-    const max = new THREE.Vector3(-Infinity, -Infinity, -Infinity);
-
-    for (let i = 0; i < v.length; i += 3) {
-      min.x = Math.min(min.x, v[i]);
-      min.y = Math.min(min.y, v[i + 1]);
-      min.z = Math.min(min.z, v[i + 2]);
-      max.x = Math.max(max.x, v[i]);
-      max.y = Math.max(max.y, v[i + 1]);
-      max.z = Math.max(max.z, v[i + 2]);
-    }
-
     center.addVectors(min, max).multiplyScalar(0.5);
     maxDist = min.distanceTo(max);
 
@@ -305,12 +600,20 @@ function CameraController() {
       distance
     });
 
-    // Set camera position
-    camera.position.set(
-      center.x + distance * 0.7,
-      center.y + distance * 0.5,
-      center.z + distance * 0.7
-    );
+    // Set camera position (above the front right, relative to the up axis)
+    if (upAxis === 'z') {
+      camera.position.set(
+        center.x + distance * 0.7,
+        center.y - distance * 0.7,
+        center.z + distance * 0.5
+      );
+    } else {
+      camera.position.set(
+        center.x + distance * 0.7,
+        center.y + distance * 0.5,
+        center.z + distance * 0.7
+      );
+    }
     camera.lookAt(center);
 
     // Update controls target to mesh center (critical for orbit/trackball rotation)
@@ -320,48 +623,228 @@ function CameraController() {
         (controls as any).update();
       }
     }
-  }, [asset, fitToView, camera, controls, setCamera]);
+  }, [sceneKey, fitToView, upAxis, camera, controls, setCamera]);
 
   return null;
 }
 
+interface AssetObjectProps {
+  entry: SceneAsset;
+  /** Deviation heatmap, when this asset is the compared one */
+  deviation: DeviationOverlay | null;
+  /** Topology problem class to mark on this asset */
+  topologyHighlight: TopologyIssue | null;
+  /** Hovered and picked elements of this asset */
+  hovered: PickElement | null;
+  picked: PickElement | null;
+  overlays: OverlayToggles;
+  clippingPlanes: THREE.Plane[];
+  clipIntersection: boolean;
+}
+
+/**
+ * One scene asset in its placement, with its per-mesh overlays
+ */
+function AssetObject({
+  entry,
+  deviation,
+  topologyHighlight,
+  hovered,
+  picked,
+  overlays,
+  clippingPlanes,
+  clipIntersection
+}: AssetObjectProps) {
+  const { asset, transform } = entry;
+  const topology = useMeshTopology(topologyHighlight ? asset.buffers : null);
+  const heatmapColors = useMemo(() => (deviation ? computeHeatmapColors(deviation) : null), [deviation]);
+  const rotation = useMemo(() => toEulerRadians(transform.rotation), [transform.rotation]);
+
+  // Normal length: 2% of the bbox diagonal
+  const normalSize = useMemo(() => {
+    const box = computeLocalBox(asset.buffers);
+    return box.isEmpty() ? 0.1 : box.min.distanceTo(box.max) * 0.02;
+  }, [asset.buffers]);
+
+  return (
+    <group position={transform.position} rotation={rotation} scale={transform.scale}>
+      <MeshObject
+        buffers={asset.buffers}
+        color={entry.color}
+        materials={asset.materials}
+        diffuseTexture={entry.diffuseTexture}
+        heatmapColors={heatmapColors}
+        overlays={overlays}
+        clippingPlanes={clippingPlanes}
+        clipIntersection={clipIntersection}
+        pickId={asset.id}
+      />
+      {overlays.bbox && <BoundingBoxHelper buffers={asset.buffers} />}
+      {overlays.normals && <NormalsHelper buffers={asset.buffers} size={normalSize} />}
+      {topologyHighlight && topology && (
+        <TopologyHighlight buffers={asset.buffers} problems={topology.problems} issue={topologyHighlight} />
+      )}
+      {(hovered || picked) && <PickHighlight buffers={asset.buffers} hovered={hovered} picked={picked} />}
+    </group>
+  );
+}
+
+/** Pointer travel (px) up to which a press-release still counts as a pick or measurement click */
+const MEASURE_CLICK_TOLERANCE = 4;
+/** Snap distance (px) to vertices and edges in 'auto' snapping */
+const MEASURE_SNAP_PIXELS = 10;
+
 function SceneContent() {
-  const asset = useViewerState((s) => s.asset);
+  const assets = useViewerState((s) => s.assets);
+  const activeAssetId = useViewerState((s) => s.activeAssetId);
+  const deviation = useViewerState((s) => s.deviation);
+  const topologyHighlight = useViewerState((s) => s.topologyHighlight);
   const overlays = useViewerState((s) => s.overlays);
-  const status = useViewerState((s) => s.status);
   const clipping = useViewerState((s) => s.clipping);
   const setClipping = useViewerState((s) => s.setClipping);
+  const measureTool = useViewerState((s) => s.measureTool);
+  const measurements = useViewerState((s) => s.measurements);
+  const addMeasurePoint = useViewerState((s) => s.addMeasurePoint);
+  const pickTarget = useViewerState((s) => s.pickTarget);
+  const picked = useViewerState((s) => s.picked);
+  const setPicked = useViewerState((s) => s.setPicked);
+  const [hovered, setHovered] = useState<MeshPick | null>(null);
+  const displayUnits = usePreferences((s) => s.displayUnits);
+  const { camera, size } = useThree();
+  const selected = useMemo(
+    () => assets.find((entry) => entry.asset.id === activeAssetId) ?? null,
+    [assets, activeAssetId]
+  );
   
   // Local gizmo mode state
   const [gizmoMode, setGizmoMode] = useState<GizmoMode>('rotate');
 
-  // Bounding box calculation
+  // Bounding box of the selected asset in the scene (clipping is relative to it)
   const bbox = useMemo(() => {
-    if (!asset?.buffers?.vertexView) {
+    if (!selected?.asset.buffers?.vertexView) {
       return null;
     }
-    const v = asset.buffers.vertexView;
-    const min = { x: Infinity, y: Infinity, z: Infinity };
-    const max = { x: -Infinity, y: -Infinity, z: -Infinity };
-    for (let i = 0; i < v.length; i += 3) {
-      min.x = Math.min(min.x, v[i]);
-      min.y = Math.min(min.y, v[i + 1]);
-      min.z = Math.min(min.z, v[i + 2]);
-      max.x = Math.max(max.x, v[i]);
-      max.y = Math.max(max.y, v[i + 1]);
-      max.z = Math.max(max.z, v[i + 2]);
-    }
-    return { min, max };
-  }, [asset?.buffers]);
+    const { min, max } = computeWorldBox(selected);
+    return { min: { x: min.x, y: min.y, z: min.z }, max: { x: max.x, y: max.y, z: max.z } };
+  }, [selected?.asset.buffers, selected?.transform]);
 
-  // Clipping plane calculation (mode-aware)
-  const clippingPlane = useMemo(() => {
+  // Clipping planes calculation (primary/box + additional planes)
+  const clippingPlanes = useMemo(() => {
     if (!clipping.enabled || !bbox) {
-      return null;
+      return [];
     }
-    return computeClippingPlaneExtended(clipping, bbox);
+    return computeClippingPlanes(clipping, bbox);
   }, [clipping, bbox]);
 
+  // Additional planes shown with the same helper as the primary plane
+  const extraPlaneHelpers = useMemo<{ id: string; state: ClippingState }[]>(() => {
+    if (clipping.mode === 'box') {
+      return [];
+    }
+    return (clipping.planes ?? [])
+      .filter((entry) => entry.enabled)
+      .map((entry) => ({
+        id: entry.id,
+        state: {
+          enabled: true,
+          mode: 'axis',
+          axis: entry.axis,
+          quaternion: [0, 0, 0, 1],
+          position: entry.position,
+          flipped: entry.flipped
+        }
+      }));
+  }, [clipping.mode, clipping.planes]);
+
+  const handleBoxChange = useCallback((box: ClipBoxState) => {
+    setClipping({ box });
+  }, [setClipping]);
+
+  // Nearest visible (unclipped) mesh hit of a pointer event, with its asset
+  const findMeshHit = useCallback((event: ThreeEvent<PointerEvent | MouseEvent>) => {
+    const clipIntersection = clipping.combine === 'union';
+    const hit = event.intersections.find(
+      (candidate) =>
+        candidate.object.userData.pickAssetId &&
+        candidate.faceIndex != null &&
+        !isPointClipped(candidate.point, clippingPlanes, clipIntersection)
+    );
+    const entry = hit && assets.find((candidate) => candidate.asset.id === hit.object.userData.pickAssetId);
+    return hit && entry ? { hit, entry } : null;
+  }, [assets, clipping.combine, clippingPlanes]);
+
+  // Face under the pointer, or its corner nearest to the hit for vertex picking
+  const pickElement = useCallback((event: ThreeEvent<PointerEvent | MouseEvent>): MeshPick | null => {
+    const found = findMeshHit(event);
+    if (!found) return null;
+    const { hit, entry } = found;
+    if (pickTarget === 'face') {
+      return { assetId: entry.asset.id, target: 'face', index: hit.faceIndex! };
+    }
+    const local = hit.object.worldToLocal(hit.point.clone());
+    const index = nearestFaceVertex(entry.asset.buffers, hit.faceIndex!, [local.x, local.y, local.z]);
+    return { assetId: entry.asset.id, target: 'vertex', index };
+  }, [findMeshHit, pickTarget]);
+
+  const handlePointerMove = useCallback((event: ThreeEvent<PointerEvent>) => {
+    const next = pickElement(event);
+    setHovered((current) =>
+      current?.assetId === next?.assetId && current?.target === next?.target && current?.index === next?.index ? current : next
+    );
+  }, [pickElement]);
+
+  const handlePointerOut = useCallback(() => setHovered(null), []);
+
+  // Click-to-select for the inspector
+  const handlePickClick = useCallback((event: ThreeEvent<MouseEvent>) => {
+    // Ignore the click ending an orbit drag
+    if (event.delta > MEASURE_CLICK_TOLERANCE) return;
+    const next = pickElement(event);
+    if (!next) return;
+    event.stopPropagation();
+    setPicked(next);
+  }, [pickElement, setPicked]);
+
+  // Measurement picking: nearest visible (unclipped) mesh hit, snapped on its triangle
+  const handleMeasureClick = useCallback((event: ThreeEvent<MouseEvent>) => {
+    // Ignore the click ending an orbit drag
+    if (event.delta > MEASURE_CLICK_TOLERANCE) return;
+    const found = findMeshHit(event);
+    if (!found) return;
+    const { hit, entry } = found;
+    event.stopPropagation();
+
+    // Triangle corners in the scene (the hit point is in scene coordinates)
+    const { vertexView, indexView } = entry.asset.buffers;
+    const corners = [0, 1, 2].map((corner) => {
+      const v = indexView[hit.faceIndex! * 3 + corner];
+      const p = new THREE.Vector3(vertexView[v * 3], vertexView[v * 3 + 1], vertexView[v * 3 + 2]).applyMatrix4(hit.object.matrixWorld);
+      return [p.x, p.y, p.z] as [number, number, number];
+    }) as [[number, number, number], [number, number, number], [number, number, number]];
+
+    // Snap tolerance: a few pixels at the hit depth
+    const worldPerPixel =
+      camera instanceof THREE.OrthographicCamera
+        ? (camera.top - camera.bottom) / camera.zoom / size.height
+        : camera instanceof THREE.PerspectiveCamera
+          ? (2 * hit.distance * Math.tan(THREE.MathUtils.degToRad(camera.fov) / 2)) / size.height
+          : 0;
+    const { position, snap } = snapToTriangle(
+      [hit.point.x, hit.point.y, hit.point.z],
+      corners,
+      measureTool.snap,
+      MEASURE_SNAP_PIXELS * worldPerPixel
+    );
+    addMeasurePoint({ position, assetId: entry.asset.id, snap });
+  }, [findMeshHit, camera, size.height, measureTool.snap, addMeasurePoint]);
+
+  // Labels in the display unit of the first picked mesh
+  const formatMeasurementLabel = useCallback((measurement: Measurement, value: MeasurementValue | null) => {
+    const units = assets.find((entry) => entry.asset.id === measurement.points[0]?.assetId)?.asset.units;
+    const { factor, unit } = displayUnitConversion(units, displayUnits);
+    return `${measurement.label}: ${formatMeasurementValue(value, factor, unit).value}`;
+  }, [assets, displayUnits]);
+
   // Gizmo size calculation
   const gizmoSize = useMemo(() => {
     if (!bbox) return 1;
@@ -454,27 +937,6 @@ function SceneContent() {
     return () => window.removeEventListener('keydown', handleKeyDown);
   }, [clipping.mode, clipping.enabled]);
 
-  // Calculate normal length based on bbox diagonal
-  // Hooks must always be called before conditionals (Rules of Hooks)
-  const normalSize = useMemo(() => {
-    if (!asset?.buffers?.vertexView) {
-      return 0.1; // default value
-    }
-    const v = asset.buffers.vertexView;
-    const min = new THREE.Vector3(Infinity, Infinity, Infinity);
-    const max = new THREE.Vector3(-Infinity, -Infinity, -Infinity);
-    for (let i = 0; i < v.length; i += 3) {
-      min.x = Math.min(min.x, v[i]);
-      min.y = Math.min(min.y, v[i + 1]);
-      min.z = Math.min(min.z, v[i + 2]);
-      max.x = Math.max(max.x, v[i]);
-      max.y = Math.max(max.y, v[i + 1]);
-      max.z = Math.max(max.z, v[i + 2]);
-    }
-    const diagonal = min.distanceTo(max);
-    return diagonal * 0.02; // 2% of diagonal
-  }, [asset?.buffers]);
-
   // Mesh center for camera target
   const meshCenter = useMemo(() => {
     if (!bbox) return new THREE.Vector3(0, 0, 0);
@@ -486,16 +948,55 @@ function SceneContent() {
   }, [bbox]);
 
   // Conditional rendering comes after all Hook calls
-  if (status !== 'Ready' || !asset) {
+  if (assets.length === 0) {
     return null;
   }
 
   return (
     <>
-      <MeshObject buffers={asset.buffers} overlays={overlays} clippingPlane={clippingPlane} />
-      {overlays.bbox && <BoundingBoxHelper buffers={asset.buffers} />}
-      {overlays.normals && <NormalsHelper buffers={asset.buffers} size={normalSize} />}
-      {clipping.enabled && bbox && <ClippingPlaneHelper clipping={clipping} bbox={bbox} />}
+      <group
+        onClick={measureTool.enabled ? handleMeasureClick : handlePickClick}
+        onPointerMove={measureTool.enabled ? undefined : handlePointerMove}
+        onPointerOut={handlePointerOut}
+      >
+        {assets
+          .filter((entry) => entry.visible)
+          .map((entry) => (
+            <AssetObject
+              key={entry.asset.id}
+              entry={entry}
+              deviation={deviation?.sourceId === entry.asset.id ? deviation : null}
+              topologyHighlight={entry === selected ? topologyHighlight : null}
+              hovered={!measureTool.enabled && hovered?.assetId === entry.asset.id ? hovered : null}
+              picked={picked?.assetId === entry.asset.id ? picked : null}
+              overlays={overlays}
+              clippingPlanes={clippingPlanes}
+              clipIntersection={clipping.combine === 'union'}
+            />
+          ))}
+      </group>
+      {(measurements.length > 0 || measureTool.pending.length > 0) && (
+        <MeasurementOverlay
+          measurements={measurements}
+          pending={measureTool.pending}
+          formatLabel={formatMeasurementLabel}
+        />
+      )}
+      {clipping.enabled && clipping.mode !== 'box' && bbox && (
+        <>
+          <ClippingPlaneHelper clipping={clipping} bbox={bbox} />
+          {/* The outline is computed in mesh-local coordinates */}
+          {selected && isIdentityTransform(selected.transform) && (
+            <CrossSectionOutline buffers={selected.asset.buffers} clipping={clipping} bbox={bbox} />
+          )}
+        </>
+      )}
+      {clipping.enabled && clipping.mode === 'box' && bbox && clipping.box && (
+        <ClipBoxHelper box={clipping.box} bbox={bbox} onChange={handleBoxChange} />
+      )}
+      {clipping.enabled && bbox && extraPlaneHelpers.map((helper) => (
+        <ClippingPlaneHelper key={helper.id} clipping={helper.state} bbox={bbox} />
+      ))}
       {/* PlaneGizmo: only shown in free mode */}
       {clipping.enabled && clipping.mode === 'free' && bbox && (
         <PlaneGizmo
@@ -507,6 +1008,7 @@ function SceneContent() {
           onTransformChange={handleTransformChange}
         />
       )}
+      <UpAxisController upAxis={selected?.asset.upAxis ?? 'y'} />
       <CameraController />
       {/* OrbitControls with mesh center as target - better orthographic support */}
       <OrbitControls
@@ -530,6 +1032,9 @@ function SceneContent() {
 
 export function MeshViewer() {
   const status = useViewerState((s) => s.status);
+  // The empty grid lies on the ground plane of the up axis declared for imports
+  const idleUpAxis = usePreferences((s) => (s.upAxis === 'z' ? 'z' : 'y'));
+  const setPicked = useViewerState((s) => s.setPicked);
   // Activate state below if camera mode switching is needed
   // const [cameraControlMode, setCameraControlMode] = useState<CameraControlMode>('trackball');
 
@@ -590,6 +1095,8 @@ export function MeshViewer() {
         orthographic
         camera={{ zoom: 50, near: 0.1, far: 10000, position: [5, 3, 5] }}
         style={{ width: '100%', height: '100%' }}
+        // Clicking empty space clears the inspected element
+        onPointerMissed={(event) => event.type === 'click' && setPicked(null)}
         gl={{ 
           localClippingEnabled: true,
           logarithmicDepthBuffer: true  // Reduce Z-fighting: more precise depth buffer
@@ -604,7 +1111,8 @@ export function MeshViewer() {
         {/* Grid and default controls (for Idle state) */}
         {status === 'Idle' && (
           <>
-            <gridHelper args={[10, 10, 0x888888, 0xcccccc]} />
+            <UpAxisController upAxis={idleUpAxis} />
+            <gridHelper args={[10, 10, 0x888888, 0xcccccc]} rotation={idleUpAxis === 'z' ? [Math.PI / 2, 0, 0] : [0, 0, 0]} />
             <OrbitControls
               makeDefault
               enableDamping
@@ -4,8 +4,9 @@
 import '@testing-library/jest-dom';
 import { vi } from 'vitest';
 
-// WASM module mock
-vi.mock('@/lib/mesh-core-adapter', () => ({
+// WASM module mock (pure helpers and constants stay real)
+vi.mock('@/lib/mesh-core-adapter', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/mesh-core-adapter')>()),
   createMeshLoader: vi.fn(),
   initCore: vi.fn().mockResolvedValue({ isInitialized: true }),
   MeshLoader: vi.fn(),
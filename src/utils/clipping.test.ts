@@ -12,6 +12,11 @@ import {
   quaternionToEulerDegrees,
   computeGizmoSize,
   computeClippingPlaneExtended,
+  clippingToSlicePlane,
+  computeClipBoxPlanes,
+  computeClippingPlanes,
+  clippingToSlicePlanes,
+  isPointClipped,
   type BoundingBox
 } from './clipping';
 
@@ -167,3 +172,140 @@ describe('computeClippingPlaneExtended', () => {
     expect(plane.normal.z).toBeCloseTo(-1);
   });
 });
+
+describe('clippingToSlicePlane', () => {
+  const bbox: BoundingBox = {
+    min: { x: 0, y: 0, z: 0 },
+    max: { x: 10, y: 10, z: 10 }
+  };
+
+  it('keeps the same half-space as GPU clipping', () => {
+    const clipping = {
+      enabled: true,
+      mode: 'axis' as const,
+      axis: 'x' as const,
+      quaternion: [0, 0, 0, 1] as [number, number, number, number],
+      position: 30,
+      flipped: false
+    };
+    const slicePlane = clippingToSlicePlane(clipping, bbox);
+    const gpuPlane = computeClippingPlaneExtended(clipping, bbox);
+
+    const point = new THREE.Vector3(7, 1, 1);
+    const sliceSide = slicePlane.normal.x * point.x + slicePlane.normal.y * point.y + slicePlane.normal.z * point.z - slicePlane.distance;
+    expect(sliceSide).toBeCloseTo(gpuPlane.distanceToPoint(point));
+    expect(slicePlane.distance).toBeCloseTo(3);
+  });
+
+  it('flips normal and distance together', () => {
+    const clipping = {
+      enabled: true,
+      mode: 'axis' as const,
+      axis: 'x' as const,
+      quaternion: [0, 0, 0, 1] as [number, number, number, number],
+      position: 30,
+      flipped: true
+    };
+    const slicePlane = clippingToSlicePlane(clipping, bbox);
+    expect(slicePlane.normal.x).toBeCloseTo(-1);
+    expect(slicePlane.distance).toBeCloseTo(-3);
+  });
+});
+
+describe('computeClipBoxPlanes', () => {
+  const bbox: BoundingBox = {
+    min: { x: 0, y: 0, z: 0 },
+    max: { x: 10, y: 20, z: 30 }
+  };
+
+  it('keeps only points inside the box', () => {
+    const planes = computeClipBoxPlanes({ min: [10, 25, 0], max: [50, 75, 100] }, bbox);
+    expect(planes).toHaveLength(6);
+
+    const inside = new THREE.Vector3(3, 10, 15);
+    const outside = new THREE.Vector3(6, 10, 15);
+    expect(planes.every((plane) => plane.distanceToPoint(inside) >= 0)).toBe(true);
+    expect(planes.some((plane) => plane.distanceToPoint(outside) < 0)).toBe(true);
+    expect(planes[1].distanceToPoint(new THREE.Vector3(5, 0, 0))).toBeCloseTo(0);
+    expect(planes[2].distanceToPoint(new THREE.Vector3(0, 5, 0))).toBeCloseTo(0);
+  });
+});
+
+describe('computeClippingPlanes', () => {
+  const bbox: BoundingBox = {
+    min: { x: 0, y: 0, z: 0 },
+    max: { x: 10, y: 10, z: 10 }
+  };
+  const base = {
+    enabled: true,
+    mode: 'axis' as const,
+    axis: 'x' as const,
+    quaternion: [0, 0, 0, 1] as [number, number, number, number],
+    position: 30,
+    flipped: false
+  };
+
+  it('appends enabled additional planes after the primary plane', () => {
+    const planes = computeClippingPlanes(
+      {
+        ...base,
+        planes: [
+          { id: 'a', enabled: true, axis: 'y', position: 40, flipped: true },
+          { id: 'b', enabled: false, axis: 'z', position: 50, flipped: false }
+        ]
+      },
+      bbox
+    );
+
+    expect(planes).toHaveLength(2);
+    expect(planes[0].normal.x).toBeCloseTo(1);
+    expect(planes[1].normal.y).toBeCloseTo(-1);
+    expect(planes[1].distanceToPoint(new THREE.Vector3(0, 4, 0))).toBeCloseTo(0);
+  });
+
+  it('replaces the primary plane with the box planes in box mode', () => {
+    const planes = computeClippingPlanes(
+      {
+        ...base,
+        mode: 'box',
+        box: { min: [0, 0, 0], max: [100, 100, 100] },
+        planes: [{ id: 'a', enabled: true, axis: 'y', position: 40, flipped: false }]
+      },
+      bbox
+    );
+    // The box uses every available plane: additional planes are not applied
+    expect(planes).toHaveLength(6);
+  });
+
+  it('converts every plane to a slice plane', () => {
+    const slicePlanes = clippingToSlicePlanes(
+      { ...base, planes: [{ id: 'a', enabled: true, axis: 'z', position: 80, flipped: false }] },
+      bbox
+    );
+    expect(slicePlanes.map((plane) => plane.distance)).toEqual([
+      expect.closeTo(3),
+      expect.closeTo(8)
+    ]);
+  });
+});
+
+describe('isPointClipped', () => {
+  const planes = [
+    new THREE.Plane(new THREE.Vector3(1, 0, 0), -5), // keeps x >= 5
+    new THREE.Plane(new THREE.Vector3(0, 1, 0), -5) // keeps y >= 5
+  ];
+
+  it('clips points behind any plane by default', () => {
+    expect(isPointClipped(new THREE.Vector3(6, 6, 0), planes, false)).toBe(false);
+    expect(isPointClipped(new THREE.Vector3(6, 4, 0), planes, false)).toBe(true);
+  });
+
+  it('clips only points behind every plane with clipIntersection', () => {
+    expect(isPointClipped(new THREE.Vector3(6, 4, 0), planes, true)).toBe(false);
+    expect(isPointClipped(new THREE.Vector3(4, 4, 0), planes, true)).toBe(true);
+  });
+
+  it('clips nothing without planes', () => {
+    expect(isPointClipped(new THREE.Vector3(-100, 0, 0), [], false)).toBe(false);
+  });
+});
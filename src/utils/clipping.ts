@@ -7,7 +7,13 @@
  */
 
 import * as THREE from 'three';
-import type { ClippingState, ClippingAxis } from '@/lib/mesh-core-adapter';
+import type {
+  ClippingState,
+  ClippingAxis,
+  ClippingPlaneEntry,
+  ClipBoxState,
+  SlicePlane
+} from '@/lib/mesh-core-adapter';
 
 /**
  * Bounding box interface
@@ -288,6 +294,159 @@ export function computeClippingPlaneExtended(
   return computeClippingPlane(clipping, bbox);
 }
 
+/**
+ * Convert clipping state to a sliceMesh plane
+ * 
+ * Uses the same plane as GPU clipping so "Apply" keeps exactly
+ * the part of the mesh that is currently visible.
+ * 
+ * @param clipping - Clipping state
+ * @param bbox - Mesh bounding box
+ * @returns Slice plane (keeps `dot(normal, p) >= distance`)
+ * 
+ * @example
+ * ```typescript
+ * const plane = clippingToSlicePlane(clipping, bbox);
+ * const result = await sliceMesh(module, mesh, plane);
+ * ```
+ */
+export function clippingToSlicePlane(
+  clipping: ClippingState,
+  bbox: BoundingBox
+): SlicePlane {
+  const plane = computeClippingPlaneExtended(clipping, bbox);
+  return {
+    normal: { x: plane.normal.x, y: plane.normal.y, z: plane.normal.z },
+    distance: -plane.constant
+  };
+}
+
+/**
+ * Create Three.js Plane for an additional clipping plane entry
+ * 
+ * @param entry - Additional plane (axis-aligned)
+ * @param bbox - Mesh bounding box
+ * @returns Three.js Plane object
+ */
+export function computeEntryPlane(
+  entry: ClippingPlaneEntry,
+  bbox: BoundingBox
+): THREE.Plane {
+  return computeClippingPlane(
+    {
+      enabled: entry.enabled,
+      mode: 'axis',
+      axis: entry.axis,
+      quaternion: [0, 0, 0, 1],
+      position: entry.position,
+      flipped: entry.flipped
+    },
+    bbox
+  );
+}
+
+/**
+ * Create the six inward-facing planes of a clip box
+ * 
+ * Order: x min, x max, y min, y max, z min, z max.
+ * The intersection of their kept half-spaces is the inside of the box.
+ * 
+ * @param box - Clip box extents (0~100% per axis)
+ * @param bbox - Mesh bounding box
+ * @returns Three.js Plane objects
+ */
+export function computeClipBoxPlanes(
+  box: ClipBoxState,
+  bbox: BoundingBox
+): THREE.Plane[] {
+  const axes: ClippingAxis[] = ['x', 'y', 'z'];
+  const planes: THREE.Plane[] = [];
+
+  axes.forEach((axis, i) => {
+    const axisMin = getAxisValue(bbox.min, axis);
+    const axisMax = getAxisValue(bbox.max, axis);
+    const low = axisMin + (box.min[i] / 100) * (axisMax - axisMin);
+    const high = axisMin + (box.max[i] / 100) * (axisMax - axisMin);
+    const normal = new THREE.Vector3(i === 0 ? 1 : 0, i === 1 ? 1 : 0, i === 2 ? 1 : 0);
+
+    planes.push(new THREE.Plane(normal.clone(), -low));
+    planes.push(new THREE.Plane(normal.clone().negate(), high));
+  });
+
+  return planes;
+}
+
+/**
+ * Create all active clipping planes for the clipping state
+ * 
+ * Primary plane (axis/free mode) followed by the enabled additional planes,
+ * or the clip box planes alone (box mode: the box uses every available plane).
+ * 
+ * @param clipping - Clipping state
+ * @param bbox - Mesh bounding box
+ * @returns Three.js Plane objects (combine with `clipping.combine`)
+ * 
+ * @example
+ * ```typescript
+ * material.clippingPlanes = computeClippingPlanes(clipping, bbox);
+ * material.clipIntersection = clipping.combine === 'union';
+ * ```
+ */
+export function computeClippingPlanes(
+  clipping: ClippingState,
+  bbox: BoundingBox
+): THREE.Plane[] {
+  if (clipping.mode === 'box') {
+    // Additional planes are kept for axis/free mode but not applied
+    return computeClipBoxPlanes(clipping.box ?? { min: [0, 0, 0], max: [100, 100, 100] }, bbox);
+  }
+
+  const extra = (clipping.planes ?? [])
+    .filter((entry) => entry.enabled)
+    .map((entry) => computeEntryPlane(entry, bbox));
+
+  return [computeClippingPlaneExtended(clipping, bbox), ...extra];
+}
+
+/**
+ * Whether GPU clipping hides a point
+ * 
+ * Matches `material.clippingPlanes`: points on the negative side of a plane
+ * are clipped; with `clipIntersection` only points behind every plane are.
+ * 
+ * @param point - Point in world coordinates
+ * @param planes - Active clipping planes (none: nothing is clipped)
+ * @param clipIntersection - Material `clipIntersection` flag (union combine mode)
+ */
+export function isPointClipped(
+  point: THREE.Vector3,
+  planes: THREE.Plane[],
+  clipIntersection: boolean
+): boolean {
+  if (planes.length === 0) {
+    return false;
+  }
+  const behind = (plane: THREE.Plane) => plane.distanceToPoint(point) < 0;
+  return clipIntersection ? planes.every(behind) : planes.some(behind);
+}
+
+/**
+ * Convert all active clipping planes to sliceMesh planes
+ * 
+ * @param clipping - Clipping state
+ * @param bbox - Mesh bounding box
+ * @returns Slice planes in the same order as `computeClippingPlanes`
+ */
+export function clippingToSlicePlanes(
+  clipping: ClippingState,
+  bbox: BoundingBox
+): SlicePlane[] {
+  return computeClippingPlanes(clipping, bbox).map((plane) => ({
+    normal: { x: plane.normal.x, y: plane.normal.y, z: plane.normal.z },
+    distance: -plane.constant
+  }));
+}
+
 /**
  * Calculate gizmo size
  * 
@@ -0,0 +1,150 @@
+/**
+ * Cross-section utility function tests
+ * 
+ * @module utils/cross-section.test
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { ClippingState } from '@/lib/mesh-core-adapter';
+import type { BoundingBox } from './clipping';
+import {
+  computeCrossSection,
+  crossSectionToSvg,
+  crossSectionToDxf
+} from './cross-section';
+
+// Box triangles with outward-facing counter-clockwise winding
+const BOX_INDICES = [
+  0, 2, 1, 0, 3, 2,
+  4, 5, 6, 4, 6, 7,
+  0, 1, 5, 0, 5, 4,
+  3, 7, 6, 3, 6, 2,
+  0, 4, 7, 0, 7, 3,
+  1, 2, 6, 1, 6, 5
+];
+
+function boxVertices(min: number, max: number): number[] {
+  return [
+    min, min, min, max, min, min, max, max, min, min, max, min,
+    min, min, max, max, min, max, max, max, max, min, max, max
+  ];
+}
+
+/** Box [-1,1]^3 with an inward-facing cavity [-0.5,0.5]^3 */
+function hollowBox() {
+  const inner = BOX_INDICES.map((i) => i + 8);
+  for (let i = 0; i < inner.length; i += 3) {
+    [inner[i + 1], inner[i + 2]] = [inner[i + 2], inner[i + 1]];
+  }
+  return {
+    vertices: new Float64Array([...boxVertices(-1, 1), ...boxVertices(-0.5, 0.5)]),
+    indices: new Uint32Array([...BOX_INDICES, ...inner])
+  };
+}
+
+const bbox: BoundingBox = {
+  min: { x: -1, y: -1, z: -1 },
+  max: { x: 1, y: 1, z: 1 }
+};
+
+const zClipping: ClippingState = {
+  enabled: true,
+  mode: 'axis',
+  axis: 'z',
+  quaternion: [0, 0, 0, 1],
+  position: 50,
+  flipped: false
+};
+
+describe('computeCrossSection', () => {
+  it('extracts a closed square loop through a box', () => {
+    const section = computeCrossSection(
+      new Float64Array(boxVertices(-1, 1)),
+      new Uint32Array(BOX_INDICES),
+      zClipping,
+      bbox
+    );
+
+    expect(section.loops).toHaveLength(1);
+    const [loop] = section.loops;
+    expect(loop.closed).toBe(true);
+    expect(loop.area).toBeCloseTo(4);
+    expect(loop.perimeter).toBeCloseTo(8);
+    for (const [u, v] of loop.points) {
+      expect(Math.max(Math.abs(u), Math.abs(v))).toBeCloseTo(1);
+    }
+    for (let i = 2; i < loop.worldPoints.length; i += 3) {
+      expect(loop.worldPoints[i]).toBeCloseTo(0);
+    }
+  });
+
+  it('closes loops through triangle soups (3 vertices per face, as in STL)', () => {
+    const box = boxVertices(-1, 1);
+    const vertices = new Float64Array(BOX_INDICES.flatMap((i) => box.slice(i * 3, i * 3 + 3)));
+    const indices = new Uint32Array(BOX_INDICES.map((_, i) => i));
+    const section = computeCrossSection(vertices, indices, zClipping, bbox);
+
+    expect(section.loops).toHaveLength(1);
+    expect(section.loops[0].closed).toBe(true);
+    expect(section.totalArea).toBeCloseTo(4);
+    expect(section.totalPerimeter).toBeCloseTo(8);
+  });
+
+  it('reports holes with negative area', () => {
+    const { vertices, indices } = hollowBox();
+    const section = computeCrossSection(vertices, indices, { ...zClipping, axis: 'x' }, bbox);
+
+    const areas = section.loops.map((loop) => loop.area).sort((a, b) => a - b);
+    expect(areas[0]).toBeCloseTo(-1);
+    expect(areas[1]).toBeCloseTo(4);
+    expect(section.totalArea).toBeCloseTo(3);
+    expect(section.totalPerimeter).toBeCloseTo(12);
+  });
+
+  it('returns open chains for open meshes', () => {
+    // Single quad strip crossing z = 0
+    const vertices = new Float64Array([0, 0, -1, 1, 0, -1, 1, 0, 1, 0, 0, 1]);
+    const indices = new Uint32Array([0, 1, 2, 0, 2, 3]);
+    const section = computeCrossSection(vertices, indices, zClipping, bbox);
+
+    expect(section.loops).toHaveLength(1);
+    expect(section.loops[0].closed).toBe(false);
+    expect(section.loops[0].area).toBe(0);
+    expect(section.loops[0].perimeter).toBeCloseTo(1);
+  });
+
+  it('returns no loops when the plane misses the mesh', () => {
+    const section = computeCrossSection(
+      new Float64Array(boxVertices(-1, 1)),
+      new Uint32Array(BOX_INDICES),
+      { ...zClipping, position: 100 },
+      { min: { x: -1, y: -1, z: -1 }, max: { x: 1, y: 1, z: 3 } }
+    );
+
+    expect(section.loops).toHaveLength(0);
+  });
+});
+
+describe('cross-section export', () => {
+  const section = computeCrossSection(
+    new Float64Array(boxVertices(-1, 1)),
+    new Uint32Array(BOX_INDICES),
+    zClipping,
+    bbox
+  );
+
+  it('writes a closed SVG path', () => {
+    const svg = crossSectionToSvg(section);
+    expect(svg).toContain('<svg xmlns="http://www.w3.org/2000/svg"');
+    expect(svg).toMatch(/<path d="M[^"]+ Z"/);
+    expect(svg).toContain('fill-rule="evenodd"');
+  });
+
+  it('writes closed DXF polylines', () => {
+    const dxf = crossSectionToDxf(section).split('\n');
+    expect(dxf.slice(0, 4)).toEqual(['0', 'SECTION', '2', 'ENTITIES']);
+    expect(dxf.filter((line) => line === 'VERTEX')).toHaveLength(section.loops[0].points.length);
+    expect(dxf[dxf.indexOf('70') + 1]).toBe('1');
+    expect(dxf.slice(-3)).toEqual(['0', 'EOF', '']);
+  });
+});
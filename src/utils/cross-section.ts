@@ -0,0 +1,414 @@
+/**
+ * Cross-section utility functions
+ *
+ * Extracts the contour where the current clipping plane intersects the mesh
+ * and serializes it to 2D formats (SVG, DXF).
+ *
+ * Plane-local 2D frame:
+ * - u: local X axis of the clipping plane (follows the gizmo rotation)
+ * - v: normal × u, so (u, v, normal) is right-handed
+ * - origin: bounding box center projected onto the plane
+ *
+ * @module utils/cross-section
+ */
+
+import * as THREE from 'three';
+import type { ClippingState } from '@/lib/mesh-core-adapter';
+import {
+  axisToQuaternion,
+  computeClippingPlaneExtended,
+  type BoundingBox
+} from './clipping';
+
+/**
+ * Cross-section contour loop
+ */
+export interface ContourLoop {
+  /** Plane-local 2D points [u, v] */
+  points: [number, number][];
+  /** World-space points (x, y, z interleaved) */
+  worldPoints: Float32Array;
+  /** Whether the loop is closed */
+  closed: boolean;
+  /**
+   * Signed area in the plane frame (closed loops only, 0 for open)
+   *
+   * For consistently oriented closed meshes, outer boundaries are positive
+   * and holes are negative.
+   */
+  area: number;
+  /** Loop length (including the closing segment for closed loops) */
+  perimeter: number;
+}
+
+/**
+ * Cross-section result
+ */
+export interface CrossSection {
+  /** Contour loops */
+  loops: ContourLoop[];
+  /** Clipping plane (same as GPU clipping) */
+  plane: THREE.Plane;
+  /** Plane-local frame origin (world) */
+  origin: THREE.Vector3;
+  /** Plane-local X axis (world) */
+  u: THREE.Vector3;
+  /** Plane-local Y axis (world) */
+  v: THREE.Vector3;
+  /** Net area (sum of signed loop areas) */
+  totalArea: number;
+  /** Sum of loop perimeters */
+  totalPerimeter: number;
+}
+
+/** Relative tolerance for "vertex lies on the plane" (scaled by bbox diagonal) */
+const ON_PLANE_TOLERANCE = 1e-9;
+
+// ============================================================================
+// Extraction
+// ============================================================================
+
+interface ContourSegment {
+  from: string;
+  to: string;
+}
+
+/**
+ * Extract the cross-section contour of a mesh for the current clipping state
+ *
+ * Segments are oriented by `normal × faceNormal`, then chained into loops.
+ *
+ * @param vertices - Vertex positions (x, y, z interleaved)
+ * @param indices - Triangle indices
+ * @param clipping - Clipping state
+ * @param bbox - Mesh bounding box
+ * @param options.candidates - Faces that may touch the plane within the tolerance, in
+ *   ascending order (e.g. from a BVH plane query); all faces are scanned when omitted
+ * @returns Cross-section loops in plane-local and world coordinates
+ *
+ * @example
+ * ```typescript
+ * const section = computeCrossSection(buffers.vertexView, buffers.indexView, clipping, bbox);
+ * console.log(section.loops.length, section.totalArea);
+ * ```
+ */
+export function computeCrossSection(
+  vertices: ArrayLike<number>,
+  indices: ArrayLike<number>,
+  clipping: ClippingState,
+  bbox: BoundingBox,
+  options: { candidates?: (plane: THREE.Plane, tolerance: number) => ArrayLike<number> } = {}
+): CrossSection {
+  const plane = computeClippingPlaneExtended(clipping, bbox);
+  const normal = plane.normal;
+
+  // Plane-local frame
+  const quaternion = new THREE.Quaternion(
+    ...(clipping.mode === 'free' ? clipping.quaternion : axisToQuaternion(clipping.axis))
+  );
+  const u = new THREE.Vector3(1, 0, 0).applyQuaternion(quaternion);
+  u.addScaledVector(normal, -u.dot(normal)).normalize();
+  const v = new THREE.Vector3().crossVectors(normal, u).normalize();
+  const center = new THREE.Vector3(
+    (bbox.min.x + bbox.max.x) / 2,
+    (bbox.min.y + bbox.max.y) / 2,
+    (bbox.min.z + bbox.max.z) / 2
+  );
+  const origin = plane.projectPoint(center, new THREE.Vector3());
+
+  const diagonal = new THREE.Vector3(
+    bbox.max.x - bbox.min.x,
+    bbox.max.y - bbox.min.y,
+    bbox.max.z - bbox.min.z
+  ).length();
+  const tolerance = ON_PLANE_TOLERANCE * Math.max(1, diagonal);
+
+  // Signed distances
+  const vertexCount = Math.floor(vertices.length / 3);
+  const distances = new Float64Array(vertexCount);
+  for (let i = 0; i < vertexCount; i++) {
+    const d = normal.x * vertices[i * 3] + normal.y * vertices[i * 3 + 1] + normal.z * vertices[i * 3 + 2] + plane.constant;
+    distances[i] = Math.abs(d) <= tolerance ? 0 : d;
+  }
+
+  // Vertices welded by exact position, so triangle soups (STL) chain like indexed meshes
+  const welded = new Map<string, number>();
+  const weld = (i: number): number => {
+    const position = `${vertices[i * 3]},${vertices[i * 3 + 1]},${vertices[i * 3 + 2]}`;
+    const first = welded.get(position);
+    if (first !== undefined) {
+      return first;
+    }
+    welded.set(position, i);
+    return i;
+  };
+
+  // Contour points, keyed by the (welded) mesh feature they come from
+  const positions = new Map<string, THREE.Vector3>();
+  const vertexPoint = (vertex: number): string => {
+    const i = weld(vertex);
+    const key = `v${i}`;
+    if (!positions.has(key)) {
+      positions.set(key, new THREE.Vector3(vertices[i * 3], vertices[i * 3 + 1], vertices[i * 3 + 2]));
+    }
+    return key;
+  };
+  const edgePoint = (i: number, j: number): string => {
+    const a = Math.min(weld(i), weld(j));
+    const b = Math.max(weld(i), weld(j));
+    const key = `e${a}:${b}`;
+    if (!positions.has(key)) {
+      const t = distances[a] / (distances[a] - distances[b]);
+      positions.set(key, new THREE.Vector3(
+        vertices[a * 3] + t * (vertices[b * 3] - vertices[a * 3]),
+        vertices[a * 3 + 1] + t * (vertices[b * 3 + 1] - vertices[a * 3 + 1]),
+        vertices[a * 3 + 2] + t * (vertices[b * 3 + 2] - vertices[a * 3 + 2])
+      ));
+    }
+    return key;
+  };
+
+  const segments: ContourSegment[] = [];
+  const seen = new Set<string>();
+  const pa = new THREE.Vector3();
+  const pb = new THREE.Vector3();
+  const pc = new THREE.Vector3();
+  const faceNormal = new THREE.Vector3();
+  const direction = new THREE.Vector3();
+  const faces = options.candidates?.(plane, tolerance);
+  const faceCount = faces ? faces.length : Math.floor(indices.length / 3);
+
+  for (let n = 0; n < faceCount; n++) {
+    const f = faces ? faces[n] : n;
+    const tri = [indices[f * 3], indices[f * 3 + 1], indices[f * 3 + 2]];
+    const d = tri.map((i) => distances[i]);
+    const points: string[] = [];
+
+    for (let k = 0; k < 3; k++) {
+      const next = (k + 1) % 3;
+      if (d[k] === 0) {
+        points.push(vertexPoint(tri[k]));
+      } else if (d[next] !== 0 && (d[k] > 0) !== (d[next] > 0)) {
+        points.push(edgePoint(tri[k], tri[next]));
+      }
+    }
+
+    // Coplanar faces and single-point touches don't contribute
+    if (points.length !== 2) {
+      continue;
+    }
+    // An edge lying in the plane is shared by two faces: count it once
+    const onPlaneEdge = points[0][0] === 'v' && points[1][0] === 'v';
+    const undirected = points[0] < points[1] ? `${points[0]}|${points[1]}` : `${points[1]}|${points[0]}`;
+    if (onPlaneEdge && seen.has(undirected)) {
+      continue;
+    }
+    seen.add(undirected);
+
+    pa.set(vertices[tri[0] * 3], vertices[tri[0] * 3 + 1], vertices[tri[0] * 3 + 2]);
+    pb.set(vertices[tri[1] * 3], vertices[tri[1] * 3 + 1], vertices[tri[1] * 3 + 2]);
+    pc.set(vertices[tri[2] * 3], vertices[tri[2] * 3 + 1], vertices[tri[2] * 3 + 2]);
+    faceNormal.subVectors(pb, pa).cross(pc.sub(pa));
+    direction.crossVectors(normal, faceNormal);
+
+    const from = positions.get(points[0])!;
+    const to = positions.get(points[1])!;
+    const forward = to.clone().sub(from).dot(direction) >= 0;
+    segments.push(forward ? { from: points[0], to: points[1] } : { from: points[1], to: points[0] });
+  }
+
+  const loops = chainSegments(segments).map((keys) => {
+    const closed = keys.length > 2 && keys[0] === keys[keys.length - 1];
+    const path = closed ? keys.slice(0, -1) : keys;
+    return buildLoop(path.map((key) => positions.get(key)!), closed, origin, u, v);
+  });
+
+  return {
+    loops,
+    plane,
+    origin,
+    u,
+    v,
+    totalArea: loops.reduce((sum, loop) => sum + loop.area, 0),
+    totalPerimeter: loops.reduce((sum, loop) => sum + loop.perimeter, 0)
+  };
+}
+
+/**
+ * Chain segments into polylines
+ *
+ * Open chains are walked from their free ends first; the remaining segments
+ * form closed loops (returned with the start key repeated at the end).
+ */
+function chainSegments(segments: ContourSegment[]): string[][] {
+  const adjacency = new Map<string, number[]>();
+  const link = (key: string, segment: number) => {
+    const list = adjacency.get(key);
+    if (list) {
+      list.push(segment);
+    } else {
+      adjacency.set(key, [segment]);
+    }
+  };
+  segments.forEach((segment, index) => {
+    link(segment.from, index);
+    link(segment.to, index);
+  });
+
+  const used = new Uint8Array(segments.length);
+  const walk = (start: string, first: number): string[] => {
+    const chain = [start];
+    let current = start;
+    let segmentIndex: number | undefined = first;
+    while (segmentIndex !== undefined) {
+      used[segmentIndex] = 1;
+      const segment = segments[segmentIndex];
+      current = segment.from === current ? segment.to : segment.from;
+      chain.push(current);
+      segmentIndex = adjacency.get(current)?.find((index) => !used[index]);
+      if (current === start) {
+        break;
+      }
+    }
+    return chain;
+  };
+
+  const chains: string[][] = [];
+
+  // Open chains: start at free ends, preferring the segment's own direction
+  for (const [key, list] of adjacency) {
+    if (list.length !== 1 || used[list[0]]) {
+      continue;
+    }
+    const chain = walk(key, list[0]);
+    chains.push(segments[list[0]].from === key ? chain : chain.reverse());
+  }
+
+  // Closed loops: follow segment direction
+  segments.forEach((segment, index) => {
+    if (!used[index]) {
+      chains.push(walk(segment.from, index));
+    }
+  });
+
+  return chains;
+}
+
+function buildLoop(
+  worldPoints: THREE.Vector3[],
+  closed: boolean,
+  origin: THREE.Vector3,
+  u: THREE.Vector3,
+  v: THREE.Vector3
+): ContourLoop {
+  const offset = new THREE.Vector3();
+  const points = worldPoints.map((p): [number, number] => {
+    offset.subVectors(p, origin);
+    return [offset.dot(u), offset.dot(v)];
+  });
+
+  let perimeter = 0;
+  let area = 0;
+  const segmentCount = closed ? points.length : points.length - 1;
+  for (let i = 0; i < segmentCount; i++) {
+    const [x0, y0] = points[i];
+    const [x1, y1] = points[(i + 1) % points.length];
+    perimeter += Math.hypot(x1 - x0, y1 - y0);
+    if (closed) {
+      area += x0 * y1 - x1 * y0;
+    }
+  }
+
+  const flat = new Float32Array(worldPoints.length * 3);
+  worldPoints.forEach((p, i) => p.toArray(flat, i * 3));
+
+  return { points, worldPoints: flat, closed, area: area / 2, perimeter };
+}
+
+// ============================================================================
+// Export
+// ============================================================================
+
+/**
+ * Serialize a cross-section to SVG
+ *
+ * Uses plane-local coordinates with the v axis pointing up.
+ * Closed loops are filled with the even-odd rule so holes stay open.
+ *
+ * @param section - Cross-section
+ * @returns SVG document
+ */
+export function crossSectionToSvg(section: CrossSection): string {
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+  for (const loop of section.loops) {
+    for (const [x, y] of loop.points) {
+      minX = Math.min(minX, x);
+      maxX = Math.max(maxX, x);
+      minY = Math.min(minY, -y);
+      maxY = Math.max(maxY, -y);
+    }
+  }
+  if (!Number.isFinite(minX)) {
+    minX = minY = maxX = maxY = 0;
+  }
+
+  const width = maxX - minX;
+  const height = maxY - minY;
+  const margin = Math.max(width, height) * 0.02 || 1;
+  const strokeWidth = Math.max(width, height) * 0.002 || 0.01;
+  const viewBox = [minX - margin, minY - margin, width + margin * 2, height + margin * 2].map(formatNumber).join(' ');
+
+  const closedPath = section.loops
+    .filter((loop) => loop.closed)
+    .map((loop) => pathData(loop) + ' Z')
+    .join(' ');
+  const openPaths = section.loops
+    .filter((loop) => !loop.closed)
+    .map((loop) => `  <path d="${pathData(loop)}" fill="none"/>`);
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<svg xmlns="http://www.w3.org/2000/svg" viewBox="${viewBox}">`,
+    `  <desc>area=${formatNumber(section.totalArea)} perimeter=${formatNumber(section.totalPerimeter)}</desc>`,
+    `  <g stroke="#000" stroke-width="${formatNumber(strokeWidth)}">`,
+    ...(closedPath ? [`  <path d="${closedPath}" fill="#3b82f6" fill-opacity="0.3" fill-rule="evenodd"/>`] : []),
+    ...openPaths,
+    '  </g>',
+    '</svg>',
+    ''
+  ].join('\n');
+}
+
+/**
+ * Serialize a cross-section to DXF (R12 ASCII, POLYLINE entities)
+ *
+ * @param section - Cross-section
+ * @returns DXF document
+ */
+export function crossSectionToDxf(section: CrossSection): string {
+  const lines: string[] = ['0', 'SECTION', '2', 'ENTITIES'];
+
+  for (const loop of section.loops) {
+    lines.push('0', 'POLYLINE', '8', 'CONTOUR', '66', '1', '70', loop.closed ? '1' : '0');
+    for (const [x, y] of loop.points) {
+      lines.push('0', 'VERTEX', '8', 'CONTOUR', '10', formatNumber(x), '20', formatNumber(y), '30', '0');
+    }
+    lines.push('0', 'SEQEND', '8', 'CONTOUR');
+  }
+
+  lines.push('0', 'ENDSEC', '0', 'EOF');
+  return lines.join('\n') + '\n';
+}
+
+function pathData(loop: ContourLoop): string {
+  return loop.points
+    .map(([x, y], i) => `${i === 0 ? 'M' : 'L'}${formatNumber(x)} ${formatNumber(-y)}`)
+    .join(' ');
+}
+
+function formatNumber(value: number): string {
+  return String(Number(value.toPrecision(10)));
+}
@@ -0,0 +1,28 @@
+/**
+ * Download utility functions
+ * 
+ * @module utils/download
+ */
+
+/**
+ * Save a Blob as a file through a temporary object URL
+ * 
+ * @param blob - File content
+ * @param fileName - Suggested file name
+ * 
+ * @example
+ * ```typescript
+ * downloadBlob(new Blob([svg], { type: 'image/svg+xml' }), 'bunny-section.svg');
+ * ```
+ */
+export function downloadBlob(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob);
+  const anchor = document.createElement('a');
+  anchor.href = url;
+  anchor.download = fileName;
+  document.body.appendChild(anchor);
+  anchor.click();
+  anchor.remove();
+  // Revoke after the click has been dispatched
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
@@ -0,0 +1,99 @@
+/**
+ * Measurement utility function tests
+ *
+ * @module utils/measurement.test
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  snapToTriangle,
+  measureDistance,
+  measureAngle,
+  circleThroughPoints,
+  evaluateMeasurement
+} from './measurement';
+
+const triangle: [[number, number, number], [number, number, number], [number, number, number]] = [
+  [0, 0, 0],
+  [10, 0, 0],
+  [0, 10, 0]
+];
+
+describe('snapToTriangle', () => {
+  it('auto mode snaps to a vertex within the tolerance', () => {
+    expect(snapToTriangle([9.6, 0.2, 0], triangle, 'auto', 0.5)).toEqual({ position: [10, 0, 0], snap: 'vertex' });
+  });
+
+  it('auto mode snaps to an edge when no vertex is close', () => {
+    expect(snapToTriangle([4, 0.3, 0], triangle, 'auto', 0.5)).toEqual({ position: [4, 0, 0], snap: 'edge' });
+  });
+
+  it('auto mode keeps the face point away from vertices and edges', () => {
+    expect(snapToTriangle([3, 3, 0], triangle, 'auto', 0.5)).toEqual({ position: [3, 3, 0], snap: 'face' });
+  });
+
+  it('forced modes ignore the tolerance', () => {
+    expect(snapToTriangle([3, 3, 0], triangle, 'vertex', 0).snap).toBe('vertex');
+    expect(snapToTriangle([3, 2, 0], triangle, 'edge', 0).position).toEqual([3, 0, 0]);
+    expect(snapToTriangle([0.1, 0.1, 0], triangle, 'face', 1).position).toEqual([0.1, 0.1, 0]);
+  });
+});
+
+describe('measureDistance', () => {
+  it('returns the length and per-axis deltas', () => {
+    const { distance, delta } = measureDistance([1, 2, 3], [4, 6, 3]);
+    expect(distance).toBeCloseTo(5);
+    expect(delta).toEqual([3, 4, 0]);
+  });
+});
+
+describe('measureAngle', () => {
+  it('measures the angle at the middle point', () => {
+    expect(measureAngle([1, 0, 0], [0, 0, 0], [0, 1, 0])).toBeCloseTo(90);
+    expect(measureAngle([1, 0, 0], [0, 0, 0], [1, 1, 0])).toBeCloseTo(45);
+    expect(measureAngle([1, 0, 0], [0, 0, 0], [-1, 1e-9, 0])).toBeCloseTo(180);
+  });
+
+  it('returns 0 for a zero-length leg', () => {
+    expect(measureAngle([0, 0, 0], [0, 0, 0], [1, 0, 0])).toBe(0);
+  });
+});
+
+describe('circleThroughPoints', () => {
+  it('finds the circle through three points in any plane', () => {
+    const circle = circleThroughPoints([5, 0, 2], [0, 5, 2], [-5, 0, 2]);
+    expect(circle).not.toBeNull();
+    circle!.center.forEach((value, i) => expect(value).toBeCloseTo([0, 0, 2][i]));
+    expect(circle!.radius).toBeCloseTo(5);
+    expect(Math.abs(circle!.normal[2])).toBeCloseTo(1);
+
+    // Tilted plane: unit circle points rotated about X by 45°
+    const c = Math.SQRT1_2;
+    const tilted = circleThroughPoints([1, 0, 0], [0, c, c], [-1, 0, 0]);
+    expect(tilted!.radius).toBeCloseTo(1);
+  });
+
+  it('returns null for collinear points', () => {
+    expect(circleThroughPoints([0, 0, 0], [1, 1, 1], [2, 2, 2])).toBeNull();
+  });
+});
+
+describe('evaluateMeasurement', () => {
+  const point = (position: [number, number, number]) => ({ position, assetId: 'a', snap: 'vertex' as const });
+
+  it('evaluates each kind', () => {
+    expect(evaluateMeasurement({ kind: 'distance', points: [point([0, 0, 0]), point([0, 3, 4])] })).toMatchObject({
+      kind: 'distance',
+      distance: 5
+    });
+    expect(
+      evaluateMeasurement({ kind: 'angle', points: [point([1, 0, 0]), point([0, 0, 0]), point([0, 0, 1])] })
+    ).toMatchObject({ kind: 'angle', degrees: 90 });
+    expect(
+      evaluateMeasurement({ kind: 'radius', points: [point([2, 0, 0]), point([0, 2, 0]), point([-2, 0, 0])] })
+    ).toMatchObject({ kind: 'radius', radius: 2, diameter: 4 });
+    expect(
+      evaluateMeasurement({ kind: 'radius', points: [point([0, 0, 0]), point([1, 0, 0]), point([2, 0, 0])] })
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,207 @@
+/**
+ * Measurement utility functions
+ *
+ * Point snapping on picked triangles and the geometry of the measurement
+ * tools (distance, angle, circle through three points).
+ *
+ * @module utils/measurement
+ */
+
+import type {
+  Measurement,
+  MeasurementKind,
+  MeasurementSnap,
+  MeasurementSnapMode
+} from '@/lib/mesh-core-adapter';
+import { formatMeasure } from '@/lib/mesh-core-adapter';
+
+type Vec3 = [number, number, number];
+
+/** Points each measurement kind needs */
+export const MEASUREMENT_POINT_COUNT: Record<MeasurementKind, number> = {
+  distance: 2,
+  angle: 3,
+  radius: 3
+};
+
+/**
+ * Measured values of a measurement
+ */
+export type MeasurementValue =
+  | { kind: 'distance'; distance: number; delta: Vec3 }
+  | { kind: 'angle'; degrees: number }
+  | { kind: 'radius'; radius: number; diameter: number; center: Vec3; normal: Vec3 };
+
+function sub(a: Vec3, b: Vec3): Vec3 {
+  return [a[0] - b[0], a[1] - b[1], a[2] - b[2]];
+}
+
+function dot(a: Vec3, b: Vec3): number {
+  return a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+}
+
+function cross(a: Vec3, b: Vec3): Vec3 {
+  return [a[1] * b[2] - a[2] * b[1], a[2] * b[0] - a[0] * b[2], a[0] * b[1] - a[1] * b[0]];
+}
+
+function length(a: Vec3): number {
+  return Math.sqrt(dot(a, a));
+}
+
+/**
+ * Closest point to `p` on the segment a-b
+ */
+function closestOnSegment(p: Vec3, a: Vec3, b: Vec3): Vec3 {
+  const ab = sub(b, a);
+  const lengthSq = dot(ab, ab);
+  const t = lengthSq > 0 ? Math.min(1, Math.max(0, dot(sub(p, a), ab) / lengthSq)) : 0;
+  return [a[0] + ab[0] * t, a[1] + ab[1] * t, a[2] + ab[2] * t];
+}
+
+/**
+ * Snaps a picked point to the hit triangle.
+ *
+ * @param hit - Picked point on the triangle
+ * @param triangle - Triangle corners (same coordinates as `hit`)
+ * @param mode - 'vertex'/'edge'/'face' force the target; 'auto' takes the nearest
+ *   vertex, then the nearest edge point within `tolerance`, else the face point
+ * @param tolerance - Snap distance for 'auto' (e.g. a few pixels in scene units)
+ */
+export function snapToTriangle(
+  hit: Vec3,
+  triangle: [Vec3, Vec3, Vec3],
+  mode: MeasurementSnapMode,
+  tolerance: number
+): { position: Vec3; snap: MeasurementSnap } {
+  if (mode === 'face') {
+    return { position: hit, snap: 'face' };
+  }
+
+  let vertex = triangle[0];
+  for (const corner of triangle) {
+    if (length(sub(corner, hit)) < length(sub(vertex, hit))) {
+      vertex = corner;
+    }
+  }
+  if (mode === 'vertex' || (mode === 'auto' && length(sub(vertex, hit)) <= tolerance)) {
+    return { position: [...vertex], snap: 'vertex' };
+  }
+
+  let edge = closestOnSegment(hit, triangle[0], triangle[1]);
+  for (const [a, b] of [[triangle[1], triangle[2]], [triangle[2], triangle[0]]]) {
+    const candidate = closestOnSegment(hit, a, b);
+    if (length(sub(candidate, hit)) < length(sub(edge, hit))) {
+      edge = candidate;
+    }
+  }
+  if (mode === 'edge' || length(sub(edge, hit)) <= tolerance) {
+    return { position: edge, snap: 'edge' };
+  }
+
+  return { position: hit, snap: 'face' };
+}
+
+/**
+ * Distance between two points with the per-axis deltas (b - a)
+ */
+export function measureDistance(a: Vec3, b: Vec3): { distance: number; delta: Vec3 } {
+  const delta = sub(b, a);
+  return { distance: length(delta), delta };
+}
+
+/**
+ * Angle a-vertex-c in degrees (0 when a leg has zero length)
+ */
+export function measureAngle(a: Vec3, vertex: Vec3, c: Vec3): number {
+  const u = sub(a, vertex);
+  const v = sub(c, vertex);
+  const lengths = length(u) * length(v);
+  if (lengths === 0) {
+    return 0;
+  }
+  // atan2 stays accurate near 0° and 180°, where acos loses precision
+  return (Math.atan2(length(cross(u, v)), dot(u, v)) * 180) / Math.PI;
+}
+
+/**
+ * Circle through three points
+ *
+ * @returns Center, radius and unit normal; null when the points are collinear
+ */
+export function circleThroughPoints(a: Vec3, b: Vec3, c: Vec3): { center: Vec3; radius: number; normal: Vec3 } | null {
+  const ab = sub(b, a);
+  const ac = sub(c, a);
+  const n = cross(ab, ac);
+  const nLengthSq = dot(n, n);
+  const scale = Math.max(dot(ab, ab), dot(ac, ac));
+  if (nLengthSq <= 1e-24 * scale * scale || scale === 0) {
+    return null;
+  }
+
+  // Circumcenter: a + (|ac|² (n × ab) + |ab|² (ac × n)) / (2 |n|²)
+  const left = cross(n, ab);
+  const right = cross(ac, n);
+  const acSq = dot(ac, ac);
+  const abSq = dot(ab, ab);
+  const offset: Vec3 = [
+    (acSq * left[0] + abSq * right[0]) / (2 * nLengthSq),
+    (acSq * left[1] + abSq * right[1]) / (2 * nLengthSq),
+    (acSq * left[2] + abSq * right[2]) / (2 * nLengthSq)
+  ];
+  const nLength = Math.sqrt(nLengthSq);
+  return {
+    center: [a[0] + offset[0], a[1] + offset[1], a[2] + offset[2]],
+    radius: length(offset),
+    normal: [n[0] / nLength, n[1] / nLength, n[2] / nLength]
+  };
+}
+
+/**
+ * Measured values of a completed measurement
+ *
+ * @returns null for collinear radius points
+ */
+export function evaluateMeasurement(measurement: Pick<Measurement, 'kind' | 'points'>): MeasurementValue | null {
+  const [a, b, c] = measurement.points.map((point) => point.position);
+  switch (measurement.kind) {
+    case 'distance':
+      return { kind: 'distance', ...measureDistance(a, b) };
+    case 'angle':
+      return { kind: 'angle', degrees: measureAngle(a, b, c) };
+    case 'radius': {
+      const circle = circleThroughPoints(a, b, c);
+      return circle && { kind: 'radius', ...circle, diameter: circle.radius * 2 };
+    }
+  }
+}
+
+/**
+ * Formats measured values for display
+ *
+ * @param value - Measured values (scene units)
+ * @param factor - Length factor into the display unit
+ * @param unit - Display unit label (none when omitted)
+ * @returns Main value and a detail line (axis deltas, diameter)
+ */
+export function formatMeasurementValue(
+  value: MeasurementValue | null,
+  factor = 1,
+  unit?: string
+): { value: string; detail: string } {
+  if (!value) {
+    return { value: '—', detail: 'Points are collinear' };
+  }
+  switch (value.kind) {
+    case 'distance': {
+      const [dx, dy, dz] = value.delta.map((d) => formatMeasure(d * factor, undefined));
+      return { value: formatMeasure(value.distance * factor, unit), detail: `Δx ${dx}  Δy ${dy}  Δz ${dz}` };
+    }
+    case 'angle':
+      return { value: `${value.degrees.toFixed(2)}°`, detail: '' };
+    case 'radius':
+      return {
+        value: `R ${formatMeasure(value.radius * factor, unit)}`,
+        detail: `⌀ ${formatMeasure(value.diameter * factor, unit)}`
+      };
+  }
+}
@@ -0,0 +1,32 @@
+/**
+ * Scene placement utilities
+ * 
+ * Conversions of per-asset scene transforms (degrees, uniform scale) to Three.js.
+ * 
+ * @module utils/scene-transform
+ */
+
+import * as THREE from 'three';
+import type { SceneTransform } from '@/lib/mesh-core-adapter';
+
+/**
+ * XYZ Euler angles of a scene transform in radians
+ */
+export function toEulerRadians(rotation: SceneTransform['rotation']): [number, number, number] {
+  return [
+    THREE.MathUtils.degToRad(rotation[0]),
+    THREE.MathUtils.degToRad(rotation[1]),
+    THREE.MathUtils.degToRad(rotation[2])
+  ];
+}
+
+/**
+ * Local-to-scene matrix of a scene transform (same order as the rendered group)
+ */
+export function sceneTransformMatrix({ position, rotation, scale }: SceneTransform): THREE.Matrix4 {
+  return new THREE.Matrix4().compose(
+    new THREE.Vector3(...position),
+    new THREE.Quaternion().setFromEuler(new THREE.Euler(...toEulerRadians(rotation))),
+    new THREE.Vector3(scale, scale, scale)
+  );
+}